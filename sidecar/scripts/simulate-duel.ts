@@ -14,6 +14,7 @@ import 'dotenv/config';
 import { Keypair } from '@solana/web3.js';
 import bs58 from 'bs58';
 import nacl from 'tweetnacl';
+import { randomUUID } from 'crypto';
 
 // ============================================================================
 // Configuration
@@ -27,6 +28,9 @@ const STAKE_AMOUNT_SOL = 0.1; // Small amount for testing
 const PLAYER_1_SECRET = process.env.PLAYER_1_SECRET;
 const PLAYER_2_SECRET = process.env.PLAYER_2_SECRET;
 
+// Game server signing key (its public key must be in the sidecar's GAME_SERVER_PUBLIC_KEYS)
+const GAME_SERVER_SECRET = process.env.GAME_SERVER_SECRET;
+
 // ============================================================================
 // HTTP Client
 // ============================================================================
@@ -255,27 +259,81 @@ async function checkDuelStatus(duelId: string): Promise<void> {
   console.log(`  Player 2 Locked: ${duel.player2Locked}`);
 }
 
-async function settleDuel(duelId: string, winnerKeypair: Keypair): Promise<boolean> {
+/**
+ * Poll a settlement job until it finishes (succeeded, rejected or dead-lettered)
+ */
+async function waitForJob<T extends { success: boolean; error?: string }>(
+  jobId: string,
+  timeoutMs: number = 120_000
+): Promise<ApiResponse<T>> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const response = await apiCall<{
+      job: { status: string; lastError?: string; result?: T };
+    }>(`/api/v1/duel/jobs/${jobId}`, 'GET');
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    const { job } = response.data;
+    if (job.status === 'succeeded' && job.result) {
+      return { success: true, data: job.result };
+    }
+    if (job.status === 'rejected' || job.status === 'dead_letter') {
+      return { success: false, error: job.result?.error ?? job.lastError ?? job.status };
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+
+  return { success: false, error: `Job ${jobId} did not finish in time` };
+}
+
+async function settleDuel(
+  duelId: string,
+  winnerKeypair: Keypair,
+  winnerStealthId: string
+): Promise<boolean> {
   console.log('\n[Step 4] Settling duel...');
   console.log('-'.repeat(50));
 
   const winnerWallet = winnerKeypair.publicKey.toBase58();
   console.log(`Winner: ${winnerWallet.slice(0, 8)}...${winnerWallet.slice(-4)}`);
 
-  // In production, this would be signed by server authority
-  const serverSignature = 'server-authority-signature';
+  // Sign the outcome as the game server would (see sidecar server-signature.ts)
+  const timestamp = Date.now();
+  const nonce = randomUUID();
+  const message = ['alerith-duel-authorization:v1', duelId, 'winner', winnerStealthId, String(timestamp), nonce].join('\n');
+  const serverSignature = GAME_SERVER_SECRET
+    ? bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), loadKeypair(GAME_SERVER_SECRET).secretKey))
+    : 'unsigned'; // Accepted only with ALLOW_UNSIGNED_SETTLEMENTS=true
 
-  const result = await apiCall<{
-    winnerTxSignature: string;
-    treasuryTxSignature: string;
-    winnerPayoutLamports: string;
-    treasuryFeeLamports: string;
-  }>('/api/v1/duel/settle', 'POST', {
+  const queued = await apiCall<{ jobId: string }>('/api/v1/duel/settle', 'POST', {
     duelId,
     winnerWallet,
     serverSignature,
+    timestamp,
+    nonce,
   });
 
+  if (!queued.success || !queued.data) {
+    console.error(`Failed to settle duel: ${queued.error}`);
+    return false;
+  }
+
+  console.log(`Settlement queued as job ${queued.data.jobId}`);
+
+  const result = await waitForJob<{
+    success: boolean;
+    winnerTxSignature: string;
+    treasuryTxSignature: string;
+    winnerPayoutLamports: string;
+    treasuryFeeLamports: string;
+    error?: string;
+  }>(queued.data.jobId);
+
   if (!result.success || !result.data) {
     console.error(`Failed to settle duel: ${result.error}`);
     return false;
@@ -377,7 +435,8 @@ async function main(): Promise<void> {
   console.log(`  Player ${winnerNumber} wins!`);
 
   // Step 4: Settle duel
-  const settled = await settleDuel(duel.duelId, winnerKeypair);
+  const winnerStealthId = winnerNumber === 1 ? duel.player1StealthId : duel.player2StealthId;
+  const settled = await settleDuel(duel.duelId, winnerKeypair, winnerStealthId);
   if (!settled) {
     console.error('\nFailed to settle duel.');
     process.exit(1);
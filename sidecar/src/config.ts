@@ -3,12 +3,128 @@
  * Zod-validated environment configuration
  */
 
+import { readFileSync } from 'fs';
 import { z } from 'zod';
 
 // ============================================================================
 // Environment Schema
 // ============================================================================
 
+// Stake lock verifiers (see services/lock-verifier.ts)
+export const LOCK_VERIFIER_KINDS = ['escrow-balance', 'zk-payment', 'trust'] as const;
+export type LockVerifierKind = (typeof LOCK_VERIFIER_KINDS)[number];
+
+// Transfer backends (see services/transfer-provider.ts)
+export const TRANSFER_PROVIDER_KINDS = ['direct', 'sdk', 'mock'] as const;
+export type TransferProviderKind = (typeof TRANSFER_PROVIDER_KINDS)[number];
+
+// Duel lifecycle events that can be delivered by webhook (see services/webhooks.ts)
+export const WEBHOOK_EVENT_TYPES = [
+  'duel.created',
+  'duel.stake_locked',
+  'duel.both_locked',
+  'duel.settled',
+  'duel.refunded',
+  'duel.payout_failed',
+  'duel.commitment_posted',
+] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * A comma-separated list whose entries must match `pattern`; the named
+ * groups of each match are validated by `entry`
+ */
+function entryList<T extends z.ZodTypeAny>(pattern: RegExp, format: string, entry: T) {
+  return z
+    .string()
+    .default('')
+    .transform((value, ctx) =>
+      value.split(',').map((item) => item.trim()).filter(Boolean).map((item) => {
+        const match = pattern.exec(item);
+        if (!match?.groups) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${item}" is not ${format}` });
+          return z.NEVER;
+        }
+        return match.groups;
+      })
+    )
+    .pipe(z.array(entry));
+}
+
+const feePercentSchema = z.coerce.number().min(0).max(10);
+
+// House fee tier: duels whose combined stake is at least minTotalStake
+// (display units) pay percent instead of HOUSE_FEE_PERCENT
+const houseFeeTierSchema = z.object({
+  token: z.string(),
+  minTotalStake: z.coerce.number().positive(),
+  percent: feePercentSchema,
+});
+
+// Promotional house fee between startsAt and endsAt (ISO 8601 with offset),
+// for one token or all of them
+const houseFeePromoSchema = z
+  .object({
+    token: z.string().optional(),
+    percent: feePercentSchema,
+    startsAt: z.string().datetime({ offset: true }).transform((value) => Date.parse(value)),
+    endsAt: z.string().datetime({ offset: true }).transform((value) => Date.parse(value)),
+  })
+  .refine((promo) => promo.startsAt < promo.endsAt, { message: 'Promotion must end after it starts' });
+
+export type HouseFeeTier = z.infer<typeof houseFeeTierSchema>;
+export type HouseFeePromo = z.infer<typeof houseFeePromoSchema>;
+
+// ============================================================================
+// Token Registry Schema
+// ============================================================================
+
+// Human units as a decimal string, e.g. "0.1"
+const decimalAmountSchema = z.string().regex(/^\d+(\.\d+)?$/, 'Must be a decimal string, e.g. "0.1"');
+
+const fractionDigits = (value: string) => value.split('.')[1]?.length ?? 0;
+
+// One ShadowWire-supported token (see services/token-registry.ts)
+const tokenConfigSchema = z
+  .object({
+    symbol: z.string().regex(/^[A-Z0-9]+$/, 'Symbol must be upper-case letters and digits'),
+    // SPL mint address (base58); null for native SOL
+    mint: z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, 'Mint must be a base58 address').nullable(),
+    decimals: z.number().int().min(0).max(18),
+    // Smallest amount ShadowWire will transfer (human units)
+    shadowWireMinimum: decimalAmountSchema,
+    // Stakes must exceed the ShadowWire minimum by this much, so a refund
+    // of a minimum stake still clears it after fees
+    safetyMarginPercent: z.number().min(0).max(100),
+    // Largest stake per player (human units); null for no limit
+    maxStake: decimalAmountSchema.nullable(),
+    // ShadowWire fee, taken on deposit into escrow and on every transfer out
+    feePercent: feePercentSchema,
+    // Disabled tokens take no new duels; existing ones still settle and refund
+    enabled: z.boolean(),
+  })
+  .refine((token) => fractionDigits(token.shadowWireMinimum) <= token.decimals, {
+    message: 'shadowWireMinimum has more decimal places than the token',
+    path: ['shadowWireMinimum'],
+  })
+  .refine((token) => token.maxStake === null || fractionDigits(token.maxStake) <= token.decimals, {
+    message: 'maxStake has more decimal places than the token',
+    path: ['maxStake'],
+  });
+
+const tokenRegistrySchema = z
+  .object({ tokens: z.array(tokenConfigSchema).min(1) })
+  .refine((registry) => new Set(registry.tokens.map((token) => token.symbol)).size === registry.tokens.length, {
+    message: 'Token symbols must be unique',
+    path: ['tokens'],
+  })
+  .refine((registry) => registry.tokens.some((token) => token.enabled), {
+    message: 'At least one token must be enabled',
+    path: ['tokens'],
+  });
+
+export type TokenConfig = z.infer<typeof tokenConfigSchema>;
+
 const envSchema = z.object({
   // Solana Configuration
   SOLANA_RPC_URL: z.string().url().default('https://api.devnet.solana.com'),
@@ -22,20 +138,161 @@ const envSchema = z.object({
   // Security
   WALLET_PEPPER: z.string().min(32, 'Wallet pepper must be at least 32 characters'),
   INTERNAL_API_KEY: z.string().min(32, 'Internal API key must be at least 32 characters'),
+  // Optional wallet vault key (32 bytes hex, separate from WALLET_PEPPER):
+  // the wallets of unfinished duels are stored encrypted so payouts and
+  // refunds survive a restart
+  WALLET_VAULT_KEY: z
+    .string()
+    .regex(/^[0-9a-fA-F]{64}$/, 'Wallet vault key must be 32 bytes of hex')
+    .optional(),
+
+  // Game server Ed25519 public keys (base58, comma-separated) allowed to
+  // authorize settlements and refunds
+  GAME_SERVER_PUBLIC_KEYS: z
+    .string()
+    .default('')
+    .transform((value) => value.split(',').map((key) => key.trim()).filter(Boolean)),
+  // Signed settle/refund requests older (or further in the future) than this are rejected
+  SERVER_SIGNATURE_MAX_AGE_SECONDS: z.coerce.number().positive().default(300),
+  // Development only: accept settle/refund without a valid signature (no commitment is made)
+  ALLOW_UNSIGNED_SETTLEMENTS: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
 
   // Stake Limits
-  HOUSE_FEE_PERCENT: z.coerce.number().min(0).max(10).default(2),
+  // Tokens we accept stakes in: mint, decimals, minimums, max stake, fee
+  TOKEN_REGISTRY_PATH: z.string().min(1).default('./tokens.json'),
+  HOUSE_FEE_PERCENT: feePercentSchema.default(2),
+  // Taken from each player's stake when a duel ends in a draw
+  DRAW_FEE_PERCENT: feePercentSchema.default(0),
+  // House fee by combined stake, e.g. "SOL:10=1.5,SOL:100=1" (the highest
+  // threshold reached applies; see services/fee-schedule.ts)
+  HOUSE_FEE_TIERS: entryList(
+    /^(?<token>[A-Z0-9]+):(?<minTotalStake>[\d.]+)=(?<percent>[\d.]+)$/,
+    'TOKEN:MIN_TOTAL_STAKE=PERCENT',
+    houseFeeTierSchema
+  ),
+  // Time-boxed house fee overrides, e.g. "1@2026-12-24T00:00:00Z/2026-12-27T00:00:00Z"
+  // or "USD1:0@<start>/<end>" for one token (the lowest active promotion applies)
+  HOUSE_FEE_PROMOS: entryList(
+    /^(?:(?<token>[A-Z0-9]+):)?(?<percent>[\d.]+)@(?<startsAt>[^/]+)\/(?<endsAt>[^/]+)$/,
+    '[TOKEN:]PERCENT@START/END',
+    houseFeePromoSchema
+  ),
+  // Signed fee quotes (POST /duel/quote) can be used to create a duel for this long
+  FEE_QUOTE_TTL_SECONDS: z.coerce.number().positive().default(300),
 
   // Timeouts
   ESCROW_TIMEOUT_SECONDS: z.coerce.number().positive().default(1800), // 30 minutes
 
-  // Redis (deprecated - kept for backwards compatibility)
+  // Deadman's switch: expired duels are auto-refunded after this grace period
+  EXPIRY_GRACE_SECONDS: z.coerce.number().nonnegative().default(120),
+  EXPIRY_SWEEP_INTERVAL_SECONDS: z.coerce.number().positive().default(30),
+
+  // Settlement job queue: payout attempts back off exponentially from the base
+  // delay up to the max, then the job is dead-lettered for manual recovery
+  SETTLEMENT_MAX_ATTEMPTS: z.coerce.number().int().positive().default(8),
+  SETTLEMENT_RETRY_BASE_SECONDS: z.coerce.number().positive().default(2),
+  SETTLEMENT_RETRY_MAX_SECONDS: z.coerce.number().positive().default(300),
+  SETTLEMENT_POLL_INTERVAL_SECONDS: z.coerce.number().positive().default(1),
+
+  // Webhooks: every event is POSTed to each URL (comma-separated), signed
+  // with HMAC-SHA256 using WEBHOOK_SECRET
+  WEBHOOK_URLS: z
+    .string()
+    .default('')
+    .transform((value) => value.split(',').map((url) => url.trim()).filter(Boolean))
+    .pipe(z.array(z.string().url())),
+  WEBHOOK_SECRET: z.string().min(32, 'Webhook secret must be at least 32 characters').optional(),
+  // Events to deliver (comma-separated, default all)
+  WEBHOOK_EVENTS: z
+    .string()
+    .default(WEBHOOK_EVENT_TYPES.join(','))
+    .transform((value) => value.split(',').map((type) => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1)),
+  WEBHOOK_TIMEOUT_SECONDS: z.coerce.number().positive().default(10),
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().positive().default(10),
+  WEBHOOK_RETRY_BASE_SECONDS: z.coerce.number().positive().default(5),
+  WEBHOOK_RETRY_MAX_SECONDS: z.coerce.number().positive().default(900),
+
+  // Duel status stream (SSE/WebSocket): events kept for Last-Event-ID replay,
+  // keep-alive interval and a cap on concurrent subscribers
+  STREAM_REPLAY_BUFFER_SIZE: z.coerce.number().int().positive().default(1000),
+  STREAM_HEARTBEAT_SECONDS: z.coerce.number().positive().default(15),
+  STREAM_MAX_CONNECTIONS: z.coerce.number().int().positive().default(500),
+
+  // Idempotency-Key records are kept this long
+  IDEMPOTENCY_TTL_SECONDS: z.coerce.number().positive().default(86400), // 24 hours
+
+  // Stake lock verification (comma-separated, all must pass)
+  LOCK_VERIFIER: z
+    .string()
+    .default('escrow-balance')
+    .transform((value) => value.split(',').map((kind) => kind.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(LOCK_VERIFIER_KINDS)).min(1)),
+
+  // Transfer backend: 'direct' (ShadowWire API), 'sdk' (@radr/shadowwire)
+  // or 'mock' (in-memory, devnet development only)
+  TRANSFER_PROVIDER: z.enum(TRANSFER_PROVIDER_KINDS).default('direct'),
+
+  // Duel Store
+  STORE_BACKEND: z.enum(['memory', 'file', 'redis']).default('memory'),
+  STORE_FILE_PATH: z.string().min(1).default('./data/duel-store.log'),
+
+  // Hash-chained accountability audit log (append-only, local disk)
+  AUDIT_LOG_PATH: z.string().min(1).default('./data/audit-log.jsonl'),
+
+  // Commitment anchoring: 'single' posts one memo per commitment; 'batch'
+  // collects commitment hashes for the window (or until the batch is full)
+  // and posts one Merkle root memo, keeping each leaf's inclusion path in
+  // ANCHOR_LOG_PATH
+  COMMITMENT_ANCHOR_MODE: z.enum(['single', 'batch']).default('single'),
+  ANCHOR_BATCH_WINDOW_SECONDS: z.coerce.number().positive().default(60),
+  ANCHOR_BATCH_MAX_SIZE: z.coerce.number().int().positive().default(1024),
+  ANCHOR_LOG_PATH: z.string().min(1).default('./data/anchor-log.jsonl'),
+
+  // Commitment reconciler: records whose memo failed are re-posted, backing
+  // off exponentially from the base delay up to the max. An optional
+  // priority fee (micro-lamports per compute unit) is added to re-posts
+  COMMITMENT_RECONCILE_INTERVAL_SECONDS: z.coerce.number().positive().default(30),
+  COMMITMENT_REPOST_BASE_SECONDS: z.coerce.number().positive().default(30),
+  COMMITMENT_REPOST_MAX_SECONDS: z.coerce.number().positive().default(3600),
+  COMMITMENT_PRIORITY_FEE_MICROLAMPORTS: z.coerce.number().int().nonnegative().default(0),
+
+  // Redis (required when STORE_BACKEND=redis)
   REDIS_URL: z.string().optional(),
+  REDIS_KEY_PREFIX: z.string().default('alerith:'),
 
   // Server
   PORT: z.coerce.number().positive().default(3002),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
-});
+}).refine(
+  (env) => env.STORE_BACKEND !== 'redis' || !!env.REDIS_URL,
+  { message: 'REDIS_URL is required when STORE_BACKEND=redis', path: ['REDIS_URL'] }
+).refine(
+  (env) => env.NODE_ENV !== 'production' || !env.LOCK_VERIFIER.includes('trust'),
+  { message: 'LOCK_VERIFIER=trust is not allowed in production', path: ['LOCK_VERIFIER'] }
+).refine(
+  // ZK payment proofs are only checked for shape, not verified yet
+  (env) => env.NODE_ENV !== 'production' || !env.LOCK_VERIFIER.includes('zk-payment'),
+  { message: 'LOCK_VERIFIER=zk-payment is not allowed in production', path: ['LOCK_VERIFIER'] }
+).refine(
+  (env) => env.TRANSFER_PROVIDER !== 'mock' || (env.SOLANA_NETWORK === 'devnet' && env.NODE_ENV !== 'production'),
+  { message: 'TRANSFER_PROVIDER=mock is only allowed on devnet outside production', path: ['TRANSFER_PROVIDER'] }
+).refine(
+  (env) => env.NODE_ENV !== 'production' || env.GAME_SERVER_PUBLIC_KEYS.length > 0,
+  { message: 'GAME_SERVER_PUBLIC_KEYS is required in production', path: ['GAME_SERVER_PUBLIC_KEYS'] }
+).refine(
+  (env) => env.NODE_ENV === 'development' || !env.ALLOW_UNSIGNED_SETTLEMENTS,
+  { message: 'ALLOW_UNSIGNED_SETTLEMENTS is only allowed in development', path: ['ALLOW_UNSIGNED_SETTLEMENTS'] }
+).refine(
+  (env) => !env.WALLET_VAULT_KEY || env.WALLET_VAULT_KEY.toLowerCase() !== env.WALLET_PEPPER.toLowerCase(),
+  { message: 'WALLET_VAULT_KEY must differ from WALLET_PEPPER', path: ['WALLET_VAULT_KEY'] }
+).refine(
+  (env) => env.WEBHOOK_URLS.length === 0 || !!env.WEBHOOK_SECRET,
+  { message: 'WEBHOOK_SECRET is required when WEBHOOK_URLS is set', path: ['WEBHOOK_SECRET'] }
+);
 
 // ============================================================================
 // Configuration Type
@@ -62,24 +319,101 @@ function loadConfig(): EnvConfig {
   return result.data;
 }
 
+/**
+ * Read and validate the token registry, and check that every house fee
+ * tier and promotion names a token in it
+ */
+function loadTokenRegistry(env: EnvConfig): TokenConfig[] {
+  const path = env.TOKEN_REGISTRY_PATH;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Token registry ${path} could not be read: ${message}`);
+    throw new Error('Invalid configuration. Check the token registry.');
+  }
+
+  const result = tokenRegistrySchema.safeParse(raw);
+  const errors = result.success
+    ? []
+    : result.error.issues.map((issue) => `  - ${issue.path.join('.')}: ${issue.message}`);
+
+  if (result.success) {
+    const symbols = new Set(result.data.tokens.map((token) => token.symbol));
+    for (const tier of env.HOUSE_FEE_TIERS) {
+      if (!symbols.has(tier.token)) errors.push(`  - HOUSE_FEE_TIERS: ${tier.token} is not in the token registry`);
+    }
+    for (const promo of env.HOUSE_FEE_PROMOS) {
+      if (promo.token && !symbols.has(promo.token)) {
+        errors.push(`  - HOUSE_FEE_PROMOS: ${promo.token} is not in the token registry`);
+      }
+    }
+  }
+
+  if (!result.success || errors.length > 0) {
+    console.error(`Token registry ${path} validation failed:`);
+    console.error(errors.join('\n'));
+    throw new Error('Invalid configuration. Check the token registry.');
+  }
+
+  return result.data.tokens;
+}
+
 // ============================================================================
 // Derived Configuration
 // ============================================================================
 
 export interface Config extends EnvConfig {
+  /** Token registry, from TOKEN_REGISTRY_PATH */
+  readonly tokens: readonly TokenConfig[];
   // Derived values
   readonly escrowTimeoutMs: number;
+  readonly feeQuoteTtlMs: number;
+  readonly expiryGraceMs: number;
+  readonly expirySweepIntervalMs: number;
+  readonly idempotencyTtlMs: number;
+  readonly serverSignatureMaxAgeMs: number;
+  readonly settlementRetryBaseMs: number;
+  readonly settlementRetryMaxMs: number;
+  readonly settlementPollIntervalMs: number;
+  readonly webhookTimeoutMs: number;
+  readonly webhookRetryBaseMs: number;
+  readonly webhookRetryMaxMs: number;
+  readonly streamHeartbeatMs: number;
+  readonly anchorBatchWindowMs: number;
+  readonly commitmentReconcileIntervalMs: number;
+  readonly commitmentRepostBaseMs: number;
+  readonly commitmentRepostMaxMs: number;
   readonly isDevelopment: boolean;
   readonly isProduction: boolean;
   readonly isTest: boolean;
 }
 
-function createConfig(env: EnvConfig): Config {
+function createConfig(env: EnvConfig, tokens: TokenConfig[]): Config {
   const LAMPORTS_PER_SOL = 1_000_000_000n;
 
   return {
     ...env,
+    tokens,
     escrowTimeoutMs: env.ESCROW_TIMEOUT_SECONDS * 1000,
+    feeQuoteTtlMs: env.FEE_QUOTE_TTL_SECONDS * 1000,
+    expiryGraceMs: env.EXPIRY_GRACE_SECONDS * 1000,
+    expirySweepIntervalMs: env.EXPIRY_SWEEP_INTERVAL_SECONDS * 1000,
+    idempotencyTtlMs: env.IDEMPOTENCY_TTL_SECONDS * 1000,
+    serverSignatureMaxAgeMs: env.SERVER_SIGNATURE_MAX_AGE_SECONDS * 1000,
+    settlementRetryBaseMs: env.SETTLEMENT_RETRY_BASE_SECONDS * 1000,
+    settlementRetryMaxMs: env.SETTLEMENT_RETRY_MAX_SECONDS * 1000,
+    settlementPollIntervalMs: env.SETTLEMENT_POLL_INTERVAL_SECONDS * 1000,
+    webhookTimeoutMs: env.WEBHOOK_TIMEOUT_SECONDS * 1000,
+    webhookRetryBaseMs: env.WEBHOOK_RETRY_BASE_SECONDS * 1000,
+    webhookRetryMaxMs: env.WEBHOOK_RETRY_MAX_SECONDS * 1000,
+    streamHeartbeatMs: env.STREAM_HEARTBEAT_SECONDS * 1000,
+    anchorBatchWindowMs: env.ANCHOR_BATCH_WINDOW_SECONDS * 1000,
+    commitmentReconcileIntervalMs: env.COMMITMENT_RECONCILE_INTERVAL_SECONDS * 1000,
+    commitmentRepostBaseMs: env.COMMITMENT_REPOST_BASE_SECONDS * 1000,
+    commitmentRepostMaxMs: env.COMMITMENT_REPOST_MAX_SECONDS * 1000,
     isDevelopment: env.NODE_ENV === 'development',
     isProduction: env.NODE_ENV === 'production',
     isTest: env.NODE_ENV === 'test',
@@ -94,7 +428,8 @@ let _config: Config | null = null;
 
 export function getConfig(): Config {
   if (!_config) {
-    _config = createConfig(loadConfig());
+    const env = loadConfig();
+    _config = createConfig(env, loadTokenRegistry(env));
   }
   return _config;
 }
@@ -110,37 +445,5 @@ export function resetConfig(): void {
 
 export const LAMPORTS_PER_SOL = 1_000_000_000n;
 
-// ShadowWire supported tokens
-export const SUPPORTED_TOKENS = ['SOL', 'USD1', 'RADR'] as const;
-export type SupportedToken = (typeof SUPPORTED_TOKENS)[number];
-
-export const TOKEN_DECIMALS: Record<SupportedToken, number> = {
-  SOL: 9,
-  USD1: 6,
-  RADR: 9,
-};
-
-// Minimum amounts per token (in smallest units)
-// 10% above ShadowWire minimums to cover fees and ensure refunds work
-export const TOKEN_MINIMUMS: Record<SupportedToken, number> = {
-  SOL: 110_000_000,           // 0.11 SOL
-  USD1: 5_500_000,            // 5.5 USD1
-  RADR: 11_000_000_000_000,   // 11,000 RADR
-};
-
-// Minimum amounts in display units (for UI)
-export const TOKEN_MINIMUM_DISPLAY: Record<SupportedToken, number> = {
-  SOL: 0.11,
-  USD1: 5.5,
-  RADR: 11000,
-};
-
-// Token mint addresses for API calls
-export const TOKEN_MINTS: Record<SupportedToken, string | null> = {
-  SOL: null, // Native, no mint needed
-  USD1: 'USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB',
-  RADR: 'CzFvsLdUazabdiu9TYXujj4EY495fG7VgJJ3vQs6bonk',
-};
-
 // ShadowWire API
 export const SHADOWWIRE_API_URL = 'https://shadow.radr.fun/shadowpay';
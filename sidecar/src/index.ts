@@ -7,18 +7,26 @@
  * - Wallet addresses are NEVER stored in plaintext
  * - All amounts are hidden on-chain via ZK proofs
  * - Internal API requires X-Internal-Secret authentication
- * - Uses in-memory storage (no Redis required)
+ * - Duel state lives in the configured DuelStore (memory or file)
  */
 
 // Load environment variables first
 import 'dotenv/config';
 
-import { getConfig, TOKEN_MINIMUM_DISPLAY, SUPPORTED_TOKENS } from './config.js';
+import { getConfig } from './config.js';
 import { createServer } from './server.js';
-import { shadowWireService } from './services/shadowwire.js';
+import { getTransferProvider } from './services/transfer-provider.js';
 import { duelEscrowService } from './services/duel-escrow.js';
-import { memoryStore } from './services/memory-store.js';
+import { getDuelStore } from './services/duel-store.js';
 import { accountabilityService } from './services/accountability.js';
+import { expiryWorker } from './services/expiry-worker.js';
+import { commitmentReconciler } from './services/commitment-reconciler.js';
+import { settlementQueue } from './services/settlement-queue.js';
+import { webhookDispatcher } from './services/webhooks.js';
+import { duelStream } from './services/duel-stream.js';
+import { attachStreamWebSocket } from './routes/stream.js';
+import { serverSignatureVerifier } from './services/server-signature.js';
+import { tokenRegistry } from './services/token-registry.js';
 
 // ============================================================================
 // Startup
@@ -34,31 +42,68 @@ async function main(): Promise<void> {
 
   console.log(`\n[Config] Environment: ${config.NODE_ENV}`);
   console.log(`[Config] Network: ${config.SOLANA_NETWORK}`);
-  console.log(`[Config] Supported tokens: ${SUPPORTED_TOKENS.join(', ')}`);
-  console.log(`[Config] Minimum stakes: ${SUPPORTED_TOKENS.map(t => `${TOKEN_MINIMUM_DISPLAY[t].toLocaleString()} ${t}`).join(', ')}`);
-  console.log(`[Config] House fee: ${config.HOUSE_FEE_PERCENT}%`);
+  console.log(`[Config] Transfer provider: ${config.TRANSFER_PROVIDER}`);
+  console.log(`[Config] Token registry: ${config.TOKEN_REGISTRY_PATH}`);
+  console.log(`[Config] Supported tokens: ${tokenRegistry.enabledSymbols.join(', ')}`);
+  console.log(`[Config] Minimum stakes: ${tokenRegistry.enabledSymbols.map(t => tokenRegistry.minimum(t).toDecimal() + ' ' + t).join(', ')}`);
+  const disabled = tokenRegistry.symbols.filter(t => !tokenRegistry.isEnabled(t));
+  if (disabled.length > 0) {
+    console.log(`[Config] Disabled tokens (settlement only): ${disabled.join(', ')}`);
+  }
+  console.log(
+    `[Config] House fee: ${config.HOUSE_FEE_PERCENT}% (${config.HOUSE_FEE_TIERS.length} tiers, ${config.HOUSE_FEE_PROMOS.length} promotions)`
+  );
   console.log(`[Config] Escrow timeout: ${config.ESCROW_TIMEOUT_SECONDS}s`);
+  console.log(`[Config] Duel store: ${config.STORE_BACKEND}`);
 
   // Initialize services
   console.log('\n[Services] Initializing...');
 
   try {
-    await shadowWireService.initialize();
-    console.log('[Services] ShadowWire service initialized');
+    await getTransferProvider().initialize();
+    console.log(`[Services] Transfer provider initialized (${config.TRANSFER_PROVIDER})`);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`[Services] FATAL: Failed to initialize ShadowWire: ${message}`);
+    console.error(`[Services] FATAL: Failed to initialize transfer provider: ${message}`);
     console.error('[Services] Check your wallet secrets in .env');
     process.exit(1);
   }
 
-  // Initialize accountability service (for on-chain commitment posting)
-  accountabilityService.initialize();
-  console.log('[Services] Accountability service initialized');
+  // Initialize accountability service (for on-chain commitment posting).
+  // Refuses to start if the audit log was truncated or altered.
+  try {
+    await accountabilityService.initialize();
+    console.log('[Services] Accountability service initialized');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Services] FATAL: Failed to initialize accountability: ${message}`);
+    console.error(`[Services] Check the audit log at ${config.AUDIT_LOG_PATH}`);
+    process.exit(1);
+  }
+
+  // Load game server keys for settle/refund signature checks
+  serverSignatureVerifier.initialize();
+  console.log('[Services] Server signature verifier initialized');
+
+  // Initialize duel escrow (loads persisted duels from the configured store)
+  await duelEscrowService.initialize();
+  console.log(`[Services] DuelEscrow service initialized (${config.STORE_BACKEND} storage)`);
+
+  // Subscribe webhooks and the live stream before resumed jobs can change a duel
+  webhookDispatcher.initialize();
+  duelStream.initialize();
 
-  // Initialize duel escrow with in-memory storage
-  duelEscrowService.initialize();
-  console.log('[Services] DuelEscrow service initialized (in-memory storage)');
+  // Resume settle/refund jobs left over from the previous run
+  await settlementQueue.initialize();
+  console.log('[Services] Settlement queue started');
+
+  // Start deadman's switch for expired duels
+  expiryWorker.initialize();
+  console.log('[Services] Expiry worker started');
+
+  // Re-post commitments whose memo never landed
+  commitmentReconciler.initialize();
+  console.log('[Services] Commitment reconciler started');
 
   // Create and start server
   const app = createServer();
@@ -71,6 +116,9 @@ async function main(): Promise<void> {
     console.log('='.repeat(60));
   });
 
+  // WebSocket transport for the duel status stream
+  attachStreamWebSocket(server);
+
   // ============================================================================
   // Graceful Shutdown
   // ============================================================================
@@ -83,9 +131,25 @@ async function main(): Promise<void> {
       console.log('[Server] HTTP server closed');
     });
 
-    // Shutdown memory store
-    memoryStore.shutdown();
-    console.log('[MemoryStore] Shutdown complete');
+    // Stop auto-refunds and job processing before closing the store
+    expiryWorker.shutdown();
+    commitmentReconciler.shutdown();
+    settlementQueue.shutdown();
+    webhookDispatcher.shutdown();
+    duelStream.shutdown();
+
+    // Flush and close the duel store
+    try {
+      await getDuelStore().shutdown();
+    } catch (error) {
+      console.error('[Server] Duel store shutdown failed:', error);
+    }
+
+    try {
+      await accountabilityService.shutdown();
+    } catch (error) {
+      console.error('[Server] Audit log shutdown failed:', error);
+    }
 
     console.log('[Server] Shutdown complete');
     process.exit(0);
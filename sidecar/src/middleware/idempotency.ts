@@ -0,0 +1,126 @@
+/**
+ * Idempotency Middleware
+ *
+ * Lets the game server safely retry mutating requests after a network
+ * timeout. A request carrying an Idempotency-Key header is executed once;
+ * retries with the same key replay the stored response instead of paying
+ * out twice.
+ *
+ * - Same key, same body, finished    -> stored response replayed
+ * - Same key, same body, in progress -> 409 (retry later)
+ * - Same key, different body         -> 422
+ * - 409 (duel busy) and 5xx responses are not stored, so the request can be retried
+ *
+ * The in-progress claim only lasts about as long as a duel lock, so a
+ * request whose process died can be retried; the finished response is kept
+ * for IDEMPOTENCY_TTL_SECONDS.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { getConfig } from '../config.js';
+import { getDuelStore } from '../services/duel-store.js';
+import type { IdempotencyRecord } from '../types/index.js';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+
+// How long an unfinished request blocks retries: the duel lock TTL plus the
+// time a request may wait for that lock, rounded up
+const IN_PROGRESS_TTL_MS = 6 * 60 * 1000;
+
+// ============================================================================
+// Idempotency
+// ============================================================================
+
+/**
+ * Middleware factory for one mutating route.
+ * `scope` namespaces keys so the same key on two routes never collides.
+ */
+export function idempotency(scope: string) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.headers[IDEMPOTENCY_HEADER];
+
+    // Header is optional - requests without it behave as before
+    if (key === undefined) {
+      next();
+      return;
+    }
+
+    if (typeof key !== 'string' || key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`,
+      });
+      return;
+    }
+
+    const config = getConfig();
+    const store = getDuelStore();
+    const storeKey = `${scope}:${key}`;
+    const requestHash = createHash('sha256').update(JSON.stringify(req.body ?? null)).digest('hex');
+
+    let existing: IdempotencyRecord | null;
+    try {
+      existing = await store.claimIdempotencyKey(
+        storeKey,
+        { state: 'in_progress', requestHash, createdAt: Date.now() },
+        IN_PROGRESS_TTL_MS
+      );
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    if (existing) {
+      if (existing.requestHash !== requestHash) {
+        res.status(422).json({
+          success: false,
+          error: 'Idempotency-Key was already used with a different request body',
+        });
+        return;
+      }
+
+      if (existing.state === 'in_progress') {
+        res.setHeader('Retry-After', '1');
+        res.status(409).json({
+          success: false,
+          error: 'A request with this Idempotency-Key is still in progress',
+        });
+        return;
+      }
+
+      console.log(`[Idempotency] Replaying ${scope} response for key ${key.slice(0, 8)}...`);
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(existing.statusCode ?? 200).json(existing.body);
+      return;
+    }
+
+    // First execution: store the JSON response before it is sent, so a retry
+    // made as soon as the client has it is replayed rather than refused
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const statusCode = res.statusCode;
+
+      const retryable = statusCode >= 500 || statusCode === 409;
+      const persist = retryable
+        ? store.deleteIdempotencyKey(storeKey)
+        : store.setIdempotencyRecord(
+            storeKey,
+            { state: 'completed', requestHash, statusCode, body, createdAt: Date.now() },
+            config.idempotencyTtlMs
+          );
+
+      persist
+        .catch((error) => {
+          console.error(`[Idempotency] Failed to store ${scope} response:`, error);
+        })
+        .then(() => originalJson(body))
+        .catch(next);
+
+      return res;
+    };
+
+    next();
+  };
+}
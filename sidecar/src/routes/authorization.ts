@@ -0,0 +1,194 @@
+/**
+ * Authorization Routes - Spending Pre-Authorization API
+ *
+ * Lets a player authorize stakes for repeated duels with one wallet
+ * signature and fund them with one transfer to escrow. All endpoints require internal authentication (the game
+ * server relays the player's signed messages).
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { idempotency } from '../middleware/idempotency.js';
+import { isValidNonce } from '../services/server-signature.js';
+import { spendingAuthorizationService } from '../services/spending-authorization.js';
+import { tokenRegistry } from '../services/token-registry.js';
+import type {
+  AuthorizeSpendingResponse,
+  FundAuthorizationResponse,
+  GetAuthorizationResponse,
+  RevokeAuthorizationResponse,
+} from '../types/index.js';
+
+export const authorizationRouter = Router();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const amountSchema = z.string().regex(/^\d+$/, 'Amount must be an integer string');
+
+const authorizeSchema = z.object({
+  playerWallet: z.string().min(32).max(44),
+  token: z.string()
+    .refine(token => tokenRegistry.isEnabled(token), token => ({ message: `Unsupported token: ${token}` }))
+    .optional()
+    .default('SOL'),
+  maxAmountPerTx: amountSchema,
+  maxDailySpend: amountSchema,
+  validForSeconds: z.number().int().positive(),
+  issuedAt: z.number().int().positive(),
+  signedMessage: z.string().min(1),
+  message: z.string().min(1).max(1024),
+});
+
+const authorizationIdSchema = z.string().regex(/^[0-9a-f]{32}$/);
+
+const fundSchema = z.object({
+  authorizationId: authorizationIdSchema,
+  playerWallet: z.string().min(32).max(44),
+  amount: amountSchema,
+  paymentProof: z.string().min(1),
+});
+
+const revokeSchema = z.object({
+  authorizationId: authorizationIdSchema,
+  playerWallet: z.string().min(32).max(44),
+  issuedAt: z.number().int().positive(),
+  nonce: z.string().refine(isValidNonce, 'Nonce must be 16-128 characters of [A-Za-z0-9_-]'),
+  signedMessage: z.string().min(1),
+});
+
+// ============================================================================
+// Create Authorization
+// ============================================================================
+
+/**
+ * POST /authorization
+ *
+ * Create a spending authorization from a wallet-signed message
+ * (see buildAuthorizeMessage for the exact text).
+ */
+authorizationRouter.post('/', idempotency('authorize'), async (req, res) => {
+  try {
+    const validation = authorizeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid request',
+      } satisfies AuthorizeSpendingResponse);
+      return;
+    }
+
+    const result = await spendingAuthorizationService.authorize(validation.data);
+
+    res.status(result.success ? 201 : 400).json(result satisfies AuthorizeSpendingResponse);
+  } catch (error) {
+    console.error('[Authorization] Create error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies AuthorizeSpendingResponse);
+  }
+});
+
+// ============================================================================
+// Get Authorization
+// ============================================================================
+
+/**
+ * GET /authorization/:authorizationId
+ *
+ * Get limits, today's spend and status of an authorization.
+ */
+authorizationRouter.get('/:authorizationId', async (req, res) => {
+  try {
+    const validation = authorizationIdSchema.safeParse(req.params.authorizationId);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid authorization ID',
+      } satisfies GetAuthorizationResponse);
+      return;
+    }
+
+    const result = await spendingAuthorizationService.describe(validation.data);
+
+    res.status(result.success ? 200 : 404).json(result satisfies GetAuthorizationResponse);
+  } catch (error) {
+    console.error('[Authorization] Get error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies GetAuthorizationResponse);
+  }
+});
+
+// ============================================================================
+// Fund Authorization
+// ============================================================================
+
+/**
+ * POST /authorization/fund
+ *
+ * Credit the player's transfer to escrow (verified like a stake lock) to the
+ * authorization's funded balance, which pre-authorized locks draw from.
+ */
+authorizationRouter.post('/fund', idempotency('fund-authorization'), async (req, res) => {
+  try {
+    const validation = fundSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid request',
+      } satisfies FundAuthorizationResponse);
+      return;
+    }
+
+    const result = await spendingAuthorizationService.fund(validation.data);
+
+    res.status(result.success ? 200 : 400).json(result satisfies FundAuthorizationResponse);
+  } catch (error) {
+    console.error('[Authorization] Fund error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies FundAuthorizationResponse);
+  }
+});
+
+// ============================================================================
+// Revoke Authorization
+// ============================================================================
+
+/**
+ * POST /authorization/revoke
+ *
+ * Revoke an authorization (signed by the owning wallet, see buildRevokeMessage)
+ * and return its funded balance to that wallet.
+ */
+authorizationRouter.post('/revoke', idempotency('revoke-authorization'), async (req, res) => {
+  try {
+    const validation = revokeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid request',
+      } satisfies RevokeAuthorizationResponse);
+      return;
+    }
+
+    const result = await spendingAuthorizationService.revoke(validation.data);
+
+    res.status(result.success ? 200 : 400).json(result satisfies RevokeAuthorizationResponse);
+  } catch (error) {
+    console.error('[Authorization] Revoke error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies RevokeAuthorizationResponse);
+  }
+});
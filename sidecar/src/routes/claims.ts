@@ -0,0 +1,78 @@
+/**
+ * Claim Routes - Player Refund Claims
+ *
+ * Lets a player recover their own locked stake when the duel failed or
+ * expired and the sidecar no longer knows their wallet (see
+ * services/refund-claim.ts). The wallet signature is the credential, so
+ * these routes are served publicly as well as under /api/v1.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { DuelBusyError } from '../services/duel-lock.js';
+import { refundClaimService, type RefundClaimFailure } from '../services/refund-claim.js';
+import type { RefundClaimResponse } from '../types/index.js';
+
+export const claimsRouter = Router();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const refundClaimSchema = z.object({
+  duelId: z.string().regex(/^[0-9a-f]{32}$/),
+  playerWallet: z.string().min(32).max(44),
+  issuedAt: z.number().int().positive(),
+  signedMessage: z.string().min(1).max(128),
+});
+
+const FAILURE_STATUS: Record<RefundClaimFailure, number> = {
+  bad_signature: 401,
+  not_found: 404,
+  not_participant: 403,
+  not_eligible: 409,
+  payout_failed: 502,
+};
+
+// ============================================================================
+// Refund Claim
+// ============================================================================
+
+/**
+ * POST /claims/refund
+ *
+ * Return the caller's locked stake to their wallet, signed with that wallet
+ * (see buildRefundClaimMessage for the exact text). Repeating a successful
+ * claim returns the original refund transfer, so no Idempotency-Key is
+ * needed.
+ */
+claimsRouter.post('/refund', async (req, res) => {
+  try {
+    const validation = refundClaimSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid request',
+      } satisfies RefundClaimResponse);
+      return;
+    }
+
+    const { failure, ...result } = await refundClaimService.claim(validation.data);
+
+    res.status(failure ? FAILURE_STATUS[failure] : 200).json(result satisfies RefundClaimResponse);
+  } catch (error) {
+    if (error instanceof DuelBusyError) {
+      res.status(409).json({
+        success: false,
+        error: error.message,
+      } satisfies RefundClaimResponse);
+      return;
+    }
+    console.error('[Claims] Refund claim error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies RefundClaimResponse);
+  }
+});
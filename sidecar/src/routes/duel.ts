@@ -7,16 +7,47 @@
 
 import { Router } from 'express';
 import { z } from 'zod';
-import { createHash } from 'crypto';
 import { duelEscrowService } from '../services/duel-escrow.js';
-import { shadowWireDirect } from '../services/shadowwire-direct.js';
-import { accountabilityService } from '../services/accountability.js';
-import { getConfig, TOKEN_MINIMUM_DISPLAY, SUPPORTED_TOKENS } from '../config.js';
+import { getTransferProvider } from '../services/transfer-provider.js';
+import {
+  accountabilityService,
+  isDrawCommitment,
+  isTermsCommitment,
+  type CommitmentRecord,
+  type DuelCommitment,
+} from '../services/accountability.js';
+import { verifyMerkleProof } from '../services/commitment-anchor.js';
+import { hashCommitment, serializeCommitment } from '../services/commitment-encoding.js';
+import { commitmentReconciler } from '../services/commitment-reconciler.js';
+import { DuelBusyError } from '../services/duel-lock.js';
+import { Amount, AmountError } from '../services/amount.js';
+import { feeSchedule } from '../services/fee-schedule.js';
+import { tokenRegistry } from '../services/token-registry.js';
+import { feeQuoteSigner, settlementMatchesQuote, verifyFeeQuoteSignature } from '../services/fee-quote.js';
+import { generateStealthId } from '../services/stealth.js';
+import {
+  isValidNonce,
+  serverSignatureVerifier,
+  ServerSignatureError,
+} from '../services/server-signature.js';
+import {
+  describeJob,
+  settlementQueue,
+  SettlementInProgressError,
+} from '../services/settlement-queue.js';
+import { idempotency } from '../middleware/idempotency.js';
+import { getConfig } from '../config.js';
 import type {
   CreateDuelResponse,
+  FeeQuoteResponse,
+  GetAuditHeadResponse,
+  GetAuditProofResponse,
+  GetCommitmentBacklogResponse,
   GetDuelStatusResponse,
+  GetSettlementJobResponse,
   LockStakeResponse,
   RefundDuelResponse,
+  SettleDrawResponse,
   SettleDuelResponse,
 } from '../types/index.js';
 import { DuelStatus } from '../types/index.js';
@@ -40,9 +71,82 @@ const combatSummarySchema = z.object({
   totalTicks: z.number().int().nonnegative(),
   player1DamageDealt: z.number().int().nonnegative(),
   player2DamageDealt: z.number().int().nonnegative(),
-  winReason: z.enum(['death', 'forfeit', 'timeout']),
+  winReason: z.enum(['death', 'forfeit', 'timeout', 'disconnect', 'draw']),
 }).optional();
 
+// Signed fee quote as returned by POST /duel/quote (see services/fee-quote.ts)
+const quoteAmountSchema = z.string().regex(/^\d+$/);
+const feeQuotePlayerSchema = z.object({
+  stake: quoteAmountSchema,
+  depositFee: quoteAmountSchema,
+  deposit: quoteAmountSchema,
+  refund: quoteAmountSchema,
+  refundReceives: quoteAmountSchema,
+  drawPayout: quoteAmountSchema,
+  drawReceives: quoteAmountSchema,
+});
+const signedFeeQuoteSchema = z.object({
+  quote: z.object({
+    version: z.literal(1),
+    quoteId: z.string().regex(/^[0-9a-f]{32}$/),
+    token: z.string(),
+    decimals: z.number().int(),
+    rules: z.object({
+      allowPotions: z.boolean(),
+      allowPrayer: z.boolean(),
+      allowMovement: z.boolean(),
+      noMagic: z.boolean(),
+      noMelee: z.boolean(),
+      noRanged: z.boolean(),
+    }),
+    rulesDigest: z.string(),
+    depositFeePercent: z.string(),
+    transferFeePercent: z.string(),
+    houseFeePercent: z.string(),
+    houseFeeSource: z.enum(['base', 'tier', 'promo']),
+    drawFeePercent: z.string(),
+    player1: feeQuotePlayerSchema,
+    player2: feeQuotePlayerSchema,
+    pot: quoteAmountSchema,
+    houseFee: quoteAmountSchema,
+    houseFeeHeldAsDust: z.boolean(),
+    winnerPayout: quoteAmountSchema,
+    winnerTransferFee: quoteAmountSchema,
+    winnerReceives: quoteAmountSchema,
+    drawFee: quoteAmountSchema,
+    issuedAt: z.number().int(),
+    expiresAt: z.number().int(),
+  }),
+  signature: z.string().min(1),
+  signerPublicKey: z.string().min(1),
+});
+
+// Human units, as a JSON number or (exactly) as a decimal string
+const decimalAmountSchema = z.union([
+  z.number().positive(),
+  z.string().regex(/^\d+(\.\d+)?$/, 'Stake amounts must be decimal strings, e.g. "1.5"'),
+]);
+
+// Symbol of a token enabled in the token registry
+const tokenSchema = z.string()
+  .refine(token => tokenRegistry.isEnabled(token), token => ({ message: `Unsupported token: ${token}` }))
+  .optional()
+  .default('SOL');
+
+// Either one stake for both players, or one per player (unequal stakes)
+const stakeFields = {
+  stakeAmount: decimalAmountSchema.optional(),
+  player1StakeAmount: decimalAmountSchema.optional(),
+  player2StakeAmount: decimalAmountSchema.optional(),
+  token: tokenSchema,
+  rules: duelRulesSchema,
+};
+
+const hasStakes = (data: { stakeAmount?: unknown; player1StakeAmount?: unknown; player2StakeAmount?: unknown }) =>
+  data.stakeAmount !== undefined ||
+  (data.player1StakeAmount !== undefined && data.player2StakeAmount !== undefined);
+const STAKES_REQUIRED = 'stakeAmount or both player1StakeAmount and player2StakeAmount required';
+
 const createDuelSchema = z.object({
   player1Wallet: z.string().min(32).max(44),
   player2Wallet: z.string().min(32).max(44),
@@ -50,35 +154,59 @@ const createDuelSchema = z.object({
   player2CharacterId: z.string().min(1),
   player1Name: z.string().min(1).max(32),
   player2Name: z.string().min(1).max(32),
-  stakeAmount: z.number().positive(),
-  token: z.enum(['SOL', 'USD1', 'RADR']).optional().default('SOL'),
-  rules: duelRulesSchema,
-});
+  ...stakeFields,
+  feeQuote: signedFeeQuoteSchema.optional(),
+}).refine(hasStakes, STAKES_REQUIRED);
+
+const quoteDuelSchema = z.object(stakeFields).refine(hasStakes, STAKES_REQUIRED);
 
 const lockStakeSchema = z.object({
   duelId: z.string().length(32),
   playerWallet: z.string().min(32).max(44),
-  paymentProof: z.string().min(1), // ZK proof JSON from Unity client
-});
+  paymentProof: z.string().min(1).optional(), // ZK proof JSON from Unity client
+  authorizationId: z.string().regex(/^[0-9a-f]{32}$/).optional(), // Funded spending pre-authorization to draw from
+}).refine(
+  (body) => (body.paymentProof === undefined) !== (body.authorizationId === undefined),
+  { message: 'Provide exactly one of paymentProof or authorizationId' }
+);
+
+// Game server authorization (see services/server-signature.ts)
+const serverSignatureFields = {
+  serverSignature: z.string().min(1),
+  timestamp: z.number().int().positive(),
+  nonce: z.string().refine(isValidNonce, 'Nonce must be 16-128 characters of [A-Za-z0-9_-]'),
+};
 
 const settleDuelSchema = z.object({
   duelId: z.string().length(32),
   winnerWallet: z.string().min(32).max(44),
   winnerCharacterId: z.string().min(1).optional(),
-  serverSignature: z.string().min(1),
   combatSummary: combatSummarySchema,
+  ...serverSignatureFields,
+});
+
+const settleDrawSchema = z.object({
+  duelId: z.string().length(32),
+  combatSummary: combatSummarySchema,
+  ...serverSignatureFields,
 });
 
 const refundDuelSchema = z.object({
   duelId: z.string().length(32),
   reason: z.enum(['timeout', 'cancelled', 'error']),
-  serverSignature: z.string().min(1),
+  ...serverSignatureFields,
 });
 
+const jobIdSchema = z.string().regex(/^[0-9a-f]{32}$/);
+
 const getDuelSchema = z.object({
   duelId: z.string().length(32),
 });
 
+const auditProofSchema = getDuelSchema.extend({
+  commitment: z.enum(['outcome', 'terms']).default('outcome'),
+});
+
 // ============================================================================
 // Create Duel
 // ============================================================================
@@ -89,7 +217,7 @@ const getDuelSchema = z.object({
  * Create a new duel session between two players.
  * Returns duel ID and stealth IDs (safe to store).
  */
-duelRouter.post('/create', async (req, res) => {
+duelRouter.post('/create', idempotency('create'), async (req, res) => {
   try {
     const validation = createDuelSchema.safeParse(req.body);
 
@@ -109,8 +237,11 @@ duelRouter.post('/create', async (req, res) => {
       player1Name,
       player2Name,
       stakeAmount,
+      player1StakeAmount,
+      player2StakeAmount,
       token,
       rules,
+      feeQuote,
     } = validation.data;
 
     // Players cannot duel themselves
@@ -129,9 +260,12 @@ duelRouter.post('/create', async (req, res) => {
       player2CharacterId,
       player1Name,
       player2Name,
-      stakeAmountSol: stakeAmount,
+      // The refine guarantees one of each pair is present
+      player1StakeAmount: (player1StakeAmount ?? stakeAmount)!,
+      player2StakeAmount: (player2StakeAmount ?? stakeAmount)!,
       token,
       rules,
+      feeQuote,
     });
 
     if (!result.success || !result.duel) {
@@ -148,6 +282,9 @@ duelRouter.post('/create', async (req, res) => {
       player1StealthId: result.duel.player1.stealthId,
       player2StealthId: result.duel.player2.stealthId,
       stakeAmountLamports: result.duel.player1.stakeAmount.toString(),
+      player1StakeLamports: result.duel.player1.stakeAmount.toString(),
+      player2StakeLamports: result.duel.player2.stakeAmount.toString(),
+      houseFeePercent: result.duel.houseFeePercent,
       expiresAt: result.duel.expiresAt,
     };
 
@@ -165,6 +302,60 @@ duelRouter.post('/create', async (req, res) => {
   }
 });
 
+// ============================================================================
+// Fee Quote
+// ============================================================================
+
+/**
+ * POST /duel/quote
+ *
+ * Every fee line of a prospective duel (deposit, house and transfer fees),
+ * the pot, the winner payout, each refund and draw return, and whether the
+ * house fee will be held as dust. Signed with the server authority key;
+ * pass it as "feeQuote" to /duel/create to hold the duel to it.
+ */
+duelRouter.post('/quote', (req, res) => {
+  try {
+    const validation = quoteDuelSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid request: ${validation.error.issues.map(i => i.message).join(', ')}`,
+      } satisfies FeeQuoteResponse);
+      return;
+    }
+
+    const { stakeAmount, player1StakeAmount, player2StakeAmount, token, rules } = validation.data;
+    const result = duelEscrowService.quoteDuel({
+      // The refine guarantees one of each pair is present
+      player1StakeAmount: (player1StakeAmount ?? stakeAmount)!,
+      player2StakeAmount: (player2StakeAmount ?? stakeAmount)!,
+      token,
+      rules,
+    });
+
+    if (!result.success || !result.quote) {
+      res.status(400).json({
+        success: false,
+        error: result.error ?? 'Failed to quote duel',
+      } satisfies FeeQuoteResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      ...result.quote,
+    } satisfies FeeQuoteResponse);
+  } catch (error) {
+    console.error('[Duel] Quote error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies FeeQuoteResponse);
+  }
+});
+
 // ============================================================================
 // Lock Stake
 // ============================================================================
@@ -172,10 +363,11 @@ duelRouter.post('/create', async (req, res) => {
 /**
  * POST /duel/lock-stake
  *
- * Lock a player's stake in escrow via ShadowPay.
- * Uses pre-authorized spending (player must have authorized service).
+ * Lock a player's stake in escrow, either with proof of the player's
+ * ShadowPay transfer (paymentProof) or drawn from a funded spending
+ * pre-authorization (authorizationId, no wallet popup).
  */
-duelRouter.post('/lock-stake', async (req, res) => {
+duelRouter.post('/lock-stake', idempotency('lock-stake'), async (req, res) => {
   try {
     const validation = lockStakeSchema.safeParse(req.body);
 
@@ -189,7 +381,7 @@ duelRouter.post('/lock-stake', async (req, res) => {
       return;
     }
 
-    const { duelId, playerWallet, paymentProof } = validation.data;
+    const { duelId, playerWallet, paymentProof, authorizationId } = validation.data;
 
     const duel = await duelEscrowService.getDuel(duelId);
 
@@ -204,7 +396,9 @@ duelRouter.post('/lock-stake', async (req, res) => {
     }
 
     // Lock stake via ShadowPay (uses ZK proof from Unity client)
-    const result = await duelEscrowService.lockStakeWithProof(duelId, playerWallet, paymentProof);
+    const result = authorizationId
+      ? await duelEscrowService.lockStakeWithAuthorization(duelId, playerWallet, authorizationId)
+      : await duelEscrowService.lockStakeWithProof(duelId, playerWallet, paymentProof!);
 
     const updatedDuel = await duelEscrowService.getDuel(duelId);
 
@@ -224,6 +418,15 @@ duelRouter.post('/lock-stake', async (req, res) => {
 
     res.json(response);
   } catch (error) {
+    if (error instanceof DuelBusyError) {
+      res.status(409).json({
+        success: false,
+        error: error.message,
+        duelStatus: DuelStatus.FAILED,
+        bothLocked: false,
+      } satisfies LockStakeResponse);
+      return;
+    }
     console.error('[Duel] Lock stake error:', error);
     res.status(500).json({
       success: false,
@@ -241,10 +444,11 @@ duelRouter.post('/lock-stake', async (req, res) => {
 /**
  * POST /duel/settle
  *
- * Settle a duel and pay the winner.
+ * Queue settlement of a duel (winner payout). Returns 202 with a job ID;
+ * poll GET /duel/jobs/:jobId for the payout result.
  * Only called by game server after combat ends.
  */
-duelRouter.post('/settle', async (req, res) => {
+duelRouter.post('/settle', idempotency('settle'), async (req, res) => {
   try {
     const validation = settleDuelSchema.safeParse(req.body);
 
@@ -256,28 +460,50 @@ duelRouter.post('/settle', async (req, res) => {
       return;
     }
 
-    const { duelId, winnerWallet, serverSignature, combatSummary } = validation.data;
-
-    // Pass server signature to settlement for accountability commitment
-    const result = await duelEscrowService.settleDuel(duelId, winnerWallet, combatSummary, serverSignature);
+    const { duelId, winnerWallet, serverSignature, timestamp, nonce, combatSummary } = validation.data;
+    const winnerStealthId = generateStealthId(winnerWallet);
 
-    const response: SettleDuelResponse = {
-      success: result.success,
-      winnerTxSignature: result.winnerTxSignature,
-      treasuryTxSignature: result.treasuryTxSignature,
-      winnerPayoutLamports: result.winnerPayoutLamports?.toString(),
-      treasuryFeeLamports: result.houseFeeLamports?.toString(),
-      commitmentHash: result.commitmentHash,
-      commitmentTxSignature: result.commitmentTxSignature,
-      error: result.error,
-    };
+    // Game server must have signed this exact outcome
+    const authorization = await serverSignatureVerifier.verify(
+      { duelId, outcome: 'winner', winnerStealthId, timestamp, nonce },
+      serverSignature
+    );
 
-    if (result.success) {
-      console.log(`[Duel] Settled duel ${duelId} - winner paid`);
+    if (!(await duelEscrowService.getDuel(duelId))) {
+      res.status(404).json({
+        success: false,
+        error: 'Duel not found',
+      } satisfies SettleDuelResponse);
+      return;
     }
 
-    res.json(response);
+    const job = await settlementQueue.enqueue(
+      duelId,
+      { kind: 'settle', winnerStealthId, combatSummary },
+      authorization
+    );
+
+    res.status(202).json({
+      success: true,
+      jobId: job.jobId,
+      jobStatus: job.status,
+    } satisfies SettleDuelResponse);
   } catch (error) {
+    if (error instanceof ServerSignatureError) {
+      res.status(401).json({
+        success: false,
+        error: error.message,
+      } satisfies SettleDuelResponse);
+      return;
+    }
+    if (error instanceof SettlementInProgressError) {
+      res.status(409).json({
+        success: false,
+        jobId: error.jobId,
+        error: error.message,
+      } satisfies SettleDuelResponse);
+      return;
+    }
     console.error('[Duel] Settle error:', error);
     res.status(500).json({
       success: false,
@@ -286,6 +512,76 @@ duelRouter.post('/settle', async (req, res) => {
   }
 });
 
+// ============================================================================
+// Settle Draw
+// ============================================================================
+
+/**
+ * POST /duel/settle-draw
+ *
+ * Queue settlement of a duel that ended in a draw: each player gets their
+ * stake back minus the draw fee. Returns 202 with a job ID.
+ * Only called by game server after combat ends.
+ */
+duelRouter.post('/settle-draw', idempotency('settle-draw'), async (req, res) => {
+  try {
+    const validation = settleDrawSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid request',
+      } satisfies SettleDrawResponse);
+      return;
+    }
+
+    const { duelId, serverSignature, timestamp, nonce, combatSummary } = validation.data;
+
+    // Game server must have signed a draw for this duel
+    const authorization = await serverSignatureVerifier.verify(
+      { duelId, outcome: 'draw', winnerStealthId: null, timestamp, nonce },
+      serverSignature
+    );
+
+    if (!(await duelEscrowService.getDuel(duelId))) {
+      res.status(404).json({
+        success: false,
+        error: 'Duel not found',
+      } satisfies SettleDrawResponse);
+      return;
+    }
+
+    const job = await settlementQueue.enqueue(duelId, { kind: 'settle_draw', combatSummary }, authorization);
+
+    res.status(202).json({
+      success: true,
+      jobId: job.jobId,
+      jobStatus: job.status,
+    } satisfies SettleDrawResponse);
+  } catch (error) {
+    if (error instanceof ServerSignatureError) {
+      res.status(401).json({
+        success: false,
+        error: error.message,
+      } satisfies SettleDrawResponse);
+      return;
+    }
+    if (error instanceof SettlementInProgressError) {
+      res.status(409).json({
+        success: false,
+        jobId: error.jobId,
+        error: error.message,
+      } satisfies SettleDrawResponse);
+      return;
+    }
+    console.error('[Duel] Settle draw error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies SettleDrawResponse);
+  }
+});
+
 // ============================================================================
 // Refund Duel
 // ============================================================================
@@ -293,10 +589,10 @@ duelRouter.post('/settle', async (req, res) => {
 /**
  * POST /duel/refund
  *
- * Refund a duel (timeout, cancellation, or error).
- * Returns stakes to players.
+ * Queue a refund (timeout, cancellation, or error) returning stakes to
+ * players. Returns 202 with a job ID.
  */
-duelRouter.post('/refund', async (req, res) => {
+duelRouter.post('/refund', idempotency('refund'), async (req, res) => {
   try {
     const validation = refundDuelSchema.safeParse(req.body);
 
@@ -308,24 +604,44 @@ duelRouter.post('/refund', async (req, res) => {
       return;
     }
 
-    const { duelId, reason, serverSignature } = validation.data;
-
-    // TODO: Verify serverSignature
+    const { duelId, reason, serverSignature, timestamp, nonce } = validation.data;
 
-    const result = await duelEscrowService.refundDuel(duelId, reason);
-
-    const response: RefundDuelResponse = {
-      success: result.success,
-      refundTxSignatures: result.refundTxSignatures,
-      error: result.error,
-    };
+    const authorization = await serverSignatureVerifier.verify(
+      { duelId, outcome: `refund_${reason}`, winnerStealthId: null, timestamp, nonce },
+      serverSignature
+    );
 
-    if (result.success) {
-      console.log(`[Duel] Refunded duel ${duelId} - reason: ${reason}`);
+    if (!(await duelEscrowService.getDuel(duelId))) {
+      res.status(404).json({
+        success: false,
+        error: 'Duel not found',
+      } satisfies RefundDuelResponse);
+      return;
     }
 
-    res.json(response);
+    const job = await settlementQueue.enqueue(duelId, { kind: 'refund', reason }, authorization);
+
+    res.status(202).json({
+      success: true,
+      jobId: job.jobId,
+      jobStatus: job.status,
+    } satisfies RefundDuelResponse);
   } catch (error) {
+    if (error instanceof ServerSignatureError) {
+      res.status(401).json({
+        success: false,
+        error: error.message,
+      } satisfies RefundDuelResponse);
+      return;
+    }
+    if (error instanceof SettlementInProgressError) {
+      res.status(409).json({
+        success: false,
+        jobId: error.jobId,
+        error: error.message,
+      } satisfies RefundDuelResponse);
+      return;
+    }
     console.error('[Duel] Refund error:', error);
     res.status(500).json({
       success: false,
@@ -334,6 +650,50 @@ duelRouter.post('/refund', async (req, res) => {
   }
 });
 
+// ============================================================================
+// Settlement Jobs
+// ============================================================================
+
+/**
+ * GET /duel/jobs/:jobId
+ *
+ * Status of a settle/refund job; `result` holds the payout once finished.
+ */
+duelRouter.get('/jobs/:jobId', async (req, res) => {
+  try {
+    const validation = jobIdSchema.safeParse(req.params.jobId);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid job ID',
+      } satisfies GetSettlementJobResponse);
+      return;
+    }
+
+    const job = await settlementQueue.getJob(validation.data);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      } satisfies GetSettlementJobResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      job: describeJob(job),
+    } satisfies GetSettlementJobResponse);
+  } catch (error) {
+    console.error('[Duel] Get job error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies GetSettlementJobResponse);
+  }
+});
+
 // ============================================================================
 // Direct Withdraw (Recovery)
 // ============================================================================
@@ -343,7 +703,7 @@ duelRouter.post('/refund', async (req, res) => {
  *
  * Direct withdraw from escrow to any wallet. For emergency recovery.
  */
-duelRouter.post('/recovery/withdraw', async (req, res) => {
+duelRouter.post('/recovery/withdraw', idempotency('recovery-withdraw'), async (req, res) => {
   try {
     const { recipientWallet, amountLamports, token } = req.body;
 
@@ -355,29 +715,26 @@ duelRouter.post('/recovery/withdraw', async (req, res) => {
       return;
     }
 
-    const amount = parseInt(amountLamports, 10);
-    if (amount < 100000000) {
+    const amount = Amount.fromUnits(token || 'SOL', amountLamports);
+    const minimum = getTransferProvider().feeInfo(amount.token).shadowWireMinimum;
+    if (amount.lt(minimum)) {
       res.status(400).json({
         success: false,
-        error: 'Amount must be >= 100000000 (0.1 SOL minimum)',
+        error: `Amount must be >= ${minimum.units} (${minimum.toDecimal()} ${amount.token} minimum)`,
       });
       return;
     }
 
-    console.log(`[Duel] Recovery withdraw: ${amount} lamports to ${recipientWallet}`);
+    console.log(`[Duel] Recovery withdraw: ${amount.toDisplay()} to ${recipientWallet}`);
 
-    const result = await shadowWireDirect.transferFromEscrow(
-      recipientWallet,
-      amount,
-      token || 'SOL'
-    );
+    const result = await getTransferProvider().transferFromEscrow(recipientWallet, amount);
 
     if (result.success) {
       res.json({
         success: true,
         txSignature: result.txSignature,
         amountLamports: amount,
-        amountSol: (amount / 1_000_000_000).toFixed(9),
+        amountSol: amount.toDecimal(),
         recipient: recipientWallet,
       });
     } else {
@@ -387,6 +744,13 @@ duelRouter.post('/recovery/withdraw', async (req, res) => {
       });
     }
   } catch (error) {
+    if (error instanceof AmountError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
     console.error('[Duel] Recovery withdraw error:', error);
     res.status(500).json({
       success: false,
@@ -411,12 +775,19 @@ duelRouter.get('/service-info', async (req, res) => {
     const config = getConfig();
     res.json({
       success: true,
-      escrowWallet: shadowWireDirect.getEscrowWallet(),
-      treasuryWallet: shadowWireDirect.getTreasuryWallet(),
-      supportedTokens: SUPPORTED_TOKENS,
-      tokenMinimums: TOKEN_MINIMUM_DISPLAY,
+      escrowWallet: getTransferProvider().getEscrowWallet(),
+      treasuryWallet: getTransferProvider().getTreasuryWallet(),
+      transferProvider: getTransferProvider().name,
+      supportedTokens: tokenRegistry.enabledSymbols,
+      tokenMinimums: Object.fromEntries(
+        tokenRegistry.enabledSymbols.map(token => [token, Number(tokenRegistry.minimum(token).toDecimal())])
+      ),
+      tokens: tokenRegistry.describe(),
       houseFeePercent: config.HOUSE_FEE_PERCENT,
-      feeInfo: shadowWireDirect.getFeeInfo('SOL'),
+      drawFeePercent: config.DRAW_FEE_PERCENT,
+      fees: feeSchedule.describe(),
+      // Key fee quotes are signed with (POST /duel/quote)
+      quoteSignerPublicKey: feeQuoteSigner.publicKey,
     });
   } catch (error) {
     console.error('[Duel] Service info error:', error);
@@ -457,16 +828,108 @@ duelRouter.get('/recovery/status', async (req, res) => {
   }
 });
 
+/**
+ * GET /duel/recovery/dead-letter
+ *
+ * Settle/refund jobs that exhausted their retries (their duels are also
+ * listed as failed in /recovery/status).
+ */
+duelRouter.get('/recovery/dead-letter', async (req, res) => {
+  try {
+    const jobs = await settlementQueue.getDeadLetters();
+
+    res.json({
+      success: true,
+      jobs: jobs.map(describeJob),
+      count: jobs.length,
+    });
+  } catch (error) {
+    console.error('[Duel] Dead letter error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * POST /duel/recovery/dead-letter/:jobId/retry
+ *
+ * Requeue a dead-lettered job with a fresh set of attempts.
+ */
+duelRouter.post('/recovery/dead-letter/:jobId/retry', async (req, res) => {
+  try {
+    const validation = jobIdSchema.safeParse(req.params.jobId);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid job ID',
+      } satisfies GetSettlementJobResponse);
+      return;
+    }
+
+    const job = await settlementQueue.retry(validation.data);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: 'No dead-lettered job with this ID',
+      } satisfies GetSettlementJobResponse);
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      job: describeJob(job),
+    } satisfies GetSettlementJobResponse);
+  } catch (error) {
+    console.error('[Duel] Retry job error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies GetSettlementJobResponse);
+  }
+});
+
+/**
+ * GET /duel/recovery/auto-refunds
+ *
+ * Get the audit trail of refunds issued by the expiry worker (deadman's switch).
+ */
+duelRouter.get('/recovery/auto-refunds', async (req, res) => {
+  try {
+    const records = await duelEscrowService.getAutoRefunds();
+
+    res.json({
+      success: true,
+      records,
+      count: records.length,
+      failedCount: records.filter(r => !r.success).length,
+    });
+  } catch (error) {
+    console.error('[Duel] Auto refunds error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
 /**
  * POST /duel/recovery/emergency-refund
  *
  * Emergency refund for stuck funds. Requires wallet addresses.
+ * Stakes are given as stakePerPlayerLamports, or per player via
+ * player1StakeLamports/player2StakeLamports for unequal stakes.
  */
-duelRouter.post('/recovery/emergency-refund', async (req, res) => {
+duelRouter.post('/recovery/emergency-refund', idempotency('emergency-refund'), async (req, res) => {
   try {
     const { duelId, player1Wallet, player2Wallet, stakePerPlayerLamports, token } = req.body;
+    const player1StakeLamports = req.body.player1StakeLamports ?? stakePerPlayerLamports;
+    const player2StakeLamports = req.body.player2StakeLamports ?? stakePerPlayerLamports;
 
-    if (!duelId || !player1Wallet || !player2Wallet || !stakePerPlayerLamports) {
+    if (!duelId || !player1Wallet || !player2Wallet || !player1StakeLamports || !player2StakeLamports) {
       res.status(400).json({
         success: false,
         error: 'Missing required fields: duelId, player1Wallet, player2Wallet, stakePerPlayerLamports',
@@ -480,8 +943,8 @@ duelRouter.post('/recovery/emergency-refund', async (req, res) => {
       duelId,
       player1Wallet,
       player2Wallet,
-      parseInt(stakePerPlayerLamports, 10),
-      token || 'SOL'
+      Amount.fromUnits(token || 'SOL', player1StakeLamports),
+      Amount.fromUnits(token || 'SOL', player2StakeLamports)
     );
 
     if (result.success) {
@@ -498,6 +961,20 @@ duelRouter.post('/recovery/emergency-refund', async (req, res) => {
       });
     }
   } catch (error) {
+    if (error instanceof DuelBusyError) {
+      res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+    if (error instanceof AmountError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
     console.error('[Duel] Emergency refund error:', error);
     res.status(500).json({
       success: false,
@@ -513,24 +990,29 @@ duelRouter.post('/recovery/emergency-refund', async (req, res) => {
 /**
  * GET /duel/dust-status
  *
- * Get accumulated dust (house fees below 0.1 SOL minimum).
+ * Get accumulated dust (house fees below the token's transfer minimum).
  */
 duelRouter.get('/dust-status', async (req, res) => {
   try {
     const token = (req.query.token as string) || 'SOL';
     const dustAmount = await duelEscrowService.getAccumulatedDust(token);
-    const dustSol = dustAmount / 1_000_000_000;
-    const canSweep = dustAmount >= 100_000_000; // 0.1 SOL minimum
 
     res.json({
       success: true,
       token,
       dustLamports: dustAmount,
-      dustSol: dustSol.toFixed(9),
-      canSweep,
-      minimumToSweep: '0.1 SOL',
+      dustSol: dustAmount.toDecimal(),
+      canSweep: !feeSchedule.heldAsDust(dustAmount),
+      minimumToSweep: `${feeSchedule.transferMinimum(token).toDecimal()} ${token}`,
     });
   } catch (error) {
+    if (error instanceof AmountError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
     console.error('[Duel] Dust status error:', error);
     res.status(500).json({
       success: false,
@@ -542,9 +1024,9 @@ duelRouter.get('/dust-status', async (req, res) => {
 /**
  * POST /duel/sweep-dust
  *
- * Sweep accumulated dust to treasury (requires >= 0.1 SOL).
+ * Sweep accumulated dust to treasury (requires the token's transfer minimum).
  */
-duelRouter.post('/sweep-dust', async (req, res) => {
+duelRouter.post('/sweep-dust', idempotency('sweep-dust'), async (req, res) => {
   try {
     const token = (req.body.token as string) || 'SOL';
     const result = await duelEscrowService.sweepDustToTreasury(token);
@@ -553,18 +1035,25 @@ duelRouter.post('/sweep-dust', async (req, res) => {
       res.json({
         success: true,
         sweptLamports: result.amount,
-        sweptSol: result.amount ? (result.amount / 1_000_000_000).toFixed(9) : '0',
+        sweptSol: result.amount?.toDecimal() ?? '0',
         txSignature: result.txSignature,
       });
     } else {
       res.status(400).json({
         success: false,
         currentDustLamports: result.amount,
-        currentDustSol: result.amount ? (result.amount / 1_000_000_000).toFixed(9) : '0',
+        currentDustSol: result.amount?.toDecimal() ?? '0',
         error: result.error,
       });
     }
   } catch (error) {
+    if (error instanceof AmountError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
     console.error('[Duel] Dust sweep error:', error);
     res.status(500).json({
       success: false,
@@ -591,7 +1080,13 @@ duelRouter.get('/test-wasm', async (req, res) => {
       return;
     }
 
-    console.log('[Duel] Testing WASM loading...');
+    const provider = getTransferProvider();
+    if (provider.name === 'mock') {
+      res.status(400).json({ success: false, error: 'TRANSFER_PROVIDER=mock does not generate ZK proofs' });
+      return;
+    }
+
+    console.log(`[Duel] Testing WASM loading (${provider.name} provider)...`);
 
     // Just test WASM loading without doing a real transfer
     // Real transfers require minimum 0.1 SOL
@@ -599,12 +1094,8 @@ duelRouter.get('/test-wasm', async (req, res) => {
 
     if (doRealTransfer) {
       // Real transfer test (requires 0.1 SOL minimum)
-      const testAmount = 100000000; // 0.1 SOL
-      const result = await shadowWireDirect.transferFromEscrow(
-        shadowWireDirect.getTreasuryWallet(),
-        testAmount,
-        'SOL'
-      );
+      const testAmount = Amount.parse('SOL', '0.1');
+      const result = await provider.transferToTreasury(testAmount);
 
       res.json({
         success: result.success,
@@ -619,10 +1110,8 @@ duelRouter.get('/test-wasm', async (req, res) => {
       // Just test WASM loading by generating a proof (no transfer)
       // Trigger WASM load indirectly by attempting a transfer that will fail validation
       // before actually sending (amount too small)
-      const result = await shadowWireDirect.transferFromEscrow(
-        shadowWireDirect.getTreasuryWallet(),
-        1000, // Too small, will fail at API level but WASM will load
-        'SOL'
+      const result = await provider.transferToTreasury(
+        Amount.fromUnits('SOL', 1000) // Too small, will fail at API level but WASM will load
       );
 
       // If we got a meaningful error from the API, WASM loaded successfully
@@ -654,11 +1143,129 @@ duelRouter.get('/test-wasm', async (req, res) => {
 // Verify Settlement (Accountability)
 // ============================================================================
 
+/**
+ * Commitment fields worth showing, by kind and version (v2 amounts stay salted)
+ */
+function describeCommitmentFields(commitment: DuelCommitment) {
+  if (isTermsCommitment(commitment)) {
+    return {
+      kind: 'terms',
+      player1StealthId: commitment.player1StealthId,
+      player2StealthId: commitment.player2StealthId,
+      token: commitment.token,
+      amountCommitments: commitment.amounts,
+      rulesDigest: commitment.rulesDigest,
+      expiresAt: commitment.expiresAt,
+    };
+  }
+
+  const players = isDrawCommitment(commitment)
+    ? {
+        outcome: 'draw',
+        player1StealthId: commitment.player1StealthId,
+        player2StealthId: commitment.player2StealthId,
+      }
+    : {
+        outcome: 'win',
+        winnerStealthId: commitment.winnerStealthId,
+        loserStealthId: commitment.loserStealthId,
+      };
+
+  if (commitment.version === 2) {
+    return {
+      kind: 'outcome',
+      ...players,
+      token: commitment.token,
+      // Salted - open them with "opening.amounts"
+      amountCommitments: commitment.amounts,
+      rulesDigest: commitment.rulesDigest,
+      combatDigest: commitment.combatDigest,
+      termsCommitmentHash: commitment.termsCommitmentHash ?? null,
+    };
+  }
+
+  return {
+    kind: 'outcome',
+    ...players,
+    ...(isDrawCommitment(commitment)
+      ? { player1Stake: commitment.player1Stake, player2Stake: commitment.player2Stake }
+      : { winnerStake: commitment.winnerStake, loserStake: commitment.loserStake }),
+  };
+}
+
+/**
+ * Everything needed to check one commitment record: the exact hashed data,
+ * its opening, its place in the audit chain and where it was anchored
+ */
+function describeCommitmentRecord(record: CommitmentRecord) {
+  const { commitment } = record;
+
+  // Recompute hash for verification (v2 is canonically encoded, v1 is JSON.stringify)
+  const rawData = serializeCommitment(commitment);
+  const recomputedHash = hashCommitment(commitment);
+
+  const anchor = accountabilityService.getAnchorProof(record.commitmentHash);
+  const { posted, txSignature, via } = accountabilityService.getOnChainStatus(record);
+  const opening = accountabilityService.verifyOpening(record);
+
+  return {
+    verification: {
+      duelId: commitment.duelId,
+      version: commitment.version,
+      ...describeCommitmentFields(commitment),
+      timestamp: commitment.timestamp,
+      timestampHuman: new Date(commitment.timestamp).toISOString(),
+    },
+    commitment: {
+      // The raw commitment data - hash this yourself to verify
+      rawData,
+      // Our computed hash
+      hash: record.commitmentHash,
+      // Recomputed hash (should match)
+      recomputedHash,
+      hashMatches: recomputedHash === record.commitmentHash,
+    },
+    // What a v2 commitment was built from, checked against it
+    opening: record.opening && opening
+      ? {
+          amounts: record.opening.amounts,
+          terms: record.opening.terms,
+          combatSummary: record.opening.combatSummary ?? null,
+          ...opening,
+        }
+      : null,
+    auditChain: {
+      sequence: record.sequence,
+      recordHash: record.recordHash,
+    },
+    onChain: {
+      posted,
+      txSignature,
+      // 'memo' (first attempt), 'repost' (by the reconciler) or 'batch' (Merkle root)
+      via,
+      // Link to view on Solscan
+      solscanUrl: txSignature ? `https://solscan.io/tx/${txSignature}` : null,
+    },
+    // Inclusion proof when the hash was anchored in a Merkle batch
+    merkle: anchor
+      ? {
+          ...anchor,
+          proofValid: verifyMerkleProof(record.commitmentHash, anchor.path, anchor.root),
+        }
+      : null,
+  };
+}
+
 /**
  * GET /duel/verify/:duelId
  *
- * Get commitment record for a settled duel to verify accountability.
+ * Get the commitment records for a duel to verify accountability:
+ * the outcome commitment made before payout (top level, null until then)
+ * and the terms commitment made when both stakes locked ("terms").
  * Returns the commitment data so anyone can hash it and compare to on-chain.
+ * For a commitment anchored in a Merkle batch, also returns its inclusion
+ * path up to the root posted in the memo. A duel created from a fee quote
+ * also returns the quote, checked against the terms and the settlement.
  *
  * NOTE: Must be defined BEFORE /:duelId route to avoid wildcard match.
  */
@@ -675,8 +1282,9 @@ duelRouter.get('/verify/:duelId', async (req, res) => {
     }
 
     const record = accountabilityService.getCommitmentRecord(duelId);
+    const termsRecord = accountabilityService.getTermsRecord(duelId);
 
-    if (!record) {
+    if (!record && !termsRecord) {
       res.status(404).json({
         success: false,
         error: 'No commitment record found for this duel',
@@ -684,47 +1292,77 @@ duelRouter.get('/verify/:duelId', async (req, res) => {
       return;
     }
 
-    // Recompute hash for verification
-    const recomputedHash = createHash('sha256')
-      .update(JSON.stringify(record.commitment))
-      .digest('hex');
+    const outcome = record
+      ? describeCommitmentRecord(record)
+      : { verification: null, commitment: null, opening: null, auditChain: null, onChain: null, merkle: null };
+
+    // The outcome commitment names the terms commitment it was checked against
+    const boundToOutcome =
+      record && termsRecord && record.commitment.version === 2 && !isTermsCommitment(record.commitment)
+        ? record.commitment.termsCommitmentHash === termsRecord.commitmentHash
+        : null;
+
+    const shown = record ?? termsRecord!;
+    const howToVerify = [
+      'Copy the "rawData" field above',
+      'Compute SHA-256 hash of it (use any online tool or: echo -n \'<rawData>\' | sha256sum)',
+      'Compare your hash with the "hash" field - they should match',
+    ];
+    if (shown.commitment.version === 2) {
+      howToVerify.push(
+        'For each entry of "opening.amounts", SHA-256 of {"duelId":...,"label":...,"salt":...,"value":...} (keys sorted, no spaces) should equal the same entry of "verification.amountCommitments"'
+      );
+    }
+    if (accountabilityService.getAnchorProof(shown.commitmentHash)) {
+      howToVerify.push(
+        'Compute the leaf: SHA-256 of byte 0x00 followed by the 32 hash bytes',
+        'For each "merkle.path" step, SHA-256 of byte 0x01 followed by the sibling and the current hash, sibling on its "side"',
+        'The result should equal "merkle.root"',
+        'Look up the "solscanUrl" on Solscan - the memo instruction data should equal "merkle.root"',
+        'If all match, the outcome was committed to no later than the anchoring transaction'
+      );
+    } else {
+      howToVerify.push(
+        'Look up the "solscanUrl" on Solscan',
+        'Check the memo instruction data - it should equal the "hash" value',
+        `If all match, the operator committed to ${record ? 'this outcome BEFORE settlement' : 'these terms BEFORE combat'}`
+      );
+    }
+    if (termsRecord) {
+      howToVerify.push(
+        'Check "terms" the same way - it was committed when both stakes locked, before combat',
+        '"terms.boundToOutcome" is true when the outcome commitment carries the terms hash (verification.termsCommitmentHash)'
+      );
+    }
 
-    const hashMatches = recomputedHash === record.commitmentHash;
+    // The quote the duel was created from, held against the terms and the settlement
+    const signedQuote = termsRecord?.opening?.feeQuote;
+    const feeQuote = termsRecord && signedQuote
+      ? {
+          ...signedQuote,
+          signatureValid: verifyFeeQuoteSignature(signedQuote),
+          rulesMatch:
+            isTermsCommitment(termsRecord.commitment) &&
+            signedQuote.quote.rulesDigest === termsRecord.commitment.rulesDigest,
+          settlementMatches:
+            record?.opening && record.commitment.version === 2 && !isTermsCommitment(record.commitment)
+              ? settlementMatchesQuote(signedQuote.quote, record.commitment.outcome, record.opening.amounts)
+              : null,
+        }
+      : null;
+    if (feeQuote) {
+      howToVerify.push(
+        'Check "feeQuote.signature" against "feeQuote.signerPublicKey" (Ed25519) over "alerith-fee-quote:v1", a newline and the quote in canonical JSON',
+        '"feeQuote.settlementMatches" is true when the amounts opened from the outcome commitment are the quoted payouts and fee'
+      );
+    }
 
     res.json({
       success: true,
-      verification: {
-        duelId: record.commitment.duelId,
-        winnerStealthId: record.commitment.winnerStealthId,
-        loserStealthId: record.commitment.loserStealthId,
-        timestamp: record.commitment.timestamp,
-        timestampHuman: new Date(record.commitment.timestamp).toISOString(),
-      },
-      commitment: {
-        // The raw commitment data - hash this yourself to verify
-        rawData: JSON.stringify(record.commitment),
-        // Our computed hash
-        hash: record.commitmentHash,
-        // Recomputed hash (should match)
-        recomputedHash,
-        hashMatches,
-      },
-      onChain: {
-        posted: record.onChainSuccess,
-        txSignature: record.onChainTxSignature || null,
-        // Link to view on Solscan
-        solscanUrl: record.onChainTxSignature
-          ? `https://solscan.io/tx/${record.onChainTxSignature}`
-          : null,
-      },
-      howToVerify: [
-        '1. Copy the "rawData" field above',
-        '2. Compute SHA-256 hash of it (use any online tool or: echo -n \'<rawData>\' | sha256sum)',
-        '3. Compare your hash with the "hash" field - they should match',
-        '4. Look up the "solscanUrl" on Solscan',
-        '5. Check the memo instruction data - it should equal the "hash" value',
-        '6. If all match, the operator committed to this outcome BEFORE settlement',
-      ],
+      ...outcome,
+      terms: termsRecord ? { ...describeCommitmentRecord(termsRecord), boundToOutcome } : null,
+      feeQuote,
+      howToVerify: howToVerify.map((step, index) => `${index + 1}. ${step}`),
     });
   } catch (error) {
     console.error('[Duel] Verify error:', error);
@@ -735,6 +1373,99 @@ duelRouter.get('/verify/:duelId', async (req, res) => {
   }
 });
 
+// ============================================================================
+// Audit Chain
+// ============================================================================
+
+/**
+ * GET /duel/audit/head
+ *
+ * Current head of the hash-chained audit log (record count and newest
+ * record hash). Keep copies over time: a later head must extend them.
+ */
+duelRouter.get('/audit/head', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      head: accountabilityService.getAuditHead(),
+    } satisfies GetAuditHeadResponse);
+  } catch (error) {
+    console.error('[Duel] Audit head error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies GetAuditHeadResponse);
+  }
+});
+
+/**
+ * GET /duel/audit/proof/:duelId?commitment=outcome|terms
+ *
+ * A duel's commitment record (the outcome by default, or the terms
+ * committed when both stakes locked) with the entry hashes of every later record.
+ * Recompute the record's hash, then fold the later hashes onto it; the
+ * result must equal the head (see verifyAuditProof in audit-log.ts).
+ */
+duelRouter.get('/audit/proof/:duelId', (req, res) => {
+  try {
+    const validation = auditProofSchema.safeParse({
+      duelId: req.params.duelId,
+      commitment: req.query.commitment,
+    });
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid duel ID or commitment kind',
+      } satisfies GetAuditProofResponse);
+      return;
+    }
+
+    const proof = accountabilityService.getAuditProof(validation.data.duelId, validation.data.commitment);
+
+    if (!proof) {
+      res.status(404).json({
+        success: false,
+        error: 'No commitment record found for this duel',
+      } satisfies GetAuditProofResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      ...proof,
+    } satisfies GetAuditProofResponse);
+  } catch (error) {
+    console.error('[Duel] Audit proof error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies GetAuditProofResponse);
+  }
+});
+
+/**
+ * GET /duel/audit/backlog
+ *
+ * Commitments whose hash is not on-chain yet (oldest first), with how long
+ * each has waited and the reconciler's retry state. An empty backlog means
+ * every recorded commitment is anchored.
+ */
+duelRouter.get('/audit/backlog', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      backlog: commitmentReconciler.getBacklog(),
+    } satisfies GetCommitmentBacklogResponse);
+  } catch (error) {
+    console.error('[Duel] Commitment backlog error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies GetCommitmentBacklogResponse);
+  }
+});
+
 // ============================================================================
 // Get Duel Status
 // ============================================================================
@@ -779,9 +1510,12 @@ duelRouter.get('/:duelId', async (req, res) => {
         player1Locked: duel.player1.stakeLocked,
         player2Locked: duel.player2.stakeLocked,
         stakeAmountLamports: duel.player1.stakeAmount.toString(),
+        player1StakeLamports: duel.player1.stakeAmount.toString(),
+        player2StakeLamports: duel.player2.stakeAmount.toString(),
         token: duel.token,
         rules: duel.rules,
         expiresAt: duel.expiresAt,
+        outcome: duel.outcome,
         winnerStealthId: duel.winnerStealthId,
         combatSummary: duel.combatSummary,
       },
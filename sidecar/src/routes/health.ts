@@ -4,8 +4,8 @@
 
 import { Router } from 'express';
 import type { HealthStatus } from '../types/index.js';
-import { shadowWireService } from '../services/shadowwire.js';
-import { memoryStore } from '../services/memory-store.js';
+import { getTransferProvider } from '../services/transfer-provider.js';
+import { getDuelStore } from '../services/duel-store.js';
 
 export function createHealthRouter(): Router {
   const router = Router();
@@ -20,14 +20,15 @@ export function createHealthRouter(): Router {
     try {
       const checks = await runHealthChecks();
 
-      const allHealthy = checks.memoryStore && checks.shadowwire && checks.solana;
+      const allHealthy = checks.duelStore && checks.shadowwire && checks.solana;
 
       const status: HealthStatus = {
         status: allHealthy ? 'healthy' : 'degraded',
         version: '2.0.0',
         uptime: Math.floor((Date.now() - startTime) / 1000),
+        transferProvider: getTransferProvider().name,
         checks: {
-          redis: checks.memoryStore, // Backwards compatibility
+          redis: checks.duelStore, // Backwards compatibility
           shadowwire: checks.shadowwire,
           solana: checks.solana,
         },
@@ -40,6 +41,7 @@ export function createHealthRouter(): Router {
         status: 'unhealthy',
         version: '2.0.0',
         uptime: Math.floor((Date.now() - startTime) / 1000),
+        transferProvider: getTransferProvider().name,
         checks: {
           redis: false,
           shadowwire: false,
@@ -59,11 +61,11 @@ export function createHealthRouter(): Router {
     try {
       const checks = await runHealthChecks();
 
-      // Service is ready if memory store is up (ShadowWire/Solana can be degraded)
-      if (checks.memoryStore) {
+      // Service is ready if duel store is up (ShadowWire/Solana can be degraded)
+      if (checks.duelStore) {
         res.status(200).json({ ready: true });
       } else {
-        res.status(503).json({ ready: false, reason: 'Memory store unavailable' });
+        res.status(503).json({ ready: false, reason: 'Duel store unavailable' });
       }
     } catch {
       res.status(503).json({ ready: false, reason: 'Health check failed' });
@@ -86,23 +88,27 @@ export function createHealthRouter(): Router {
  * Run health checks against dependencies.
  */
 async function runHealthChecks(): Promise<{
-  memoryStore: boolean;
+  duelStore: boolean;
   shadowwire: boolean;
   solana: boolean;
 }> {
   const results = {
-    memoryStore: false,
+    duelStore: false,
     shadowwire: false,
     solana: false,
   };
 
-  // Check memory store (always healthy for in-memory)
-  results.memoryStore = memoryStore.isHealthy();
+  // Check duel store (memory backend is always healthy)
+  try {
+    results.duelStore = await getDuelStore().isHealthy();
+  } catch {
+    results.duelStore = false;
+  }
 
   // Check ShadowWire (via balance check on escrow wallet)
   try {
-    const escrowWallet = shadowWireService.getEscrowWallet();
-    const balance = await shadowWireService.getBalance(escrowWallet);
+    const provider = getTransferProvider();
+    const balance = await provider.getBalance(provider.getEscrowWallet(), 'SOL');
     results.shadowwire = balance.success;
     results.solana = balance.success; // If ShadowWire works, Solana is reachable
   } catch {
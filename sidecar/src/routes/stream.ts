@@ -0,0 +1,259 @@
+/**
+ * Stream Routes - Duel Status over SSE and WebSocket
+ *
+ * The same paths serve Server-Sent Events (plain GET) and WebSocket
+ * (Upgrade: websocket):
+ *
+ *   /stream/duels/:duelId          one duel, no auth (the duel ID is the capability)
+ *   /api/v1/stream/duels/:duelId   one duel, X-Internal-Secret
+ *   /api/v1/stream/duels           every duel, X-Internal-Secret (game server)
+ *
+ * To resume after a disconnect, send the last event ID as the
+ * Last-Event-ID header (EventSource does this automatically) or as
+ * ?lastEventId= (WebSocket clients). Each SSE event is
+ * `id: <id>\nevent: <type>\ndata: <DuelStreamEvent JSON>`; each WebSocket
+ * message is the DuelStreamEvent JSON. See services/duel-stream.ts.
+ */
+
+import type { IncomingMessage, Server } from 'http';
+import { STATUS_CODES } from 'http';
+import type { Socket } from 'net';
+import { Router, type Request, type Response } from 'express';
+import WebSocket from 'ws';
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+import { duelEscrowService } from '../services/duel-escrow.js';
+import { duelStream } from '../services/duel-stream.js';
+import type { DuelId, DuelStreamEvent } from '../types/index.js';
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const duelIdSchema = z.string().regex(/^[0-9a-f]{32}$/);
+
+const lastEventIdSchema = z.string().max(64);
+
+// SSE clients wait this long before reconnecting
+const SSE_RETRY_MS = 3000;
+
+// WebSocket clients only listen, so inbound messages stay tiny
+const WS_MAX_PAYLOAD_BYTES = 1024;
+
+interface StreamTarget {
+  /** Duel to follow, null for every duel */
+  duelId: DuelId | null;
+}
+
+/**
+ * Check the target duel and capacity before a stream is opened
+ */
+async function checkTarget(target: StreamTarget): Promise<{ status: number; error: string } | null> {
+  if (target.duelId !== null && !(await duelEscrowService.getDuel(target.duelId))) {
+    return { status: 404, error: 'Duel not found' };
+  }
+  if (duelStream.isFull()) {
+    return { status: 503, error: 'Too many stream connections' };
+  }
+  return null;
+}
+
+// ============================================================================
+// Server-Sent Events
+// ============================================================================
+
+/**
+ * Create the SSE router. Only internally authenticated mounts may stream
+ * every duel.
+ */
+export function createStreamRouter(options: { allowAllDuels: boolean }): Router {
+  const router = Router();
+
+  router.get('/duels/:duelId', async (req, res) => {
+    const validation = duelIdSchema.safeParse(req.params.duelId);
+
+    if (!validation.success) {
+      res.status(400).json({ success: false, error: 'Invalid duel ID' });
+      return;
+    }
+
+    await openEventStream(req, res, { duelId: validation.data });
+  });
+
+  if (options.allowAllDuels) {
+    router.get('/duels', async (req, res) => {
+      await openEventStream(req, res, { duelId: null });
+    });
+  }
+
+  return router;
+}
+
+async function openEventStream(req: Request, res: Response, target: StreamTarget): Promise<void> {
+  try {
+    const rejection = await checkTarget(target);
+    if (rejection) {
+      res.status(rejection.status).json({ success: false, error: rejection.error });
+      return;
+    }
+
+    const lastEventId = lastEventIdSchema.safeParse(req.header('last-event-id') ?? req.query.lastEventId);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Disable proxy buffering (nginx)
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+    let closed = false;
+    let unsubscribe: (() => void) | null = null;
+    const heartbeat = setInterval(() => {
+      res.write(': ping\n\n');
+    }, getConfig().streamHeartbeatMs);
+
+    req.on('close', () => {
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe?.();
+    });
+
+    unsubscribe = await duelStream.subscribe({
+      duelId: target.duelId,
+      lastEventId: lastEventId.success ? lastEventId.data : undefined,
+      send: (event) => {
+        res.write(formatServerSentEvent(event));
+      },
+      close: () => {
+        res.end();
+      },
+    });
+
+    // The client may have gone while the catch-up was sent
+    if (closed) unsubscribe();
+  } catch (error) {
+    console.error('[Stream] SSE error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    } else {
+      res.end();
+    }
+  }
+}
+
+function formatServerSentEvent(event: DuelStreamEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// ============================================================================
+// WebSocket
+// ============================================================================
+
+/**
+ * Serve WebSocket upgrades on the stream paths of an HTTP server
+ */
+export function attachStreamWebSocket(server: Server): WebSocket.Server {
+  const wss = new WebSocket.Server({ noServer: true, maxPayload: WS_MAX_PAYLOAD_BYTES });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Socket, head: Buffer) => {
+    handleUpgrade(wss, req, socket, head).catch((error) => {
+      console.error('[Stream] WebSocket upgrade error:', error);
+      rejectUpgrade(socket, 500);
+    });
+  });
+
+  return wss;
+}
+
+async function handleUpgrade(
+  wss: WebSocket.Server,
+  req: IncomingMessage,
+  socket: Socket,
+  head: Buffer
+): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const match = /^\/(api\/v1\/)?stream\/duels(?:\/([^/]+))?\/?$/.exec(url.pathname);
+
+  if (!match) {
+    rejectUpgrade(socket, 404);
+    return;
+  }
+
+  const internal = match[1] !== undefined;
+  const rawDuelId = match[2];
+
+  if (internal && req.headers['x-internal-secret'] !== getConfig().INTERNAL_API_KEY) {
+    rejectUpgrade(socket, 401);
+    return;
+  }
+
+  let target: StreamTarget;
+  if (rawDuelId === undefined) {
+    // Every duel: game server only
+    if (!internal) {
+      rejectUpgrade(socket, 404);
+      return;
+    }
+    target = { duelId: null };
+  } else {
+    const validation = duelIdSchema.safeParse(rawDuelId);
+    if (!validation.success) {
+      rejectUpgrade(socket, 400);
+      return;
+    }
+    target = { duelId: validation.data };
+  }
+
+  const rejection = await checkTarget(target);
+  if (rejection) {
+    rejectUpgrade(socket, rejection.status);
+    return;
+  }
+
+  const lastEventId = lastEventIdSchema.safeParse(url.searchParams.get('lastEventId') ?? undefined);
+
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    openWebSocketStream(ws, target, lastEventId.success ? lastEventId.data : undefined).catch((error) => {
+      console.error('[Stream] WebSocket error:', error);
+      ws.close(1011, 'Internal server error');
+    });
+  });
+}
+
+async function openWebSocketStream(ws: WebSocket, target: StreamTarget, lastEventId: string | undefined): Promise<void> {
+  let closed = false;
+  let unsubscribe: (() => void) | null = null;
+
+  // Ping frames keep proxies from idling the connection out
+  const heartbeat = setInterval(() => {
+    ws.ping();
+  }, getConfig().streamHeartbeatMs);
+
+  ws.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  });
+
+  // Clients only listen
+  ws.on('message', () => undefined);
+
+  unsubscribe = await duelStream.subscribe({
+    duelId: target.duelId,
+    lastEventId,
+    send: (event) => {
+      ws.send(JSON.stringify(event));
+    },
+    close: () => {
+      ws.close(1001, 'Server shutting down');
+    },
+  });
+
+  if (closed) unsubscribe();
+}
+
+function rejectUpgrade(socket: Socket, status: number): void {
+  socket.end(`HTTP/1.1 ${status} ${STATUS_CODES[status] ?? ''}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
@@ -1,8 +1,8 @@
 /**
  * Test Routes - Devnet Testing Utilities
  *
- * These routes are ONLY available in development/test mode.
- * They allow seeding mock balances for devnet testing.
+ * These routes are ONLY available outside production, with
+ * TRANSFER_PROVIDER=mock. They allow seeding mock balances for devnet testing.
  *
  * CRITICAL: These routes must NEVER be enabled in production!
  */
@@ -10,15 +10,20 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { getConfig } from '../config.js';
-import { shadowWireService, solToLamports } from '../services/shadowwire.js';
+import { Amount } from '../services/amount.js';
+import { MockTransferProvider } from '../services/mock-transfer.js';
 import { maskWallet } from '../services/stealth.js';
+import { getTransferProvider } from '../services/transfer-provider.js';
 
 export const testRouter = Router();
 
 // ============================================================================
-// Guard: Only allow in development/test
+// Guard: Only allow in development/test, against mock transfers
 // ============================================================================
 
+// Only called behind the guard, which checks the provider is the mock
+const mockProvider = () => getTransferProvider() as MockTransferProvider;
+
 testRouter.use((req, res, next) => {
   const config = getConfig();
 
@@ -30,12 +35,12 @@ testRouter.use((req, res, next) => {
     return;
   }
 
-  // Allow test routes in development mode for any network
-  // This enables testing the mock fallback on mainnet
-  if (!config.isDevelopment && config.SOLANA_NETWORK !== 'devnet') {
+  // Seeded balances only exist in the mock provider; config refuses it on mainnet
+  const provider = getTransferProvider();
+  if (!(provider instanceof MockTransferProvider)) {
     res.status(403).json({
       success: false,
-      error: 'Test routes are only available in development mode or on devnet',
+      error: 'Test routes require TRANSFER_PROVIDER=mock',
     });
     return;
   }
@@ -75,14 +80,14 @@ testRouter.post('/seed-balance', async (req, res) => {
     }
 
     const { wallet, amountSol } = validation.data;
-    const amountLamports = solToLamports(amountSol);
+    const amount = Amount.parse('SOL', amountSol, 'floor');
 
-    shadowWireService.seedMockBalance(wallet, amountLamports);
+    mockProvider().seedBalance(wallet, amount);
 
     res.json({
       success: true,
       wallet: maskWallet(wallet),
-      amountLamports: amountLamports.toString(),
+      amountLamports: amount.toString(),
       message: `Seeded ${amountSol} SOL mock balance`,
     });
   } catch (error) {
@@ -101,21 +106,21 @@ testRouter.post('/seed-balance', async (req, res) => {
 /**
  * GET /test/balances
  *
- * Get all mock balances (for debugging).
+ * Get all mock balances (for debugging), in smallest units per token.
  */
 testRouter.get('/balances', async (req, res) => {
   try {
-    const balances = shadowWireService.getMockBalances();
+    const balances = mockProvider().getBalances();
 
-    const masked: Record<string, string> = {};
-    for (const [wallet, balance] of balances) {
-      masked[maskWallet(wallet)] = balance.toString();
+    const masked: Record<string, Record<string, string>> = {};
+    for (const { wallet, balance } of balances) {
+      (masked[maskWallet(wallet)] ??= {})[balance.token] = balance.toString();
     }
 
     res.json({
       success: true,
       balances: masked,
-      count: balances.size,
+      count: Object.keys(masked).length,
     });
   } catch (error) {
     console.error('[Test] Get balances error:', error);
@@ -137,7 +142,7 @@ testRouter.get('/balances', async (req, res) => {
  */
 testRouter.post('/clear-balances', async (req, res) => {
   try {
-    shadowWireService.clearMockBalances();
+    mockProvider().clearBalances();
 
     res.json({
       success: true,
@@ -164,15 +169,15 @@ testRouter.post('/clear-balances', async (req, res) => {
  */
 testRouter.post('/seed-escrow', async (req, res) => {
   try {
-    const escrowWallet = shadowWireService.getEscrowWallet();
-    const amountLamports = solToLamports(100); // 100 SOL
+    const escrowWallet = mockProvider().getEscrowWallet();
+    const amount = Amount.parse('SOL', 100);
 
-    shadowWireService.seedMockBalance(escrowWallet, amountLamports);
+    mockProvider().seedBalance(escrowWallet, amount);
 
     res.json({
       success: true,
       escrowWallet: maskWallet(escrowWallet),
-      amountLamports: amountLamports.toString(),
+      amountLamports: amount.toString(),
       message: 'Escrow wallet seeded with 100 SOL mock balance',
     });
   } catch (error) {
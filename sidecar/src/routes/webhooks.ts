@@ -0,0 +1,152 @@
+/**
+ * Webhook Routes - Delivery Log API
+ *
+ * Inspect and redeliver webhook deliveries to the game server (see
+ * services/webhooks.ts for the payload and signature format). All
+ * endpoints require internal authentication.
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { idempotency } from '../middleware/idempotency.js';
+import { describeDelivery, webhookDispatcher } from '../services/webhooks.js';
+import type { GetWebhookDeliveryResponse, ListWebhookDeliveriesResponse } from '../types/index.js';
+
+export const webhookRouter = Router();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const deliveryIdSchema = z.string().regex(/^[0-9a-f]{32}$/);
+
+const listSchema = z.object({
+  status: z.enum(['pending', 'delivered', 'failed']).optional(),
+  duelId: z.string().regex(/^[0-9a-f]{32}$/).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// ============================================================================
+// List Deliveries
+// ============================================================================
+
+/**
+ * GET /webhooks/deliveries?status=&duelId=&limit=
+ *
+ * Delivery log, newest first (default 100 entries).
+ */
+webhookRouter.get('/deliveries', async (req, res) => {
+  try {
+    const validation = listSchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid query',
+      } satisfies ListWebhookDeliveriesResponse);
+      return;
+    }
+
+    const deliveries = await webhookDispatcher.listDeliveries(validation.data);
+
+    res.json({
+      success: true,
+      deliveries: deliveries.map(delivery => describeDelivery(delivery)),
+      count: deliveries.length,
+    } satisfies ListWebhookDeliveriesResponse);
+  } catch (error) {
+    console.error('[Webhooks] List error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies ListWebhookDeliveriesResponse);
+  }
+});
+
+// ============================================================================
+// Get Delivery
+// ============================================================================
+
+/**
+ * GET /webhooks/deliveries/:deliveryId
+ *
+ * One delivery including the payload that was sent.
+ */
+webhookRouter.get('/deliveries/:deliveryId', async (req, res) => {
+  try {
+    const validation = deliveryIdSchema.safeParse(req.params.deliveryId);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid delivery ID',
+      } satisfies GetWebhookDeliveryResponse);
+      return;
+    }
+
+    const delivery = await webhookDispatcher.getDelivery(validation.data);
+
+    if (!delivery) {
+      res.status(404).json({
+        success: false,
+        error: 'Delivery not found',
+      } satisfies GetWebhookDeliveryResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      delivery: describeDelivery(delivery, true),
+    } satisfies GetWebhookDeliveryResponse);
+  } catch (error) {
+    console.error('[Webhooks] Get error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies GetWebhookDeliveryResponse);
+  }
+});
+
+// ============================================================================
+// Redeliver
+// ============================================================================
+
+/**
+ * POST /webhooks/deliveries/:deliveryId/redeliver
+ *
+ * Send a failed delivery again with a fresh set of attempts.
+ */
+webhookRouter.post('/deliveries/:deliveryId/redeliver', idempotency('redeliver-webhook'), async (req, res) => {
+  try {
+    const validation = deliveryIdSchema.safeParse(req.params.deliveryId);
+
+    if (!validation.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid delivery ID',
+      } satisfies GetWebhookDeliveryResponse);
+      return;
+    }
+
+    const delivery = await webhookDispatcher.redeliver(validation.data);
+
+    if (!delivery) {
+      res.status(404).json({
+        success: false,
+        error: 'No failed delivery with this ID',
+      } satisfies GetWebhookDeliveryResponse);
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      delivery: describeDelivery(delivery),
+    } satisfies GetWebhookDeliveryResponse);
+  } catch (error) {
+    console.error('[Webhooks] Redeliver error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    } satisfies GetWebhookDeliveryResponse);
+  }
+});
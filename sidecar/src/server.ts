@@ -2,7 +2,7 @@
  * Alerith ShadowWire Sidecar - Express Server
  *
  * Privacy-preserving duel escrow service.
- * Uses in-memory storage (no Redis required).
+ * Duel state lives in the configured DuelStore (memory or file).
  */
 
 import express from 'express';
@@ -12,9 +12,13 @@ import { dirname, join } from 'path';
 import { getConfig } from './config.js';
 import { requireInternalAuth, requestLogger, rateLimit } from './middleware/auth.js';
 import { duelRouter } from './routes/duel.js';
+import { authorizationRouter } from './routes/authorization.js';
+import { webhookRouter } from './routes/webhooks.js';
 import { createHealthRouter } from './routes/health.js';
 import { testRouter } from './routes/test.js';
 import { rpcProxyRouter } from './routes/rpc-proxy.js';
+import { createStreamRouter } from './routes/stream.js';
+import { claimsRouter } from './routes/claims.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -118,7 +122,7 @@ export function createServer(): express.Application {
       res.setHeader('Access-Control-Allow-Origin', '*');
     }
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Internal-Secret');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Internal-Secret, Idempotency-Key');
     res.setHeader('Access-Control-Max-Age', '86400');
 
     if (req.method === 'OPTIONS') {
@@ -135,6 +139,20 @@ export function createServer(): express.Application {
   // Health checks (for load balancers, k8s probes)
   app.use('/health', createHealthRouter());
 
+  // Live status for one duel - the duel ID is the only credential
+  // (SSE here; WebSocket upgrades are handled by attachStreamWebSocket)
+  app.use('/stream', createStreamRouter({ allowAllDuels: false }));
+
+  // Player refund claims - authenticated by the player's wallet signature
+  app.use(
+    '/claims',
+    rateLimit({
+      windowMs: 60 * 1000, // 1 minute
+      max: 10, // 10 claims per minute
+    }),
+    claimsRouter
+  );
+
   // Public duel routes for browser testing (no auth - development only)
   // WARNING: In production, these should be disabled or require auth
   if (config.isDevelopment) {
@@ -169,6 +187,18 @@ export function createServer(): express.Application {
   // Duel escrow endpoints
   app.use('/api/v1/duel', duelRouter);
 
+  // Spending pre-authorization endpoints
+  app.use('/api/v1/authorization', authorizationRouter);
+
+  // Webhook delivery log
+  app.use('/api/v1/webhooks', webhookRouter);
+
+  // Refund claims relayed by the game server
+  app.use('/api/v1/claims', claimsRouter);
+
+  // Live status for one or all duels (SSE)
+  app.use('/api/v1/stream', createStreamRouter({ allowAllDuels: true }));
+
   // ============================================================================
   // Error Handling
   // ============================================================================
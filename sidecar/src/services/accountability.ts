@@ -2,16 +2,20 @@
  * Accountability Service - Cryptographic Commitment System
  *
  * Provides verifiable accountability for duel settlements:
- * - Creates cryptographic commitments before settlements
- * - Posts commitment hashes on-chain via Solana memo
- * - Maintains local audit log for dispute resolution
+ * - Commits to a duel's terms when both stakes lock (status -> ACTIVE)
+ * - Creates cryptographic commitments before settlements, bound to those
+ *   terms
+ * - Posts commitment hashes on-chain via Solana memo, one per commitment or
+ *   as Merkle-batched roots (see commitment-anchor.ts)
+ * - Maintains a hash-chained audit log on disk for dispute resolution
+ *   (see audit-log.ts)
  *
  * Privacy-preserving: Uses stealth IDs (not wallet addresses)
  * in commitments, so even if revealed, wallets stay private.
  */
 
-import { createHash, createHmac } from 'crypto';
 import {
+  ComputeBudgetProgram,
   Connection,
   Keypair,
   PublicKey,
@@ -20,30 +24,207 @@ import {
 } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { getConfig } from '../config.js';
-import type { DuelId, StealthId, CombatSummary } from '../types/index.js';
+import type {
+  AuditChainHead,
+  CombatSummary,
+  CommitmentAnchorProof,
+  CommitmentKind,
+  DuelId,
+  SignedFeeQuote,
+  StealthId,
+} from '../types/index.js';
+import { duelLifecycle } from './duel-state-machine.js';
+import { AuditLog, type AuditProof } from './audit-log.js';
+import { AnchorBatcher, type AnchorBatch } from './commitment-anchor.js';
+import {
+  commitAmounts,
+  digestCombatSummary,
+  digestTerms,
+  hashCommitment,
+  verifyAmountOpenings,
+  type AmountOpening,
+  type CommitmentTerms,
+} from './commitment-encoding.js';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export interface SettlementCommitment {
+/** Version 1: stakes in the clear, hashed with JSON.stringify (read-only) */
+export interface SettlementCommitmentV1 {
   /** Duel identifier */
   duelId: DuelId;
   /** Winner's stealth ID (hashed wallet - can't be reversed) */
   winnerStealthId: StealthId;
   /** Loser's stealth ID */
   loserStealthId: StealthId;
+  /** Winner's stake in smallest units (decimal string) */
+  winnerStake: string;
+  /** Loser's stake in smallest units (decimal string) */
+  loserStake: string;
   /** Game server's signature on the settlement request */
   gameServerSignature: string;
   /** Commitment creation timestamp */
   timestamp: number;
   /** Commitment version for future compatibility */
-  version: number;
+  version: 1;
+}
+
+/** Version 1 draw (read-only) */
+export interface DrawCommitmentV1 {
+  /** Duel identifier */
+  duelId: DuelId;
+  /** Marks a draw - neither player won */
+  outcome: 'draw';
+  /** Player 1's stealth ID */
+  player1StealthId: StealthId;
+  /** Player 2's stealth ID */
+  player2StealthId: StealthId;
+  /** Player 1's stake in smallest units (decimal string) */
+  player1Stake: string;
+  /** Player 2's stake in smallest units (decimal string) */
+  player2Stake: string;
+  /** Game server's signature on the draw request */
+  gameServerSignature: string;
+  /** Commitment creation timestamp */
+  timestamp: number;
+  /** Commitment version for future compatibility */
+  version: 1;
+}
+
+/**
+ * Version 2: canonically encoded, binds the whole economic outcome.
+ * Amounts are salted commitments (see commitment-encoding.ts).
+ */
+export interface SettlementCommitmentV2 {
+  version: 2;
+  duelId: DuelId;
+  outcome: 'win';
+  winnerStealthId: StealthId;
+  loserStealthId: StealthId;
+  token: string;
+  /** Salted commitment to each amount (smallest units) */
+  amounts: {
+    winnerStake: string;
+    loserStake: string;
+    houseFee: string;
+    /** Sent to the winner before the transfer-out fee */
+    winnerPayout: string;
+  };
+  /** SHA-256 of the canonical duel terms (token, fee percentages, rules) */
+  rulesDigest: string;
+  /** SHA-256 of the canonical combat summary (null if none was sent) */
+  combatDigest: string | null;
+  /** Hash of the duel's terms commitment (absent if none was recorded) */
+  termsCommitmentHash?: string;
+  /** Game server's signature on the settlement request */
+  gameServerSignature: string;
+  timestamp: number;
+}
+
+export interface DrawCommitmentV2 {
+  version: 2;
+  duelId: DuelId;
+  outcome: 'draw';
+  player1StealthId: StealthId;
+  player2StealthId: StealthId;
+  token: string;
+  /** Salted commitment to each amount (smallest units) */
+  amounts: {
+    player1Stake: string;
+    player2Stake: string;
+    /** Returned to each player before the transfer-out fee */
+    player1Payout: string;
+    player2Payout: string;
+    drawFee: string;
+  };
+  rulesDigest: string;
+  combatDigest: string | null;
+  termsCommitmentHash?: string;
+  /** Game server's signature on the draw request */
+  gameServerSignature: string;
+  timestamp: number;
+}
+
+/**
+ * Committed when both stakes lock, before combat: what the duel is played
+ * for. Settlement is checked against it.
+ */
+export interface TermsCommitment {
+  version: 2;
+  kind: 'terms';
+  duelId: DuelId;
+  player1StealthId: StealthId;
+  player2StealthId: StealthId;
+  token: string;
+  /** Salted commitment to each stake (smallest units) */
+  amounts: {
+    player1Stake: string;
+    player2Stake: string;
+  };
+  /** SHA-256 of the canonical duel terms (token, fee percentages, rules) */
+  rulesDigest: string;
+  expiresAt: number;
+  timestamp: number;
+}
+
+export type SettlementCommitment = SettlementCommitmentV1 | SettlementCommitmentV2;
+export type DrawCommitment = DrawCommitmentV1 | DrawCommitmentV2;
+export type OutcomeCommitment = SettlementCommitment | DrawCommitment;
+export type DuelCommitment = OutcomeCommitment | TermsCommitment;
+
+/** What a v2 commitment was built from - checks against its commitments and digests */
+export interface CommitmentOpening {
+  amounts: Record<string, AmountOpening>;
+  terms: CommitmentTerms;
+  combatSummary?: CombatSummary;
+  /** Terms records: the signed fee quote the duel was created from */
+  feeQuote?: SignedFeeQuote;
+}
+
+export interface TermsCommitmentInput {
+  duelId: DuelId;
+  player1StealthId: StealthId;
+  player2StealthId: StealthId;
+  player1Stake: bigint;
+  player2Stake: bigint;
+  terms: CommitmentTerms;
+  expiresAt: number;
+  feeQuote?: SignedFeeQuote;
+}
+
+export interface SettlementCommitmentInput {
+  duelId: DuelId;
+  winnerStealthId: StealthId;
+  loserStealthId: StealthId;
+  winnerStake: bigint;
+  loserStake: bigint;
+  houseFee: bigint | number;
+  winnerPayout: bigint | number;
+  terms: CommitmentTerms;
+  combatSummary?: CombatSummary;
+  termsCommitmentHash?: string;
+  gameServerSignature: string;
+}
+
+export interface DrawCommitmentInput {
+  duelId: DuelId;
+  player1StealthId: StealthId;
+  player2StealthId: StealthId;
+  player1Stake: bigint;
+  player2Stake: bigint;
+  player1Payout: bigint | number;
+  player2Payout: bigint | number;
+  drawFee: bigint | number;
+  terms: CommitmentTerms;
+  combatSummary?: CombatSummary;
+  termsCommitmentHash?: string;
+  gameServerSignature: string;
 }
 
 export interface CommitmentRecord {
   /** The commitment data */
-  commitment: SettlementCommitment;
+  commitment: DuelCommitment;
   /** SHA-256 hash of the commitment */
   commitmentHash: string;
   /** Solana transaction signature (if posted on-chain) */
@@ -52,15 +233,69 @@ export interface CommitmentRecord {
   onChainSuccess: boolean;
   /** Timestamp when record was created */
   recordedAt: number;
+  /**
+   * Amount salts, terms and combat summary behind a v2 commitment. Not part
+   * of the chain hash: each piece checks against the commitment itself.
+   */
+  opening?: CommitmentOpening;
+  /**
+   * Memo posted later by the reconciler when the first post failed. Not part
+   * of the chain hash: the record itself is never rewritten.
+   */
+  repostTxSignature?: string;
+  repostedAt?: number;
+  /** Position in the audit chain (0 for the first record) */
+  sequence: number;
+  /** recordHash of the record before this one (GENESIS_HASH for the first) */
+  previousHash: string;
+  /** Chain hash of this record (see audit-log.ts) */
+  recordHash: string;
+}
+
+/** Where a record's commitment hash landed on-chain */
+export interface OnChainStatus {
+  posted: boolean;
+  txSignature: string | null;
+  /** First memo, reconciler re-post, or Merkle batch root */
+  via: 'memo' | 'repost' | 'batch' | null;
+}
+
+/** Outcome of checking a duel against its terms commitment */
+export interface TermsCheckResult {
+  matches: boolean;
+  /** No terms commitment was recorded for the duel, so nothing was checked */
+  unchecked?: boolean;
+  termsCommitmentHash?: string;
+  error?: string;
 }
 
 export interface CommitmentResult {
   success: boolean;
   commitmentHash?: string;
   onChainTxSignature?: string;
+  /** Queued for the next Merkle batch (COMMITMENT_ANCHOR_MODE=batch) */
+  anchorQueued?: boolean;
   error?: string;
 }
 
+/**
+ * Check whether a commitment records a draw
+ */
+export function isDrawCommitment(commitment: DuelCommitment): commitment is DrawCommitment {
+  return 'outcome' in commitment && commitment.outcome === 'draw';
+}
+
+/**
+ * Check whether a commitment records a duel's terms (not its outcome)
+ */
+export function isTermsCommitment(commitment: DuelCommitment): commitment is TermsCommitment {
+  return 'kind' in commitment && commitment.kind === 'terms';
+}
+
+export function commitmentKind(commitment: DuelCommitment): CommitmentKind {
+  return isTermsCommitment(commitment) ? 'terms' : 'outcome';
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -69,7 +304,7 @@ export interface CommitmentResult {
 const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
 
 // Current commitment version
-const COMMITMENT_VERSION = 1;
+const COMMITMENT_VERSION = 2;
 
 // ============================================================================
 // Accountability Service
@@ -80,17 +315,22 @@ class AccountabilityService {
   private serverKeypair: Keypair | null = null;
   private initialized = false;
 
-  // Local audit log (in-memory for hackathon, would be persistent in production)
-  private auditLog: CommitmentRecord[] = [];
+  // Hash-chained audit log on disk
+  private auditLog: AuditLog | null = null;
+
+  // Merkle batch anchoring (COMMITMENT_ANCHOR_MODE=batch only)
+  private anchorBatcher: AnchorBatcher | null = null;
 
   // ============================================================================
   // Initialization
   // ============================================================================
 
   /**
-   * Initialize the accountability service
+   * Initialize the accountability service and verify the audit log
+   *
+   * @throws AuditLogIntegrityError if the audit log was truncated or altered
    */
-  initialize(): void {
+  async initialize(): Promise<void> {
     if (this.initialized) return;
 
     const config = getConfig();
@@ -108,6 +348,22 @@ class AccountabilityService {
       throw new Error('Invalid SERVER_AUTHORITY_SECRET');
     }
 
+    const auditLog = new AuditLog(config.AUDIT_LOG_PATH);
+    await auditLog.initialize();
+    this.auditLog = auditLog;
+
+    if (config.COMMITMENT_ANCHOR_MODE === 'batch') {
+      const anchorBatcher = new AnchorBatcher({
+        filePath: config.ANCHOR_LOG_PATH,
+        windowMs: config.anchorBatchWindowMs,
+        maxBatchSize: config.ANCHOR_BATCH_MAX_SIZE,
+        post: (root) => this.postCommitmentOnChain(root),
+        onAnchored: (batch) => this.publishAnchoredBatch(batch),
+      });
+      await anchorBatcher.initialize();
+      this.anchorBatcher = anchorBatcher;
+    }
+
     this.initialized = true;
     console.log('[Accountability] Service initialized');
   }
@@ -118,35 +374,126 @@ class AccountabilityService {
     }
   }
 
+  private get log(): AuditLog {
+    if (!this.auditLog) {
+      throw new Error('Accountability service not initialized');
+    }
+    return this.auditLog;
+  }
+
+  /**
+   * Stop batch anchoring and flush and close the logs
+   */
+  async shutdown(): Promise<void> {
+    await this.anchorBatcher?.shutdown();
+    await this.auditLog?.shutdown();
+  }
+
   // ============================================================================
   // Commitment Creation
   // ============================================================================
 
   /**
-   * Create a settlement commitment
+   * Create a terms commitment and its opening
    */
-  createCommitment(
-    duelId: DuelId,
-    winnerStealthId: StealthId,
-    loserStealthId: StealthId,
-    gameServerSignature: string
-  ): SettlementCommitment {
+  createTermsCommitment(input: TermsCommitmentInput): {
+    commitment: TermsCommitment;
+    opening: CommitmentOpening;
+  } {
+    const { commitments, openings } = commitAmounts(input.duelId, {
+      player1Stake: input.player1Stake,
+      player2Stake: input.player2Stake,
+    });
+
     return {
-      duelId,
-      winnerStealthId,
-      loserStealthId,
-      gameServerSignature,
-      timestamp: Date.now(),
-      version: COMMITMENT_VERSION,
+      commitment: {
+        version: COMMITMENT_VERSION,
+        kind: 'terms',
+        duelId: input.duelId,
+        player1StealthId: input.player1StealthId,
+        player2StealthId: input.player2StealthId,
+        token: input.terms.token,
+        amounts: commitments,
+        rulesDigest: digestTerms(input.terms),
+        expiresAt: input.expiresAt,
+        timestamp: Date.now(),
+      },
+      opening: { amounts: openings, terms: input.terms, feeQuote: input.feeQuote },
     };
   }
 
   /**
-   * Hash a commitment using SHA-256
+   * Create a settlement commitment and its opening
    */
-  hashCommitment(commitment: SettlementCommitment): string {
-    const data = JSON.stringify(commitment);
-    return createHash('sha256').update(data).digest('hex');
+  createCommitment(input: SettlementCommitmentInput): {
+    commitment: SettlementCommitmentV2;
+    opening: CommitmentOpening;
+  } {
+    const { commitments, openings } = commitAmounts(input.duelId, {
+      winnerStake: input.winnerStake,
+      loserStake: input.loserStake,
+      houseFee: input.houseFee,
+      winnerPayout: input.winnerPayout,
+    });
+
+    return {
+      commitment: {
+        version: COMMITMENT_VERSION,
+        duelId: input.duelId,
+        outcome: 'win',
+        winnerStealthId: input.winnerStealthId,
+        loserStealthId: input.loserStealthId,
+        token: input.terms.token,
+        amounts: commitments,
+        rulesDigest: digestTerms(input.terms),
+        combatDigest: digestCombatSummary(input.combatSummary),
+        termsCommitmentHash: input.termsCommitmentHash,
+        gameServerSignature: input.gameServerSignature,
+        timestamp: Date.now(),
+      },
+      opening: { amounts: openings, terms: input.terms, combatSummary: input.combatSummary },
+    };
+  }
+
+  /**
+   * Create a draw commitment and its opening
+   */
+  createDrawCommitment(input: DrawCommitmentInput): {
+    commitment: DrawCommitmentV2;
+    opening: CommitmentOpening;
+  } {
+    const { commitments, openings } = commitAmounts(input.duelId, {
+      player1Stake: input.player1Stake,
+      player2Stake: input.player2Stake,
+      player1Payout: input.player1Payout,
+      player2Payout: input.player2Payout,
+      drawFee: input.drawFee,
+    });
+
+    return {
+      commitment: {
+        version: COMMITMENT_VERSION,
+        duelId: input.duelId,
+        outcome: 'draw',
+        player1StealthId: input.player1StealthId,
+        player2StealthId: input.player2StealthId,
+        token: input.terms.token,
+        amounts: commitments,
+        rulesDigest: digestTerms(input.terms),
+        combatDigest: digestCombatSummary(input.combatSummary),
+        termsCommitmentHash: input.termsCommitmentHash,
+        gameServerSignature: input.gameServerSignature,
+        timestamp: Date.now(),
+      },
+      opening: { amounts: openings, terms: input.terms, combatSummary: input.combatSummary },
+    };
+  }
+
+  /**
+   * Hash a commitment using SHA-256 (canonical encoding from v2 on)
+   */
+  hashCommitment(commitment: DuelCommitment): string {
+    return hashCommitment(commitment);
   }
 
   // ============================================================================
@@ -154,14 +501,20 @@ class AccountabilityService {
   // ============================================================================
 
   /**
-   * Post commitment hash on-chain via Solana memo
+   * Post commitment hash (or Merkle batch root) on-chain via Solana memo
    *
    * This creates a permanent, timestamped record that:
    * - Proves the commitment existed at a specific time
    * - Cannot be altered after the fact
    * - Is publicly verifiable by anyone
+   *
+   * With a priority fee (micro-lamports per compute unit) the transaction
+   * also sets a compute unit price, so it lands under congestion.
    */
-  async postCommitmentOnChain(commitmentHash: string): Promise<{
+  async postCommitmentOnChain(
+    commitmentHash: string,
+    options: { priorityFeeMicroLamports?: number } = {}
+  ): Promise<{
     success: boolean;
     txSignature?: string;
     error?: string;
@@ -182,7 +535,11 @@ class AccountabilityService {
       });
 
       // Build transaction
-      const transaction = new Transaction().add(memoInstruction);
+      const transaction = new Transaction();
+      if (options.priorityFeeMicroLamports) {
+        transaction.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: options.priorityFeeMicroLamports }));
+      }
+      transaction.add(memoInstruction);
 
       const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
       transaction.recentBlockhash = blockhash;
@@ -217,6 +574,16 @@ class AccountabilityService {
   // Full Commitment Flow
   // ============================================================================
 
+  /**
+   * Create and record a duel's terms (call when both stakes lock)
+   */
+  async commitToTerms(input: TermsCommitmentInput, postOnChain: boolean = true): Promise<CommitmentResult> {
+    this.ensureInitialized();
+
+    const { commitment, opening } = this.createTermsCommitment(input);
+    return this.recordCommitment(commitment, opening, postOnChain);
+  }
+
   /**
    * Create and record a settlement commitment
    *
@@ -226,32 +593,50 @@ class AccountabilityService {
    * 3. Posts hash on-chain (optional, can fail gracefully)
    * 4. Records in local audit log
    */
-  async commitToSettlement(
-    duelId: DuelId,
-    winnerStealthId: StealthId,
-    loserStealthId: StealthId,
-    gameServerSignature: string,
-    postOnChain: boolean = true
-  ): Promise<CommitmentResult> {
+  async commitToSettlement(input: SettlementCommitmentInput, postOnChain: boolean = true): Promise<CommitmentResult> {
     this.ensureInitialized();
 
-    const commitment = this.createCommitment(
-      duelId,
-      winnerStealthId,
-      loserStealthId,
-      gameServerSignature
-    );
+    const { commitment, opening } = this.createCommitment(input);
+    return this.recordCommitment(commitment, opening, postOnChain);
+  }
+
+  /**
+   * Create and record a draw commitment (no winner or loser)
+   */
+  async commitToDraw(input: DrawCommitmentInput, postOnChain: boolean = true): Promise<CommitmentResult> {
+    this.ensureInitialized();
+
+    const { commitment, opening } = this.createDrawCommitment(input);
+    return this.recordCommitment(commitment, opening, postOnChain);
+  }
+
+  /**
+   * Hash a commitment, post it on-chain (or queue it for the next Merkle
+   * batch) and record it in the audit log
+   */
+  private async recordCommitment(
+    commitment: DuelCommitment,
+    opening: CommitmentOpening,
+    postOnChain: boolean
+  ): Promise<CommitmentResult> {
+    const { duelId } = commitment;
+    const kind = commitmentKind(commitment);
 
     // Hash it
     const commitmentHash = this.hashCommitment(commitment);
 
-    console.log(`[Accountability] Created commitment for duel ${duelId}`);
+    console.log(`[Accountability] Created ${kind} commitment for duel ${duelId}`);
     console.log(`[Accountability] Hash: ${commitmentHash.slice(0, 16)}...`);
 
     // Try to post on-chain
     let onChainResult: { success: boolean; txSignature?: string; error?: string } = { success: false };
+    let anchorQueued = false;
 
-    if (postOnChain) {
+    if (postOnChain && this.anchorBatcher) {
+      // Anchored with the next batch - settlement does not wait for it
+      await this.anchorBatcher.add(duelId, kind, commitmentHash);
+      anchorQueued = true;
+    } else if (postOnChain) {
       onChainResult = await this.postCommitmentOnChain(commitmentHash);
 
       if (!onChainResult.success) {
@@ -260,25 +645,115 @@ class AccountabilityService {
     }
 
     // Record in audit log (always, regardless of on-chain success)
-    const record: CommitmentRecord = {
+    const record = await this.log.append({
       commitment,
       commitmentHash,
       onChainTxSignature: onChainResult.txSignature,
       onChainSuccess: onChainResult.success,
       recordedAt: Date.now(),
-    };
-
-    this.auditLog.push(record);
-
-    console.log(`[Accountability] Recorded commitment (on-chain: ${onChainResult.success})`);
+      opening,
+    });
+
+    console.log(`[Accountability] Recorded commitment #${record.sequence} (on-chain: ${anchorQueued ? 'queued for batch' : onChainResult.success})`);
+
+    if (onChainResult.success && onChainResult.txSignature) {
+      duelLifecycle.publishCommitment({
+        duelId,
+        kind,
+        commitmentHash,
+        txSignature: onChainResult.txSignature,
+        timestamp: record.recordedAt,
+      });
+    }
 
     return {
       success: true,
       commitmentHash,
       onChainTxSignature: onChainResult.txSignature,
+      anchorQueued,
     };
   }
 
+  // ============================================================================
+  // Reconciliation (see commitment-reconciler.ts)
+  // ============================================================================
+
+  get isBatchAnchoring(): boolean {
+    return this.anchorBatcher !== null;
+  }
+
+  /**
+   * Where a record's hash landed on-chain, if anywhere yet
+   */
+  getOnChainStatus(record: CommitmentRecord): OnChainStatus {
+    if (record.onChainSuccess && record.onChainTxSignature) {
+      return { posted: true, txSignature: record.onChainTxSignature, via: 'memo' };
+    }
+    if (record.repostTxSignature) {
+      return { posted: true, txSignature: record.repostTxSignature, via: 'repost' };
+    }
+    const anchor = this.getAnchorProof(record.commitmentHash);
+    if (anchor) {
+      return { posted: true, txSignature: anchor.txSignature, via: 'batch' };
+    }
+    return { posted: false, txSignature: null, via: null };
+  }
+
+  /**
+   * Records whose hash is not on-chain yet, oldest first
+   */
+  getRecordsNotOnChain(): CommitmentRecord[] {
+    return this.log.all().filter(record => !this.getOnChainStatus(record).posted);
+  }
+
+  /**
+   * Whether a commitment hash is waiting for the next Merkle batch
+   */
+  isQueuedForAnchoring(commitmentHash: string): boolean {
+    return this.anchorBatcher?.isQueued(commitmentHash) ?? false;
+  }
+
+  /**
+   * Queue a record for the next Merkle batch (batch anchoring only)
+   */
+  async queueForAnchoring(record: CommitmentRecord): Promise<void> {
+    if (!this.anchorBatcher) {
+      throw new Error('Batch anchoring is not enabled');
+    }
+    await this.anchorBatcher.add(record.commitment.duelId, commitmentKind(record.commitment), record.commitmentHash);
+  }
+
+  /**
+   * Record a memo posted after the first attempt failed, and announce it
+   */
+  async recordRepost(record: CommitmentRecord, txSignature: string): Promise<void> {
+    const updated = await this.log.recordRepost(record, txSignature);
+
+    duelLifecycle.publishCommitment({
+      duelId: updated.commitment.duelId,
+      kind: commitmentKind(updated.commitment),
+      commitmentHash: updated.commitmentHash,
+      txSignature,
+      timestamp: updated.repostedAt ?? Date.now(),
+    });
+  }
+
+  /**
+   * Announce every commitment in a batch once its root is on-chain
+   */
+  private publishAnchoredBatch(batch: AnchorBatch): void {
+    for (const leaf of batch.leaves) {
+      duelLifecycle.publishCommitment({
+        duelId: leaf.duelId,
+        kind: leaf.kind,
+        commitmentHash: leaf.commitmentHash,
+        txSignature: batch.txSignature,
+        merkleRoot: batch.root,
+        timestamp: batch.anchoredAt,
+      });
+    }
+  }
+
   // ============================================================================
   // Verification & Audit
   // ============================================================================
@@ -286,23 +761,120 @@ class AccountabilityService {
   /**
    * Verify a commitment matches its hash
    */
-  verifyCommitment(commitment: SettlementCommitment, expectedHash: string): boolean {
+  verifyCommitment(commitment: DuelCommitment, expectedHash: string): boolean {
     const actualHash = this.hashCommitment(commitment);
     return actualHash === expectedHash;
   }
 
   /**
-   * Get commitment record for a duel
+   * Check a v2 record's opening against its commitment: every amount opens,
+   * and the terms and combat summary match their digests
+   */
+  verifyOpening(record: CommitmentRecord): {
+    amountsMatch: boolean;
+    rulesMatch: boolean;
+    /** Absent for terms commitments (no combat yet) */
+    combatMatch?: boolean;
+  } | null {
+    const { commitment, opening } = record;
+    if (commitment.version !== 2 || !opening) return null;
+
+    return {
+      amountsMatch: verifyAmountOpenings(commitment.duelId, commitment.amounts, opening.amounts),
+      rulesMatch: digestTerms(opening.terms) === commitment.rulesDigest,
+      combatMatch: isTermsCommitment(commitment)
+        ? undefined
+        : digestCombatSummary(opening.combatSummary) === commitment.combatDigest,
+    };
+  }
+
+  /**
+   * Check a duel about to be settled against the terms committed when both
+   * stakes locked. A duel without a terms record (activated before terms
+   * commitments, or by another replica) does not match and is flagged
+   * `unchecked`; the caller decides whether to go ahead.
+   */
+  checkTerms(input: TermsCommitmentInput): TermsCheckResult {
+    const record = this.getTermsRecord(input.duelId);
+    if (!record) {
+      return { matches: false, unchecked: true, error: `No terms commitment recorded for duel ${input.duelId}` };
+    }
+
+    const committed = record.commitment as TermsCommitment;
+    const opening = record.opening;
+    const mismatch = (what: string) => ({
+      matches: false,
+      termsCommitmentHash: record.commitmentHash,
+      error: `Duel no longer matches its terms commitment (${what})`,
+    });
+
+    if (
+      committed.player1StealthId !== input.player1StealthId ||
+      committed.player2StealthId !== input.player2StealthId
+    ) {
+      return mismatch('participants');
+    }
+    if (committed.token !== input.terms.token) return mismatch('token');
+    if (committed.expiresAt !== input.expiresAt) return mismatch('expiry');
+    if (committed.rulesDigest !== digestTerms(input.terms)) return mismatch('fees or rules');
+    if (
+      !opening ||
+      !verifyAmountOpenings(committed.duelId, committed.amounts, opening.amounts) ||
+      opening.amounts.player1Stake?.value !== input.player1Stake.toString() ||
+      opening.amounts.player2Stake?.value !== input.player2Stake.toString()
+    ) {
+      return mismatch('stakes');
+    }
+
+    return { matches: true, termsCommitmentHash: record.commitmentHash };
+  }
+
+  /**
+   * Get the outcome (settlement or draw) commitment record for a duel
    */
   getCommitmentRecord(duelId: DuelId): CommitmentRecord | undefined {
-    return this.auditLog.find(record => record.commitment.duelId === duelId);
+    return this.log.forDuel(duelId).find(record => !isTermsCommitment(record.commitment));
+  }
+
+  /**
+   * Get the terms commitment record for a duel
+   */
+  getTermsRecord(duelId: DuelId): CommitmentRecord | undefined {
+    return this.log.forDuel(duelId).find(record => isTermsCommitment(record.commitment));
   }
 
   /**
    * Get all commitment records (for audit/export)
    */
   getAllRecords(): CommitmentRecord[] {
-    return [...this.auditLog];
+    return this.log.all();
+  }
+
+  /**
+   * Merkle inclusion proof for a commitment anchored in a batch
+   */
+  getAnchorProof(commitmentHash: string): CommitmentAnchorProof | undefined {
+    return this.anchorBatcher?.find(commitmentHash);
+  }
+
+  /**
+   * Current head of the audit chain
+   */
+  getAuditHead(): AuditChainHead {
+    return this.log.head;
+  }
+
+  /**
+   * Proof that a duel's commitment record is in the audit chain.
+   * The opening is left out (it is not part of the chain hash).
+   */
+  getAuditProof(duelId: DuelId, kind: CommitmentKind = 'outcome'): AuditProof | null {
+    const found = kind === 'terms' ? this.getTermsRecord(duelId) : this.getCommitmentRecord(duelId);
+    if (!found) return null;
+
+    const proof = this.log.prove(found);
+    const { opening: _opening, ...record } = proof.record;
+    return { ...proof, record };
   }
 
   /**
@@ -312,50 +884,18 @@ class AccountabilityService {
     totalCommitments: number;
     onChainSuccess: number;
     onChainFailed: number;
+    anchorQueued: number;
   } {
-    const onChainSuccess = this.auditLog.filter(r => r.onChainSuccess).length;
+    const records = this.log.all();
+    const onChainSuccess = records.filter(r => this.getOnChainStatus(r).posted).length;
+    const anchorQueued = this.anchorBatcher?.queued ?? 0;
     return {
-      totalCommitments: this.auditLog.length,
+      totalCommitments: records.length,
       onChainSuccess,
-      onChainFailed: this.auditLog.length - onChainSuccess,
+      onChainFailed: records.length - onChainSuccess - anchorQueued,
+      anchorQueued,
     };
   }
-
-  // ============================================================================
-  // Server Signature Verification
-  // ============================================================================
-
-  /**
-   * Verify a game server signature
-   *
-   * The game server signs: sha256(duelId + winnerWallet + timestamp)
-   * This proves the game server authorized this specific settlement.
-   */
-  verifyServerSignature(
-    duelId: DuelId,
-    winnerWallet: string,
-    timestamp: number,
-    signature: string,
-    serverPublicKey: string
-  ): boolean {
-    try {
-      // Recreate the message that was signed
-      const message = `${duelId}:${winnerWallet}:${timestamp}`;
-      const messageBytes = Buffer.from(message);
-
-      // Decode signature and public key
-      const signatureBytes = bs58.decode(signature);
-      const publicKeyBytes = bs58.decode(serverPublicKey);
-
-      // Verify using nacl (tweetnacl)
-      // Note: This is a simplified check - in production you'd use proper Ed25519 verification
-      const nacl = require('tweetnacl');
-      return nacl.sign.detached.verify(messageBytes, signatureBytes, publicKeyBytes);
-    } catch (error) {
-      console.error('[Accountability] Signature verification failed:', error);
-      return false;
-    }
-  }
 }
 
 // ============================================================================
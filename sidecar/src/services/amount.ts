@@ -0,0 +1,320 @@
+/**
+ * Amount - Exact Token Amounts
+ *
+ * Every stake, fee and payout is an integer number of the token's smallest
+ * units (lamports for SOL), held as a bigint and tagged with its token, so
+ * amounts of different tokens cannot be mixed:
+ *
+ * - Human input ("1.5", 0.25, "11000.123456789") is parsed as a decimal
+ *   string, never multiplied as a float. Digits beyond the token's decimals
+ *   are rounded by an explicit mode, or rejected ('exact').
+ * - Percentages are applied as exact fractions, with an explicit rounding mode.
+ * - JSON carries amounts as decimal strings of smallest units.
+ *
+ * Conversion to a JS number only happens at APIs that take one, and fails
+ * rather than losing precision (toSafeNumber).
+ */
+
+import { getConfig } from '../config.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How to round a value that falls between two smallest units:
+ * - exact:     throw instead of rounding
+ * - floor:     towards negative infinity
+ * - ceil:      towards positive infinity
+ * - half-up:   to nearest, ties away from zero
+ * - half-even: to nearest, ties to the even unit
+ */
+export type RoundingMode = 'exact' | 'floor' | 'ceil' | 'half-up' | 'half-even';
+
+/** A decimal amount in human units, as a string or a JSON number */
+export type DecimalInput = string | number;
+
+// Plain decimal with an optional exponent, as String(number) produces
+const DECIMAL_PATTERN = /^([+-])?(\d+\.?\d*|\.\d+)(?:[eE]([+-]?\d+))?$/;
+const UNITS_PATTERN = /^-?\d+$/;
+// Keeps "1e999999999" from building an enormous bigint
+const MAX_EXPONENT = 100;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown for malformed amounts, rounding that 'exact' forbids, mixed tokens
+ * and amounts too large for a JS number
+ */
+export class AmountError extends Error {
+  readonly code = 'INVALID_AMOUNT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AmountError';
+  }
+}
+
+// ============================================================================
+// Arithmetic Helpers
+// ============================================================================
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+/**
+ * numerator / denominator (denominator > 0), rounded by `mode`
+ */
+function divide(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) return quotient;
+
+  // bigint division truncates towards zero; `away` is the other neighbour
+  const negative = numerator < 0n;
+  const away = negative ? quotient - 1n : quotient + 1n;
+  const twice = (negative ? -remainder : remainder) * 2n;
+
+  switch (mode) {
+    case 'exact':
+      throw new AmountError(`${numerator}/${denominator} is not a whole number of units`);
+    case 'floor':
+      return negative ? away : quotient;
+    case 'ceil':
+      return negative ? quotient : away;
+    case 'half-up':
+      return twice >= denominator ? away : quotient;
+    case 'half-even':
+      if (twice === denominator) return quotient % 2n === 0n ? quotient : away;
+      return twice > denominator ? away : quotient;
+  }
+}
+
+/**
+ * A decimal string as an exact fraction
+ */
+function parseFraction(text: string): { numerator: bigint; denominator: bigint } {
+  const match = DECIMAL_PATTERN.exec(text.trim());
+  if (!match) {
+    throw new AmountError(`"${text}" is not a decimal amount`);
+  }
+
+  const [, sign, mantissa = '', exponentText] = match;
+  const [whole = '', fraction = ''] = mantissa.split('.');
+  const exponent = exponentText === undefined ? 0 : Number(exponentText);
+  if (Math.abs(exponent) > MAX_EXPONENT) {
+    throw new AmountError(`"${text}" is out of range`);
+  }
+
+  const digits = BigInt(`${whole}${fraction}` || '0') * (sign === '-' ? -1n : 1n);
+  const scale = fraction.length - exponent;
+  return scale >= 0
+    ? { numerator: digits, denominator: pow10(scale) }
+    : { numerator: digits * pow10(-scale), denominator: 1n };
+}
+
+/**
+ * Place a decimal point `places` digits from the right of an integer
+ */
+function formatScaled(value: bigint, places: number): string {
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(places + 1, '0');
+  const whole = digits.slice(0, digits.length - places);
+  const fraction = digits.slice(digits.length - places);
+  return `${negative ? '-' : ''}${whole}${places > 0 ? `.${fraction}` : ''}`;
+}
+
+// ============================================================================
+// Amount
+// ============================================================================
+
+export class Amount {
+  private constructor(
+    readonly token: string,
+    /** Smallest units */
+    readonly units: bigint
+  ) {}
+
+  /**
+   * Decimal places of a token's human unit
+   *
+   * @throws AmountError for a token not in the token registry
+   */
+  static decimalsOf(token: string): number {
+    const entry = getConfig().tokens.find(candidate => candidate.symbol === token);
+    if (!entry) {
+      throw new AmountError(`Unsupported token: ${token}`);
+    }
+    return entry.decimals;
+  }
+
+  /**
+   * An amount in smallest units (a bigint, a safe integer or an integer string)
+   */
+  static fromUnits(token: string, units: bigint | number | string): Amount {
+    Amount.decimalsOf(token);
+
+    if (typeof units === 'number' && !Number.isSafeInteger(units)) {
+      throw new AmountError(`${units} is not a whole number of units`);
+    }
+    if (typeof units === 'string' && !UNITS_PATTERN.test(units)) {
+      throw new AmountError(`"${units}" is not a whole number of units`);
+    }
+    return new Amount(token, BigInt(units));
+  }
+
+  static zero(token: string): Amount {
+    return Amount.fromUnits(token, 0n);
+  }
+
+  /**
+   * An amount in human units ("1.5" SOL = 1500000000 lamports). A number is
+   * read as the decimal it prints as, so 0.1 is exactly one tenth.
+   */
+  static parse(token: string, value: DecimalInput, rounding: RoundingMode = 'exact'): Amount {
+    const decimals = Amount.decimalsOf(token);
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new AmountError(`${value} is not a decimal amount`);
+    }
+
+    const { numerator, denominator } = parseFraction(String(value));
+    try {
+      return new Amount(token, divide(numerator * pow10(decimals), denominator, rounding));
+    } catch (error) {
+      if (error instanceof AmountError && rounding === 'exact') {
+        throw new AmountError(`${value} ${token} has more than ${decimals} decimal places`);
+      }
+      throw error;
+    }
+  }
+
+  get decimals(): number {
+    return Amount.decimalsOf(this.token);
+  }
+
+  // ==========================================================================
+  // Arithmetic
+  // ==========================================================================
+
+  plus(other: Amount): Amount {
+    this.assertSameToken(other);
+    return new Amount(this.token, this.units + other.units);
+  }
+
+  minus(other: Amount): Amount {
+    this.assertSameToken(other);
+    return new Amount(this.token, this.units - other.units);
+  }
+
+  /**
+   * `percent`% of this amount (e.g. 0.5 or "1.25"), computed exactly and
+   * then rounded
+   */
+  percent(percent: DecimalInput, rounding: RoundingMode = 'floor'): Amount {
+    const { numerator, denominator } = parseFraction(String(percent));
+    return new Amount(this.token, divide(this.units * numerator, denominator * 100n, rounding));
+  }
+
+  // ==========================================================================
+  // Comparison
+  // ==========================================================================
+
+  compare(other: Amount): -1 | 0 | 1 {
+    this.assertSameToken(other);
+    if (this.units === other.units) return 0;
+    return this.units < other.units ? -1 : 1;
+  }
+
+  eq(other: Amount): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: Amount): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lte(other: Amount): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  gt(other: Amount): boolean {
+    return this.compare(other) > 0;
+  }
+
+  gte(other: Amount): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isPositive(): boolean {
+    return this.units > 0n;
+  }
+
+  // ==========================================================================
+  // Output
+  // ==========================================================================
+
+  /**
+   * Exact value in human units, without trailing zeros ("1.5", "11000")
+   */
+  toDecimal(): string {
+    const formatted = formatScaled(this.units, this.decimals);
+    return formatted.includes('.') ? formatted.replace(/\.?0+$/, '') : formatted;
+  }
+
+  /**
+   * Human units with a fixed number of decimal places, rounded
+   */
+  toFixed(places: number, rounding: RoundingMode = 'half-up'): string {
+    const scaled = places >= this.decimals
+      ? this.units * pow10(places - this.decimals)
+      : divide(this.units, pow10(this.decimals - places), rounding);
+    return formatScaled(scaled, places);
+  }
+
+  /**
+   * For logs and messages ("1.500000 SOL")
+   */
+  toDisplay(places: number = 6): string {
+    return `${this.toFixed(places)} ${this.token}`;
+  }
+
+  /**
+   * Smallest units as a JS number, for APIs that take one
+   *
+   * @throws AmountError if the amount is beyond Number.MAX_SAFE_INTEGER
+   */
+  toSafeNumber(): number {
+    const value = Number(this.units);
+    if (!Number.isSafeInteger(value)) {
+      throw new AmountError(`${this.units} ${this.token} units cannot be represented exactly as a number`);
+    }
+    return value;
+  }
+
+  /**
+   * Smallest units as a decimal string
+   */
+  toString(): string {
+    return this.units.toString();
+  }
+
+  /**
+   * Serialized as a decimal string of smallest units
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private assertSameToken(other: Amount): void {
+    if (other.token !== this.token) {
+      throw new AmountError(`Cannot combine ${this.token} and ${other.token} amounts`);
+    }
+  }
+}
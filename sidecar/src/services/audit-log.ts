@@ -0,0 +1,419 @@
+/**
+ * Audit Log - Hash-Chained Commitment Records on Disk
+ *
+ * Every CommitmentRecord is appended to AUDIT_LOG_PATH as one JSON line
+ * (fsync'd) and chained to the record before it:
+ *
+ *   entryHash  = SHA-256(canonical JSON of the record fields and its sequence)
+ *   recordHash = SHA-256(previousHash + entryHash)
+ *
+ * The first record chains to GENESIS_HASH. Editing, removing or reordering
+ * a record changes every recordHash after it. After each append the chain
+ * head (length and newest recordHash) is written to `<path>.head`, so
+ * records cut off the end are detected too.
+ *
+ * The whole chain is re-verified on startup. If it does not check out,
+ * initialize() throws AuditLogIntegrityError and the sidecar refuses to
+ * start. A crash mid-append is the only thing repaired automatically: a
+ * torn final line is dropped, and a head one record behind is moved up.
+ *
+ * Records are never rewritten. When the reconciler later gets a failed
+ * memo on-chain, the transaction is appended to `<path>.reposts` and
+ * attached to the record in memory (repostTxSignature, outside the chain
+ * hash). Each repost must name an existing record that was not on-chain.
+ *
+ * The log is per process: replicas sharing a Redis store each keep their own
+ * chain on local disk.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, open, readFile, rename, truncate, type FileHandle } from 'fs/promises';
+import { dirname } from 'path';
+import type { AuditChainHead } from '../types/index.js';
+import type { CommitmentRecord } from './accountability.js';
+import { hashCommitment } from './commitment-encoding.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A record before it is given its place in the chain */
+export type UnchainedRecord = Omit<CommitmentRecord, 'sequence' | 'previousHash' | 'recordHash'>;
+
+export interface AuditProof {
+  record: CommitmentRecord;
+  /** entryHash of every later record, oldest first */
+  laterEntryHashes: string[];
+  head: AuditChainHead;
+}
+
+interface RepostEntry {
+  sequence: number;
+  commitmentHash: string;
+  txSignature: string;
+  repostedAt: number;
+}
+
+/** previousHash of the first record */
+export const GENESIS_HASH = '0'.repeat(64);
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown on startup when the audit log was truncated or altered
+ */
+export class AuditLogIntegrityError extends Error {
+  readonly code = 'AUDIT_LOG_INTEGRITY';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditLogIntegrityError';
+  }
+}
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Hash of a record's contents, including its position (the opening of a v2
+ * commitment is left out - it checks against the commitment itself - and so
+ * is a later repost)
+ */
+export function hashAuditEntry(record: UnchainedRecord & { sequence: number }): string {
+  return sha256(
+    JSON.stringify({
+      sequence: record.sequence,
+      commitment: record.commitment,
+      commitmentHash: record.commitmentHash,
+      onChainTxSignature: record.onChainTxSignature ?? null,
+      onChainSuccess: record.onChainSuccess,
+      recordedAt: record.recordedAt,
+    })
+  );
+}
+
+/**
+ * Link an entry hash to the previous record's hash
+ */
+export function chainHash(previousHash: string, entryHash: string): string {
+  return sha256(previousHash + entryHash);
+}
+
+/**
+ * Check a proof: the record hashes to its recordHash, and folding the later
+ * entry hashes onto it reaches the head
+ */
+export function verifyAuditProof(proof: AuditProof): boolean {
+  const { record, laterEntryHashes, head } = proof;
+
+  if (chainHash(record.previousHash, hashAuditEntry(record)) !== record.recordHash) {
+    return false;
+  }
+  if (record.sequence + 1 + laterEntryHashes.length !== head.length) {
+    return false;
+  }
+
+  const folded = laterEntryHashes.reduce((hash, entryHash) => chainHash(hash, entryHash), record.recordHash);
+  return folded === head.recordHash;
+}
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+export class AuditLog {
+  private records: CommitmentRecord[] = [];
+  private handle: FileHandle | null = null;
+  private repostHandle: FileHandle | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private get headPath(): string {
+    return `${this.filePath}.head`;
+  }
+
+  private get repostsPath(): string {
+    return `${this.filePath}.reposts`;
+  }
+
+  /**
+   * Load and verify the chain, then open the log for appending
+   *
+   * @throws AuditLogIntegrityError if the log was truncated or altered
+   */
+  async initialize(): Promise<void> {
+    if (this.handle) return;
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await this.load();
+    await this.loadReposts();
+    this.handle = await open(this.filePath, 'a');
+    this.repostHandle = await open(this.repostsPath, 'a');
+
+    console.log(`[AuditLog] Verified ${this.records.length} record(s) in ${this.filePath}`);
+  }
+
+  /**
+   * Flush pending writes and close the log
+   */
+  async shutdown(): Promise<void> {
+    await this.writeQueue;
+    if (this.handle) {
+      await this.handle.close();
+      this.handle = null;
+    }
+    if (this.repostHandle) {
+      await this.repostHandle.close();
+      this.repostHandle = null;
+    }
+  }
+
+  get head(): AuditChainHead {
+    return {
+      length: this.records.length,
+      recordHash: this.records[this.records.length - 1]?.recordHash ?? GENESIS_HASH,
+    };
+  }
+
+  /**
+   * Chain a record onto the head and persist it (log line, then head file)
+   */
+  append(unchained: UnchainedRecord): Promise<CommitmentRecord> {
+    return this.enqueue(async () => {
+      if (!this.handle) {
+        throw new Error('Audit log not initialized');
+      }
+
+      const { length, recordHash: previousHash } = this.head;
+      const sequence = length;
+      const record: CommitmentRecord = {
+        ...unchained,
+        sequence,
+        previousHash,
+        recordHash: chainHash(previousHash, hashAuditEntry({ ...unchained, sequence })),
+      };
+
+      await this.handle.write(JSON.stringify(record) + '\n');
+      await this.handle.sync();
+      this.records.push(record);
+      await this.writeHead();
+
+      return record;
+    });
+  }
+
+  /**
+   * Attach a memo posted after the fact to a record that was not on-chain
+   */
+  recordRepost(record: CommitmentRecord, txSignature: string): Promise<CommitmentRecord> {
+    return this.enqueue(async () => {
+      if (!this.repostHandle) {
+        throw new Error('Audit log not initialized');
+      }
+
+      const entry: RepostEntry = {
+        sequence: record.sequence,
+        commitmentHash: record.commitmentHash,
+        txSignature,
+        repostedAt: Date.now(),
+      };
+      await this.repostHandle.write(JSON.stringify(entry) + '\n');
+      await this.repostHandle.sync();
+
+      return this.attachRepost(entry);
+    });
+  }
+
+  /**
+   * Every record for a duel, oldest first
+   */
+  forDuel(duelId: string): CommitmentRecord[] {
+    return this.records.filter(record => record.commitment.duelId === duelId);
+  }
+
+  all(): CommitmentRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * Proof that a record sits at its position in the current chain
+   */
+  prove(record: CommitmentRecord): AuditProof {
+    return {
+      record,
+      laterEntryHashes: this.records.slice(record.sequence + 1).map(later => hashAuditEntry(later)),
+      head: this.head,
+    };
+  }
+
+  // ==========================================================================
+  // Startup Verification
+  // ==========================================================================
+
+  private async load(): Promise<void> {
+    const contents = await readOptional(this.filePath);
+    const headContents = await readOptional(this.headPath);
+
+    if (contents === null) {
+      if (headContents !== null) {
+        throw new AuditLogIntegrityError(`Audit log ${this.filePath} is missing but its head file exists`);
+      }
+      return;
+    }
+
+    let storedHead: AuditChainHead | null = null;
+    if (headContents !== null) {
+      try {
+        storedHead = JSON.parse(headContents) as AuditChainHead;
+      } catch {
+        throw new AuditLogIntegrityError(`Audit log head file ${this.headPath} is corrupt`);
+      }
+    }
+
+    const lines = contents.split('\n');
+    // Text after the final newline is a write that never completed
+    const torn = lines.pop() ?? '';
+
+    const records: CommitmentRecord[] = [];
+    for (const [index, line] of lines.entries()) {
+      let record: CommitmentRecord;
+      try {
+        record = JSON.parse(line) as CommitmentRecord;
+      } catch {
+        throw new AuditLogIntegrityError(`Audit log line ${index + 1} is not valid JSON`);
+      }
+      this.verifyLink(record, records, index);
+      records.push(record);
+    }
+
+    const headIndex = (storedHead?.length ?? 0) - 1;
+    const headHash = records[headIndex]?.recordHash ?? GENESIS_HASH;
+
+    if (!storedHead && records.length > 0) {
+      throw new AuditLogIntegrityError(`Audit log head file ${this.headPath} is missing`);
+    }
+    // The head may lag by one record if the process died between the two writes
+    if (
+      storedHead &&
+      (storedHead.recordHash !== headHash || (records.length !== storedHead.length && records.length !== storedHead.length + 1))
+    ) {
+      throw new AuditLogIntegrityError(
+        `Audit log does not match its head: ${records.length} record(s) on disk, head says ${storedHead.length}`
+      );
+    }
+
+    if (torn.length > 0) {
+      console.warn('[AuditLog] Dropping incomplete final line (crash mid-write)');
+      await truncate(this.filePath, Buffer.byteLength(contents, 'utf8') - Buffer.byteLength(torn, 'utf8'));
+    }
+
+    this.records = records;
+
+    if (storedHead && records.length !== storedHead.length) {
+      console.warn('[AuditLog] Head file was one record behind (crash mid-write) - updating it');
+      await this.writeHead();
+    }
+  }
+
+  private async loadReposts(): Promise<void> {
+    const contents = await readOptional(this.repostsPath);
+    if (contents === null) return;
+
+    const lines = contents.split('\n');
+    // Text after the final newline is a write that never completed
+    const torn = lines.pop() ?? '';
+
+    for (const [index, line] of lines.entries()) {
+      let entry: RepostEntry;
+      try {
+        entry = JSON.parse(line) as RepostEntry;
+      } catch {
+        throw new AuditLogIntegrityError(`Audit log repost line ${index + 1} is not valid JSON`);
+      }
+
+      const record = this.records[entry.sequence];
+      if (!record || record.commitmentHash !== entry.commitmentHash) {
+        throw new AuditLogIntegrityError(`Audit log repost line ${index + 1} does not match a record`);
+      }
+      if (record.onChainSuccess || record.repostTxSignature) {
+        throw new AuditLogIntegrityError(`Audit log repost line ${index + 1} is for a record already on-chain`);
+      }
+      this.attachRepost(entry);
+    }
+
+    if (torn.length > 0) {
+      console.warn('[AuditLog] Dropping incomplete final repost line (crash mid-write)');
+      await truncate(this.repostsPath, Buffer.byteLength(contents, 'utf8') - Buffer.byteLength(torn, 'utf8'));
+    }
+  }
+
+  private attachRepost(entry: RepostEntry): CommitmentRecord {
+    const record = this.records[entry.sequence]!;
+    record.repostTxSignature = entry.txSignature;
+    record.repostedAt = entry.repostedAt;
+    return record;
+  }
+
+  private verifyLink(record: CommitmentRecord, earlier: CommitmentRecord[], index: number): void {
+    const line = index + 1;
+    const expectedPrevious = earlier[earlier.length - 1]?.recordHash ?? GENESIS_HASH;
+
+    if (record.sequence !== earlier.length) {
+      throw new AuditLogIntegrityError(`Audit log line ${line} has sequence ${record.sequence}, expected ${earlier.length}`);
+    }
+    if (record.previousHash !== expectedPrevious) {
+      throw new AuditLogIntegrityError(`Audit log line ${line} does not link to the record before it`);
+    }
+    if (hashCommitment(record.commitment) !== record.commitmentHash) {
+      throw new AuditLogIntegrityError(`Audit log line ${line} commitment does not match its hash`);
+    }
+    if (chainHash(record.previousHash, hashAuditEntry(record)) !== record.recordHash) {
+      throw new AuditLogIntegrityError(`Audit log line ${line} has been altered`);
+    }
+  }
+
+  // ==========================================================================
+  // Writing
+  // ==========================================================================
+
+  /**
+   * Replace the head file atomically
+   */
+  private async writeHead(): Promise<void> {
+    const tmpPath = `${this.headPath}.tmp`;
+    const tmp = await open(tmpPath, 'w');
+    try {
+      await tmp.writeFile(JSON.stringify(this.head));
+      await tmp.sync();
+    } finally {
+      await tmp.close();
+    }
+    await rename(tmpPath, this.headPath);
+  }
+
+  /**
+   * Run writes one at a time, in order
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
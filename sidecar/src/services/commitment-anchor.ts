@@ -0,0 +1,322 @@
+/**
+ * Commitment Anchor - Merkle-Batched On-Chain Anchoring
+ *
+ * With COMMITMENT_ANCHOR_MODE=batch, commitment hashes are not posted one
+ * memo at a time. They are queued, and every ANCHOR_BATCH_WINDOW_SECONDS (or
+ * as soon as ANCHOR_BATCH_MAX_SIZE are waiting) a Merkle tree is built over
+ * them and its root is posted in a single memo transaction:
+ *
+ *   leaf = SHA-256(0x00 || commitmentHash bytes)
+ *   node = SHA-256(0x01 || left || right)
+ *
+ * A node without a sibling moves up a level unchanged. The prefixes keep a
+ * leaf from being passed off as an inner node.
+ *
+ * Queued hashes and anchored batches (with every leaf's inclusion path) are
+ * appended to ANCHOR_LOG_PATH, so hashes queued before a restart are still
+ * anchored and proofs stay available. A batch whose memo fails to post stays
+ * queued for the next window.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, open, readFile, truncate, type FileHandle } from 'fs/promises';
+import { dirname } from 'path';
+import type { CommitmentAnchorProof, CommitmentKind, DuelId, MerkleProofStep, TxSignature } from '../types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AnchorLeaf {
+  duelId: DuelId;
+  kind: CommitmentKind;
+  commitmentHash: string;
+  queuedAt: number;
+}
+
+export interface AnchorBatch {
+  root: string;
+  txSignature: TxSignature;
+  anchoredAt: number;
+  leaves: Array<AnchorLeaf & { path: MerkleProofStep[] }>;
+}
+
+type AnchorLogEntry = ({ type: 'leaf' } & AnchorLeaf) | ({ type: 'batch' } & AnchorBatch);
+
+export type MemoPoster = (memo: string) => Promise<{ success: boolean; txSignature?: string; error?: string }>;
+
+export interface AnchorBatcherOptions {
+  filePath: string;
+  windowMs: number;
+  maxBatchSize: number;
+  /** Posts the root memo on-chain */
+  post: MemoPoster;
+  /** Called for every batch once its root is on-chain */
+  onAnchored?: (batch: AnchorBatch) => void;
+}
+
+// ============================================================================
+// Merkle Tree
+// ============================================================================
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+export function merkleLeaf(commitmentHash: string): string {
+  return createHash('sha256').update(LEAF_PREFIX).update(Buffer.from(commitmentHash, 'hex')).digest('hex');
+}
+
+function merkleNode(left: string, right: string): string {
+  return createHash('sha256')
+    .update(NODE_PREFIX)
+    .update(Buffer.from(left, 'hex'))
+    .update(Buffer.from(right, 'hex'))
+    .digest('hex');
+}
+
+/**
+ * Build a tree over commitment hashes (in order) and return the root and
+ * each leaf's inclusion path
+ */
+export function buildMerkleTree(commitmentHashes: string[]): { root: string; paths: MerkleProofStep[][] } {
+  if (commitmentHashes.length === 0) {
+    throw new Error('Cannot build a Merkle tree with no leaves');
+  }
+
+  const paths: MerkleProofStep[][] = commitmentHashes.map(() => []);
+  // Leaf indexes under each node of the current level
+  let level = commitmentHashes.map((hash, index) => ({ hash: merkleLeaf(hash), leaves: [index] }));
+
+  while (level.length > 1) {
+    const next: typeof level = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i]!;
+      const right = level[i + 1];
+      if (!right) {
+        next.push(left);
+        continue;
+      }
+      for (const leaf of left.leaves) paths[leaf]!.push({ side: 'right', hash: right.hash });
+      for (const leaf of right.leaves) paths[leaf]!.push({ side: 'left', hash: left.hash });
+      next.push({ hash: merkleNode(left.hash, right.hash), leaves: [...left.leaves, ...right.leaves] });
+    }
+    level = next;
+  }
+
+  return { root: level[0]!.hash, paths };
+}
+
+/**
+ * Check that a commitment hash folds up its path to the anchored root
+ */
+export function verifyMerkleProof(commitmentHash: string, path: MerkleProofStep[], root: string): boolean {
+  const folded = path.reduce(
+    (hash, step) => (step.side === 'left' ? merkleNode(step.hash, hash) : merkleNode(hash, step.hash)),
+    merkleLeaf(commitmentHash)
+  );
+  return folded === root;
+}
+
+// ============================================================================
+// Anchor Batcher
+// ============================================================================
+
+export class AnchorBatcher {
+  private pending: AnchorLeaf[] = [];
+  private proofs = new Map<string, CommitmentAnchorProof>();
+  private handle: FileHandle | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private flushInterval: ReturnType<typeof setInterval> | null = null;
+  private flushing = false;
+
+  constructor(private readonly options: AnchorBatcherOptions) {}
+
+  /**
+   * Load queued hashes and anchored batches, then start the batch timer
+   */
+  async initialize(): Promise<void> {
+    if (this.handle) return;
+
+    const { filePath, windowMs } = this.options;
+    await mkdir(dirname(filePath), { recursive: true });
+    await this.load();
+    this.handle = await open(filePath, 'a');
+
+    this.flushInterval = setInterval(() => {
+      this.flush().catch((error) => {
+        console.error('[AnchorBatcher] Flush failed:', error);
+      });
+    }, windowMs);
+
+    console.log(
+      `[AnchorBatcher] Initialized (window ${windowMs / 1000}s, ${this.proofs.size} anchored, ${this.pending.length} queued)`
+    );
+  }
+
+  /**
+   * Stop the batch timer and close the log. Queued hashes are anchored
+   * after the next start.
+   */
+  async shutdown(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    await this.writeQueue;
+    if (this.handle) {
+      await this.handle.close();
+      this.handle = null;
+    }
+  }
+
+  get queued(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Whether a commitment hash is waiting for the next batch
+   */
+  isQueued(commitmentHash: string): boolean {
+    return this.pending.some(leaf => leaf.commitmentHash === commitmentHash);
+  }
+
+  /**
+   * Queue a commitment hash for the next batch
+   */
+  async add(duelId: DuelId, kind: CommitmentKind, commitmentHash: string): Promise<void> {
+    const leaf: AnchorLeaf = { duelId, kind, commitmentHash, queuedAt: Date.now() };
+    await this.write({ type: 'leaf', ...leaf });
+    this.pending.push(leaf);
+
+    if (this.pending.length >= this.options.maxBatchSize) {
+      this.flush().catch((error) => {
+        console.error('[AnchorBatcher] Flush failed:', error);
+      });
+    }
+  }
+
+  /**
+   * Inclusion proof for an anchored commitment hash
+   */
+  find(commitmentHash: string): CommitmentAnchorProof | undefined {
+    return this.proofs.get(commitmentHash);
+  }
+
+  /**
+   * Anchor everything queued, one batch of up to ANCHOR_BATCH_MAX_SIZE at a time
+   */
+  async flush(): Promise<AnchorBatch[]> {
+    // Skip if the previous flush is still waiting on confirmation
+    if (this.flushing) return [];
+    this.flushing = true;
+
+    try {
+      const batches: AnchorBatch[] = [];
+      while (this.pending.length > 0) {
+        const batch = await this.anchor(this.pending.slice(0, this.options.maxBatchSize));
+        if (!batch) break;
+        batches.push(batch);
+      }
+      return batches;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private async anchor(leaves: AnchorLeaf[]): Promise<AnchorBatch | null> {
+    const { root, paths } = buildMerkleTree(leaves.map(leaf => leaf.commitmentHash));
+
+    const result = await this.options.post(root);
+    if (!result.success || !result.txSignature) {
+      console.warn(`[AnchorBatcher] Failed to anchor ${leaves.length} commitment(s), retrying next window: ${result.error}`);
+      return null;
+    }
+
+    const batch: AnchorBatch = {
+      root,
+      txSignature: result.txSignature,
+      anchoredAt: Date.now(),
+      leaves: leaves.map((leaf, index) => ({ ...leaf, path: paths[index]! })),
+    };
+    await this.write({ type: 'batch', ...batch });
+    this.index(batch);
+
+    const anchored = new Set(leaves);
+    this.pending = this.pending.filter(leaf => !anchored.has(leaf));
+
+    console.log(`[AnchorBatcher] Anchored ${leaves.length} commitment(s) under ${root.slice(0, 16)}... (${result.txSignature})`);
+    this.options.onAnchored?.(batch);
+
+    return batch;
+  }
+
+  private index(batch: AnchorBatch): void {
+    for (const [leafIndex, leaf] of batch.leaves.entries()) {
+      this.proofs.set(leaf.commitmentHash, {
+        root: batch.root,
+        txSignature: batch.txSignature,
+        anchoredAt: batch.anchoredAt,
+        leafIndex,
+        leafCount: batch.leaves.length,
+        path: leaf.path,
+      });
+    }
+  }
+
+  // ==========================================================================
+  // Anchor Log
+  // ==========================================================================
+
+  private async load(): Promise<void> {
+    const { filePath } = this.options;
+
+    let contents: string;
+    try {
+      contents = await readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const lines = contents.split('\n');
+    // Text after the final newline is a write that never completed
+    const torn = lines.pop() ?? '';
+
+    const queued: AnchorLeaf[] = [];
+    for (const [index, line] of lines.entries()) {
+      let entry: AnchorLogEntry;
+      try {
+        entry = JSON.parse(line) as AnchorLogEntry;
+      } catch {
+        throw new Error(`Anchor log line ${index + 1} is not valid JSON`);
+      }
+
+      if (entry.type === 'leaf') {
+        const { type: _type, ...leaf } = entry;
+        queued.push(leaf);
+      } else {
+        const { type: _type, ...batch } = entry;
+        this.index(batch);
+      }
+    }
+
+    if (torn.length > 0) {
+      console.warn('[AnchorBatcher] Dropping incomplete final line (crash mid-write)');
+      await truncate(filePath, Buffer.byteLength(contents, 'utf8') - Buffer.byteLength(torn, 'utf8'));
+    }
+
+    this.pending = queued.filter(leaf => !this.proofs.has(leaf.commitmentHash));
+  }
+
+  private write(entry: AnchorLogEntry): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      if (!this.handle) {
+        throw new Error('Anchor log not initialized');
+      }
+      await this.handle.write(JSON.stringify(entry) + '\n');
+      await this.handle.sync();
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
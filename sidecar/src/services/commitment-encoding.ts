@@ -0,0 +1,200 @@
+/**
+ * Commitment Encoding - Canonical Serialization and Salted Amounts
+ *
+ * Version 2 commitments are hashed over a canonical encoding instead of
+ * JSON.stringify, so the hash no longer depends on key insertion order:
+ *
+ * - Object keys sorted by UTF-16 code unit, at every level
+ * - No whitespace; strings escaped as JSON.stringify does
+ * - Only strings, safe integers, booleans, null, arrays and plain objects
+ *   (amounts are decimal strings, never floats)
+ *
+ * Amounts are bound as salted commitments, so the on-chain hash and a
+ * published commitment reveal nothing about them:
+ *
+ *   amountCommitment = SHA-256(canonical { duelId, label, salt, value })
+ *
+ * The salt is 32 random bytes per amount. Openings (value and salt) are kept
+ * with the record and can be handed to the players to check against it.
+ *
+ * Version 1 commitments are still hashed with JSON.stringify, exactly as
+ * they were recorded.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { CombatSummary, DuelId, DuelRules, DuelSession } from '../types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Maps T to itself if every property has a canonical form (strings,
+ * numbers, booleans, null, arrays and plain objects of those) and to an
+ * unassignable type otherwise. Works for interfaces, unlike an index
+ * signature type.
+ */
+export type Canonical<T> =
+  T extends string | number | boolean | null | undefined ? T
+    : T extends readonly (infer Item)[] ? ReadonlyArray<Canonical<Item>>
+      : T extends (...args: never[]) => unknown ? never
+        : T extends object ? { [K in keyof T]: Canonical<T[K]> }
+          : never;
+
+/** Value and salt behind one amount commitment */
+export interface AmountOpening {
+  /** Smallest units (decimal string) */
+  value: string;
+  /** 32 random bytes (hex) */
+  salt: string;
+}
+
+/** Duel terms covered by rulesDigest */
+export interface CommitmentTerms {
+  token: string;
+  houseFeePercent: number;
+  drawFeePercent: number;
+  rules: DuelRules;
+}
+
+// ============================================================================
+// Canonical Encoding
+// ============================================================================
+
+/**
+ * Serialize a value canonically (sorted keys, no whitespace).
+ * Object properties that are undefined are left out.
+ *
+ * @throws Error on values without a canonical form (floats, NaN, etc.)
+ */
+export function canonicalJson<T>(value: T & Canonical<T>): string {
+  return encodeCanonical(value);
+}
+
+function encodeCanonical(value: unknown): string {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Cannot canonically encode number ${value} (use a decimal string)`);
+    }
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => encodeCanonical(item)).join(',')}]`;
+  }
+  if (typeof value !== 'object' || value === undefined) {
+    throw new Error(`Cannot canonically encode ${typeof value}`);
+  }
+
+  const entries = Object.entries(value)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, item]) => `${JSON.stringify(key)}:${encodeCanonical(item)}`);
+  return `{${entries.join(',')}}`;
+}
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * The exact string a commitment's hash is computed over
+ */
+export function serializeCommitment<T extends { version: number }>(commitment: T & Canonical<T>): string {
+  return commitment.version >= 2 ? canonicalJson<T>(commitment) : JSON.stringify(commitment);
+}
+
+/**
+ * SHA-256 of a commitment (canonical for v2, JSON.stringify for v1)
+ */
+export function hashCommitment<T extends { version: number }>(commitment: T & Canonical<T>): string {
+  return sha256(serializeCommitment<T>(commitment));
+}
+
+// ============================================================================
+// Amount Commitments
+// ============================================================================
+
+export function commitAmountOpening(duelId: DuelId, label: string, opening: AmountOpening): string {
+  return sha256(canonicalJson({ duelId, label, salt: opening.salt, value: opening.value }));
+}
+
+/**
+ * Commit to a set of named amounts, each under a fresh salt
+ */
+export function commitAmounts<K extends string>(
+  duelId: DuelId,
+  amounts: Record<K, bigint | number>
+): { commitments: Record<K, string>; openings: Record<K, AmountOpening> } {
+  const commitments = {} as Record<K, string>;
+  const openings = {} as Record<K, AmountOpening>;
+
+  for (const label of Object.keys(amounts) as K[]) {
+    const opening: AmountOpening = {
+      value: BigInt(amounts[label]).toString(),
+      salt: randomBytes(32).toString('hex'),
+    };
+    openings[label] = opening;
+    commitments[label] = commitAmountOpening(duelId, label, opening);
+  }
+
+  return { commitments, openings };
+}
+
+/**
+ * Check every opening against its commitment. Labels missing on either side fail.
+ */
+export function verifyAmountOpenings(
+  duelId: DuelId,
+  commitments: Record<string, string>,
+  openings: Record<string, AmountOpening>
+): boolean {
+  const labels = Object.keys(commitments);
+  return (
+    labels.length === Object.keys(openings).length &&
+    labels.every(label => {
+      const opening = openings[label];
+      return !!opening && commitAmountOpening(duelId, label, opening) === commitments[label];
+    })
+  );
+}
+
+// ============================================================================
+// Digests
+// ============================================================================
+
+/**
+ * The terms of a duel as committed to
+ */
+export function duelTerms(duel: DuelSession): CommitmentTerms {
+  return {
+    token: duel.token,
+    houseFeePercent: duel.houseFeePercent,
+    drawFeePercent: duel.drawFeePercent ?? 0,
+    rules: duel.rules,
+  };
+}
+
+/**
+ * Digest of the duel terms (fee percentages are encoded as decimal strings,
+ * since they need not be whole numbers)
+ */
+export function digestTerms(terms: CommitmentTerms): string {
+  return sha256(
+    canonicalJson({
+      token: terms.token,
+      houseFeePercent: String(terms.houseFeePercent),
+      drawFeePercent: String(terms.drawFeePercent),
+      rules: { ...terms.rules },
+    })
+  );
+}
+
+/**
+ * Digest of the combat summary, or null when the game server sent none
+ */
+export function digestCombatSummary(summary: CombatSummary | undefined): string | null {
+  return summary ? sha256(canonicalJson({ ...summary })) : null;
+}
@@ -0,0 +1,189 @@
+/**
+ * Commitment Reconciler - Re-posts Commitments That Missed the Chain
+ *
+ * A commitment whose memo fails to post is still recorded (onChainSuccess:
+ * false) so the duel can settle. This worker periodically sweeps the audit
+ * log for records whose hash is not on-chain yet and fixes them:
+ *
+ * - single mode: re-post the memo (with COMMITMENT_PRIORITY_FEE_MICROLAMPORTS
+ *   if set), wait for confirmation and record the signature as a repost
+ * - batch mode: queue the hash for the next Merkle batch
+ *
+ * Failed re-posts back off exponentially from COMMITMENT_REPOST_BASE_SECONDS
+ * up to COMMITMENT_REPOST_MAX_SECONDS. Retry state is in memory only, so
+ * after a restart every outstanding record is tried again straight away.
+ */
+
+import { getConfig } from '../config.js';
+import type { CommitmentBacklog, CommitmentBacklogEntry } from '../types/index.js';
+import { accountabilityService, commitmentKind, type CommitmentRecord } from './accountability.js';
+
+interface RepostState {
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// ============================================================================
+// Commitment Reconciler
+// ============================================================================
+
+class CommitmentReconciler {
+  private reconcileInterval: ReturnType<typeof setInterval> | null = null;
+  private reconciling = false;
+  /** Retry state by commitment hash */
+  private reposts = new Map<string, RepostState>();
+
+  /**
+   * Start the periodic sweep
+   */
+  initialize(): void {
+    if (this.reconcileInterval) return;
+
+    const config = getConfig();
+
+    this.reconcileInterval = setInterval(() => {
+      this.reconcile().catch((error) => {
+        console.error('[CommitmentReconciler] Sweep failed:', error);
+      });
+    }, config.commitmentReconcileIntervalMs);
+
+    console.log(
+      `[CommitmentReconciler] Initialized (sweep every ${config.COMMITMENT_RECONCILE_INTERVAL_SECONDS}s, ` +
+        `backoff ${config.COMMITMENT_REPOST_BASE_SECONDS}s-${config.COMMITMENT_REPOST_MAX_SECONDS}s, ` +
+        `priority fee ${config.COMMITMENT_PRIORITY_FEE_MICROLAMPORTS} microlamports)`
+    );
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  shutdown(): void {
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval);
+      this.reconcileInterval = null;
+    }
+  }
+
+  /**
+   * Re-post (or re-queue) every due record that is not on-chain.
+   * Returns how many were fixed during this sweep.
+   */
+  async reconcile(): Promise<number> {
+    // Skip if the previous sweep is still waiting on confirmations
+    if (this.reconciling) return 0;
+    this.reconciling = true;
+
+    try {
+      const outstanding = accountabilityService.getRecordsNotOnChain();
+
+      // Drop retry state for records that landed some other way
+      const hashes = new Set(outstanding.map(record => record.commitmentHash));
+      for (const hash of this.reposts.keys()) {
+        if (!hashes.has(hash)) this.reposts.delete(hash);
+      }
+
+      let reconciled = 0;
+      for (const record of outstanding) {
+        if (accountabilityService.isQueuedForAnchoring(record.commitmentHash)) continue;
+
+        try {
+          if (await this.reconcileRecord(record)) reconciled++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.warn(`[CommitmentReconciler] Skipping commitment ${record.sequence} this sweep: ${message}`);
+        }
+      }
+
+      if (reconciled > 0) {
+        console.log(`[CommitmentReconciler] Reconciled ${reconciled} commitment(s)`);
+      }
+
+      return reconciled;
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  /**
+   * Commitments still waiting to land on-chain, oldest first
+   */
+  getBacklog(): CommitmentBacklog {
+    const now = Date.now();
+
+    const entries = accountabilityService.getRecordsNotOnChain().map((record): CommitmentBacklogEntry => {
+      const queued = accountabilityService.isQueuedForAnchoring(record.commitmentHash);
+      const state = this.reposts.get(record.commitmentHash);
+      return {
+        duelId: record.commitment.duelId,
+        kind: commitmentKind(record.commitment),
+        sequence: record.sequence,
+        commitmentHash: record.commitmentHash,
+        recordedAt: record.recordedAt,
+        lagMs: now - record.recordedAt,
+        status: queued ? 'queued' : 'retrying',
+        attempts: state?.attempts ?? 0,
+        nextAttemptAt: queued ? null : (state?.nextAttemptAt ?? this.firstAttemptAt(record)),
+        lastError: state?.lastError,
+      };
+    });
+
+    return {
+      count: entries.length,
+      oldestLagMs: entries[0]?.lagMs ?? 0,
+      entries,
+    };
+  }
+
+  /**
+   * Fix a single record if its next attempt is due
+   */
+  private async reconcileRecord(record: CommitmentRecord): Promise<boolean> {
+    if (accountabilityService.isBatchAnchoring) {
+      await accountabilityService.queueForAnchoring(record);
+      console.log(`[CommitmentReconciler] Queued commitment ${record.sequence} for the next anchor batch`);
+      return true;
+    }
+
+    const config = getConfig();
+    const state = this.reposts.get(record.commitmentHash) ?? {
+      attempts: 0,
+      nextAttemptAt: this.firstAttemptAt(record),
+    };
+    if (Date.now() < state.nextAttemptAt) return false;
+
+    const result = await accountabilityService.postCommitmentOnChain(record.commitmentHash, {
+      priorityFeeMicroLamports: config.COMMITMENT_PRIORITY_FEE_MICROLAMPORTS || undefined,
+    });
+
+    if (!result.success || !result.txSignature) {
+      state.attempts++;
+      state.nextAttemptAt = Date.now() + this.backoff(state.attempts);
+      state.lastError = result.error ?? 'No transaction signature returned';
+      this.reposts.set(record.commitmentHash, state);
+      console.warn(
+        `[CommitmentReconciler] Re-post of commitment ${record.sequence} failed (attempt ${state.attempts}): ${state.lastError}`
+      );
+      return false;
+    }
+
+    await accountabilityService.recordRepost(record, result.txSignature);
+    this.reposts.delete(record.commitmentHash);
+    return true;
+  }
+
+  /**
+   * The original post just failed, so give the RPC one backoff step first
+   */
+  private firstAttemptAt(record: CommitmentRecord): number {
+    return record.recordedAt + getConfig().commitmentRepostBaseMs;
+  }
+
+  private backoff(attempts: number): number {
+    const config = getConfig();
+    return Math.min(config.commitmentRepostBaseMs * 2 ** (attempts - 1), config.commitmentRepostMaxMs);
+  }
+}
+
+// Export singleton instance
+export const commitmentReconciler = new CommitmentReconciler();
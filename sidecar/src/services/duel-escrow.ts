@@ -4,25 +4,60 @@
  * Uses @radr/shadowwire SDK for:
  * - Shielded balance verification
  * - Stake transfers (ZK proofs)
- * - Winner payouts
+ * - Winner payouts (draws return each player's stake minus the draw fee)
  * - House fee collection
  *
- * Uses in-memory storage (no Redis dependency).
+ * Duel state lives in the configured DuelStore (see duel-store.ts).
+ * Player wallets are only held in memory, plus encrypted in the wallet
+ * vault when it is enabled (see wallet-vault.ts).
+ * Settle and refund make one payout attempt per call; retries with backoff
+ * are driven by the settlement queue (see settlement-queue.ts), which
+ * resumes duels left in PENDING_SETTLEMENT or FAILED.
  */
 
 import { randomBytes } from 'crypto';
-import { getConfig, TOKEN_MINIMUMS, TOKEN_DECIMALS, type SupportedToken } from '../config.js';
-import { memoryStore } from './memory-store.js';
-import { shadowWireDirect } from './shadowwire-direct.js';
+import { getConfig } from '../config.js';
+import { Amount, AmountError, type DecimalInput } from './amount.js';
+import { getDuelStore, type DuelStore } from './duel-store.js';
+import { tokenRegistry } from './token-registry.js';
+import { getTransferProvider } from './transfer-provider.js';
 import { generateStealthId, stealthMapping, verifyStealthId } from './stealth.js';
-import { accountabilityService } from './accountability.js';
+import {
+  accountabilityService,
+  type CommitmentRecord,
+  type TermsCommitmentInput,
+} from './accountability.js';
+import { duelTerms } from './commitment-encoding.js';
+import { walletVault } from './wallet-vault.js';
+import { feeSchedule, stakeOf } from './fee-schedule.js';
+import { buildFeeQuote, checkFeeQuote, feeQuoteSigner } from './fee-quote.js';
+import { withDuelLock, withEscrowBalanceLock } from './duel-lock.js';
+import {
+  getLockVerifier,
+  LOCK_SIGNATURE_RETENTION_MS,
+  parseLockProof,
+  type LockProof,
+} from './lock-verifier.js';
+import type { ServerAuthorization } from './server-signature.js';
+import type { RefundClaimResult } from './refund-claim.js';
+import { spendingAuthorizationService } from './spending-authorization.js';
+import {
+  applyTransition,
+  canTransition,
+  duelLifecycle,
+  InvalidDuelTransitionError,
+  type DuelTransitionEvent,
+} from './duel-state-machine.js';
 import type {
+  AutoRefundRecord,
   DuelId,
   DuelParticipant,
+  DuelPayoutInfo,
   DuelSession,
   DuelRules,
   CombatSummary,
   StealthId,
+  SignedFeeQuote,
   TxSignature,
   WalletAddress,
   CharacterId,
@@ -49,9 +84,26 @@ interface CreateDuelParams {
   player2CharacterId: CharacterId;
   player1Name: string;
   player2Name: string;
-  stakeAmountSol: number;
+  /** Each player's stake in human units (may differ, e.g. handicap wagers) */
+  player1StakeAmount: DecimalInput;
+  player2StakeAmount: DecimalInput;
   token?: string;
   rules?: Partial<DuelRules>;
+  /** Signed quote to hold the duel to (its house fee applies) */
+  feeQuote?: SignedFeeQuote;
+}
+
+interface QuoteDuelParams {
+  player1StakeAmount: DecimalInput;
+  player2StakeAmount: DecimalInput;
+  token?: string;
+  rules?: Partial<DuelRules>;
+}
+
+interface QuoteDuelResult {
+  success: boolean;
+  quote?: SignedFeeQuote;
+  error?: string;
 }
 
 interface CreateDuelResult {
@@ -67,16 +119,43 @@ interface LockStakeResult {
   error?: string;
 }
 
+/** Where a locked stake comes from: a reported transfer or a funded authorization */
+type StakeSource = { proof: LockProof } | { authorizationId: string };
+
+type RecordedLock =
+  | { success: true; now: number; txSignature: TxSignature; bothLocked: boolean; activated: DuelTransitionEvent | null }
+  | { success: false; error?: string };
+
 interface SettleResult {
   success: boolean;
   winnerTxSignature?: TxSignature;
   treasuryTxSignature?: TxSignature;
-  winnerPayoutLamports?: bigint;
-  houseFeeLamports?: bigint;
+  winnerPayout?: Amount;
+  houseFee?: Amount;
+  /** Commitment hash (for accountability) */
+  commitmentHash?: string;
+  /** On-chain tx signature for commitment */
+  commitmentTxSignature?: string;
+  /** Paid out without a terms commitment to check the duel against */
+  termsUnchecked?: boolean;
+  error?: string;
+}
+
+interface SettleDrawResult {
+  success: boolean;
+  /** Payout tx signatures (player 1, player 2) */
+  payoutTxSignatures?: TxSignature[];
+  treasuryTxSignature?: TxSignature;
+  /** Amount returned to each player (player 1, player 2) */
+  playerPayouts?: Amount[];
+  /** Draw fee taken from both players combined */
+  drawFee?: Amount;
   /** Commitment hash (for accountability) */
   commitmentHash?: string;
   /** On-chain tx signature for commitment */
   commitmentTxSignature?: string;
+  /** Paid out without a terms commitment to check the duel against */
+  termsUnchecked?: boolean;
   error?: string;
 }
 
@@ -86,36 +165,74 @@ interface RefundResult {
   error?: string;
 }
 
+interface EmergencyRefundResult {
+  success: boolean;
+  refunds: {
+    player: string;
+    success: boolean;
+    txSignature?: string;
+    error?: string;
+    /** Why no transfer was made (txSignature is the earlier payout if already paid) */
+    skipped?: 'already_paid' | 'not_locked';
+  }[];
+  error?: string;
+}
+
+// How long expired/settled duels are kept in the store for recovery and auditing
+const DUEL_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * What a duel's terms commitment covers (see AccountabilityService.commitToTerms)
+ */
+function termsCommitmentInput(duel: DuelSession): TermsCommitmentInput {
+  return {
+    duelId: duel.duelId,
+    player1StealthId: duel.player1.stealthId,
+    player2StealthId: duel.player2.stealthId,
+    player1Stake: duel.player1.stakeAmount,
+    player2Stake: duel.player2.stakeAmount,
+    terms: duelTerms(duel),
+    expiresAt: duel.expiresAt,
+    feeQuote: duel.feeQuote,
+  };
+}
+
+
 // ============================================================================
 // Duel Escrow Service
 // ============================================================================
 
 class DuelEscrowService {
   private treasuryWallet: string | null = null;
+  private store: DuelStore | null = null;
   private initialized = false;
 
   /**
-   * Initialize the service (no external dependencies)
+   * Initialize the service and load persisted duel state
    */
-  initialize(): void {
+  async initialize(): Promise<void> {
     if (this.initialized) return;
 
-    // Initialize memory store
-    memoryStore.initialize();
+    // Initialize the configured duel store
+    this.store = getDuelStore();
+    await this.store.initialize();
 
-    // Initialize ShadowWire Direct client (bypasses broken SDK)
-    shadowWireDirect.initialize();
+    // Initialize the configured transfer provider (TRANSFER_PROVIDER)
+    await getTransferProvider().initialize();
 
     // Initialize accountability service for commit-hash system
-    accountabilityService.initialize();
+    await accountabilityService.initialize();
+
+    // Encrypted wallet mapping at rest (optional)
+    walletVault.initialize();
 
     // Store treasury wallet for fee collection
-    this.treasuryWallet = shadowWireDirect.getTreasuryWallet();
+    this.treasuryWallet = getTransferProvider().getTreasuryWallet();
 
     this.initialized = true;
 
-    console.log('[DuelEscrow] Service initialized with in-memory storage');
-    console.log(`[DuelEscrow] Escrow wallet: ${shadowWireDirect.getEscrowWallet()}`);
+    console.log(`[DuelEscrow] Service initialized with ${this.store.backend} storage`);
+    console.log(`[DuelEscrow] Escrow wallet: ${getTransferProvider().getEscrowWallet()}`);
     console.log(`[DuelEscrow] Treasury wallet: ${this.treasuryWallet}`);
   }
 
@@ -125,10 +242,49 @@ class DuelEscrowService {
     }
   }
 
+  private get duelStore(): DuelStore {
+    if (!this.store) {
+      throw new Error('DuelEscrow service not initialized');
+    }
+    return this.store;
+  }
+
   private generateDuelId(): DuelId {
     return randomBytes(16).toString('hex');
   }
 
+  /**
+   * Apply a validated status transition, persist the duel, then announce it.
+   *
+   * @throws InvalidDuelTransitionError if the transition is not allowed
+   */
+  private async transitionDuel(
+    duel: DuelSession,
+    to: DuelStatus,
+    reason: string,
+    ttlMs: number
+  ): Promise<void> {
+    const event = applyTransition(duel, to, reason);
+    await this.duelStore.setDuel(duel.duelId, duel, ttlMs);
+    duelLifecycle.publish(event);
+  }
+
+  /**
+   * Announce a payout made outside the settlement queue, once it is persisted
+   */
+  private publishPayout(duelId: DuelId, payout: DuelPayoutInfo): void {
+    duelLifecycle.publishPayout({ duelId, payout, timestamp: Date.now() });
+  }
+
+  /**
+   * Store TTL for a duel that has not finished yet.
+   * Outlives expiresAt so the expiry worker can refund it after the grace period.
+   */
+  private unfinishedDuelTtl(duel: DuelSession): number {
+    const config = getConfig();
+    return duel.expiresAt + config.expiryGraceMs + DUEL_RETENTION_MS - Date.now();
+  }
+
   // ==========================================================================
   // Create Duel
   // ==========================================================================
@@ -144,20 +300,30 @@ class DuelEscrowService {
       player2CharacterId,
       player1Name,
       player2Name,
-      stakeAmountSol,
+      player1StakeAmount,
+      player2StakeAmount,
       token = 'SOL',
       rules = {},
+      feeQuote,
     } = params;
 
-    const tokenKey = token as SupportedToken;
-    const decimals = TOKEN_DECIMALS[tokenKey] || 9;
-    const minAmount = TOKEN_MINIMUMS[tokenKey] || 100_000_000;
-    const stakeAmountSmallestUnit = Math.floor(stakeAmountSol * Math.pow(10, decimals));
-
-    // Validate stake amount against token-specific minimum
-    if (stakeAmountSmallestUnit < minAmount) {
-      const minDisplay = minAmount / Math.pow(10, decimals);
-      return { success: false, error: `Stake too low. Min: ${minDisplay} ${token}` };
+    const stakes = this.parseStakes(player1StakeAmount, player2StakeAmount, token);
+    if ('error' in stakes) {
+      return { success: false, error: stakes.error };
+    }
+    const [player1Stake, player2Stake] = stakes.stakes;
+    const fullRules: DuelRules = { ...DEFAULT_RULES, ...rules };
+
+    if (feeQuote) {
+      const quoteError = checkFeeQuote(feeQuote, {
+        token,
+        player1Stake,
+        player2Stake,
+        rules: fullRules,
+      });
+      if (quoteError) {
+        return { success: false, error: quoteError };
+      }
     }
 
     // NOTE: Balance checks are skipped for hackathon - the client-side SDK handles verification
@@ -165,7 +331,7 @@ class DuelEscrowService {
     // In production, you'd want to verify balances server-side before creating the duel.
     console.log(`[DuelEscrow] Skipping server-side balance checks (client will verify)`);
     console.log(`[DuelEscrow] P1: ${player1Wallet.slice(0, 8)}..., P2: ${player2Wallet.slice(0, 8)}...`);
-    console.log(`[DuelEscrow] Stake: ${stakeAmountSol} ${token}`);
+    console.log(`[DuelEscrow] Stake: ${player1Stake.toDisplay()} / ${player2Stake.toDisplay()}`);
 
     // Generate stealth IDs
     const player1StealthId = stealthMapping.register(player1Wallet);
@@ -175,6 +341,12 @@ class DuelEscrowService {
     const now = Date.now();
     const expiresAt = now + config.escrowTimeoutMs;
 
+    // Fixed for the life of the duel (a promotion ending mid-duel does not
+    // change it); a quote keeps the house fee it was signed with
+    const houseFeePercent = feeQuote
+      ? Number(feeQuote.quote.houseFeePercent)
+      : feeSchedule.houseFee(player1Stake.plus(player2Stake), now).percent;
+
     const duel: DuelSession = {
       duelId,
       status: DuelStatus.PENDING_STAKES,
@@ -182,31 +354,119 @@ class DuelEscrowService {
         stealthId: player1StealthId,
         characterId: player1CharacterId,
         characterName: player1Name,
-        stakeAmount: BigInt(stakeAmountSmallestUnit),
+        stakeAmount: player1Stake.units,
         stakeLocked: false,
       },
       player2: {
         stealthId: player2StealthId,
         characterId: player2CharacterId,
         characterName: player2Name,
-        stakeAmount: BigInt(stakeAmountSmallestUnit),
+        stakeAmount: player2Stake.units,
         stakeLocked: false,
       },
       token,
-      houseFeePercent: config.HOUSE_FEE_PERCENT,
-      rules: { ...DEFAULT_RULES, ...rules },
+      houseFeePercent,
+      drawFeePercent: feeQuote ? Number(feeQuote.quote.drawFeePercent) : config.DRAW_FEE_PERCENT,
+      rules: fullRules,
       createdAt: now,
       updatedAt: now,
       expiresAt,
+      feeQuote,
     };
 
-    memoryStore.setDuel(duelId, duel, config.escrowTimeoutMs);
+    // Outlive a FAILED duel's retention so it can still be recovered; removed
+    // as soon as the duel is paid out
+    await walletVault.seal(duelId, [player1Wallet, player2Wallet], this.unfinishedDuelTtl(duel) + DUEL_RETENTION_MS);
+
+    // A quote creates one duel, so it is claimed only once nothing but the
+    // save is left; the claim only has to outlive the quote
+    if (feeQuote) {
+      const { quoteId, expiresAt: quoteExpiresAt } = feeQuote.quote;
+      const fresh = await this.duelStore.claimNonce(`fee-quote:${quoteId}`, Math.max(quoteExpiresAt - Date.now(), 1));
+      if (!fresh) {
+        await walletVault.discard(duelId);
+        return { success: false, error: `Fee quote ${quoteId} has already been used` };
+      }
+    }
 
-    console.log(`[DuelEscrow] Created duel ${duelId}: ${player1Name} vs ${player2Name}, stake ${stakeAmountSol} SOL`);
+    await this.duelStore.setDuel(duelId, duel, this.unfinishedDuelTtl(duel));
+    duelLifecycle.publish({
+      duelId,
+      from: null,
+      to: DuelStatus.PENDING_STAKES,
+      reason: 'created',
+      duel,
+      timestamp: now,
+    });
+
+    console.log(`[DuelEscrow] Created duel ${duelId}: ${player1Name} vs ${player2Name}, stakes ${player1Stake.toDisplay()} / ${player2Stake.toDisplay()}`);
 
     return { success: true, duel };
   }
 
+  /**
+   * Parse human-unit stakes (digits beyond the token's decimals are rounded
+   * down) and check them against the token's registry entry
+   */
+  private parseStakes(
+    player1StakeAmount: DecimalInput,
+    player2StakeAmount: DecimalInput,
+    token: string
+  ): { stakes: [Amount, Amount] } | { error: string } {
+    // Disabled tokens only settle the duels they already have
+    if (!tokenRegistry.isEnabled(token)) {
+      return { error: `Unsupported token: ${token}` };
+    }
+
+    let stakes: [Amount, Amount];
+    try {
+      stakes = [
+        Amount.parse(token, player1StakeAmount, 'floor'),
+        Amount.parse(token, player2StakeAmount, 'floor'),
+      ];
+    } catch (error) {
+      if (error instanceof AmountError) return { error: error.message };
+      throw error;
+    }
+
+    const minimum = tokenRegistry.minimum(token);
+    if (stakes.some(stake => stake.lt(minimum))) {
+      return { error: `Stake too low. Min: ${minimum.toDecimal()} ${token}` };
+    }
+    const maximum = tokenRegistry.maxStake(token);
+    if (maximum && stakes.some(stake => stake.gt(maximum))) {
+      return { error: `Stake too high. Max: ${maximum.toDecimal()} ${token}` };
+    }
+
+    return { stakes };
+  }
+
+  // ==========================================================================
+  // Fee Quotes
+  // ==========================================================================
+
+  /**
+   * Signed breakdown of what a duel on these terms would pay out (see
+   * fee-quote.ts). Pass it to createDuel to hold the duel to it.
+   */
+  quoteDuel(params: QuoteDuelParams): QuoteDuelResult {
+    const { player1StakeAmount, player2StakeAmount, token = 'SOL', rules = {} } = params;
+
+    const stakes = this.parseStakes(player1StakeAmount, player2StakeAmount, token);
+    if ('error' in stakes) {
+      return { success: false, error: stakes.error };
+    }
+
+    const quote = buildFeeQuote({
+      token,
+      player1Stake: stakes.stakes[0],
+      player2Stake: stakes.stakes[1],
+      rules: { ...DEFAULT_RULES, ...rules },
+    });
+
+    return { success: true, quote: feeQuoteSigner.sign(quote) };
+  }
+
   // ==========================================================================
   // Lock Stake with Client Transfer
   // ==========================================================================
@@ -218,8 +478,11 @@ class DuelEscrowService {
    * Flow:
    * 1. Client calls ShadowWire SDK: client.transfer({ sender, recipient: escrowWallet, ... })
    * 2. Client gets txSignature back
-   * 3. Client calls this endpoint with the txSignature
-   * 4. We record the stake as locked
+   * 3. Client calls this endpoint with the txSignature (or ZK payment)
+   * 4. The LockVerifier checks the transfer, the signature is bound to this
+   *    duel and player, and the stake is recorded as locked
+   *
+   * @throws DuelBusyError if another operation holds the duel
    */
   async lockStakeWithProof(
     duelId: DuelId,
@@ -227,6 +490,34 @@ class DuelEscrowService {
     paymentProof: string
   ): Promise<LockStakeResult> {
     this.ensureInitialized();
+    return withDuelLock(duelId, () =>
+      this.lockStakeLocked(duelId, playerWallet, { proof: parseLockProof(paymentProof) })
+    );
+  }
+
+  /**
+   * Lock a stake from a funded spending pre-authorization: no transfer and
+   * no wallet popup; the stake is charged against the authorization's limits
+   * and drawn from its funded balance (see spending-authorization.ts).
+   *
+   * @throws DuelBusyError if another operation holds the duel
+   */
+  async lockStakeWithAuthorization(
+    duelId: DuelId,
+    playerWallet: WalletAddress,
+    authorizationId: string
+  ): Promise<LockStakeResult> {
+    this.ensureInitialized();
+    return withDuelLock(duelId, () =>
+      this.lockStakeLocked(duelId, playerWallet, { authorizationId })
+    );
+  }
+
+  private async lockStakeLocked(
+    duelId: DuelId,
+    playerWallet: WalletAddress,
+    source: StakeSource
+  ): Promise<LockStakeResult> {
 
     const duel = await this.getDuel(duelId);
     if (!duel) {
@@ -261,20 +552,96 @@ class DuelEscrowService {
 
     console.log(`[DuelEscrow] Recording P${playerNumber} stake lock...`);
 
-    // Parse the payment proof - could be just a tx signature or full proof data
-    let txSignature: string;
-    try {
-      const proofData = JSON.parse(paymentProof);
-      // Accept either { txSignature: "..." } or { signature: "..." } or just the raw string
-      txSignature = proofData.txSignature || proofData.signature || proofData.tx || paymentProof;
-    } catch {
-      // If not JSON, treat as raw tx signature
-      txSignature = paymentProof;
+    // Verify and record under the token's escrow balance lock, so two
+    // concurrent locks can never be covered by the same escrow funds
+    const recorded = await withEscrowBalanceLock(duel.token, () =>
+      this.recordStakeLock(duel, player, playerNumber, source)
+    );
+    if (!recorded.success) {
+      return { success: false, error: recorded.error };
     }
+    const { now, txSignature, bothLocked, activated } = recorded;
 
-    // TODO: In production, verify the transfer actually happened by querying ShadowWire
-    // For hackathon, we trust the client's tx signature
-    console.log(`[DuelEscrow] P${playerNumber} reported tx: ${txSignature.slice(0, 16)}...`);
+    // Announce the lock before the transition it caused
+    duelLifecycle.publishStakeLocked({ duelId, playerNumber, duel, timestamp: now });
+    if (activated) {
+      duelLifecycle.publish(activated);
+      console.log(`[DuelEscrow] Duel ${duelId} is now ACTIVE - both stakes locked`);
+
+      // ACCOUNTABILITY: commit to what the duel is played for before combat
+      try {
+        const commitResult = await accountabilityService.commitToTerms(termsCommitmentInput(duel), true);
+        console.log(`[DuelEscrow] Terms commitment recorded: ${commitResult.commitmentHash?.slice(0, 16)}...`);
+      } catch (error) {
+        // Don't fail the lock - settlement goes unchecked without a terms record
+        console.warn(`[DuelEscrow] Terms commitment error (continuing anyway):`, error);
+      }
+    }
+
+    console.log(`[DuelEscrow] P${playerNumber} stake recorded as locked`);
+
+    return {
+      success: true,
+      txSignature,
+      bothLocked,
+    };
+  }
+
+  /**
+   * Verify a reported stake transfer (or charge the authorization) and record
+   * the lock. Callers hold the duel lock and the escrow balance lock for its token.
+   */
+  private async recordStakeLock(
+    duel: DuelSession,
+    player: DuelParticipant,
+    playerNumber: 1 | 2,
+    source: StakeSource
+  ): Promise<RecordedLock> {
+    const { duelId } = duel;
+    let txSignature: TxSignature;
+
+    if ('authorizationId' in source) {
+      // Pre-authorized lock: nothing was transferred for this duel, the
+      // stake comes out of the funds the player already put in escrow
+      const charge = await spendingAuthorizationService.charge(
+        source.authorizationId,
+        player.stealthId,
+        stakeOf(duel, player)
+      );
+      if (!charge.success) {
+        return { success: false, error: charge.error };
+      }
+      player.authorizationId = source.authorizationId;
+      txSignature = `authorization:${source.authorizationId}`;
+    } else {
+      const { proof } = source;
+      txSignature = proof.txSignature;
+      console.log(`[DuelEscrow] P${playerNumber} reported tx: ${txSignature.slice(0, 16)}...`);
+
+      const verifier = getLockVerifier();
+      const verification = await verifier.verify({
+        resource: `Duel:${duelId}`,
+        proof,
+        expectedAmount: stakeOf(duel, player),
+        escrowWallet: getTransferProvider().getEscrowWallet(),
+      });
+
+      if (!verification.verified) {
+        console.warn(`[DuelEscrow] P${playerNumber} lock rejected by ${verifier.name}: ${verification.error}`);
+        return { success: false, error: `Stake transfer not verified: ${verification.error}` };
+      }
+
+      // A transfer may lock exactly one stake - reject reuse for another duel, player or funding
+      const existingBinding = await this.duelStore.bindLockSignature(
+        { txSignature, duelId, stealthId: player.stealthId, boundAt: Date.now() },
+        LOCK_SIGNATURE_RETENTION_MS
+      );
+
+      if (existingBinding && (existingBinding.duelId !== duelId || existingBinding.stealthId !== player.stealthId)) {
+        console.warn(`[DuelEscrow] P${playerNumber} reused tx already bound to ${existingBinding.duelId ?? 'an authorization'}`);
+        return { success: false, error: 'Transaction already used to lock another stake' };
+      }
+    }
 
     // Update duel state
     const now = Date.now();
@@ -284,34 +651,42 @@ class DuelEscrowService {
     duel.updatedAt = now;
 
     const bothLocked = duel.player1.stakeLocked && duel.player2.stakeLocked;
-    if (bothLocked) {
-      duel.status = DuelStatus.ACTIVE;
-      console.log(`[DuelEscrow] Duel ${duelId} is now ACTIVE - both stakes locked`);
-    }
+    const activated = bothLocked ? applyTransition(duel, DuelStatus.ACTIVE, 'both_locked') : null;
 
-    const ttl = duel.expiresAt - Date.now();
-    memoryStore.setDuel(duelId, duel, Math.max(ttl, 1000));
+    await this.duelStore.setDuel(duelId, duel, this.unfinishedDuelTtl(duel));
 
-    console.log(`[DuelEscrow] P${playerNumber} stake recorded as locked`);
-
-    return {
-      success: true,
-      txSignature,
-      bothLocked,
-    };
+    return { success: true, now, txSignature, bothLocked, activated };
   }
 
   // ==========================================================================
   // Settle Duel
   // ==========================================================================
 
+  /**
+   * Settle a duel and pay the winner (one payout attempt; a failed payout
+   * leaves the duel FAILED for the settlement queue to retry).
+   * Runs under the duel lock so concurrent calls cannot both pay out.
+   *
+   * @throws DuelBusyError if another operation holds the duel
+   */
   async settleDuel(
     duelId: DuelId,
-    winnerWallet: WalletAddress,
-    combatSummary?: CombatSummary,
-    gameServerSignature: string = ''
+    winnerStealthId: StealthId,
+    combatSummary: CombatSummary | undefined,
+    authorization: ServerAuthorization
   ): Promise<SettleResult> {
     this.ensureInitialized();
+    return withDuelLock(duelId, () =>
+      this.settleDuelLocked(duelId, winnerStealthId, combatSummary, authorization)
+    );
+  }
+
+  private async settleDuelLocked(
+    duelId: DuelId,
+    winnerStealthId: StealthId,
+    combatSummary: CombatSummary | undefined,
+    authorization: ServerAuthorization
+  ): Promise<SettleResult> {
     const config = getConfig();
 
     const duel = await this.getDuel(duelId);
@@ -319,45 +694,73 @@ class DuelEscrowService {
       return { success: false, error: 'Duel not found' };
     }
 
-    if (duel.status !== DuelStatus.ACTIVE && duel.status !== DuelStatus.PENDING_SETTLEMENT) {
+    // PENDING_SETTLEMENT resumes an interrupted settlement; anything else must be able to enter it
+    if (
+      duel.status !== DuelStatus.PENDING_SETTLEMENT &&
+      !canTransition(duel.status, DuelStatus.PENDING_SETTLEMENT)
+    ) {
       return { success: false, error: `Invalid duel status: ${duel.status}` };
     }
 
+    // An interrupted draw or refund can only be resumed as such
+    if (duel.outcome && duel.outcome !== 'win') {
+      return { success: false, error: `Duel is being settled as a ${duel.outcome}` };
+    }
+
+    // Past the grace period the expiry worker owns the duel (deadman's switch)
+    if (duel.status === DuelStatus.ACTIVE && Date.now() > duel.expiresAt + config.expiryGraceMs) {
+      return { success: false, error: 'Duel has expired and is being refunded' };
+    }
+
     // Verify winner is part of duel
-    if (
-      !verifyStealthId(winnerWallet, duel.player1.stealthId) &&
-      !verifyStealthId(winnerWallet, duel.player2.stealthId)
-    ) {
+    if (winnerStealthId !== duel.player1.stealthId && winnerStealthId !== duel.player2.stealthId) {
       return { success: false, error: 'Winner not part of this duel' };
     }
 
-    // Calculate payouts accounting for ShadowWire deposit fees
-    // Each player's deposit was reduced by 0.5% when they transferred to escrow
-    const SHADOWWIRE_FEE_PERCENT = 0.5;
-    const depositFeeMultiplier = 1 - (SHADOWWIRE_FEE_PERCENT / 100); // 0.995
-
-    const stakePerPlayer = Number(duel.player1.stakeAmount);
-    const actualDepositPerPlayer = Math.floor(stakePerPlayer * depositFeeMultiplier);
-    const actualTotalPot = actualDepositPerPlayer * 2;
+    const winnerWallet = await this.resolveWallet(duelId, winnerStealthId);
+    if (!winnerWallet) {
+      return { success: false, error: 'Winner wallet mapping not found' };
+    }
 
-    // House fee is calculated on what's actually in escrow
-    const houseFee = Math.floor(actualTotalPot * duel.houseFeePercent / 100);
+    // The game server must have authorized exactly this outcome
+    if (
+      authorization.duelId !== duelId ||
+      authorization.outcome !== 'winner' ||
+      authorization.winnerStealthId !== winnerStealthId
+    ) {
+      return { success: false, error: 'Server authorization does not match this settlement' };
+    }
 
-    // Winner payout is the rest (ShadowWire will take another 0.5% on transfer out)
-    const winnerPayout = actualTotalPot - houseFee;
+    // Payouts are based on what actually reached escrow (see fee-schedule.ts)
+    const { deposits, pot, houseFee, winnerPayout, winnerReceives } = feeSchedule.settlement(duel);
+    const { depositFeePercent, transferFeePercent } = feeSchedule.tokenFees(duel.token);
 
-    const lamportsToSol = (l: number) => (l / 1_000_000_000).toFixed(6);
     console.log(`[DuelEscrow] Settling duel ${duelId}:`);
-    console.log(`  Original stake per player: ${lamportsToSol(stakePerPlayer)} SOL`);
-    console.log(`  After 0.5% deposit fee: ${lamportsToSol(actualDepositPerPlayer)} SOL each`);
-    console.log(`  Actual pot in escrow: ${lamportsToSol(actualTotalPot)} SOL`);
-    console.log(`  House fee: ${lamportsToSol(houseFee)} SOL (${duel.houseFeePercent}%)`);
-    console.log(`  Winner payout (before 0.5% transfer fee): ${lamportsToSol(winnerPayout)} SOL`);
+    console.log(`  Original stakes: ${stakeOf(duel, duel.player1).toDisplay()} / ${stakeOf(duel, duel.player2).toDisplay()}`);
+    console.log(`  After ${depositFeePercent}% deposit fee: ${deposits[0].toDisplay()} / ${deposits[1].toDisplay()}`);
+    console.log(`  Actual pot in escrow: ${pot.toDisplay()}`);
+    console.log(`  House fee: ${houseFee.toDisplay()} (${duel.houseFeePercent}%)`);
+    console.log(`  Winner payout: ${winnerPayout.toDisplay()} (${winnerReceives.toDisplay()} after ${transferFeePercent}% transfer fee)`);
+
+    // Shown by /duel/verify too; the quote is a promise, so flag any drift loudly
+    const quote = duel.feeQuote?.quote;
+    if (quote && (quote.winnerPayout !== winnerPayout.toString() || quote.houseFee !== houseFee.toString())) {
+      console.warn(`[DuelEscrow] Duel ${duelId} settles off its fee quote ${quote.quoteId} (payout ${quote.winnerPayout}, fee ${quote.houseFee} quoted)`);
+    }
+
+    // The duel must still be what was committed to when both stakes locked
+    // (one never recorded cannot be checked - settle, but say so)
+    const termsCheck = accountabilityService.checkTerms(termsCommitmentInput(duel));
+    if (termsCheck.unchecked) {
+      console.warn(`[DuelEscrow] Settling duel ${duelId} unchecked: ${termsCheck.error}`);
+    } else if (!termsCheck.matches) {
+      console.error(`[DuelEscrow] Refusing to settle duel ${duelId}: ${termsCheck.error}`);
+      return { success: false, error: termsCheck.error };
+    }
 
-    // Determine winner and loser stealth IDs for commitment
-    const winnerStealthId = generateStealthId(winnerWallet);
-    const isPlayer1Winner = verifyStealthId(winnerWallet, duel.player1.stealthId);
-    const loserStealthId = isPlayer1Winner ? duel.player2.stealthId : duel.player1.stealthId;
+    // Determine winner and loser for commitment
+    const isPlayer1Winner = winnerStealthId === duel.player1.stealthId;
+    const [winner, loser] = isPlayer1Winner ? [duel.player1, duel.player2] : [duel.player2, duel.player1];
 
     // ==========================================================================
     // ACCOUNTABILITY: Create and post commitment BEFORE settlement
@@ -370,128 +773,318 @@ class DuelEscrowService {
     let commitmentHash: string | undefined;
     let commitmentTxSignature: string | undefined;
 
-    try {
-      const commitResult = await accountabilityService.commitToSettlement(
-        duelId,
-        winnerStealthId,
-        loserStealthId,
-        gameServerSignature,
-        true // Post on-chain
-      );
+    // A resumed settlement keeps the commitment its first attempt made
+    const prior = this.priorOutcomeCommitment(duelId, winnerStealthId);
+    if (prior.error) {
+      console.error(`[DuelEscrow] Refusing to settle duel ${duelId}: ${prior.error}`);
+      return { success: false, error: prior.error };
+    }
+
+    if (prior.record) {
+      commitmentHash = prior.record.commitmentHash;
+      commitmentTxSignature = accountabilityService.getOnChainStatus(prior.record).txSignature ?? undefined;
+      console.log(`[DuelEscrow] Resuming under commitment ${commitmentHash.slice(0, 16)}...`);
+    } else if (!authorization.verified) {
+      // Only a verified game server signature may back a commitment
+      console.warn(`[DuelEscrow] Unsigned settlement for duel ${duelId} - skipping commitment (development)`);
+    } else {
+      try {
+        const commitResult = await accountabilityService.commitToSettlement(
+          {
+            duelId,
+            winnerStealthId,
+            loserStealthId: loser.stealthId,
+            winnerStake: winner.stakeAmount,
+            loserStake: loser.stakeAmount,
+            houseFee: houseFee.units,
+            winnerPayout: winnerPayout.units,
+            terms: duelTerms(duel),
+            combatSummary,
+            termsCommitmentHash: termsCheck.termsCommitmentHash,
+            gameServerSignature: authorization.signature,
+          },
+          true // Post on-chain
+        );
 
-      if (commitResult.success) {
-        commitmentHash = commitResult.commitmentHash;
-        commitmentTxSignature = commitResult.onChainTxSignature;
-        console.log(`[DuelEscrow] Commitment recorded: ${commitmentHash?.slice(0, 16)}...`);
-        if (commitmentTxSignature) {
-          console.log(`[DuelEscrow] On-chain: ${commitmentTxSignature}`);
+        if (commitResult.success) {
+          commitmentHash = commitResult.commitmentHash;
+          commitmentTxSignature = commitResult.onChainTxSignature;
+          console.log(`[DuelEscrow] Commitment recorded: ${commitmentHash?.slice(0, 16)}...`);
+          if (commitmentTxSignature) {
+            console.log(`[DuelEscrow] On-chain: ${commitmentTxSignature}`);
+          }
+        } else {
+          console.warn(`[DuelEscrow] Commitment failed (continuing anyway): ${commitResult.error}`);
         }
-      } else {
-        console.warn(`[DuelEscrow] Commitment failed (continuing anyway): ${commitResult.error}`);
+      } catch (error) {
+        // Don't fail settlement if commitment fails - log and continue
+        console.warn(`[DuelEscrow] Commitment error (continuing anyway):`, error);
       }
-    } catch (error) {
-      // Don't fail settlement if commitment fails - log and continue
-      console.warn(`[DuelEscrow] Commitment error (continuing anyway):`, error);
     }
 
     // Update status to pending settlement - use LONG TTL for recovery
-    const SETTLEMENT_TTL = 24 * 60 * 60 * 1000; // 24 hours for recovery
-    duel.status = DuelStatus.PENDING_SETTLEMENT;
+    const SETTLEMENT_TTL = DUEL_RETENTION_MS; // Long TTL for recovery
+    duel.outcome = 'win';
     duel.winnerStealthId = winnerStealthId;
-    duel.updatedAt = Date.now();
-    memoryStore.setDuel(duelId, duel, SETTLEMENT_TTL);
+    if (duel.status === DuelStatus.PENDING_SETTLEMENT) {
+      duel.updatedAt = Date.now();
+      await this.duelStore.setDuel(duelId, duel, SETTLEMENT_TTL);
+    } else {
+      await this.transitionDuel(duel, DuelStatus.PENDING_SETTLEMENT, 'settlement_started', SETTLEMENT_TTL);
+    }
 
     // Also save to a recovery list in case of failures
-    memoryStore.addPendingRecovery(duelId);
+    await this.duelStore.addPendingRecovery(duelId);
+
+    // Pay winner via ShadowWire Direct (transfer from escrow); a winner
+    // already paid by an earlier attempt is skipped
+    if (!winner.payoutTxSignature) {
+      const winnerResult = await getTransferProvider().transferFromEscrow(winnerWallet, winnerPayout);
+
+      if (!winnerResult.success) {
+        // Preserve duel for the settlement queue to retry
+        console.error(`[DuelEscrow] Winner payout failed for duel ${duelId}: ${winnerResult.error}`);
+        await this.transitionDuel(duel, DuelStatus.FAILED, 'payout_failed', SETTLEMENT_TTL);
+        return { success: false, error: `Failed to pay winner: ${winnerResult.error ?? 'Unknown error'}` };
+      }
 
-    // Pay winner via ShadowWire Direct (transfer from escrow) with RETRY logic
-    const MAX_RETRIES = 3;
-    const RETRY_DELAY_MS = 2000; // 2 seconds between retries
-    let winnerResult: { success: boolean; txSignature?: string; error?: string } = { success: false };
-    let lastError = '';
+      winner.payoutTxSignature = winnerResult.txSignature;
+      duel.updatedAt = Date.now();
+      await this.duelStore.setDuel(duelId, duel, SETTLEMENT_TTL);
+    }
+    const winnerTxSignature = winner.payoutTxSignature!;
 
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-      console.log(`[DuelEscrow] Winner payout attempt ${attempt}/${MAX_RETRIES}...`);
+    // Remove from recovery pending list
+    await this.duelStore.removePendingRecovery(duelId);
 
-      winnerResult = await shadowWireDirect.transferFromEscrow(
-        winnerWallet,
-        winnerPayout,
-        duel.token
-      );
+    const treasuryTxSignature = await this.collectHouseFee(houseFee);
 
-      if (winnerResult.success) {
-        console.log(`[DuelEscrow] Winner payout succeeded on attempt ${attempt}`);
-        break;
-      }
+    duel.settlementTxSignatures = [
+      winnerTxSignature,
+      ...(treasuryTxSignature ? [treasuryTxSignature] : []),
+    ];
+    duel.combatSummary = combatSummary;
+
+    // Keep for 24 hours for auditing
+    await this.transitionDuel(duel, DuelStatus.SETTLED, 'winner_paid', DUEL_RETENTION_MS);
+
+    // Cleanup stealth mappings
+    await this.forgetWallets(duel);
+
+    console.log(`[DuelEscrow] Duel ${duelId} settled successfully`);
+
+    return {
+      success: true,
+      winnerTxSignature,
+      treasuryTxSignature,
+      winnerPayout,
+      houseFee,
+      commitmentHash,
+      commitmentTxSignature,
+      termsUnchecked: termsCheck.unchecked,
+    };
+  }
+
+  // ==========================================================================
+  // Settle Draw
+  // ==========================================================================
+
+  /**
+   * Settle a duel that ended in a draw: each player gets their stake back
+   * (net of the ShadowWire deposit fee) minus the duel's draw fee.
+   * One attempt per player; a failed payout leaves the duel FAILED for the
+   * settlement queue to retry. Runs under the duel lock so concurrent calls
+   * cannot both pay out.
+   *
+   * @throws DuelBusyError if another operation holds the duel
+   */
+  async settleDraw(
+    duelId: DuelId,
+    combatSummary: CombatSummary | undefined,
+    authorization: ServerAuthorization
+  ): Promise<SettleDrawResult> {
+    this.ensureInitialized();
+    return withDuelLock(duelId, () => this.settleDrawLocked(duelId, combatSummary, authorization));
+  }
+
+  private async settleDrawLocked(
+    duelId: DuelId,
+    combatSummary: CombatSummary | undefined,
+    authorization: ServerAuthorization
+  ): Promise<SettleDrawResult> {
+    const config = getConfig();
+
+    const duel = await this.getDuel(duelId);
+    if (!duel) {
+      return { success: false, error: 'Duel not found' };
+    }
+
+    // PENDING_SETTLEMENT resumes an interrupted settlement; anything else must be able to enter it
+    if (
+      duel.status !== DuelStatus.PENDING_SETTLEMENT &&
+      !canTransition(duel.status, DuelStatus.PENDING_SETTLEMENT)
+    ) {
+      return { success: false, error: `Invalid duel status: ${duel.status}` };
+    }
+
+    // An interrupted winner settlement or refund can only be resumed as such
+    if (duel.outcome && duel.outcome !== 'draw') {
+      return { success: false, error: `Duel is being settled as a ${duel.outcome}` };
+    }
+
+    // Past the grace period the expiry worker owns the duel (deadman's switch)
+    if (duel.status === DuelStatus.ACTIVE && Date.now() > duel.expiresAt + config.expiryGraceMs) {
+      return { success: false, error: 'Duel has expired and is being refunded' };
+    }
+
+    // The game server must have authorized a draw for this duel
+    if (
+      authorization.duelId !== duelId ||
+      authorization.outcome !== 'draw' ||
+      authorization.winnerStealthId !== null
+    ) {
+      return { success: false, error: 'Server authorization does not match this settlement' };
+    }
+
+    const players = [duel.player1, duel.player2];
+    const wallets = await Promise.all(players.map(player => this.resolveWallet(duelId, player.stealthId)));
+    if (wallets.some(wallet => !wallet)) {
+      return { success: false, error: 'Player wallet mapping not found' };
+    }
+
+    // Each player gets back what actually reached escrow, minus the draw fee
+    const drawFeePercent = duel.drawFeePercent ?? 0;
+    const { payouts, drawFee } = feeSchedule.draw(duel);
+
+    const quote = duel.feeQuote?.quote;
+    if (quote && (quote.player1.drawPayout !== payouts[0].payout.toString() || quote.player2.drawPayout !== payouts[1].payout.toString())) {
+      console.warn(`[DuelEscrow] Draw ${duelId} settles off its fee quote ${quote.quoteId}`);
+    }
+
+    // The duel must still be what was committed to when both stakes locked
+    // (one never recorded cannot be checked - settle, but say so)
+    const termsCheck = accountabilityService.checkTerms(termsCommitmentInput(duel));
+    if (termsCheck.unchecked) {
+      console.warn(`[DuelEscrow] Settling draw ${duelId} unchecked: ${termsCheck.error}`);
+    } else if (!termsCheck.matches) {
+      console.error(`[DuelEscrow] Refusing to settle draw ${duelId}: ${termsCheck.error}`);
+      return { success: false, error: termsCheck.error };
+    }
+
+    console.log(
+      `[DuelEscrow] Settling draw ${duelId}: payouts ${payouts.map(({ payout }) => payout).join(' / ')}, ` +
+      `draw fee ${drawFee} (${drawFeePercent}% each)`
+    );
+
+    // ==========================================================================
+    // ACCOUNTABILITY: Commit to the draw BEFORE paying out
+    // ==========================================================================
 
-      lastError = winnerResult.error || 'Unknown error';
-      console.error(`[DuelEscrow] Winner payout attempt ${attempt} failed: ${lastError}`);
+    let commitmentHash: string | undefined;
+    let commitmentTxSignature: string | undefined;
+
+    // A resumed draw keeps the commitment its first attempt made
+    const prior = this.priorOutcomeCommitment(duelId, null);
+    if (prior.error) {
+      console.error(`[DuelEscrow] Refusing to settle draw ${duelId}: ${prior.error}`);
+      return { success: false, error: prior.error };
+    }
+
+    if (prior.record) {
+      commitmentHash = prior.record.commitmentHash;
+      commitmentTxSignature = accountabilityService.getOnChainStatus(prior.record).txSignature ?? undefined;
+      console.log(`[DuelEscrow] Resuming under draw commitment ${commitmentHash.slice(0, 16)}...`);
+    } else if (!authorization.verified) {
+      // Only a verified game server signature may back a commitment
+      console.warn(`[DuelEscrow] Unsigned draw for duel ${duelId} - skipping commitment (development)`);
+    } else {
+      try {
+        const commitResult = await accountabilityService.commitToDraw(
+          {
+            duelId,
+            player1StealthId: duel.player1.stealthId,
+            player2StealthId: duel.player2.stealthId,
+            player1Stake: duel.player1.stakeAmount,
+            player2Stake: duel.player2.stakeAmount,
+            player1Payout: payouts[0].payout.units,
+            player2Payout: payouts[1].payout.units,
+            drawFee: drawFee.units,
+            terms: duelTerms(duel),
+            combatSummary,
+            termsCommitmentHash: termsCheck.termsCommitmentHash,
+            gameServerSignature: authorization.signature,
+          },
+          true // Post on-chain
+        );
 
-      // Wait before retry (except on last attempt)
-      if (attempt < MAX_RETRIES) {
-        console.log(`[DuelEscrow] Waiting ${RETRY_DELAY_MS}ms before retry...`);
-        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+        if (commitResult.success) {
+          commitmentHash = commitResult.commitmentHash;
+          commitmentTxSignature = commitResult.onChainTxSignature;
+          console.log(`[DuelEscrow] Draw commitment recorded: ${commitmentHash?.slice(0, 16)}...`);
+        } else {
+          console.warn(`[DuelEscrow] Commitment failed (continuing anyway): ${commitResult.error}`);
+        }
+      } catch (error) {
+        // Don't fail settlement if commitment fails - log and continue
+        console.warn(`[DuelEscrow] Commitment error (continuing anyway):`, error);
       }
     }
 
-    if (!winnerResult.success) {
-      // All retries failed - preserve duel for manual recovery
-      console.error(`[DuelEscrow] CRITICAL: Winner payout failed after ${MAX_RETRIES} attempts! Preserving duel for recovery.`);
-      duel.status = DuelStatus.ACTIVE;
+    const SETTLEMENT_TTL = DUEL_RETENTION_MS; // Long TTL for recovery
+    duel.outcome = 'draw';
+    if (duel.status === DuelStatus.PENDING_SETTLEMENT) {
       duel.updatedAt = Date.now();
-      memoryStore.setDuel(duelId, duel, SETTLEMENT_TTL);
-      memoryStore.addFailedRecovery(duelId);
-      return { success: false, error: `Failed to pay winner after ${MAX_RETRIES} attempts: ${lastError}` };
+      await this.duelStore.setDuel(duelId, duel, SETTLEMENT_TTL);
+    } else {
+      await this.transitionDuel(duel, DuelStatus.PENDING_SETTLEMENT, 'draw_settlement_started', SETTLEMENT_TTL);
     }
 
-    // Remove from recovery pending list
-    memoryStore.removePendingRecovery(duelId);
+    await this.duelStore.addPendingRecovery(duelId);
 
-    // Pay treasury (house fee) - only if above ShadowWire minimum for this token
-    const minTransferForToken = TOKEN_MINIMUMS[duel.token as SupportedToken] || TOKEN_MINIMUMS.SOL;
-    let treasuryTxSignature: string | undefined;
+    // Pay both players; a player already paid by an earlier attempt is skipped
+    for (const [index, player] of players.entries()) {
+      if (player.payoutTxSignature) continue;
 
-    if (houseFee >= minTransferForToken && this.treasuryWallet) {
-      // Fee is above minimum, transfer to treasury
-      const treasuryResult = await shadowWireDirect.transferToTreasury(houseFee, duel.token);
-      if (!treasuryResult.success) {
-        console.error(`[DuelEscrow] WARNING: Failed to collect house fee: ${treasuryResult.error}`);
-        // Accumulate for later sweep
-        this.accumulateDust(houseFee, duel.token);
-      } else {
-        treasuryTxSignature = treasuryResult.txSignature;
-        console.log(`[DuelEscrow] House fee transferred to treasury: ${treasuryResult.txSignature}`);
+      const result = await getTransferProvider().transferFromEscrow(wallets[index]!, payouts[index]!.payout);
+
+      if (!result.success) {
+        console.error(`[DuelEscrow] Draw payout to P${index + 1} failed for duel ${duelId}: ${result.error}`);
+        await this.transitionDuel(duel, DuelStatus.FAILED, 'payout_failed', SETTLEMENT_TTL);
+        return { success: false, error: `Failed to pay P${index + 1}: ${result.error ?? 'Unknown error'}` };
       }
-    } else if (houseFee > 0) {
-      // Fee is below minimum, accumulate as dust for later sweep
-      this.accumulateDust(houseFee, duel.token);
+
+      player.payoutTxSignature = result.txSignature;
+      duel.updatedAt = Date.now();
+      await this.duelStore.setDuel(duelId, duel, SETTLEMENT_TTL);
     }
 
-    duel.status = DuelStatus.SETTLED;
+    await this.duelStore.removePendingRecovery(duelId);
+
+    const treasuryTxSignature = await this.collectHouseFee(drawFee);
+
+    const payoutTxSignatures = players.map(player => player.payoutTxSignature!);
     duel.settlementTxSignatures = [
-      winnerResult.txSignature!,
+      ...payoutTxSignatures,
       ...(treasuryTxSignature ? [treasuryTxSignature] : []),
     ];
     duel.combatSummary = combatSummary;
-    duel.updatedAt = Date.now();
 
     // Keep for 24 hours for auditing
-    memoryStore.setDuel(duelId, duel, 24 * 60 * 60 * 1000);
+    await this.transitionDuel(duel, DuelStatus.SETTLED, 'draw_paid', DUEL_RETENTION_MS);
 
-    // Cleanup stealth mappings
-    stealthMapping.unregister(duel.player1.stealthId);
-    stealthMapping.unregister(duel.player2.stealthId);
+    await this.forgetWallets(duel);
 
-    console.log(`[DuelEscrow] Duel ${duelId} settled successfully`);
+    console.log(`[DuelEscrow] Duel ${duelId} settled as a draw`);
 
     return {
       success: true,
-      winnerTxSignature: winnerResult.txSignature,
+      payoutTxSignatures,
       treasuryTxSignature,
-      winnerPayoutLamports: BigInt(winnerPayout),
-      houseFeeLamports: BigInt(houseFee),
+      playerPayouts: payouts.map(({ payout }) => payout),
+      drawFee,
       commitmentHash,
       commitmentTxSignature,
+      termsUnchecked: termsCheck.unchecked,
     };
   }
 
@@ -499,75 +1092,296 @@ class DuelEscrowService {
   // Refund Duel
   // ==========================================================================
 
+  /**
+   * Refund locked stakes (timeout, cancellation, or error). Refused once the
+   * duel is being settled as a win or draw.
+   *
+   * @throws DuelBusyError if another operation holds the duel
+   */
   async refundDuel(duelId: DuelId, reason: 'timeout' | 'cancelled' | 'error'): Promise<RefundResult> {
     this.ensureInitialized();
+    return withDuelLock(duelId, () => this.refundDuelLocked(duelId, reason));
+  }
+
+  private async refundDuelLocked(
+    duelId: DuelId,
+    reason: 'timeout' | 'cancelled' | 'error'
+  ): Promise<RefundResult> {
 
     const duel = await this.getDuel(duelId);
     if (!duel) {
       return { success: false, error: 'Duel not found' };
     }
 
-    if (duel.status === DuelStatus.SETTLED || duel.status === DuelStatus.REFUNDED) {
-      return { success: false, error: `Duel already ${duel.status.toLowerCase()}` };
+    if (!canTransition(duel.status, DuelStatus.REFUNDED)) {
+      return { success: false, error: new InvalidDuelTransitionError(duelId, duel.status, DuelStatus.REFUNDED).message };
+    }
+
+    // A win or draw payout that failed is retried as such, not refunded
+    // (operators can still return stakes through the emergency refund)
+    if (duel.outcome && duel.outcome !== 'refund') {
+      return { success: false, error: `Duel is being settled as a ${duel.outcome}` };
     }
 
     console.log(`[DuelEscrow] Refunding duel ${duelId} - reason: ${reason}`);
 
-    const refundTxSignatures: TxSignature[] = [];
+    duel.outcome = 'refund';
+    const lockedPlayers = [duel.player1, duel.player2].filter(player => player.stakeLocked);
+    const errors: string[] = [];
 
-    // Refund P1 if they locked
-    if (duel.player1.stakeLocked) {
-      const p1Wallet = stealthMapping.resolve(duel.player1.stealthId);
-      if (p1Wallet) {
-        const refund = await shadowWireDirect.transferFromEscrow(
-          p1Wallet,
-          Number(duel.player1.stakeAmount),
-          duel.token
-        );
-        if (refund.success && refund.txSignature) {
-          refundTxSignatures.push(refund.txSignature);
-          console.log(`[DuelEscrow] Refunded P1`);
-        }
+    // Return each locked stake; a player already paid by an earlier attempt
+    // (or a failed draw settlement) is skipped
+    for (const player of lockedPlayers) {
+      if (player.payoutTxSignature) continue;
+
+      const label = player === duel.player1 ? 'P1' : 'P2';
+      const wallet = await this.resolveWallet(duelId, player.stealthId);
+      if (!wallet) {
+        errors.push(`${label}: wallet mapping not found`);
+        continue;
       }
-    }
 
-    // Refund P2 if they locked
-    if (duel.player2.stakeLocked) {
-      const p2Wallet = stealthMapping.resolve(duel.player2.stealthId);
-      if (p2Wallet) {
-        const refund = await shadowWireDirect.transferFromEscrow(
-          p2Wallet,
-          Number(duel.player2.stakeAmount),
-          duel.token
-        );
-        if (refund.success && refund.txSignature) {
-          refundTxSignatures.push(refund.txSignature);
-          console.log(`[DuelEscrow] Refunded P2`);
-        }
+      const { payout } = feeSchedule.refund(stakeOf(duel, player));
+      const refund = await getTransferProvider().transferFromEscrow(wallet, payout);
+      if (!refund.success || !refund.txSignature) {
+        errors.push(`${label}: ${refund.error ?? 'Unknown error'}`);
+        continue;
       }
+
+      player.payoutTxSignature = refund.txSignature;
+      console.log(`[DuelEscrow] Refunded ${label}`);
     }
 
-    duel.status = DuelStatus.REFUNDED;
+    const refundTxSignatures = lockedPlayers
+      .map(player => player.payoutTxSignature)
+      .filter((signature): signature is TxSignature => signature !== undefined);
     duel.settlementTxSignatures = refundTxSignatures;
-    duel.updatedAt = Date.now();
 
-    memoryStore.setDuel(duelId, duel, 24 * 60 * 60 * 1000);
+    if (errors.length > 0) {
+      // Keep the duel (and its stealth mappings) for the settlement queue to retry
+      console.error(`[DuelEscrow] Refund incomplete for duel ${duelId}: ${errors.join('; ')}`);
+      if (canTransition(duel.status, DuelStatus.FAILED)) {
+        await this.transitionDuel(duel, DuelStatus.FAILED, 'refund_failed', DUEL_RETENTION_MS);
+      } else {
+        duel.updatedAt = Date.now();
+        await this.duelStore.setDuel(duelId, duel, DUEL_RETENTION_MS);
+      }
+      return { success: false, refundTxSignatures, error: `Refund incomplete: ${errors.join('; ')}` };
+    }
 
-    stealthMapping.unregister(duel.player1.stealthId);
-    stealthMapping.unregister(duel.player2.stealthId);
+    await this.transitionDuel(duel, DuelStatus.REFUNDED, `refund_${reason}`, DUEL_RETENTION_MS);
+
+    await this.forgetWallets(duel);
 
     console.log(`[DuelEscrow] Duel ${duelId} refunded`);
 
     return { success: true, refundTxSignatures };
   }
 
+  // ==========================================================================
+  // Refund Claims
+  // ==========================================================================
+
+  /**
+   * Return one player's locked stake to a wallet the player has proven they
+   * own (see refund-claim.ts). Does not need the stealth mapping. Allowed
+   * once the duel has FAILED without a win/draw outcome, or is pending or
+   * active past expiry plus grace.
+   *
+   * @throws DuelBusyError if another operation holds the duel
+   */
+  async claimRefund(duelId: DuelId, playerWallet: WalletAddress): Promise<RefundClaimResult> {
+    this.ensureInitialized();
+    return withDuelLock(duelId, () => this.claimRefundLocked(duelId, playerWallet));
+  }
+
+  private async claimRefundLocked(duelId: DuelId, playerWallet: WalletAddress): Promise<RefundClaimResult> {
+    const duel = await this.getDuel(duelId);
+    if (!duel) {
+      return { success: false, failure: 'not_found', error: 'Duel not found' };
+    }
+
+    const player = [duel.player1, duel.player2].find(p => verifyStealthId(playerWallet, p.stealthId));
+    if (!player) {
+      return { success: false, failure: 'not_participant', error: 'Wallet is not a participant in this duel' };
+    }
+
+    if (!player.stakeLocked) {
+      return { success: false, failure: 'not_eligible', duelStatus: duel.status, error: 'No locked stake to refund' };
+    }
+
+    // Claims are idempotent; a win or draw payout is not a refund though
+    if (player.payoutTxSignature) {
+      if (duel.outcome !== 'refund') {
+        return { success: false, failure: 'not_eligible', duelStatus: duel.status, error: 'Stake has already been paid out' };
+      }
+      return {
+        success: true,
+        refundTxSignature: player.payoutTxSignature,
+        alreadyRefunded: true,
+        duelStatus: duel.status,
+      };
+    }
+
+    const ineligible = this.refundClaimBlocker(duel);
+    if (ineligible) {
+      return { success: false, failure: 'not_eligible', duelStatus: duel.status, error: ineligible };
+    }
+
+    const label = player === duel.player1 ? 'P1' : 'P2';
+    console.log(`[DuelEscrow] Refund claim by ${label} for duel ${duelId}`);
+
+    // From here on the duel can only end as a refund
+    duel.outcome = 'refund';
+
+    const { payout } = feeSchedule.refund(stakeOf(duel, player));
+    const refund = await getTransferProvider().transferFromEscrow(playerWallet, payout);
+    if (!refund.success || !refund.txSignature) {
+      console.error(`[DuelEscrow] Refund claim for duel ${duelId} failed: ${refund.error ?? 'Unknown error'}`);
+      if (canTransition(duel.status, DuelStatus.FAILED)) {
+        await this.transitionDuel(duel, DuelStatus.FAILED, 'refund_claim_failed', DUEL_RETENTION_MS);
+        await this.duelStore.addFailedRecovery(duelId);
+      } else {
+        duel.updatedAt = Date.now();
+        await this.duelStore.setDuel(duelId, duel, DUEL_RETENTION_MS);
+      }
+      this.publishPayout(duelId, {
+        source: 'refund_claim',
+        success: false,
+        txSignatures: [],
+        error: refund.error ?? 'Unknown error',
+      });
+      return {
+        success: false,
+        failure: 'payout_failed',
+        duelStatus: duel.status,
+        error: `Refund failed: ${refund.error ?? 'Unknown error'}`,
+      };
+    }
+
+    player.payoutTxSignature = refund.txSignature;
+    console.log(`[DuelEscrow] Refunded ${label} by claim`);
+
+    const lockedPlayers = [duel.player1, duel.player2].filter(p => p.stakeLocked);
+    duel.settlementTxSignatures = lockedPlayers
+      .map(p => p.payoutTxSignature)
+      .filter((signature): signature is TxSignature => signature !== undefined);
+
+    if (lockedPlayers.every(p => p.payoutTxSignature)) {
+      await this.transitionDuel(duel, DuelStatus.REFUNDED, 'refund_claimed', DUEL_RETENTION_MS);
+      await this.duelStore.removeFailedRecovery(duelId);
+
+      await this.forgetWallets(duel);
+
+      console.log(`[DuelEscrow] Duel ${duelId} refunded`);
+    } else if (canTransition(duel.status, DuelStatus.FAILED)) {
+      // The other stake waits for its own claim (or an operator refund)
+      await this.transitionDuel(duel, DuelStatus.FAILED, 'refund_claimed', DUEL_RETENTION_MS);
+      await this.duelStore.addFailedRecovery(duelId);
+    } else {
+      duel.updatedAt = Date.now();
+      await this.duelStore.setDuel(duelId, duel, DUEL_RETENTION_MS);
+    }
+    this.publishPayout(duelId, { source: 'refund_claim', success: true, txSignatures: [refund.txSignature] });
+
+    return { success: true, refundTxSignature: refund.txSignature, duelStatus: duel.status };
+  }
+
+  /**
+   * Why a refund cannot be claimed for this duel yet, or null if it can
+   */
+  private refundClaimBlocker(duel: DuelSession): string | null {
+    if (duel.status === DuelStatus.FAILED) {
+      // A failed win or draw payout is retried as such, not refunded
+      return duel.outcome && duel.outcome !== 'refund' ? `Duel is being settled as a ${duel.outcome}` : null;
+    }
+
+    if (duel.status === DuelStatus.PENDING_STAKES || duel.status === DuelStatus.ACTIVE) {
+      // Until expiry plus grace the game server may still settle
+      return Date.now() > duel.expiresAt + getConfig().expiryGraceMs ? null : 'Duel has not expired yet';
+    }
+
+    return `Duel cannot be refunded in status ${duel.status}`;
+  }
+
   // ==========================================================================
   // Helpers
   // ==========================================================================
 
   async getDuel(duelId: DuelId): Promise<DuelSession | null> {
     this.ensureInitialized();
-    return memoryStore.getDuel(duelId);
+    return this.duelStore.getDuel(duelId);
+  }
+
+  /**
+   * Outcome commitment recorded by an earlier attempt at this duel's payout.
+   * Resuming reuses it instead of committing (and posting) again; a
+   * commitment to a different outcome binds the duel, so that is an error.
+   *
+   * @param winnerStealthId winner being settled, or null for a draw
+   */
+  private priorOutcomeCommitment(
+    duelId: DuelId,
+    winnerStealthId: StealthId | null
+  ): { record?: CommitmentRecord; error?: string } {
+    const record = accountabilityService.getCommitmentRecord(duelId);
+    if (!record) return {};
+
+    const { commitment } = record;
+    const committedWinner = 'winnerStealthId' in commitment ? commitment.winnerStealthId : null;
+    if (committedWinner !== winnerStealthId) {
+      const committedTo = committedWinner === null ? 'a draw' : winnerStealthId === null ? 'a win' : 'a different winner';
+      return { error: `Duel is already committed to ${committedTo}` };
+    }
+
+    return { record };
+  }
+
+  /**
+   * Wallet behind a participant's stealth ID: the in-memory mapping, or the
+   * wallet vault if the mapping was lost (e.g. after a restart)
+   */
+  private async resolveWallet(duelId: DuelId, stealthId: StealthId): Promise<WalletAddress | undefined> {
+    const wallet = stealthMapping.resolve(stealthId) ?? (await walletVault.open(duelId, stealthId));
+    if (wallet && !stealthMapping.has(stealthId)) {
+      console.log(`[DuelEscrow] Recovered wallet mapping for duel ${duelId} from the vault`);
+      stealthMapping.register(wallet);
+    }
+    return wallet;
+  }
+
+  /**
+   * Drop a finished duel's wallets from memory and from the vault
+   */
+  private async forgetWallets(duel: DuelSession): Promise<void> {
+    stealthMapping.unregister(duel.player1.stealthId);
+    stealthMapping.unregister(duel.player2.stealthId);
+    await walletVault.discard(duel.duelId);
+  }
+
+  /**
+   * Pay a fee to the treasury, or accumulate it as dust if it is below the
+   * ShadowWire minimum for this token (or the transfer fails)
+   */
+  private async collectHouseFee(fee: Amount): Promise<TxSignature | undefined> {
+    if (!feeSchedule.heldAsDust(fee) && this.treasuryWallet) {
+      // Fee is above minimum, transfer to treasury
+      const treasuryResult = await getTransferProvider().transferToTreasury(fee);
+      if (!treasuryResult.success) {
+        console.error(`[DuelEscrow] WARNING: Failed to collect house fee: ${treasuryResult.error}`);
+        // Accumulate for later sweep
+        await this.accumulateDust(fee);
+        return undefined;
+      }
+      console.log(`[DuelEscrow] House fee transferred to treasury: ${treasuryResult.txSignature}`);
+      return treasuryResult.txSignature;
+    }
+
+    if (fee.isPositive()) {
+      // Fee is below minimum, accumulate as dust for later sweep
+      await this.accumulateDust(fee);
+    }
+    return undefined;
   }
 
   // ==========================================================================
@@ -577,16 +1391,16 @@ class DuelEscrowService {
   /**
    * Accumulate dust (small fees) for later sweep to treasury
    */
-  private accumulateDust(amount: number, token: string): void {
-    memoryStore.accumulateDust(token, amount);
+  private async accumulateDust(amount: Amount): Promise<void> {
+    await this.duelStore.accumulateDust(amount.token, amount.units);
   }
 
   /**
    * Get accumulated dust for a token
    */
-  async getAccumulatedDust(token: string = 'SOL'): Promise<number> {
+  async getAccumulatedDust(token: string = 'SOL'): Promise<Amount> {
     this.ensureInitialized();
-    return memoryStore.getDust(token);
+    return Amount.fromUnits(token, await this.duelStore.getDust(token));
   }
 
   // ==========================================================================
@@ -598,7 +1412,7 @@ class DuelEscrowService {
    */
   async getFailedDuels(): Promise<string[]> {
     this.ensureInitialized();
-    return memoryStore.getFailedRecovery();
+    return this.duelStore.getFailedRecovery();
   }
 
   /**
@@ -606,120 +1420,171 @@ class DuelEscrowService {
    */
   async getPendingSettlements(): Promise<string[]> {
     this.ensureInitialized();
-    return memoryStore.getPendingRecovery();
+    return this.duelStore.getPendingRecovery();
+  }
+
+  /**
+   * Get refunds issued automatically by the expiry worker
+   */
+  async getAutoRefunds(): Promise<AutoRefundRecord[]> {
+    this.ensureInitialized();
+    return this.duelStore.getAutoRefunds();
   }
 
   /**
-   * Emergency refund - force refund both players regardless of duel status
-   * Use this to recover stuck funds
+   * Emergency refund - refund both players with operator-supplied wallets
+   * Use this to recover stuck funds. Rejected if the duel still exists in a
+   * status that cannot move to REFUNDED (e.g. already settled); otherwise a
+   * player the duel records as already paid, or as never locked, is skipped.
+   *
+   * @throws DuelBusyError if another operation holds the duel
    */
   async emergencyRefund(
     duelId: DuelId,
     player1Wallet: WalletAddress,
     player2Wallet: WalletAddress,
-    stakePerPlayerLamports: number,
-    token: string = 'SOL'
-  ): Promise<{
-    success: boolean;
-    refunds: { player: string; success: boolean; txSignature?: string; error?: string }[];
-    error?: string;
-  }> {
+    player1Stake: Amount,
+    player2Stake: Amount
+  ): Promise<EmergencyRefundResult> {
     this.ensureInitialized();
-    const SHADOWWIRE_FEE_PERCENT = 0.5;
-    const depositFeeMultiplier = 1 - (SHADOWWIRE_FEE_PERCENT / 100);
+    return withDuelLock(duelId, () =>
+      this.emergencyRefundLocked(duelId, player1Wallet, player2Wallet, player1Stake, player2Stake)
+    );
+  }
 
-    // Calculate actual amount in escrow per player (after deposit fee)
-    const actualPerPlayer = Math.floor(stakePerPlayerLamports * depositFeeMultiplier);
+  private async emergencyRefundLocked(
+    duelId: DuelId,
+    player1Wallet: WalletAddress,
+    player2Wallet: WalletAddress,
+    player1Stake: Amount,
+    player2Stake: Amount
+  ): Promise<EmergencyRefundResult> {
+
+    // Never pay out again for a duel that has already reached a terminal state
+    const existing = await this.getDuel(duelId);
+    if (existing && !canTransition(existing.status, DuelStatus.REFUNDED)) {
+      return {
+        success: false,
+        refunds: [],
+        error: new InvalidDuelTransitionError(duelId, existing.status, DuelStatus.REFUNDED).message,
+      };
+    }
+
+    // Each player gets back what actually reached escrow
+    const player1Refund = feeSchedule.refund(player1Stake).payout;
+    const player2Refund = feeSchedule.refund(player2Stake).payout;
 
     console.log(`[DuelEscrow] EMERGENCY REFUND for duel ${duelId}`);
-    console.log(`  Refunding ${actualPerPlayer} lamports to each player`);
+    console.log(`  Refunding ${player1Refund.toDisplay()} / ${player2Refund.toDisplay()}`);
 
-    const refunds: { player: string; success: boolean; txSignature?: string; error?: string }[] = [];
+    const refunds: EmergencyRefundResult['refunds'] = [];
+    const targets = [
+      { player: 'player1', label: 'P1', wallet: player1Wallet, refund: player1Refund, participant: existing?.player1 },
+      { player: 'player2', label: 'P2', wallet: player2Wallet, refund: player2Refund, participant: existing?.player2 },
+    ];
 
-    // Refund player 1
-    if (player1Wallet) {
-      const result = await shadowWireDirect.transferFromEscrow(player1Wallet, actualPerPlayer, token);
-      refunds.push({
-        player: 'player1',
-        success: result.success,
-        txSignature: result.txSignature,
-        error: result.error,
-      });
-      if (result.success) {
-        console.log(`[DuelEscrow] Emergency refund P1 success: ${result.txSignature}`);
-      } else {
-        console.error(`[DuelEscrow] Emergency refund P1 failed: ${result.error}`);
-      }
+    // Like refundDuel, this claims the duel for a refund so a resumed
+    // settlement cannot pay it out as well
+    if (existing) {
+      existing.outcome = 'refund';
     }
 
-    // Refund player 2
-    if (player2Wallet) {
-      const result = await shadowWireDirect.transferFromEscrow(player2Wallet, actualPerPlayer, token);
+    for (const { player, label, wallet, refund, participant } of targets) {
+      if (!wallet) continue;
+
+      // While the duel still exists it says who is owed: never pay a stake
+      // twice (settlement, refund or claim already sent it) or one never locked
+      if (participant?.payoutTxSignature) {
+        console.log(`[DuelEscrow] Emergency refund ${label} skipped: already paid (${participant.payoutTxSignature})`);
+        refunds.push({ player, success: true, txSignature: participant.payoutTxSignature, skipped: 'already_paid' });
+        continue;
+      }
+      if (participant && !participant.stakeLocked) {
+        console.log(`[DuelEscrow] Emergency refund ${label} skipped: stake never locked`);
+        refunds.push({ player, success: true, skipped: 'not_locked' });
+        continue;
+      }
+
+      const result = await getTransferProvider().transferFromEscrow(wallet, refund);
       refunds.push({
-        player: 'player2',
+        player,
         success: result.success,
         txSignature: result.txSignature,
         error: result.error,
       });
-      if (result.success) {
-        console.log(`[DuelEscrow] Emergency refund P2 success: ${result.txSignature}`);
-      } else {
-        console.error(`[DuelEscrow] Emergency refund P2 failed: ${result.error}`);
+      if (!result.success) {
+        console.error(`[DuelEscrow] Emergency refund ${label} failed: ${result.error}`);
+        continue;
+      }
+
+      console.log(`[DuelEscrow] Emergency refund ${label} success: ${result.txSignature}`);
+
+      // Record each payment at once so a retry after a partial failure skips it
+      if (existing && participant) {
+        participant.payoutTxSignature = result.txSignature;
+        existing.updatedAt = Date.now();
+        await this.duelStore.setDuel(duelId, existing, DUEL_RETENTION_MS);
       }
     }
 
     // Remove from failed list if both succeeded
     const allSuccess = refunds.every(r => r.success);
     if (allSuccess) {
-      memoryStore.removeFailedRecovery(duelId);
-      memoryStore.removePendingRecovery(duelId);
+      await this.duelStore.removeFailedRecovery(duelId);
+      await this.duelStore.removePendingRecovery(duelId);
 
       // Mark duel as refunded if it still exists
-      const duel = await this.getDuel(duelId);
-      if (duel) {
-        duel.status = DuelStatus.REFUNDED;
-        duel.updatedAt = Date.now();
-        memoryStore.setDuel(duelId, duel, 24 * 60 * 60 * 1000);
+      if (existing) {
+        existing.settlementTxSignatures = [existing.player1, existing.player2]
+          .map(participant => participant.payoutTxSignature)
+          .filter((signature): signature is TxSignature => signature !== undefined);
+        await this.transitionDuel(existing, DuelStatus.REFUNDED, 'emergency_refund', DUEL_RETENTION_MS);
       }
+      await walletVault.discard(duelId);
     }
 
-    return {
+    const error = allSuccess ? undefined : 'Some refunds failed - check individual results';
+    this.publishPayout(duelId, {
+      source: 'emergency_refund',
       success: allSuccess,
-      refunds,
-      error: allSuccess ? undefined : 'Some refunds failed - check individual results',
-    };
+      txSignatures: refunds
+        .filter(entry => entry.success && !entry.skipped && entry.txSignature)
+        .map(entry => entry.txSignature!),
+      error,
+    });
+
+    return { success: allSuccess, refunds, error };
   }
 
   /**
-   * Sweep accumulated dust to treasury when it exceeds minimum
+   * Sweep accumulated dust to treasury once it reaches the token's
+   * ShadowWire minimum
    */
   async sweepDustToTreasury(token: string = 'SOL'): Promise<{
     success: boolean;
-    amount?: number;
+    amount?: Amount;
     txSignature?: string;
     error?: string;
   }> {
     this.ensureInitialized();
-    const SHADOWWIRE_MIN_TRANSFER = 100_000_000; // 0.1 SOL
 
     const dustAmount = await this.getAccumulatedDust(token);
 
-    if (dustAmount < SHADOWWIRE_MIN_TRANSFER) {
-      const lamportsToSol = (l: number) => (l / 1_000_000_000).toFixed(6);
+    if (feeSchedule.heldAsDust(dustAmount)) {
       return {
         success: false,
         amount: dustAmount,
-        error: `Accumulated dust ${lamportsToSol(dustAmount)} SOL is below 0.1 SOL minimum`,
+        error: `Accumulated dust ${dustAmount.toDisplay()} is below the ${feeSchedule.transferMinimum(token).toDisplay()} minimum`,
       };
     }
 
-    console.log(`[DuelEscrow] Sweeping ${dustAmount} lamports dust to treasury`);
+    console.log(`[DuelEscrow] Sweeping ${dustAmount.toDisplay()} dust to treasury`);
 
-    const result = await shadowWireDirect.transferToTreasury(dustAmount, token);
+    const result = await getTransferProvider().transferToTreasury(dustAmount);
 
     if (result.success) {
       // Reset dust counter
-      memoryStore.resetDust(token);
+      await this.duelStore.resetDust(token);
       console.log(`[DuelEscrow] Dust sweep successful: ${result.txSignature}`);
       return {
         success: true,
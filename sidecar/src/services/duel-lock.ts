@@ -0,0 +1,141 @@
+/**
+ * Duel Lock - Per-Duel Mutual Exclusion
+ *
+ * Serializes every money-moving operation on a duel (lock, settle, refund,
+ * emergency refund) so two concurrent requests can never both pass a status
+ * check and pay out twice. Spending authorizations are locked the same way
+ * so two duels cannot both pass a spending limit check, each token's escrow
+ * balance so two locks cannot both be covered by the same funds, each duel's
+ * settlement queue so two requests cannot both queue a payout, and
+ * settlement jobs and webhook deliveries so two replicas never run the same
+ * job or send the same delivery twice. Locks live in the
+ * DuelStore, so with the Redis backend they also hold across sidecar replicas.
+ */
+
+import { randomUUID } from 'crypto';
+import type { DuelId } from '../types/index.js';
+import { getDuelStore } from './duel-store.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Upper bound on how long one operation may hold a duel (payout transfers + memo confirmation)
+const LOCK_TTL_MS = 5 * 60 * 1000;
+
+// How long a request waits for the lock before giving up
+const LOCK_WAIT_MS = 30_000;
+
+const LOCK_POLL_MS = 50;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown when another operation holds the duel for longer than LOCK_WAIT_MS
+ */
+export class DuelBusyError extends Error {
+  readonly code = 'DUEL_BUSY';
+
+  constructor(readonly duelId: DuelId) {
+    super(`Duel ${duelId} is busy with another operation, retry later`);
+    this.name = 'DuelBusyError';
+  }
+}
+
+// ============================================================================
+// Locking
+// ============================================================================
+
+/**
+ * Run `fn` while holding the lock for `duelId`.
+ *
+ * @throws DuelBusyError if the lock cannot be acquired in time
+ */
+export async function withDuelLock<T>(duelId: DuelId, fn: () => Promise<T>): Promise<T> {
+  return withStoreLock(`duel:${duelId}`, () => new DuelBusyError(duelId), fn);
+}
+
+/**
+ * Run `fn` while holding the lock for a spending authorization.
+ *
+ * @throws Error if the lock cannot be acquired in time
+ */
+export async function withAuthorizationLock<T>(authorizationId: string, fn: () => Promise<T>): Promise<T> {
+  return withStoreLock(
+    `authorization:${authorizationId}`,
+    () => new Error(`Authorization ${authorizationId} is busy, retry later`),
+    fn
+  );
+}
+
+/**
+ * Run `fn` while holding the escrow balance lock for `token`, so balance
+ * checks (see EscrowBalanceLockVerifier) and the locks they admit are
+ * recorded one at a time.
+ *
+ * @throws Error if the lock cannot be acquired in time
+ */
+export async function withEscrowBalanceLock<T>(token: string, fn: () => Promise<T>): Promise<T> {
+  return withStoreLock(
+    `escrow-balance:${token}`,
+    () => new Error(`Escrow balance for ${token} is busy, retry later`),
+    fn
+  );
+}
+
+/**
+ * Run `fn` while holding the lock on queueing payouts for `duelId` (separate
+ * from the duel lock, which a running payout holds).
+ *
+ * @throws DuelBusyError if the lock cannot be acquired in time
+ */
+export async function withSettlementLock<T>(duelId: DuelId, fn: () => Promise<T>): Promise<T> {
+  return withStoreLock(`settlement:${duelId}`, () => new DuelBusyError(duelId), fn);
+}
+
+/**
+ * Run `fn` while holding the lock for a settlement job.
+ *
+ * @throws Error if the lock cannot be acquired in time
+ */
+export async function withJobLock<T>(jobId: string, fn: () => Promise<T>): Promise<T> {
+  return withStoreLock(`job:${jobId}`, () => new Error(`Job ${jobId} is busy, retry later`), fn);
+}
+
+/**
+ * Run `fn` while holding the lock for a webhook delivery.
+ *
+ * @throws Error if the lock cannot be acquired in time
+ */
+export async function withDeliveryLock<T>(deliveryId: string, fn: () => Promise<T>): Promise<T> {
+  return withStoreLock(`webhook:${deliveryId}`, () => new Error(`Delivery ${deliveryId} is busy, retry later`), fn);
+}
+
+/**
+ * Acquire `key` in the DuelStore (waiting up to LOCK_WAIT_MS), run `fn`, release
+ */
+async function withStoreLock<T>(key: string, busyError: () => Error, fn: () => Promise<T>): Promise<T> {
+  const store = getDuelStore();
+  const owner = randomUUID();
+  const deadline = Date.now() + LOCK_WAIT_MS;
+
+  while (!(await store.acquireLock(key, owner, LOCK_TTL_MS))) {
+    if (Date.now() >= deadline) {
+      throw busyError();
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_POLL_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    try {
+      await store.releaseLock(key, owner);
+    } catch (error) {
+      // Lock expires on its own after LOCK_TTL_MS
+      console.error(`[DuelLock] Failed to release lock ${key}:`, error);
+    }
+  }
+}
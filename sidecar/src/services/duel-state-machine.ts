@@ -0,0 +1,220 @@
+/**
+ * Duel State Machine - Legal DuelStatus Transitions
+ *
+ * Single source of truth for how a duel may move between statuses:
+ *
+ *   (new) ──▶ PENDING_STAKES ──▶ ACTIVE ──▶ PENDING_SETTLEMENT ──▶ SETTLED
+ *                  │               │              │    ▲
+ *                  │               │              ▼    │ (retry)
+ *                  │               │            FAILED ┘
+ *                  ▼               ▼              │
+ *               REFUNDED ◀─────────┴──────────────┘
+ *
+ * Every transition is validated against the table and announced on
+ * `duelLifecycle`, so webhooks, metrics and audit can subscribe instead
+ * of parsing console logs. Single stake locks and on-chain commitments,
+ * which do not change the status, are announced there too.
+ */
+
+import { EventEmitter } from 'events';
+import type { CommitmentKind, DuelId, DuelPayoutInfo, DuelSession, DuelSnapshot } from '../types/index.js';
+import { DuelStatus } from '../types/index.js';
+
+// ============================================================================
+// Transition Table
+// ============================================================================
+
+export const DUEL_TRANSITIONS: Readonly<Record<DuelStatus, readonly DuelStatus[]>> = {
+  [DuelStatus.PENDING_STAKES]: [DuelStatus.ACTIVE, DuelStatus.REFUNDED, DuelStatus.FAILED],
+  [DuelStatus.ACTIVE]: [DuelStatus.PENDING_SETTLEMENT, DuelStatus.REFUNDED, DuelStatus.FAILED],
+  [DuelStatus.PENDING_SETTLEMENT]: [DuelStatus.SETTLED, DuelStatus.REFUNDED, DuelStatus.FAILED],
+  // Payout failed: retry settlement or return stakes
+  [DuelStatus.FAILED]: [DuelStatus.PENDING_SETTLEMENT, DuelStatus.REFUNDED],
+  // Terminal
+  [DuelStatus.SETTLED]: [],
+  [DuelStatus.REFUNDED]: [],
+};
+
+/**
+ * Check whether a duel may move from one status to another
+ */
+export function canTransition(from: DuelStatus, to: DuelStatus): boolean {
+  return DUEL_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a status is terminal (no further transitions)
+ */
+export function isTerminal(status: DuelStatus): boolean {
+  return DUEL_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Public view of a duel for subscribers outside the sidecar (stealth IDs only)
+ */
+export function snapshotDuel(duel: Readonly<DuelSession>): DuelSnapshot {
+  return {
+    duelId: duel.duelId,
+    status: duel.status,
+    token: duel.token,
+    player1StealthId: duel.player1.stealthId,
+    player2StealthId: duel.player2.stealthId,
+    player1StakeLamports: duel.player1.stakeAmount.toString(),
+    player2StakeLamports: duel.player2.stakeAmount.toString(),
+    player1Locked: duel.player1.stakeLocked,
+    player2Locked: duel.player2.stakeLocked,
+    outcome: duel.outcome,
+    winnerStealthId: duel.winnerStealthId,
+    expiresAt: duel.expiresAt,
+    updatedAt: duel.updatedAt,
+  };
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown when a status change is not in the transition table
+ */
+export class InvalidDuelTransitionError extends Error {
+  readonly code = 'INVALID_DUEL_TRANSITION';
+
+  constructor(
+    readonly duelId: DuelId,
+    readonly from: DuelStatus,
+    readonly to: DuelStatus
+  ) {
+    super(
+      isTerminal(from)
+        ? `Duel already ${from.toLowerCase()}`
+        : `Invalid duel status transition: ${from} -> ${to}`
+    );
+    this.name = 'InvalidDuelTransitionError';
+  }
+}
+
+// ============================================================================
+// Lifecycle Events
+// ============================================================================
+
+export interface DuelTransitionEvent {
+  duelId: DuelId;
+  /** Previous status (null when the duel was just created) */
+  from: DuelStatus | null;
+  /** New status */
+  to: DuelStatus;
+  /** Why the transition happened (e.g. 'both_locked', 'payout_failed') */
+  reason: string;
+  /** Duel state after the transition */
+  duel: Readonly<DuelSession>;
+  timestamp: number;
+}
+
+export interface StakeLockedEvent {
+  duelId: DuelId;
+  playerNumber: 1 | 2;
+  /** Duel state after the lock was recorded */
+  duel: Readonly<DuelSession>;
+  timestamp: number;
+}
+
+export interface CommitmentPostedEvent {
+  duelId: DuelId;
+  kind: CommitmentKind;
+  commitmentHash: string;
+  /** Memo transaction carrying the hash (or the batch root) */
+  txSignature: string;
+  /** Merkle root the hash was anchored under (batch anchoring) */
+  merkleRoot?: string;
+  timestamp: number;
+}
+
+export interface DuelPayoutEvent {
+  duelId: DuelId;
+  payout: DuelPayoutInfo;
+  timestamp: number;
+}
+
+interface DuelLifecycleEvents {
+  transition: [event: DuelTransitionEvent];
+  stakeLocked: [event: StakeLockedEvent];
+  commitmentPosted: [event: CommitmentPostedEvent];
+  payout: [event: DuelPayoutEvent];
+}
+
+class DuelLifecycle extends EventEmitter<DuelLifecycleEvents> {
+  /**
+   * Announce a transition to subscribers.
+   * Listener errors are logged so they can never break a settlement.
+   */
+  publish(event: DuelTransitionEvent): void {
+    this.notify('transition', event, event.to);
+  }
+
+  /**
+   * Announce that one player's stake was locked (persisted)
+   */
+  publishStakeLocked(event: StakeLockedEvent): void {
+    this.notify('stakeLocked', event, `P${event.playerNumber} locked`);
+  }
+
+  /**
+   * Announce that a settlement commitment was posted on-chain
+   */
+  publishCommitment(event: CommitmentPostedEvent): void {
+    this.notify('commitmentPosted', event, 'commitment');
+  }
+
+  /**
+   * Announce a payout made outside the settlement queue (a refund claim
+   * or an emergency refund), whether or not it succeeded
+   */
+  publishPayout(event: DuelPayoutEvent): void {
+    this.notify('payout', event, event.payout.source);
+  }
+
+  private notify<K extends keyof DuelLifecycleEvents>(
+    name: K,
+    event: DuelLifecycleEvents[K][0],
+    label: string
+  ): void {
+    for (const listener of this.listeners(name) as Array<(event: DuelLifecycleEvents[K][0]) => void>) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[DuelLifecycle] Listener failed for ${event.duelId} (${label}):`, error);
+      }
+    }
+  }
+}
+
+export const duelLifecycle = new DuelLifecycle();
+
+// ============================================================================
+// Transitions
+// ============================================================================
+
+/**
+ * Validate and apply a status change to a duel (in place).
+ * Returns the lifecycle event; publish it once the duel is persisted.
+ *
+ * @throws InvalidDuelTransitionError if the transition is not allowed
+ */
+export function applyTransition(
+  duel: DuelSession,
+  to: DuelStatus,
+  reason: string
+): DuelTransitionEvent {
+  const from = duel.status;
+
+  if (!canTransition(from, to)) {
+    throw new InvalidDuelTransitionError(duel.duelId, from, to);
+  }
+
+  const timestamp = Date.now();
+  duel.status = to;
+  duel.updatedAt = timestamp;
+
+  return { duelId: duel.duelId, from, to, reason, duel, timestamp };
+}
@@ -0,0 +1,193 @@
+/**
+ * Duel Store - Pluggable Storage Interface
+ *
+ * DuelEscrowService codes against this interface so the backing store
+ * can be swapped via config without touching settlement logic:
+ * - memory: fast, but all state is lost on restart
+ * - file:   append-only log on local disk, survives restarts
+ * - redis:  shared across replicas, native key TTLs
+ *
+ * All backends preserve TTL semantics: expiry is stored as an absolute
+ * timestamp, so a duel set with ttlMs still expires on time after a restart.
+ */
+
+import { getConfig, type Config } from '../config.js';
+import type {
+  AutoRefundRecord,
+  DuelId,
+  DuelSession,
+  IdempotencyRecord,
+  LockSignatureBinding,
+  SettlementJobStatus,
+  SpendingAuthorization,
+} from '../types/index.js';
+import type { SettlementJob } from './settlement-queue.js';
+import type { WebhookDelivery } from './webhooks.js';
+import type { WalletVaultEntry } from './wallet-vault.js';
+import { MemoryStore } from './memory-store.js';
+import { FileStore } from './file-store.js';
+import { RedisStore, createRedisClient } from './redis-store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StoreBackend = 'memory' | 'file' | 'redis';
+
+/** Settlement job statuses that block queueing another job for the duel */
+export const ACTIVE_JOB_STATUSES: ReadonlySet<SettlementJobStatus> = new Set(['queued', 'running']);
+
+export interface DuelStoreStats {
+  activeDuels: number;
+  duelsCreated: number;
+  duelsExpired: number;
+  dustTokens: number;
+  pendingRecovery: number;
+  failedRecovery: number;
+}
+
+export interface DuelStore {
+  /** Backend identifier (for logs and health output) */
+  readonly backend: StoreBackend;
+
+  /** Load persisted state and start the cleanup interval */
+  initialize(): Promise<void>;
+  /** Stop background work and release resources */
+  shutdown(): Promise<void>;
+  /** Evict expired duels */
+  cleanup(): Promise<void>;
+
+  // Duel sessions (with TTL)
+  setDuel(duelId: string, duel: DuelSession, ttlMs: number): Promise<void>;
+  getDuel(duelId: string): Promise<DuelSession | null>;
+  deleteDuel(duelId: string): Promise<boolean>;
+  hasDuel(duelId: string): Promise<boolean>;
+  getAllDuels(): Promise<DuelSession[]>;
+
+  // Dust accumulation per token, in smallest units (no TTL)
+  accumulateDust(token: string, amount: bigint): Promise<void>;
+  getDust(token: string): Promise<bigint>;
+  resetDust(token: string): Promise<void>;
+
+  // Recovery sets
+  addPendingRecovery(duelId: string): Promise<void>;
+  removePendingRecovery(duelId: string): Promise<void>;
+  getPendingRecovery(): Promise<string[]>;
+  addFailedRecovery(duelId: string): Promise<void>;
+  removeFailedRecovery(duelId: string): Promise<void>;
+  getFailedRecovery(): Promise<string[]>;
+
+  // Automatic refund audit trail (no TTL)
+  recordAutoRefund(record: AutoRefundRecord): Promise<void>;
+  getAutoRefunds(): Promise<AutoRefundRecord[]>;
+
+  // Stake lock tx signatures (with TTL, see LOCK_SIGNATURE_RETENTION_MS)
+  /** Bind a signature to a stake or funding; returns the existing binding if already bound */
+  bindLockSignature(binding: LockSignatureBinding, ttlMs: number): Promise<LockSignatureBinding | null>;
+
+  // Spending authorizations (with TTL)
+  setAuthorization(authorization: SpendingAuthorization, ttlMs: number): Promise<void>;
+  getAuthorization(authorizationId: string): Promise<SpendingAuthorization | null>;
+  getAllAuthorizations(): Promise<SpendingAuthorization[]>;
+
+  // Settlement jobs (with TTL)
+  /** Store a job and keep its duel's active-job index in step with its status */
+  setJob(job: SettlementJob, ttlMs: number): Promise<void>;
+  getJob(jobId: string): Promise<SettlementJob | null>;
+  getAllJobs(): Promise<SettlementJob[]>;
+  /** Queued or running job for a duel, via the index (no scan) */
+  getActiveJob(duelId: DuelId): Promise<SettlementJob | null>;
+
+  // Webhook deliveries (with TTL)
+  setWebhookDelivery(delivery: WebhookDelivery, ttlMs: number): Promise<void>;
+  getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null>;
+  getAllWebhookDeliveries(): Promise<WebhookDelivery[]>;
+
+  // Encrypted duel wallets (with TTL, see wallet-vault.ts)
+  setVaultEntry(entry: WalletVaultEntry, ttlMs: number): Promise<void>;
+  getVaultEntry(duelId: string): Promise<WalletVaultEntry | null>;
+  deleteVaultEntry(duelId: string): Promise<void>;
+
+  // Game server signature nonces (with TTL)
+  /** Record `nonce`; false if it was already used and has not expired */
+  claimNonce(nonce: string, ttlMs: number): Promise<boolean>;
+
+  // Per-duel locks (mutual exclusion across requests and replicas)
+  /** Acquire `key` for `owner`; false if someone else holds an unexpired lock */
+  acquireLock(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  /** Release `key` only if `owner` still holds it */
+  releaseLock(key: string, owner: string): Promise<void>;
+
+  // Idempotency records (with TTL)
+  /** Store `record` unless the key exists; returns the existing record if it does */
+  claimIdempotencyKey(key: string, record: IdempotencyRecord, ttlMs: number): Promise<IdempotencyRecord | null>;
+  setIdempotencyRecord(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void>;
+  deleteIdempotencyKey(key: string): Promise<void>;
+
+  // Stats & health
+  getStats(): Promise<DuelStoreStats>;
+  isHealthy(): Promise<boolean>;
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+// DuelSession carries bigint stake amounts, which JSON cannot represent.
+// Persistent backends encode them as tagged strings and revive on read.
+const BIGINT_TAG = '__bigint:';
+
+/**
+ * Serialize a value to JSON, preserving bigints
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    typeof v === 'bigint' ? `${BIGINT_TAG}${v.toString()}` : v
+  );
+}
+
+/**
+ * Parse JSON produced by serialize(), reviving bigints
+ */
+export function deserialize<T>(json: string): T {
+  return JSON.parse(json, (_key, v) =>
+    typeof v === 'string' && v.startsWith(BIGINT_TAG) ? BigInt(v.slice(BIGINT_TAG.length)) : v
+  ) as T;
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a store for the configured backend
+ */
+export function createDuelStore(config: Config): DuelStore {
+  switch (config.STORE_BACKEND) {
+    case 'file':
+      return new FileStore(config.STORE_FILE_PATH);
+    case 'redis':
+      // REDIS_URL presence is enforced by config validation
+      return new RedisStore(createRedisClient(config.REDIS_URL!), config.REDIS_KEY_PREFIX);
+    case 'memory':
+      return new MemoryStore();
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+let _store: DuelStore | null = null;
+
+export function getDuelStore(): DuelStore {
+  if (!_store) {
+    _store = createDuelStore(getConfig());
+  }
+  return _store;
+}
+
+// For testing - allows swapping the store
+export function setDuelStore(store: DuelStore | null): void {
+  _store = store;
+}
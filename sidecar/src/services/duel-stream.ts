@@ -0,0 +1,280 @@
+/**
+ * Duel Stream - Real-Time Duel Status Events
+ *
+ * Fans duel events out to connected clients (Unity IDuelListener, game
+ * server) over SSE or WebSocket, see routes/stream.ts for the transports:
+ *
+ *   duel.status      DuelStatus changed (from duelLifecycle)
+ *   duel.lock        a player's stake was locked, with both lock flags
+ *   duel.settlement  a settle/refund job finished, or a refund claim or
+ *                    emergency refund paid out, with its tx signatures
+ *
+ * A subscriber follows one duel or, for the game server, every duel.
+ * Event IDs are `<process epoch>-<sequence>`. The last
+ * STREAM_REPLAY_BUFFER_SIZE events are kept in memory, so a client that
+ * reconnects with its last event ID gets exactly the events it missed. If
+ * they are gone (buffer overflow or a sidecar restart) a one-duel
+ * subscriber gets a fresh duel.snapshot instead, and an all-duels
+ * subscriber gets stream.reset and should re-read the duels it tracks.
+ *
+ * Events are per process: with several replicas behind a load balancer a
+ * subscriber only sees changes made by the replica it is connected to.
+ */
+
+import { getConfig } from '../config.js';
+import type { DuelId, DuelStreamEvent, DuelStreamEventType, SettlementJobStatus } from '../types/index.js';
+import {
+  duelLifecycle,
+  snapshotDuel,
+  type DuelPayoutEvent,
+  type DuelTransitionEvent,
+  type StakeLockedEvent,
+} from './duel-state-machine.js';
+import { duelEscrowService } from './duel-escrow.js';
+import { describeJob, settlementQueue, type SettlementJobEvent } from './settlement-queue.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DuelStreamSubscription {
+  /** Duel to follow, null for every duel */
+  duelId: DuelId | null;
+  /** Last event ID the client saw, if reconnecting */
+  lastEventId?: string;
+  /** Write one event to the client */
+  send: (event: DuelStreamEvent) => void;
+  /** Close the client connection (on shutdown) */
+  close: () => void;
+}
+
+interface Subscriber extends DuelStreamSubscription {
+  /** Events published while the initial replay/snapshot was being prepared */
+  pending: DuelStreamEvent[] | null;
+}
+
+interface BufferedEvent {
+  sequence: number;
+  event: DuelStreamEvent;
+}
+
+// Job statuses that end a settle/refund attempt for good
+const FINISHED_JOB_STATUSES: ReadonlySet<SettlementJobStatus> = new Set(['succeeded', 'rejected', 'dead_letter']);
+
+// ============================================================================
+// Duel Stream
+// ============================================================================
+
+class DuelStream {
+  // Distinguishes this process's event IDs from those of a previous run
+  private readonly epoch = Date.now().toString(36);
+  private sequence = 0;
+  private buffer: BufferedEvent[] = [];
+  private subscribers = new Set<Subscriber>();
+  private unsubscribeJobs: (() => void) | null = null;
+
+  /**
+   * Start listening for duel and settlement events
+   */
+  initialize(): void {
+    if (this.unsubscribeJobs) return;
+
+    duelLifecycle.on('transition', this.onTransition);
+    duelLifecycle.on('stakeLocked', this.onStakeLocked);
+    duelLifecycle.on('payout', this.onPayout);
+    this.unsubscribeJobs = settlementQueue.subscribe(this.onJob);
+
+    console.log(`[DuelStream] Initialized (replay buffer ${getConfig().STREAM_REPLAY_BUFFER_SIZE} events)`);
+  }
+
+  /**
+   * Stop listening and close every subscriber
+   */
+  shutdown(): void {
+    if (!this.unsubscribeJobs) return;
+
+    duelLifecycle.off('transition', this.onTransition);
+    duelLifecycle.off('stakeLocked', this.onStakeLocked);
+    duelLifecycle.off('payout', this.onPayout);
+    this.unsubscribeJobs();
+    this.unsubscribeJobs = null;
+
+    for (const subscriber of this.subscribers) {
+      subscriber.close();
+    }
+    this.subscribers.clear();
+  }
+
+  get connectionCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * True if another subscriber would exceed STREAM_MAX_CONNECTIONS
+   */
+  isFull(): boolean {
+    return this.subscribers.size >= getConfig().STREAM_MAX_CONNECTIONS;
+  }
+
+  // ==========================================================================
+  // Subscribe
+  // ==========================================================================
+
+  /**
+   * Register a subscriber, then send what it missed (or a snapshot) followed
+   * by live events. Returns an unsubscribe function.
+   */
+  async subscribe(subscription: DuelStreamSubscription): Promise<() => void> {
+    // Queue live events until the catch-up below has been sent, so nothing
+    // is lost or reordered while the duel is loaded
+    const subscriber: Subscriber = { ...subscription, pending: [] };
+    this.subscribers.add(subscriber);
+
+    const unsubscribe = () => {
+      this.subscribers.delete(subscriber);
+    };
+
+    try {
+      for (const event of await this.catchUp(subscription)) {
+        subscription.send(event);
+      }
+
+      const pending = subscriber.pending ?? [];
+      subscriber.pending = null;
+      for (const event of pending) {
+        subscription.send(event);
+      }
+    } catch (error) {
+      unsubscribe();
+      throw error;
+    }
+
+    return unsubscribe;
+  }
+
+  /**
+   * Events a new subscriber needs before live events
+   */
+  private async catchUp(subscription: DuelStreamSubscription): Promise<DuelStreamEvent[]> {
+    const { duelId, lastEventId } = subscription;
+
+    if (lastEventId !== undefined) {
+      const missed = this.replay(lastEventId, duelId);
+      if (missed) return missed;
+    }
+
+    if (duelId === null) {
+      // Nothing to catch up on for a fresh all-duels subscriber
+      return lastEventId === undefined ? [] : [this.control('stream.reset')];
+    }
+
+    // Take the ID first: events published while loading are queued and follow
+    const snapshot = this.control('duel.snapshot');
+    const duel = await duelEscrowService.getDuel(duelId);
+    if (!duel) return [];
+
+    return [{ ...snapshot, duelId, occurredAt: Date.now(), data: { duel: snapshotDuel(duel) } }];
+  }
+
+  /**
+   * Buffered events after `lastEventId` for a duel (or all duels);
+   * null if that ID is not from this process or has left the buffer
+   */
+  private replay(lastEventId: string, duelId: DuelId | null): DuelStreamEvent[] | null {
+    const match = /^([0-9a-z]+)-(\d+)$/.exec(lastEventId);
+    if (!match || match[1] !== this.epoch) return null;
+
+    const lastSequence = Number(match[2]);
+    if (lastSequence > this.sequence) return null;
+
+    // The event right after lastSequence must still be buffered
+    const oldest = this.buffer[0]?.sequence ?? this.sequence + 1;
+    if (lastSequence < oldest - 1) return null;
+
+    return this.buffer
+      .filter(item => item.sequence > lastSequence)
+      .map(item => item.event)
+      .filter(event => duelId === null || event.duelId === duelId);
+  }
+
+  /**
+   * Event that is not itself replayable; carries the current head ID so a
+   * reconnect resumes from here
+   */
+  private control(type: DuelStreamEventType): DuelStreamEvent {
+    return { id: `${this.epoch}-${this.sequence}`, type, occurredAt: Date.now(), data: {} };
+  }
+
+  // ==========================================================================
+  // Publish
+  // ==========================================================================
+
+  private onTransition = (event: DuelTransitionEvent): void => {
+    this.publish('duel.status', event.duelId, event.timestamp, {
+      duel: snapshotDuel(event.duel),
+      from: event.from,
+      to: event.to,
+      reason: event.reason,
+    });
+  };
+
+  private onStakeLocked = (event: StakeLockedEvent): void => {
+    this.publish('duel.lock', event.duelId, event.timestamp, {
+      duel: snapshotDuel(event.duel),
+      playerNumber: event.playerNumber,
+    });
+  };
+
+  private onJob = ({ job }: SettlementJobEvent): void => {
+    if (!FINISHED_JOB_STATUSES.has(job.status)) return;
+
+    this.publish('duel.settlement', job.duelId, job.updatedAt, { job: describeJob(job) });
+  };
+
+  private onPayout = (event: DuelPayoutEvent): void => {
+    this.publish('duel.settlement', event.duelId, event.timestamp, { payout: event.payout });
+  };
+
+  /**
+   * Number, buffer and deliver an event
+   */
+  private publish(
+    type: DuelStreamEventType,
+    duelId: DuelId,
+    occurredAt: number,
+    data: DuelStreamEvent['data']
+  ): void {
+    const sequence = ++this.sequence;
+    const event: DuelStreamEvent = { id: `${this.epoch}-${sequence}`, type, duelId, occurredAt, data };
+
+    this.buffer.push({ sequence, event });
+    const overflow = this.buffer.length - getConfig().STREAM_REPLAY_BUFFER_SIZE;
+    if (overflow > 0) {
+      this.buffer.splice(0, overflow);
+    }
+
+    for (const subscriber of this.subscribers) {
+      if (subscriber.duelId !== null && subscriber.duelId !== duelId) continue;
+
+      if (subscriber.pending) {
+        subscriber.pending.push(event);
+        continue;
+      }
+
+      try {
+        subscriber.send(event);
+      } catch (error) {
+        // A broken connection must not affect other subscribers
+        console.warn(`[DuelStream] Dropping subscriber after send failed:`, error);
+        this.subscribers.delete(subscriber);
+        subscriber.close();
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const duelStream = new DuelStream();
@@ -0,0 +1,177 @@
+/**
+ * Expiry Worker - Deadman's Switch
+ *
+ * Periodically sweeps the duel store for duels that are past their
+ * expiresAt (plus a grace period) but never settled:
+ * - PENDING_STAKES: one or neither player locked, duel never started
+ * - ACTIVE: both locked, but the game server never settled
+ *
+ * Each gets a 'timeout' refund job on the settlement queue, so locked stakes
+ * are returned (with retries and dead-lettering like any other payout)
+ * before the duel is evicted. A duel that already has a job in progress is
+ * left to it. When a refund job finishes, its outcome is recorded in the
+ * store for auditing.
+ *
+ * The grace period gives the game server a window to settle a duel that
+ * has only just timed out.
+ */
+
+import { getConfig } from '../config.js';
+import type { AutoRefundRecord, DuelSession } from '../types/index.js';
+import { DuelStatus } from '../types/index.js';
+import { getDuelStore } from './duel-store.js';
+import { duelEscrowService } from './duel-escrow.js';
+import { settlementQueue, type SettlementJob, type SettlementJobEvent } from './settlement-queue.js';
+
+// Statuses that still hold (or may hold) stakes and need the deadman's switch
+const REFUNDABLE_STATUSES: ReadonlySet<DuelStatus> = new Set([
+  DuelStatus.PENDING_STAKES,
+  DuelStatus.ACTIVE,
+]);
+
+// ============================================================================
+// Expiry Worker
+// ============================================================================
+
+class ExpiryWorker {
+  private sweepInterval: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private sweeping = false;
+
+  /**
+   * Start the periodic sweep and record finished refund jobs
+   */
+  initialize(): void {
+    if (this.sweepInterval) return;
+
+    const config = getConfig();
+
+    this.unsubscribe = settlementQueue.subscribe((event) => {
+      this.recordOutcome(event).catch((error) => {
+        console.error(`[ExpiryWorker] Failed to record auto-refund for duel ${event.job.duelId}:`, error);
+      });
+    });
+
+    this.sweepInterval = setInterval(() => {
+      this.sweep().catch((error) => {
+        console.error('[ExpiryWorker] Sweep failed:', error);
+      });
+    }, config.expirySweepIntervalMs);
+
+    console.log(
+      `[ExpiryWorker] Initialized (sweep every ${config.EXPIRY_SWEEP_INTERVAL_SECONDS}s, grace ${config.EXPIRY_GRACE_SECONDS}s)`
+    );
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  shutdown(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Queue a refund for every duel past expiry + grace that is still pending
+   * or active. Returns the jobs queued during this sweep.
+   */
+  async sweep(): Promise<SettlementJob[]> {
+    // Skip if the previous sweep is still running
+    if (this.sweeping) return [];
+    this.sweeping = true;
+
+    try {
+      const config = getConfig();
+      const cutoff = Date.now() - config.expiryGraceMs;
+
+      const duels = await getDuelStore().getAllDuels();
+      const expired = duels.filter(
+        duel => REFUNDABLE_STATUSES.has(duel.status) && duel.expiresAt <= cutoff
+      );
+
+      const jobs: SettlementJob[] = [];
+      for (const duel of expired) {
+        try {
+          const job = await this.queueRefund(duel);
+          if (job) jobs.push(job);
+        } catch (error) {
+          // e.g. a settlement job already in progress, or DuelBusyError - retried next sweep
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.warn(`[ExpiryWorker] Skipping duel ${duel.duelId} this sweep: ${message}`);
+        }
+      }
+
+      if (jobs.length > 0) {
+        console.log(`[ExpiryWorker] Queued refunds for ${jobs.length} expired duels`);
+      }
+
+      return jobs;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Queue the refund for a single expired duel
+   */
+  private async queueRefund(expired: DuelSession): Promise<SettlementJob | null> {
+    // The game server may have settled it between the scan and now
+    const duel = await duelEscrowService.getDuel(expired.duelId);
+    if (!duel || !REFUNDABLE_STATUSES.has(duel.status)) {
+      return null;
+    }
+
+    const job = await settlementQueue.enqueueExpiryRefund(duel);
+    console.log(
+      `[ExpiryWorker] Duel ${duel.duelId} expired in ${duel.status} with ` +
+      `${job.autoRefund?.lockedStealthIds.length ?? 0} locked stake(s) - refund job ${job.jobId} queued`
+    );
+
+    return job;
+  }
+
+  /**
+   * Record the outcome of a finished expiry refund job. A refund rejected
+   * because the duel was settled in the meantime is not an auto-refund.
+   * Dead-lettered jobs are flagged for manual recovery by the queue.
+   */
+  private async recordOutcome({ job, previousStatus }: SettlementJobEvent): Promise<void> {
+    const context = job.autoRefund;
+    if (!context || job.request.kind !== 'refund' || job.status === previousStatus) return;
+    if (job.status !== 'succeeded' && job.status !== 'dead_letter') return;
+
+    const { result } = job;
+    const refundTxSignatures = (result && 'refundTxSignatures' in result ? result.refundTxSignatures : undefined) ?? [];
+    const allReturned = job.status === 'succeeded' &&
+      refundTxSignatures.length === context.lockedStealthIds.length;
+
+    const record: AutoRefundRecord = {
+      duelId: job.duelId,
+      previousStatus: context.previousStatus,
+      expiresAt: context.expiresAt,
+      refundedAt: job.updatedAt,
+      lockedStealthIds: context.lockedStealthIds,
+      refundTxSignatures,
+      success: allReturned,
+      error: allReturned
+        ? undefined
+        : job.lastError ?? `Only ${refundTxSignatures.length}/${context.lockedStealthIds.length} stakes returned`,
+    };
+
+    await getDuelStore().recordAutoRefund(record);
+
+    if (!allReturned) {
+      console.error(`[ExpiryWorker] Auto-refund incomplete for duel ${job.duelId}: ${record.error}`);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const expiryWorker = new ExpiryWorker();
@@ -0,0 +1,222 @@
+/**
+ * Fee Quote - Signed Payout Breakdown Before a Duel Exists
+ *
+ * POST /duel/quote returns every fee line of a prospective duel (see
+ * fee-schedule.ts), signed with the server authority key (Ed25519) over:
+ *
+ *   alerith-fee-quote:v1
+ *   <canonical JSON of the quote>
+ *
+ * Anyone can check the signature against signerPublicKey. A duel created
+ * with a quote (before it expires) keeps the quoted house fee, even if a
+ * promotion has ended since. Each quote creates at most one duel. The
+ * quote's rulesDigest is the one in the duel's terms commitment, and its
+ * payout lines are the amounts opened from the settlement commitment, so
+ * /duel/verify can hold the settlement to the quote.
+ */
+
+import { randomBytes } from 'crypto';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { getConfig } from '../config.js';
+import type { DuelRules, FeeQuote, FeeQuotePlayer, HouseFeeQuote, SignedFeeQuote } from '../types/index.js';
+import type { Amount } from './amount.js';
+import { canonicalJson, digestTerms, type AmountOpening } from './commitment-encoding.js';
+import { feeSchedule, type DuelFeeTerms, type PlayerReturn } from './fee-schedule.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A duel being quoted, or created from a quote */
+export interface FeeQuoteInput {
+  token: string;
+  player1Stake: Amount;
+  player2Stake: Amount;
+  /** Full rule set (defaults applied) */
+  rules: DuelRules;
+}
+
+const MESSAGE_DOMAIN = 'alerith-fee-quote:v1';
+
+// ============================================================================
+// Building & Signing
+// ============================================================================
+
+/**
+ * The exact bytes a quote's signature covers
+ */
+export function feeQuoteMessage(quote: FeeQuote): Uint8Array {
+  return new TextEncoder().encode(`${MESSAGE_DOMAIN}\n${canonicalJson(quote)}`);
+}
+
+/**
+ * Check a quote's signature against the key it names
+ */
+export function verifyFeeQuoteSignature(signed: SignedFeeQuote): boolean {
+  try {
+    return nacl.sign.detached.verify(
+      feeQuoteMessage(signed.quote),
+      bs58.decode(signed.signature),
+      bs58.decode(signed.signerPublicKey)
+    );
+  } catch {
+    // Malformed base58 or key length
+    return false;
+  }
+}
+
+function describePlayer(stake: Amount, refund: PlayerReturn, draw: PlayerReturn): FeeQuotePlayer {
+  return {
+    stake: stake.toString(),
+    depositFee: stake.minus(refund.deposit).toString(),
+    deposit: refund.deposit.toString(),
+    refund: refund.payout.toString(),
+    refundReceives: refund.receives.toString(),
+    drawPayout: draw.payout.toString(),
+    drawReceives: draw.receives.toString(),
+  };
+}
+
+/**
+ * Every amount a duel on these terms would pay out, at the current house fee
+ */
+export function buildFeeQuote(input: FeeQuoteInput, at: number = Date.now()): FeeQuote {
+  const config = getConfig();
+  const { token, player1Stake, player2Stake, rules } = input;
+
+  const houseFee: HouseFeeQuote = feeSchedule.houseFee(player1Stake.plus(player2Stake), at);
+  const terms: DuelFeeTerms = {
+    token,
+    houseFeePercent: houseFee.percent,
+    drawFeePercent: config.DRAW_FEE_PERCENT,
+    player1: { stakeAmount: player1Stake.units },
+    player2: { stakeAmount: player2Stake.units },
+  };
+  const settlement = feeSchedule.settlement(terms);
+  const draw = feeSchedule.draw(terms);
+  const { depositFeePercent, transferFeePercent } = feeSchedule.tokenFees(token);
+
+  return {
+    version: 1,
+    quoteId: randomBytes(16).toString('hex'),
+    token,
+    decimals: player1Stake.decimals,
+    rules: { ...rules },
+    rulesDigest: digestTerms({
+      token,
+      houseFeePercent: terms.houseFeePercent,
+      drawFeePercent: terms.drawFeePercent,
+      rules,
+    }),
+    depositFeePercent: String(depositFeePercent),
+    transferFeePercent: String(transferFeePercent),
+    houseFeePercent: String(houseFee.percent),
+    houseFeeSource: houseFee.source,
+    drawFeePercent: String(terms.drawFeePercent),
+    player1: describePlayer(player1Stake, feeSchedule.refund(player1Stake), draw.payouts[0]),
+    player2: describePlayer(player2Stake, feeSchedule.refund(player2Stake), draw.payouts[1]),
+    pot: settlement.pot.toString(),
+    houseFee: settlement.houseFee.toString(),
+    houseFeeHeldAsDust: feeSchedule.heldAsDust(settlement.houseFee),
+    winnerPayout: settlement.winnerPayout.toString(),
+    winnerTransferFee: settlement.winnerPayout.minus(settlement.winnerReceives).toString(),
+    winnerReceives: settlement.winnerReceives.toString(),
+    drawFee: draw.drawFee.toString(),
+    issuedAt: at,
+    expiresAt: at + config.feeQuoteTtlMs,
+  };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Why a duel may not be created from a quote, or null if it may
+ */
+export function checkFeeQuote(
+  signed: SignedFeeQuote,
+  terms: FeeQuoteInput,
+  at: number = Date.now()
+): string | null {
+  const { quote } = signed;
+
+  if (signed.signerPublicKey !== feeQuoteSigner.publicKey || !verifyFeeQuoteSignature(signed)) {
+    return 'Fee quote signature is invalid';
+  }
+  if (at >= quote.expiresAt) {
+    return 'Fee quote has expired';
+  }
+
+  const rulesDigest = digestTerms({
+    token: terms.token,
+    houseFeePercent: Number(quote.houseFeePercent),
+    drawFeePercent: Number(quote.drawFeePercent),
+    rules: terms.rules,
+  });
+  if (
+    quote.token !== terms.token ||
+    quote.player1.stake !== terms.player1Stake.toString() ||
+    quote.player2.stake !== terms.player2Stake.toString() ||
+    quote.rulesDigest !== rulesDigest
+  ) {
+    return 'Fee quote does not match this duel';
+  }
+
+  return null;
+}
+
+/**
+ * Whether the amounts opened from a settlement commitment are the quoted
+ * ones (winner payout and house fee, or both draw payouts and the draw fee)
+ */
+export function settlementMatchesQuote(
+  quote: FeeQuote,
+  outcome: 'win' | 'draw',
+  amounts: Record<string, AmountOpening>
+): boolean {
+  const expected: Record<string, string> = outcome === 'win'
+    ? { winnerPayout: quote.winnerPayout, houseFee: quote.houseFee }
+    : {
+        player1Payout: quote.player1.drawPayout,
+        player2Payout: quote.player2.drawPayout,
+        drawFee: quote.drawFee,
+      };
+
+  return Object.entries(expected).every(([label, value]) => amounts[label]?.value === value);
+}
+
+// ============================================================================
+// Signer
+// ============================================================================
+
+class FeeQuoteSigner {
+  private keyPair: nacl.SignKeyPair | null = null;
+
+  /**
+   * Server authority public key (base58) quotes are signed with
+   */
+  get publicKey(): string {
+    return bs58.encode(this.keys().publicKey);
+  }
+
+  sign(quote: FeeQuote): SignedFeeQuote {
+    const keys = this.keys();
+    return {
+      quote,
+      signature: bs58.encode(nacl.sign.detached(feeQuoteMessage(quote), keys.secretKey)),
+      signerPublicKey: bs58.encode(keys.publicKey),
+    };
+  }
+
+  private keys(): nacl.SignKeyPair {
+    if (!this.keyPair) {
+      this.keyPair = nacl.sign.keyPair.fromSecretKey(bs58.decode(getConfig().SERVER_AUTHORITY_SECRET));
+    }
+    return this.keyPair;
+  }
+}
+
+// Export singleton instance
+export const feeQuoteSigner = new FeeQuoteSigner();
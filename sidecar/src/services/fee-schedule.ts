@@ -0,0 +1,200 @@
+/**
+ * Fee Schedule - Every Fee Between a Stake and a Payout
+ *
+ * Money moving through a duel is charged three times:
+ *
+ * - Deposit fee (ShadowWire, per token): taken from each stake as it is
+ *   deposited into escrow, so escrow holds less than was staked
+ * - House fee (ours): a percentage of what is in escrow, from
+ *   HOUSE_FEE_PERCENT, HOUSE_FEE_TIERS (by combined stake) and
+ *   HOUSE_FEE_PROMOS (time-boxed overrides). It is fixed when the duel is
+ *   created and committed to with the duel's terms.
+ * - Transfer-out fee (ShadowWire, per token): taken from every transfer
+ *   out of escrow, so a recipient gets less than we send
+ *
+ * Percentages are applied exactly and rounded down to a whole smallest unit
+ * (see amount.ts). Settle, draw, refund and emergency refund all compute
+ * their amounts here.
+ */
+
+import { getConfig, type HouseFeePromo } from '../config.js';
+import type { DuelParticipant, DuelSession, FeeScheduleInfo, HouseFeeQuote, TokenFeeRates } from '../types/index.js';
+import { Amount } from './amount.js';
+import { tokenRegistry } from './token-registry.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What a duel's amounts are computed from (a duel, or one being quoted) */
+export type DuelFeeTerms = Pick<DuelSession, 'token' | 'houseFeePercent' | 'drawFeePercent'> & {
+  player1: Pick<DuelParticipant, 'stakeAmount'>;
+  player2: Pick<DuelParticipant, 'stakeAmount'>;
+};
+
+export interface SettlementAmounts {
+  /** What reached escrow from each player (player 1, player 2) */
+  deposits: [Amount, Amount];
+  pot: Amount;
+  houseFee: Amount;
+  /** Sent to the winner */
+  winnerPayout: Amount;
+  /** What the winner receives after the transfer-out fee */
+  winnerReceives: Amount;
+}
+
+export interface DrawAmounts {
+  /** Per player (player 1, player 2) */
+  payouts: [PlayerReturn, PlayerReturn];
+  drawFee: Amount;
+}
+
+export interface PlayerReturn {
+  /** What reached escrow from the player */
+  deposit: Amount;
+  /** Kept by the house (draw fee; 0 for refunds) */
+  fee: Amount;
+  /** Sent to the player */
+  payout: Amount;
+  /** What the player receives after the transfer-out fee */
+  receives: Amount;
+}
+
+/**
+ * A duel's stake for one player
+ */
+export function stakeOf(duel: Pick<DuelFeeTerms, 'token'>, player: Pick<DuelParticipant, 'stakeAmount'>): Amount {
+  return Amount.fromUnits(duel.token, player.stakeAmount);
+}
+
+// ============================================================================
+// Fee Schedule
+// ============================================================================
+
+class FeeSchedule {
+  /**
+   * ShadowWire deposit and transfer-out fees for a token (the registry's
+   * feePercent, charged on both)
+   */
+  tokenFees(token: string): TokenFeeRates {
+    const feePercent = tokenRegistry.feePercent(token);
+    return { depositFeePercent: feePercent, transferFeePercent: feePercent };
+  }
+
+  /**
+   * House fee for a new duel: an active promotion, else the highest tier
+   * the combined stake reaches, else HOUSE_FEE_PERCENT
+   */
+  houseFee(totalStake: Amount, at: number = Date.now()): HouseFeeQuote {
+    const { token } = totalStake;
+    const promo = this.activePromos(at)
+      .filter(p => !p.token || p.token === token)
+      .sort((a, b) => a.percent - b.percent)[0];
+    if (promo) {
+      return { percent: promo.percent, source: 'promo', endsAt: promo.endsAt };
+    }
+
+    const config = getConfig();
+    const tier = config.HOUSE_FEE_TIERS
+      .filter(t => t.token === token && totalStake.gte(Amount.parse(token, t.minTotalStake, 'ceil')))
+      .sort((a, b) => b.minTotalStake - a.minTotalStake)[0];
+    if (tier) {
+      return { percent: tier.percent, source: 'tier', minTotalStake: tier.minTotalStake };
+    }
+
+    return { percent: config.HOUSE_FEE_PERCENT, source: 'base' };
+  }
+
+  /**
+   * What reaches escrow from a stake
+   */
+  deposited(stake: Amount): Amount {
+    return stake.minus(stake.percent(this.tokenFees(stake.token).depositFeePercent));
+  }
+
+  /**
+   * What a recipient gets from a transfer out of escrow
+   */
+  received(amount: Amount): Amount {
+    return amount.minus(amount.percent(this.tokenFees(amount.token).transferFeePercent));
+  }
+
+  /**
+   * Winner takes the pot in escrow minus the duel's house fee
+   */
+  settlement(duel: DuelFeeTerms): SettlementAmounts {
+    const deposits: [Amount, Amount] = [
+      this.deposited(stakeOf(duel, duel.player1)),
+      this.deposited(stakeOf(duel, duel.player2)),
+    ];
+    const pot = deposits[0].plus(deposits[1]);
+    const houseFee = pot.percent(duel.houseFeePercent);
+    const winnerPayout = pot.minus(houseFee);
+
+    return { deposits, pot, houseFee, winnerPayout, winnerReceives: this.received(winnerPayout) };
+  }
+
+  /**
+   * Each player gets their deposit back minus the duel's draw fee
+   */
+  draw(duel: DuelFeeTerms): DrawAmounts {
+    const drawFeePercent = duel.drawFeePercent ?? 0;
+    const payouts = [duel.player1, duel.player2].map((player): PlayerReturn => {
+      const deposit = this.deposited(stakeOf(duel, player));
+      const fee = deposit.percent(drawFeePercent);
+      const payout = deposit.minus(fee);
+      return { deposit, fee, payout, receives: this.received(payout) };
+    }) as [PlayerReturn, PlayerReturn];
+
+    return { payouts, drawFee: payouts[0].fee.plus(payouts[1].fee) };
+  }
+
+  /**
+   * A refunded stake: everything that reached escrow, no house fee
+   */
+  refund(stake: Amount): PlayerReturn {
+    const deposit = this.deposited(stake);
+    return { deposit, fee: Amount.zero(stake.token), payout: deposit, receives: this.received(deposit) };
+  }
+
+  /**
+   * Whether a fee is too small for a ShadowWire transfer, so it is kept in
+   * escrow as dust until swept to the treasury
+   */
+  heldAsDust(fee: Amount): boolean {
+    return fee.lt(this.transferMinimum(fee.token));
+  }
+
+  /**
+   * Smallest transfer we send out of escrow for a token
+   */
+  transferMinimum(token: string): Amount {
+    return tokenRegistry.minimum(token);
+  }
+
+  /**
+   * The schedule as published by /duel/service-info
+   */
+  describe(at: number = Date.now()): FeeScheduleInfo {
+    const config = getConfig();
+    return {
+      tokens: Object.fromEntries(tokenRegistry.enabledSymbols.map(token => [token, this.tokenFees(token)])),
+      houseFeePercent: config.HOUSE_FEE_PERCENT,
+      drawFeePercent: config.DRAW_FEE_PERCENT,
+      houseFeeTiers: config.HOUSE_FEE_TIERS,
+      activePromos: this.activePromos(at).map(({ token, percent, startsAt, endsAt }) => ({
+        token: token ?? null,
+        percent,
+        startsAt,
+        endsAt,
+      })),
+    };
+  }
+
+  private activePromos(at: number): HouseFeePromo[] {
+    return getConfig().HOUSE_FEE_PROMOS.filter(promo => promo.startsAt <= at && at < promo.endsAt);
+  }
+}
+
+// Export singleton instance
+export const feeSchedule = new FeeSchedule();
@@ -0,0 +1,490 @@
+/**
+ * File Store - Durable DuelStore Backend
+ *
+ * Append-only log on local disk, replayed into memory on startup:
+ * - Every mutation is appended as one JSON line and fsync'd
+ * - Duel expiry is stored as an absolute timestamp, so TTLs hold across restarts
+ * - The log is compacted to a snapshot on startup and during cleanup
+ *
+ * Reads are served from memory (see MemoryStore). A torn final line from a
+ * crash mid-write is skipped on replay. Locks are process-local: the file
+ * backend assumes a single sidecar process.
+ */
+
+import { mkdir, open, readFile, rename, type FileHandle } from 'fs/promises';
+import { dirname } from 'path';
+import type {
+  AutoRefundRecord,
+  DuelSession,
+  IdempotencyRecord,
+  LockSignatureBinding,
+  SpendingAuthorization,
+} from '../types/index.js';
+import type { StoreBackend } from './duel-store.js';
+import type { SettlementJob } from './settlement-queue.js';
+import type { WebhookDelivery } from './webhooks.js';
+import type { WalletVaultEntry } from './wallet-vault.js';
+import { serialize, deserialize } from './duel-store.js';
+import { MemoryStore } from './memory-store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type LogEntry =
+  | { op: 'duel'; duelId: string; duel: DuelSession; expiresAt: number | null }
+  | { op: 'deleteDuel'; duelId: string }
+  | { op: 'dust'; token: string; total: bigint }
+  | { op: 'pending'; duelId: string; present: boolean }
+  | { op: 'failed'; duelId: string; present: boolean }
+  | { op: 'autoRefund'; record: AutoRefundRecord }
+  | { op: 'lockSig'; binding: LockSignatureBinding; expiresAt: number | null }
+  | { op: 'job'; job: SettlementJob; expiresAt: number | null }
+  | { op: 'webhook'; delivery: WebhookDelivery; expiresAt: number | null }
+  | { op: 'vault'; entry: WalletVaultEntry; expiresAt: number | null }
+  | { op: 'deleteVault'; duelId: string }
+  | { op: 'nonce'; nonce: string; expiresAt: number }
+  | { op: 'authorization'; authorization: SpendingAuthorization; expiresAt: number | null }
+  | { op: 'idem'; key: string; record: IdempotencyRecord; expiresAt: number | null }
+  | { op: 'deleteIdem'; key: string };
+
+// Compact once this many entries have been appended since the last snapshot
+const COMPACT_THRESHOLD = 1000;
+
+// ============================================================================
+// File Store
+// ============================================================================
+
+export class FileStore extends MemoryStore {
+  override readonly backend: StoreBackend = 'file';
+
+  private handle: FileHandle | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private entriesSinceCompact = 0;
+  private healthy = true;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  // ============================================================================
+  // Initialization
+  // ============================================================================
+
+  /**
+   * Replay the log, compact it, and open it for appending
+   */
+  override async initialize(): Promise<void> {
+    if (this.handle) return;
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    const replayed = await this.replay();
+    await this.compact();
+
+    await super.initialize();
+
+    console.log(`[FileStore] Initialized from ${this.filePath} (${replayed} entries replayed, ${this.duels.size} live duels)`);
+  }
+
+  /**
+   * Flush pending writes and close the log
+   */
+  override async shutdown(): Promise<void> {
+    await this.writeQueue;
+
+    if (this.handle) {
+      await this.handle.close();
+      this.handle = null;
+    }
+
+    await super.shutdown();
+    console.log('[FileStore] Shutdown complete');
+  }
+
+  /**
+   * Evict expired duels, compacting the log if it has grown
+   */
+  override async cleanup(): Promise<void> {
+    await super.cleanup();
+
+    if (this.handle && this.entriesSinceCompact >= COMPACT_THRESHOLD) {
+      await this.compact();
+    }
+  }
+
+  // ============================================================================
+  // Duel Operations
+  // ============================================================================
+
+  override async setDuel(duelId: string, duel: DuelSession, ttlMs: number): Promise<void> {
+    await super.setDuel(duelId, duel, ttlMs);
+    const expiresAt = this.duels.get(duelId)?.expiresAt ?? null;
+    await this.append({ op: 'duel', duelId, duel, expiresAt });
+  }
+
+  override async deleteDuel(duelId: string): Promise<boolean> {
+    const deleted = await super.deleteDuel(duelId);
+    if (deleted) {
+      await this.append({ op: 'deleteDuel', duelId });
+    }
+    return deleted;
+  }
+
+  // ============================================================================
+  // Dust Operations
+  // ============================================================================
+
+  override async accumulateDust(token: string, amount: bigint): Promise<void> {
+    await super.accumulateDust(token, amount);
+    await this.append({ op: 'dust', token, total: this.dust.get(token) ?? 0n });
+  }
+
+  override async resetDust(token: string): Promise<void> {
+    await super.resetDust(token);
+    await this.append({ op: 'dust', token, total: 0n });
+  }
+
+  // ============================================================================
+  // Recovery Operations
+  // ============================================================================
+
+  override async addPendingRecovery(duelId: string): Promise<void> {
+    await super.addPendingRecovery(duelId);
+    await this.append({ op: 'pending', duelId, present: true });
+  }
+
+  override async removePendingRecovery(duelId: string): Promise<void> {
+    await super.removePendingRecovery(duelId);
+    await this.append({ op: 'pending', duelId, present: false });
+  }
+
+  override async addFailedRecovery(duelId: string): Promise<void> {
+    await super.addFailedRecovery(duelId);
+    await this.append({ op: 'failed', duelId, present: true });
+  }
+
+  override async removeFailedRecovery(duelId: string): Promise<void> {
+    await super.removeFailedRecovery(duelId);
+    await this.append({ op: 'failed', duelId, present: false });
+  }
+
+  // ============================================================================
+  // Auto Refund Records
+  // ============================================================================
+
+  override async recordAutoRefund(record: AutoRefundRecord): Promise<void> {
+    await super.recordAutoRefund(record);
+    await this.append({ op: 'autoRefund', record });
+  }
+
+  // ============================================================================
+  // Lock Signatures
+  // ============================================================================
+
+  override async bindLockSignature(binding: LockSignatureBinding, ttlMs: number): Promise<LockSignatureBinding | null> {
+    const existing = await super.bindLockSignature(binding, ttlMs);
+    if (!existing) {
+      const expiresAt = this.lockSignatures.get(binding.txSignature)?.expiresAt ?? null;
+      await this.append({ op: 'lockSig', binding, expiresAt });
+    }
+    return existing;
+  }
+
+  // ============================================================================
+  // Spending Authorizations
+  // ============================================================================
+
+  override async setAuthorization(authorization: SpendingAuthorization, ttlMs: number): Promise<void> {
+    await super.setAuthorization(authorization, ttlMs);
+    const expiresAt = this.authorizations.get(authorization.authorizationId)?.expiresAt ?? null;
+    await this.append({ op: 'authorization', authorization, expiresAt });
+  }
+
+  // ============================================================================
+  // Settlement Jobs
+  // ============================================================================
+
+  override async setJob(job: SettlementJob, ttlMs: number): Promise<void> {
+    await super.setJob(job, ttlMs);
+    const expiresAt = this.jobs.get(job.jobId)?.expiresAt ?? null;
+    await this.append({ op: 'job', job, expiresAt });
+  }
+
+  // ============================================================================
+  // Webhook Deliveries
+  // ============================================================================
+
+  override async setWebhookDelivery(delivery: WebhookDelivery, ttlMs: number): Promise<void> {
+    await super.setWebhookDelivery(delivery, ttlMs);
+    const expiresAt = this.webhookDeliveries.get(delivery.deliveryId)?.expiresAt ?? null;
+    await this.append({ op: 'webhook', delivery, expiresAt });
+  }
+
+  // ============================================================================
+  // Wallet Vault
+  // ============================================================================
+
+  override async setVaultEntry(entry: WalletVaultEntry, ttlMs: number): Promise<void> {
+    await super.setVaultEntry(entry, ttlMs);
+    const expiresAt = this.vaultEntries.get(entry.duelId)?.expiresAt ?? null;
+    await this.append({ op: 'vault', entry, expiresAt });
+  }
+
+  override async deleteVaultEntry(duelId: string): Promise<void> {
+    await super.deleteVaultEntry(duelId);
+    await this.append({ op: 'deleteVault', duelId });
+  }
+
+  // ============================================================================
+  // Nonces
+  // ============================================================================
+
+  override async claimNonce(nonce: string, ttlMs: number): Promise<boolean> {
+    const claimed = await super.claimNonce(nonce, ttlMs);
+    if (claimed) {
+      await this.append({ op: 'nonce', nonce, expiresAt: this.nonces.get(nonce) ?? Date.now() + ttlMs });
+    }
+    return claimed;
+  }
+
+  // ============================================================================
+  // Idempotency Records
+  // ============================================================================
+
+  override async setIdempotencyRecord(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    await super.setIdempotencyRecord(key, record, ttlMs);
+    const expiresAt = this.idempotency.get(key)?.expiresAt ?? null;
+    await this.append({ op: 'idem', key, record, expiresAt });
+  }
+
+  override async deleteIdempotencyKey(key: string): Promise<void> {
+    await super.deleteIdempotencyKey(key);
+    await this.append({ op: 'deleteIdem', key });
+  }
+
+  override async isHealthy(): Promise<boolean> {
+    return this.healthy && this.handle !== null;
+  }
+
+  // ============================================================================
+  // Log Handling
+  // ============================================================================
+
+  /**
+   * Apply every entry in the log to the in-memory state
+   */
+  private async replay(): Promise<number> {
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    const now = Date.now();
+    const lines = contents.split('\n').filter(line => line.length > 0);
+    let applied = 0;
+
+    for (const [index, line] of lines.entries()) {
+      let entry: LogEntry;
+      try {
+        entry = deserialize<LogEntry>(line);
+      } catch {
+        // Only the final line can legitimately be torn by a crash
+        if (index === lines.length - 1) {
+          console.warn('[FileStore] Skipping truncated final log entry');
+          continue;
+        }
+        throw new Error(`Corrupt duel store log at line ${index + 1}`);
+      }
+
+      this.apply(entry, now);
+      applied++;
+    }
+
+    return applied;
+  }
+
+  private apply(entry: LogEntry, now: number): void {
+    switch (entry.op) {
+      case 'duel':
+        if (entry.expiresAt !== null && entry.expiresAt <= now) {
+          this.duels.delete(entry.duelId);
+        } else {
+          this.duels.set(entry.duelId, { data: entry.duel, expiresAt: entry.expiresAt });
+        }
+        break;
+      case 'deleteDuel':
+        this.duels.delete(entry.duelId);
+        break;
+      case 'dust':
+        this.dust.set(entry.token, entry.total);
+        break;
+      case 'pending':
+        if (entry.present) this.pendingRecovery.add(entry.duelId);
+        else this.pendingRecovery.delete(entry.duelId);
+        break;
+      case 'failed':
+        if (entry.present) this.failedRecovery.add(entry.duelId);
+        else this.failedRecovery.delete(entry.duelId);
+        break;
+      case 'autoRefund':
+        this.autoRefunds.push(entry.record);
+        break;
+      case 'lockSig':
+        if (entry.expiresAt !== null && entry.expiresAt <= now) {
+          this.lockSignatures.delete(entry.binding.txSignature);
+        } else {
+          this.lockSignatures.set(entry.binding.txSignature, { data: entry.binding, expiresAt: entry.expiresAt });
+        }
+        break;
+      case 'authorization':
+        if (entry.expiresAt !== null && entry.expiresAt <= now) {
+          this.authorizations.delete(entry.authorization.authorizationId);
+        } else {
+          this.authorizations.set(entry.authorization.authorizationId, {
+            data: entry.authorization,
+            expiresAt: entry.expiresAt,
+          });
+        }
+        break;
+      case 'job':
+        if (entry.expiresAt !== null && entry.expiresAt <= now) {
+          this.jobs.delete(entry.job.jobId);
+        } else {
+          this.jobs.set(entry.job.jobId, { data: entry.job, expiresAt: entry.expiresAt });
+        }
+        this.indexActiveJob(entry.job);
+        break;
+      case 'webhook':
+        if (entry.expiresAt !== null && entry.expiresAt <= now) {
+          this.webhookDeliveries.delete(entry.delivery.deliveryId);
+        } else {
+          this.webhookDeliveries.set(entry.delivery.deliveryId, { data: entry.delivery, expiresAt: entry.expiresAt });
+        }
+        break;
+      case 'vault':
+        if (entry.expiresAt !== null && entry.expiresAt <= now) {
+          this.vaultEntries.delete(entry.entry.duelId);
+        } else {
+          this.vaultEntries.set(entry.entry.duelId, { data: entry.entry, expiresAt: entry.expiresAt });
+        }
+        break;
+      case 'deleteVault':
+        this.vaultEntries.delete(entry.duelId);
+        break;
+      case 'nonce':
+        if (entry.expiresAt > now) {
+          this.nonces.set(entry.nonce, entry.expiresAt);
+        }
+        break;
+      case 'idem':
+        if (entry.expiresAt !== null && entry.expiresAt <= now) {
+          this.idempotency.delete(entry.key);
+        } else {
+          this.idempotency.set(entry.key, { data: entry.record, expiresAt: entry.expiresAt });
+        }
+        break;
+      case 'deleteIdem':
+        this.idempotency.delete(entry.key);
+        break;
+    }
+  }
+
+  /**
+   * Rewrite the log as a minimal snapshot of current state
+   */
+  private async compact(): Promise<void> {
+    await this.enqueue(async () => {
+      const entries: LogEntry[] = [];
+
+      for (const [duelId, item] of this.duels) {
+        entries.push({ op: 'duel', duelId, duel: item.data, expiresAt: item.expiresAt });
+      }
+      for (const [token, total] of this.dust) {
+        entries.push({ op: 'dust', token, total });
+      }
+      for (const duelId of this.pendingRecovery) {
+        entries.push({ op: 'pending', duelId, present: true });
+      }
+      for (const duelId of this.failedRecovery) {
+        entries.push({ op: 'failed', duelId, present: true });
+      }
+      for (const record of this.autoRefunds) {
+        entries.push({ op: 'autoRefund', record });
+      }
+      for (const item of this.lockSignatures.values()) {
+        entries.push({ op: 'lockSig', binding: item.data, expiresAt: item.expiresAt });
+      }
+      for (const item of this.authorizations.values()) {
+        entries.push({ op: 'authorization', authorization: item.data, expiresAt: item.expiresAt });
+      }
+      for (const item of this.jobs.values()) {
+        entries.push({ op: 'job', job: item.data, expiresAt: item.expiresAt });
+      }
+      for (const item of this.webhookDeliveries.values()) {
+        entries.push({ op: 'webhook', delivery: item.data, expiresAt: item.expiresAt });
+      }
+      for (const item of this.vaultEntries.values()) {
+        entries.push({ op: 'vault', entry: item.data, expiresAt: item.expiresAt });
+      }
+      for (const [nonce, expiresAt] of this.nonces) {
+        entries.push({ op: 'nonce', nonce, expiresAt });
+      }
+      for (const [key, item] of this.idempotency) {
+        entries.push({ op: 'idem', key, record: item.data, expiresAt: item.expiresAt });
+      }
+
+      // Write snapshot to a temp file, then atomically swap it in
+      const tmpPath = `${this.filePath}.tmp`;
+      const tmp = await open(tmpPath, 'w');
+      try {
+        await tmp.writeFile(entries.map(entry => serialize(entry) + '\n').join(''));
+        await tmp.sync();
+      } finally {
+        await tmp.close();
+      }
+
+      if (this.handle) {
+        await this.handle.close();
+      }
+      await rename(tmpPath, this.filePath);
+      this.handle = await open(this.filePath, 'a');
+      this.entriesSinceCompact = 0;
+    });
+  }
+
+  /**
+   * Append one entry and fsync before resolving
+   */
+  private async append(entry: LogEntry): Promise<void> {
+    await this.enqueue(async () => {
+      if (!this.handle) {
+        throw new Error('FileStore not initialized');
+      }
+
+      try {
+        await this.handle.appendFile(serialize(entry) + '\n');
+        await this.handle.sync();
+        this.entriesSinceCompact++;
+        this.healthy = true;
+      } catch (error) {
+        this.healthy = false;
+        console.error('[FileStore] Failed to append log entry:', error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Serialize file operations so entries are written in call order
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task);
+    // Keep the queue alive even if this task fails
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
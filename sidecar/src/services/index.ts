@@ -5,8 +5,15 @@
  */
 
 export { stealthMapping, generateStealthId, verifyStealthId, maskWallet, isValidStealthId, truncateStealthId } from './stealth.js';
-export { shadowWireService, solToLamports, lamportsToSol } from './shadowwire.js';
+export { solToLamports, lamportsToSol } from './shadowwire.js';
 export { duelEscrowService } from './duel-escrow.js';
-export { memoryStore } from './memory-store.js';
-export { shadowWireDirect } from './shadowwire-direct.js';
+export { getDuelStore } from './duel-store.js';
+export { getTransferProvider, setTransferProvider } from './transfer-provider.js';
 export { accountabilityService } from './accountability.js';
+export { duelLifecycle, canTransition, InvalidDuelTransitionError } from './duel-state-machine.js';
+export { getLockVerifier, setLockVerifier } from './lock-verifier.js';
+export { spendingAuthorizationService } from './spending-authorization.js';
+export { settlementQueue } from './settlement-queue.js';
+export { webhookDispatcher, signWebhookPayload, verifyWebhookSignature } from './webhooks.js';
+export { refundClaimService, buildRefundClaimMessage } from './refund-claim.js';
+export { walletVault } from './wallet-vault.js';
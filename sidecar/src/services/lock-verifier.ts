@@ -0,0 +1,366 @@
+/**
+ * Lock Verifier - Stake Lock Proof Verification
+ *
+ * Players transfer their stake to the escrow wallet themselves and report
+ * the result to /duel/lock-stake (or fund a spending authorization the same
+ * way). A LockVerifier checks that report before the stake is marked locked
+ * or the authorization credited:
+ * - escrow-balance: the escrow pool holds enough to cover everything it
+ *   already owes plus this stake (net of the ShadowWire deposit fee)
+ * - zk-payment:     the ShadowPay ZK payment (see Unity IShadowPayBridge)
+ *   names the right amount, the escrow wallet and this exact resource; the
+ *   proof itself is not verified yet, so not allowed in production
+ * - trust:          accept any report (development only)
+ *
+ * Verifiers are swappable via LOCK_VERIFIER (comma-separated, all must pass)
+ * or setLockVerifier(), e.g. FakeLockVerifier in tests. Binding each
+ * accepted signature to one stake or funding is done by the caller
+ * through the DuelStore.
+ */
+
+import { createHash } from 'crypto';
+import { getConfig, type Config, type LockVerifierKind } from '../config.js';
+import type { TxSignature, WalletAddress } from '../types/index.js';
+import { DuelStatus } from '../types/index.js';
+import { Amount } from './amount.js';
+import { getDuelStore } from './duel-store.js';
+import { feeSchedule, stakeOf } from './fee-schedule.js';
+import { getTransferProvider } from './transfer-provider.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** ZK payment payload produced by ShadowPay (Unity ZKPaymentPayload) */
+export interface ZkPaymentPayload {
+  /** Amount in smallest units */
+  amount: number;
+  /** Sender's stealth/commitment ID */
+  sender: string;
+  /** Recipient wallet (escrow) */
+  recipient: string;
+  /** Resource the payment is for - "Duel:{duelId}" or "Authorization:{authorizationId}" */
+  resource: string;
+  /** Zero-knowledge proof data */
+  proof: string;
+}
+
+/** ZK payment envelope (Unity ZKPayment) */
+export interface ZkPayment {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: ZkPaymentPayload;
+}
+
+/** Payment proof as reported by the client, normalized */
+export interface LockProof {
+  /** Transfer tx signature, or a digest of the ZK proof when none is given */
+  txSignature: TxSignature;
+  /** ZK payment, if the client sent one */
+  payment?: ZkPayment;
+}
+
+export interface LockVerificationRequest {
+  /** What the transfer pays for - "Duel:{duelId}" or "Authorization:{authorizationId}" */
+  resource: string;
+  proof: LockProof;
+  /** Amount the player owes (its token is the transfer's token) */
+  expectedAmount: Amount;
+  escrowWallet: WalletAddress;
+}
+
+export interface LockVerificationResult {
+  verified: boolean;
+  error?: string;
+}
+
+export interface LockVerifier {
+  /** Verifier identifier (for logs) */
+  readonly name: string;
+  /** Check that the reported transfer actually moved the amount into escrow */
+  verify(request: LockVerificationRequest): Promise<LockVerificationResult>;
+}
+
+// How long an accepted signature stays bound to its stake or funding; far
+// longer than a duel, settlement retries or a funded authorization last
+export const LOCK_SIGNATURE_RETENTION_MS = 365 * 24 * 60 * 60 * 1000; // 1 year
+
+// Statuses in which locked stakes are still held by the escrow wallet
+const HOLDING_STATUSES: ReadonlySet<DuelStatus> = new Set([
+  DuelStatus.PENDING_STAKES,
+  DuelStatus.ACTIVE,
+  DuelStatus.PENDING_SETTLEMENT,
+  DuelStatus.FAILED,
+]);
+
+// SOLANA_NETWORK -> ZK payment network identifier
+const PAYMENT_NETWORKS: Record<Config['SOLANA_NETWORK'], string> = {
+  devnet: 'solana-devnet',
+  'mainnet-beta': 'solana-mainnet',
+};
+
+// ============================================================================
+// Proof Parsing
+// ============================================================================
+
+/**
+ * Normalize the client's paymentProof.
+ * Accepts a raw tx signature, { txSignature | signature | tx }, or a ZK payment
+ * (optionally alongside a tx signature).
+ */
+export function parseLockProof(paymentProof: string): LockProof {
+  let data: unknown;
+  try {
+    data = JSON.parse(paymentProof);
+  } catch {
+    // Not JSON - treat as raw tx signature
+    return { txSignature: paymentProof };
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    return { txSignature: paymentProof };
+  }
+
+  const fields = data as Record<string, unknown>;
+  const payment = isZkPayment(fields) ? fields : undefined;
+  const reported = [fields.txSignature, fields.signature, fields.tx].find(
+    (value): value is string => typeof value === 'string' && value.length > 0
+  );
+
+  // A ZK payment without a tx signature is identified by its proof
+  const txSignature = reported
+    ?? (payment ? `zk:${createHash('sha256').update(payment.payload.proof).digest('hex')}` : paymentProof);
+
+  return { txSignature, payment };
+}
+
+function isZkPayment(value: Record<string, unknown>): value is Record<string, unknown> & ZkPayment {
+  const payload = value.payload as Record<string, unknown> | undefined;
+  return (
+    typeof value.scheme === 'string' &&
+    typeof payload === 'object' &&
+    payload !== null &&
+    typeof payload.amount === 'number' &&
+    typeof payload.recipient === 'string' &&
+    typeof payload.resource === 'string' &&
+    typeof payload.proof === 'string'
+  );
+}
+
+// ============================================================================
+// Verifiers
+// ============================================================================
+
+/**
+ * Accepts a transfer only if the escrow pool balance covers everything it
+ * still owes for the token (unpaid locked stakes, funded authorizations and
+ * unswept dust) plus this amount.
+ * Amounts are what reached escrow, i.e. net of the ShadowWire deposit fee.
+ *
+ * Callers must hold withEscrowBalanceLock(token) from verification until the
+ * lock or funding is recorded, otherwise two concurrent transfers can be
+ * covered by the same funds. A surplus from an unrelated deposit can still cover a false
+ * report, so combine with zk-payment where clients send ZK payments.
+ */
+export class EscrowBalanceLockVerifier implements LockVerifier {
+  readonly name = 'escrow-balance';
+
+  async verify(request: LockVerificationRequest): Promise<LockVerificationResult> {
+    const { expectedAmount, escrowWallet } = request;
+    const { token } = expectedAmount;
+
+    const balance = await getTransferProvider().getBalance(escrowWallet, token);
+    if (!balance.success || balance.balance === undefined) {
+      return { verified: false, error: `Could not read escrow balance: ${balance.error ?? 'unknown error'}` };
+    }
+
+    const held = await this.heldFunds(token);
+    const deposited = feeSchedule.deposited(expectedAmount);
+    const required = held.plus(deposited);
+
+    if (balance.balance.lt(required)) {
+      return {
+        verified: false,
+        error: `Escrow balance ${balance.balance} does not cover held funds ${held} plus this deposit ${deposited}`,
+      };
+    }
+
+    return { verified: true };
+  }
+
+  /**
+   * What the escrow wallet already owes for a token: the deposit of every
+   * locked stake not yet paid out, funded authorization balances and
+   * accumulated dust
+   */
+  private async heldFunds(token: string): Promise<Amount> {
+    const store = getDuelStore();
+    let held = Amount.fromUnits(token, await store.getDust(token));
+
+    for (const duel of await store.getAllDuels()) {
+      if (duel.token !== token || !HOLDING_STATUSES.has(duel.status)) continue;
+      for (const player of [duel.player1, duel.player2]) {
+        if (player.stakeLocked && !player.payoutTxSignature) {
+          held = held.plus(feeSchedule.deposited(stakeOf(duel, player)));
+        }
+      }
+    }
+
+    for (const authorization of await store.getAllAuthorizations()) {
+      if (authorization.token !== token) continue;
+      held = held.plus(Amount.fromUnits(token, authorization.fundedBalance));
+    }
+
+    return held;
+  }
+}
+
+/**
+ * Accepts a transfer only if the client sent a ShadowPay ZK payment for
+ * this resource, to the escrow wallet, on this network, for at least the
+ * expected amount.
+ *
+ * Only the payment's fields are checked: the proof is not verified with the
+ * facilitator or on chain, and the zk: signature it is bound under is a hash
+ * of client-supplied bytes. Config refuses zk-payment in production until it
+ * is.
+ */
+export class ZkPaymentLockVerifier implements LockVerifier {
+  readonly name = 'zk-payment';
+
+  constructor(private readonly network: string) {}
+
+  async verify(request: LockVerificationRequest): Promise<LockVerificationResult> {
+    const { resource, proof, expectedAmount, escrowWallet } = request;
+    const payment = proof.payment;
+
+    if (!payment) {
+      return { verified: false, error: 'Payment proof is not a ZK payment' };
+    }
+    if (payment.scheme !== 'zkproof') {
+      return { verified: false, error: `Unsupported payment scheme: ${payment.scheme}` };
+    }
+    if (payment.network !== this.network) {
+      return { verified: false, error: `Payment is for ${payment.network}, expected ${this.network}` };
+    }
+
+    const { payload } = payment;
+    if (payload.recipient !== escrowWallet) {
+      return { verified: false, error: 'Payment recipient is not the escrow wallet' };
+    }
+    if (payload.resource !== resource) {
+      return { verified: false, error: `Payment is for ${payload.resource}, expected ${resource}` };
+    }
+    if (
+      !Number.isSafeInteger(payload.amount) ||
+      Amount.fromUnits(expectedAmount.token, payload.amount).lt(expectedAmount)
+    ) {
+      return { verified: false, error: `Payment amount ${payload.amount} is below ${expectedAmount}` };
+    }
+    if (payload.proof.length === 0) {
+      return { verified: false, error: 'Payment proof is empty' };
+    }
+
+    return { verified: true };
+  }
+}
+
+/**
+ * Accepts every report (the pre-verification behavior). Development only.
+ */
+export class TrustingLockVerifier implements LockVerifier {
+  readonly name = 'trust';
+
+  async verify(): Promise<LockVerificationResult> {
+    return { verified: true };
+  }
+}
+
+/**
+ * Requires every wrapped verifier to pass
+ */
+export class CompositeLockVerifier implements LockVerifier {
+  readonly name: string;
+
+  constructor(private readonly verifiers: readonly LockVerifier[]) {
+    this.name = verifiers.map(verifier => verifier.name).join('+');
+  }
+
+  async verify(request: LockVerificationRequest): Promise<LockVerificationResult> {
+    for (const verifier of this.verifiers) {
+      const result = await verifier.verify(request);
+      if (!result.verified) return result;
+    }
+    return { verified: true };
+  }
+}
+
+/**
+ * Deterministic verifier for tests: signatures are accepted or rejected
+ * exactly as scripted, unknown signatures are rejected.
+ */
+export class FakeLockVerifier implements LockVerifier {
+  readonly name = 'fake';
+
+  /** Every request seen, in order */
+  readonly requests: LockVerificationRequest[] = [];
+
+  private outcomes = new Map<TxSignature, LockVerificationResult>();
+
+  accept(txSignature: TxSignature): this {
+    this.outcomes.set(txSignature, { verified: true });
+    return this;
+  }
+
+  reject(txSignature: TxSignature, error: string = 'Transfer not found'): this {
+    this.outcomes.set(txSignature, { verified: false, error });
+    return this;
+  }
+
+  async verify(request: LockVerificationRequest): Promise<LockVerificationResult> {
+    this.requests.push(request);
+    return this.outcomes.get(request.proof.txSignature) ?? { verified: false, error: 'Transfer not found' };
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+function createVerifier(kind: LockVerifierKind, config: Config): LockVerifier {
+  switch (kind) {
+    case 'escrow-balance':
+      return new EscrowBalanceLockVerifier();
+    case 'zk-payment':
+      return new ZkPaymentLockVerifier(PAYMENT_NETWORKS[config.SOLANA_NETWORK]);
+    case 'trust':
+      return new TrustingLockVerifier();
+  }
+}
+
+/**
+ * Create the verifier chain for LOCK_VERIFIER
+ */
+export function createLockVerifier(config: Config): LockVerifier {
+  const verifiers = config.LOCK_VERIFIER.map(kind => createVerifier(kind, config));
+  return verifiers.length === 1 ? verifiers[0]! : new CompositeLockVerifier(verifiers);
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+let _verifier: LockVerifier | null = null;
+
+export function getLockVerifier(): LockVerifier {
+  if (!_verifier) {
+    _verifier = createLockVerifier(getConfig());
+  }
+  return _verifier;
+}
+
+// For testing - allows swapping the verifier
+export function setLockVerifier(verifier: LockVerifier | null): void {
+  _verifier = verifier;
+}
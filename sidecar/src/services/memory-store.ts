@@ -1,16 +1,27 @@
 /**
- * In-Memory Store - Redis Replacement
+ * In-Memory Store - Default DuelStore Backend
  *
  * Provides in-memory storage with TTL support for:
  * - Duel sessions
  * - Dust accumulation
  * - Recovery tracking
  *
- * Note: Data is lost on restart. For production with persistence
- * requirements, consider adding periodic snapshots to disk.
+ * Note: Data is lost on restart. Set STORE_BACKEND=file for a
+ * durable backend (see file-store.ts).
  */
 
-import type { DuelSession } from '../types/index.js';
+import type {
+  AutoRefundRecord,
+  DuelId,
+  DuelSession,
+  IdempotencyRecord,
+  LockSignatureBinding,
+  SpendingAuthorization,
+} from '../types/index.js';
+import { ACTIVE_JOB_STATUSES, type DuelStore, type DuelStoreStats, type StoreBackend } from './duel-store.js';
+import type { SettlementJob } from './settlement-queue.js';
+import type { WebhookDelivery } from './webhooks.js';
+import type { WalletVaultEntry } from './wallet-vault.js';
 
 // ============================================================================
 // Types
@@ -25,22 +36,54 @@ interface StoredItem<T> {
 // Memory Store
 // ============================================================================
 
-class MemoryStore {
+export class MemoryStore implements DuelStore {
+  readonly backend: StoreBackend = 'memory';
+
   // Duel sessions with TTL
-  private duels = new Map<string, StoredItem<DuelSession>>();
+  protected duels = new Map<string, StoredItem<DuelSession>>();
 
   // Dust accumulation per token (no TTL)
-  private dust = new Map<string, number>();
+  protected dust = new Map<string, bigint>();
 
   // Recovery sets
-  private pendingRecovery = new Set<string>();
-  private failedRecovery = new Set<string>();
+  protected pendingRecovery = new Set<string>();
+  protected failedRecovery = new Set<string>();
+
+  // Automatic refund records
+  protected autoRefunds: AutoRefundRecord[] = [];
+
+  // Stake lock tx signature -> duel/player binding
+  protected lockSignatures = new Map<string, StoredItem<LockSignatureBinding>>();
+
+  // Spending authorizations with TTL
+  protected authorizations = new Map<string, StoredItem<SpendingAuthorization>>();
+
+  // Settlement jobs with TTL
+  protected jobs = new Map<string, StoredItem<SettlementJob>>();
+
+  // Duel ID -> queued or running job ID
+  protected activeJobs = new Map<DuelId, string>();
+
+  // Webhook deliveries with TTL
+  protected webhookDeliveries = new Map<string, StoredItem<WebhookDelivery>>();
+
+  // Encrypted duel wallets with TTL
+  protected vaultEntries = new Map<string, StoredItem<WalletVaultEntry>>();
+
+  // Used game server signature nonces -> expiry timestamp
+  protected nonces = new Map<string, number>();
+
+  // Per-duel locks (process-local)
+  private locks = new Map<string, { owner: string; expiresAt: number }>();
+
+  // Idempotency records with TTL
+  protected idempotency = new Map<string, StoredItem<IdempotencyRecord>>();
 
   // Cleanup interval handle
   private cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
   // Stats
-  private stats = {
+  protected stats = {
     duelsCreated: 0,
     duelsExpired: 0,
   };
@@ -52,12 +95,14 @@ class MemoryStore {
   /**
    * Start the cleanup interval for expired items
    */
-  initialize(): void {
+  async initialize(): Promise<void> {
     if (this.cleanupInterval) return;
 
     // Run cleanup every 60 seconds
     this.cleanupInterval = setInterval(() => {
-      this.cleanup();
+      this.cleanup().catch((error) => {
+        console.error('[MemoryStore] Cleanup failed:', error);
+      });
     }, 60_000);
 
     console.log('[MemoryStore] Initialized with 60s cleanup interval');
@@ -66,7 +111,7 @@ class MemoryStore {
   /**
    * Stop the cleanup interval and clear all data
    */
-  shutdown(): void {
+  async shutdown(): Promise<void> {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
@@ -76,6 +121,16 @@ class MemoryStore {
     this.dust.clear();
     this.pendingRecovery.clear();
     this.failedRecovery.clear();
+    this.autoRefunds = [];
+    this.lockSignatures.clear();
+    this.authorizations.clear();
+    this.jobs.clear();
+    this.activeJobs.clear();
+    this.webhookDeliveries.clear();
+    this.vaultEntries.clear();
+    this.nonces.clear();
+    this.locks.clear();
+    this.idempotency.clear();
 
     console.log('[MemoryStore] Shutdown complete');
   }
@@ -83,7 +138,7 @@ class MemoryStore {
   /**
    * Clean up expired items
    */
-  private cleanup(): void {
+  async cleanup(): Promise<void> {
     const now = Date.now();
     let expiredCount = 0;
 
@@ -98,6 +153,48 @@ class MemoryStore {
       this.stats.duelsExpired += expiredCount;
       console.log(`[MemoryStore] Cleaned up ${expiredCount} expired duels`);
     }
+
+    for (const [key, item] of this.idempotency) {
+      if (item.expiresAt !== null && item.expiresAt <= now) {
+        this.idempotency.delete(key);
+      }
+    }
+
+    for (const [key, item] of this.lockSignatures) {
+      if (item.expiresAt !== null && item.expiresAt <= now) {
+        this.lockSignatures.delete(key);
+      }
+    }
+
+    for (const [key, item] of this.authorizations) {
+      if (item.expiresAt !== null && item.expiresAt <= now) {
+        this.authorizations.delete(key);
+      }
+    }
+
+    for (const [key, item] of this.jobs) {
+      if (item.expiresAt !== null && item.expiresAt <= now) {
+        this.jobs.delete(key);
+      }
+    }
+
+    for (const [key, item] of this.webhookDeliveries) {
+      if (item.expiresAt !== null && item.expiresAt <= now) {
+        this.webhookDeliveries.delete(key);
+      }
+    }
+
+    for (const [key, item] of this.vaultEntries) {
+      if (item.expiresAt !== null && item.expiresAt <= now) {
+        this.vaultEntries.delete(key);
+      }
+    }
+
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt <= now) {
+        this.nonces.delete(nonce);
+      }
+    }
   }
 
   // ============================================================================
@@ -107,7 +204,7 @@ class MemoryStore {
   /**
    * Store a duel session with TTL
    */
-  setDuel(duelId: string, duel: DuelSession, ttlMs: number): void {
+  async setDuel(duelId: string, duel: DuelSession, ttlMs: number): Promise<void> {
     const expiresAt = Date.now() + ttlMs;
     this.duels.set(duelId, { data: duel, expiresAt });
     this.stats.duelsCreated++;
@@ -116,7 +213,7 @@ class MemoryStore {
   /**
    * Get a duel session (returns null if expired or not found)
    */
-  getDuel(duelId: string): DuelSession | null {
+  async getDuel(duelId: string): Promise<DuelSession | null> {
     const item = this.duels.get(duelId);
 
     if (!item) return null;
@@ -133,21 +230,21 @@ class MemoryStore {
   /**
    * Delete a duel session
    */
-  deleteDuel(duelId: string): boolean {
+  async deleteDuel(duelId: string): Promise<boolean> {
     return this.duels.delete(duelId);
   }
 
   /**
    * Check if a duel exists
    */
-  hasDuel(duelId: string): boolean {
-    return this.getDuel(duelId) !== null;
+  async hasDuel(duelId: string): Promise<boolean> {
+    return (await this.getDuel(duelId)) !== null;
   }
 
   /**
    * Get all active duels (not expired)
    */
-  getAllDuels(): DuelSession[] {
+  async getAllDuels(): Promise<DuelSession[]> {
     const now = Date.now();
     const result: DuelSession[] = [];
 
@@ -167,23 +264,23 @@ class MemoryStore {
   /**
    * Add to dust accumulation for a token
    */
-  accumulateDust(token: string, amount: number): void {
-    const current = this.dust.get(token) || 0;
+  async accumulateDust(token: string, amount: bigint): Promise<void> {
+    const current = this.dust.get(token) ?? 0n;
     this.dust.set(token, current + amount);
   }
 
   /**
    * Get accumulated dust for a token
    */
-  getDust(token: string): number {
-    return this.dust.get(token) || 0;
+  async getDust(token: string): Promise<bigint> {
+    return this.dust.get(token) ?? 0n;
   }
 
   /**
    * Reset dust for a token (after sweep)
    */
-  resetDust(token: string): void {
-    this.dust.set(token, 0);
+  async resetDust(token: string): Promise<void> {
+    this.dust.set(token, 0n);
   }
 
   // ============================================================================
@@ -193,45 +290,350 @@ class MemoryStore {
   /**
    * Add duel to pending recovery
    */
-  addPendingRecovery(duelId: string): void {
+  async addPendingRecovery(duelId: string): Promise<void> {
     this.pendingRecovery.add(duelId);
   }
 
   /**
    * Remove duel from pending recovery
    */
-  removePendingRecovery(duelId: string): void {
+  async removePendingRecovery(duelId: string): Promise<void> {
     this.pendingRecovery.delete(duelId);
   }
 
   /**
    * Get all pending recovery duels
    */
-  getPendingRecovery(): string[] {
+  async getPendingRecovery(): Promise<string[]> {
     return Array.from(this.pendingRecovery);
   }
 
   /**
    * Add duel to failed recovery
    */
-  addFailedRecovery(duelId: string): void {
+  async addFailedRecovery(duelId: string): Promise<void> {
     this.failedRecovery.add(duelId);
   }
 
   /**
    * Remove duel from failed recovery
    */
-  removeFailedRecovery(duelId: string): void {
+  async removeFailedRecovery(duelId: string): Promise<void> {
     this.failedRecovery.delete(duelId);
   }
 
   /**
    * Get all failed recovery duels
    */
-  getFailedRecovery(): string[] {
+  async getFailedRecovery(): Promise<string[]> {
     return Array.from(this.failedRecovery);
   }
 
+  // ============================================================================
+  // Auto Refund Records
+  // ============================================================================
+
+  /**
+   * Record an automatic refund
+   */
+  async recordAutoRefund(record: AutoRefundRecord): Promise<void> {
+    this.autoRefunds.push(record);
+  }
+
+  /**
+   * Get all automatic refund records (oldest first)
+   */
+  async getAutoRefunds(): Promise<AutoRefundRecord[]> {
+    return [...this.autoRefunds];
+  }
+
+  // ============================================================================
+  // Lock Signatures
+  // ============================================================================
+
+  /**
+   * Bind a stake lock signature unless it is already bound (returns the existing binding)
+   */
+  async bindLockSignature(binding: LockSignatureBinding, ttlMs: number): Promise<LockSignatureBinding | null> {
+    const existing = this.lockSignatures.get(binding.txSignature);
+    if (existing && (existing.expiresAt === null || existing.expiresAt > Date.now())) {
+      return existing.data;
+    }
+
+    this.lockSignatures.set(binding.txSignature, { data: binding, expiresAt: Date.now() + ttlMs });
+    return null;
+  }
+
+  // ============================================================================
+  // Spending Authorizations
+  // ============================================================================
+
+  /**
+   * Store or overwrite a spending authorization
+   */
+  async setAuthorization(authorization: SpendingAuthorization, ttlMs: number): Promise<void> {
+    this.authorizations.set(authorization.authorizationId, {
+      data: authorization,
+      expiresAt: Date.now() + ttlMs,
+    });
+  }
+
+  /**
+   * Get a spending authorization (null if missing or expired)
+   */
+  async getAuthorization(authorizationId: string): Promise<SpendingAuthorization | null> {
+    const item = this.authorizations.get(authorizationId);
+    if (!item) return null;
+
+    if (item.expiresAt !== null && item.expiresAt <= Date.now()) {
+      this.authorizations.delete(authorizationId);
+      return null;
+    }
+
+    return item.data;
+  }
+
+  /**
+   * Get all spending authorizations (not expired)
+   */
+  async getAllAuthorizations(): Promise<SpendingAuthorization[]> {
+    const now = Date.now();
+    const result: SpendingAuthorization[] = [];
+
+    for (const item of this.authorizations.values()) {
+      if (item.expiresAt === null || item.expiresAt > now) {
+        result.push(item.data);
+      }
+    }
+
+    return result;
+  }
+
+  // ============================================================================
+  // Settlement Jobs
+  // ============================================================================
+
+  /**
+   * Store or overwrite a settlement job
+   */
+  async setJob(job: SettlementJob, ttlMs: number): Promise<void> {
+    this.jobs.set(job.jobId, { data: job, expiresAt: Date.now() + ttlMs });
+    this.indexActiveJob(job);
+  }
+
+  /**
+   * Get a settlement job (null if missing or expired)
+   */
+  async getJob(jobId: string): Promise<SettlementJob | null> {
+    const item = this.jobs.get(jobId);
+    if (!item) return null;
+
+    if (item.expiresAt !== null && item.expiresAt <= Date.now()) {
+      this.jobs.delete(jobId);
+      return null;
+    }
+
+    return item.data;
+  }
+
+  /**
+   * Get all settlement jobs (not expired)
+   */
+  async getAllJobs(): Promise<SettlementJob[]> {
+    const now = Date.now();
+    const result: SettlementJob[] = [];
+
+    for (const item of this.jobs.values()) {
+      if (item.expiresAt === null || item.expiresAt > now) {
+        result.push(item.data);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the queued or running job for a duel
+   */
+  async getActiveJob(duelId: DuelId): Promise<SettlementJob | null> {
+    const jobId = this.activeJobs.get(duelId);
+    if (jobId === undefined) return null;
+
+    const job = await this.getJob(jobId);
+    if (!job || !ACTIVE_JOB_STATUSES.has(job.status)) {
+      this.activeJobs.delete(duelId);
+      return null;
+    }
+
+    return job;
+  }
+
+  /**
+   * Point the duel's active-job index at `job` while it is active, clear it after
+   */
+  protected indexActiveJob(job: SettlementJob): void {
+    if (ACTIVE_JOB_STATUSES.has(job.status)) {
+      this.activeJobs.set(job.duelId, job.jobId);
+    } else if (this.activeJobs.get(job.duelId) === job.jobId) {
+      this.activeJobs.delete(job.duelId);
+    }
+  }
+
+  // ============================================================================
+  // Webhook Deliveries
+  // ============================================================================
+
+  /**
+   * Store or overwrite a webhook delivery
+   */
+  async setWebhookDelivery(delivery: WebhookDelivery, ttlMs: number): Promise<void> {
+    this.webhookDeliveries.set(delivery.deliveryId, { data: delivery, expiresAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * Get a webhook delivery (null if missing or expired)
+   */
+  async getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const item = this.webhookDeliveries.get(deliveryId);
+    if (!item) return null;
+
+    if (item.expiresAt !== null && item.expiresAt <= Date.now()) {
+      this.webhookDeliveries.delete(deliveryId);
+      return null;
+    }
+
+    return item.data;
+  }
+
+  /**
+   * Get all webhook deliveries (not expired)
+   */
+  async getAllWebhookDeliveries(): Promise<WebhookDelivery[]> {
+    const now = Date.now();
+    const result: WebhookDelivery[] = [];
+
+    for (const item of this.webhookDeliveries.values()) {
+      if (item.expiresAt === null || item.expiresAt > now) {
+        result.push(item.data);
+      }
+    }
+
+    return result;
+  }
+
+  // ============================================================================
+  // Wallet Vault
+  // ============================================================================
+
+  /**
+   * Store or overwrite a duel's encrypted wallets
+   */
+  async setVaultEntry(entry: WalletVaultEntry, ttlMs: number): Promise<void> {
+    this.vaultEntries.set(entry.duelId, { data: entry, expiresAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * Get a duel's encrypted wallets (null if missing or expired)
+   */
+  async getVaultEntry(duelId: string): Promise<WalletVaultEntry | null> {
+    const item = this.vaultEntries.get(duelId);
+    if (!item) return null;
+
+    if (item.expiresAt !== null && item.expiresAt <= Date.now()) {
+      this.vaultEntries.delete(duelId);
+      return null;
+    }
+
+    return item.data;
+  }
+
+  /**
+   * Delete a duel's encrypted wallets
+   */
+  async deleteVaultEntry(duelId: string): Promise<void> {
+    this.vaultEntries.delete(duelId);
+  }
+
+  // ============================================================================
+  // Nonces
+  // ============================================================================
+
+  /**
+   * Record a nonce unless it is already in use (returns false on reuse)
+   */
+  async claimNonce(nonce: string, ttlMs: number): Promise<boolean> {
+    const expiresAt = this.nonces.get(nonce);
+    if (expiresAt !== undefined && expiresAt > Date.now()) {
+      return false;
+    }
+
+    this.nonces.set(nonce, Date.now() + ttlMs);
+    return true;
+  }
+
+  // ============================================================================
+  // Locks
+  // ============================================================================
+
+  /**
+   * Acquire a lock (fails if held by another owner and not expired)
+   */
+  async acquireLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const current = this.locks.get(key);
+
+    if (current && current.expiresAt > now && current.owner !== owner) {
+      return false;
+    }
+
+    this.locks.set(key, { owner, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  /**
+   * Release a lock if still held by this owner
+   */
+  async releaseLock(key: string, owner: string): Promise<void> {
+    if (this.locks.get(key)?.owner === owner) {
+      this.locks.delete(key);
+    }
+  }
+
+  // ============================================================================
+  // Idempotency Records
+  // ============================================================================
+
+  /**
+   * Store a record unless one exists (returns the existing record)
+   */
+  async claimIdempotencyKey(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<IdempotencyRecord | null> {
+    const existing = this.idempotency.get(key);
+    if (existing && (existing.expiresAt === null || existing.expiresAt > Date.now())) {
+      return existing.data;
+    }
+
+    await this.setIdempotencyRecord(key, record, ttlMs);
+    return null;
+  }
+
+  /**
+   * Store or overwrite an idempotency record
+   */
+  async setIdempotencyRecord(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    this.idempotency.set(key, { data: record, expiresAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * Forget an idempotency key (so the request can be retried)
+   */
+  async deleteIdempotencyKey(key: string): Promise<void> {
+    this.idempotency.delete(key);
+  }
+
   // ============================================================================
   // Stats & Health
   // ============================================================================
@@ -239,16 +641,9 @@ class MemoryStore {
   /**
    * Get store statistics
    */
-  getStats(): {
-    activeDuels: number;
-    duelsCreated: number;
-    duelsExpired: number;
-    dustTokens: number;
-    pendingRecovery: number;
-    failedRecovery: number;
-  } {
+  async getStats(): Promise<DuelStoreStats> {
     // Trigger cleanup to get accurate count
-    this.cleanup();
+    await this.cleanup();
 
     return {
       activeDuels: this.duels.size,
@@ -263,13 +658,7 @@ class MemoryStore {
   /**
    * Check if store is healthy (always true for in-memory)
    */
-  isHealthy(): boolean {
+  async isHealthy(): Promise<boolean> {
     return true;
   }
 }
-
-// ============================================================================
-// Singleton Export
-// ============================================================================
-
-export const memoryStore = new MemoryStore();
@@ -0,0 +1,174 @@
+/**
+ * Mock Transfers - 'mock' TransferProvider
+ *
+ * In-memory pool balances and fake transaction signatures, so the full duel
+ * flow can be exercised on devnet (ShadowWire only supports mainnet-beta)
+ * and in tests. Nothing leaves the process. Config only allows it on
+ * devnet outside production; seed balances with /test-api.
+ */
+
+import { getConfig } from '../config.js';
+import type { WalletAddress } from '../types/index.js';
+import { Amount } from './amount.js';
+import { maskWallet } from './stealth.js';
+import {
+  loadPoolKeypairs,
+  transferFeeInfo,
+  type BalanceResult,
+  type DepositResult,
+  type TransferFeeInfo,
+  type TransferProvider,
+  type TransferResult,
+  type WithdrawResult,
+} from './transfer-provider.js';
+
+// ============================================================================
+// Mock Transfer Provider
+// ============================================================================
+
+export class MockTransferProvider implements TransferProvider {
+  readonly name = 'mock';
+
+  private escrowWallet: WalletAddress = '';
+  private treasuryWallet: WalletAddress = '';
+  private initialized = false;
+
+  /** Wallet -> token -> smallest units */
+  private balances = new Map<WalletAddress, Map<string, bigint>>();
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    const { escrow, treasury } = loadPoolKeypairs(getConfig());
+    this.escrowWallet = escrow.publicKey.toBase58();
+    this.treasuryWallet = treasury.publicKey.toBase58();
+    this.initialized = true;
+
+    console.warn('[ShadowWire:MOCK] Mock transfers: no funds move, signatures are fake');
+  }
+
+  getEscrowWallet(): WalletAddress {
+    return this.escrowWallet;
+  }
+
+  getTreasuryWallet(): WalletAddress {
+    return this.treasuryWallet;
+  }
+
+  feeInfo(token: string): TransferFeeInfo {
+    return transferFeeInfo(token);
+  }
+
+  async getBalance(wallet: WalletAddress, token: string = 'SOL'): Promise<BalanceResult> {
+    const balance = this.balanceOf(wallet, token);
+    console.log(`[ShadowWire:MOCK] Balance check for ${maskWallet(wallet)}: ${balance.toDisplay()}`);
+
+    return {
+      success: true,
+      balance,
+      poolAddress: `mock_pool_${wallet.slice(0, 8)}`,
+    };
+  }
+
+  /**
+   * Move funds between mock balances; fails if the escrow wallet is short
+   */
+  async transferFromEscrow(recipientWallet: WalletAddress, amount: Amount): Promise<TransferResult> {
+    if (!this.initialized) {
+      return { success: false, error: 'Service not initialized' };
+    }
+
+    const senderBalance = this.balanceOf(this.escrowWallet, amount.token);
+    if (senderBalance.lt(amount)) {
+      console.log(`[ShadowWire:MOCK] Insufficient balance: ${senderBalance.toDisplay()} < ${amount.toDisplay()}`);
+      return { success: false, error: 'Insufficient balance' };
+    }
+
+    this.setBalance(this.escrowWallet, senderBalance.minus(amount));
+    this.setBalance(recipientWallet, this.balanceOf(recipientWallet, amount.token).plus(amount));
+
+    const txSignature = `mock_tx_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+    console.log(
+      `[ShadowWire:MOCK] Transfer: ${maskWallet(this.escrowWallet)} -> ${maskWallet(recipientWallet)} = ${amount.toDisplay()}`
+    );
+
+    return { success: true, txSignature };
+  }
+
+  async transferToTreasury(amount: Amount): Promise<TransferResult> {
+    return this.transferFromEscrow(this.treasuryWallet, amount);
+  }
+
+  /**
+   * Credit the wallet at once (there is no transaction to sign)
+   */
+  async createDeposit(wallet: WalletAddress, amount: Amount): Promise<DepositResult> {
+    const total = this.balanceOf(wallet, amount.token).plus(amount);
+    this.setBalance(wallet, total);
+    console.log(`[ShadowWire:MOCK] Deposit: ${maskWallet(wallet)} += ${amount.toDisplay()} (total: ${total.toDisplay()})`);
+
+    return {
+      success: true,
+      unsignedTxBase64: 'mock_unsigned_tx_base64',
+      poolAddress: `mock_pool_${wallet.slice(0, 8)}`,
+    };
+  }
+
+  /**
+   * Debit the wallet at once
+   */
+  async createWithdrawal(wallet: WalletAddress, amount: Amount): Promise<WithdrawResult> {
+    const balance = this.balanceOf(wallet, amount.token);
+    if (balance.lt(amount)) {
+      return { success: false, error: 'Insufficient balance' };
+    }
+
+    this.setBalance(wallet, balance.minus(amount));
+    console.log(`[ShadowWire:MOCK] Withdraw: ${maskWallet(wallet)} -= ${amount.toDisplay()}`);
+
+    return { success: true, txSignature: `mock_withdraw_${Date.now()}` };
+  }
+
+  // ==========================================================================
+  // Test Helpers
+  // ==========================================================================
+
+  /**
+   * Set a wallet's mock balance in the amount's token
+   */
+  seedBalance(wallet: WalletAddress, amount: Amount): void {
+    this.setBalance(wallet, amount);
+    console.log(`[ShadowWire:MOCK] Seeded ${maskWallet(wallet)} with ${amount.toDisplay()}`);
+  }
+
+  /**
+   * Every non-empty mock balance
+   */
+  getBalances(): Array<{ wallet: WalletAddress; balance: Amount }> {
+    const result: Array<{ wallet: WalletAddress; balance: Amount }> = [];
+    for (const [wallet, tokens] of this.balances) {
+      for (const [token, units] of tokens) {
+        result.push({ wallet, balance: Amount.fromUnits(token, units) });
+      }
+    }
+    return result;
+  }
+
+  clearBalances(): void {
+    this.balances.clear();
+    console.log('[ShadowWire:MOCK] Cleared all mock balances');
+  }
+
+  private balanceOf(wallet: WalletAddress, token: string): Amount {
+    return Amount.fromUnits(token, this.balances.get(wallet)?.get(token) ?? 0n);
+  }
+
+  private setBalance(wallet: WalletAddress, balance: Amount): void {
+    let tokens = this.balances.get(wallet);
+    if (!tokens) {
+      tokens = new Map();
+      this.balances.set(wallet, tokens);
+    }
+    tokens.set(balance.token, balance.units);
+  }
+}
@@ -0,0 +1,547 @@
+/**
+ * Redis Store - Shared DuelStore Backend
+ *
+ * Lets several sidecar replicas behind a load balancer share duel state:
+ * - Duel sessions are keys with native PX expiry
+ * - A sorted set indexes duel IDs by expiry (for listing and expiry stats)
+ * - Dust is a hash updated with HINCRBY, so concurrent increments never race
+ * - Recovery lists are Redis sets
+ * - Automatic refund records are an append-only list
+ * - Spending authorizations and sealed duel wallets are keys with native PX expiry
+ * - Settlement jobs and webhook deliveries are keys with native PX expiry,
+ *   indexed like duels; each duel's queued or running job is also kept
+ *   under its own key
+ * - Stake lock signatures are bound with SET NX PX under their own keys, so a
+ *   signature is accepted once while its binding lasts
+ * - Locks, idempotency keys and signature nonces use SET NX PX, so they hold
+ *   across replicas
+ *
+ * The client is injected so tests can pass an in-process Redis stand-in.
+ */
+
+import { Redis } from 'ioredis';
+import type {
+  AutoRefundRecord,
+  DuelId,
+  DuelSession,
+  IdempotencyRecord,
+  LockSignatureBinding,
+  SpendingAuthorization,
+} from '../types/index.js';
+import type { DuelStore, DuelStoreStats, StoreBackend } from './duel-store.js';
+import { ACTIVE_JOB_STATUSES, serialize, deserialize } from './duel-store.js';
+import type { SettlementJob } from './settlement-queue.js';
+import type { WebhookDelivery } from './webhooks.js';
+import type { WalletVaultEntry } from './wallet-vault.js';
+
+// Delete a key only if it still holds the expected value (a lock's owner,
+// an active-job index entry's job ID)
+const DELETE_IF_EQUALS_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+// ============================================================================
+// Redis Store
+// ============================================================================
+
+export class RedisStore implements DuelStore {
+  readonly backend: StoreBackend = 'redis';
+
+  // Cleanup interval handle
+  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly client: Redis,
+    private readonly keyPrefix: string = 'alerith:'
+  ) {}
+
+  // ============================================================================
+  // Keys
+  // ============================================================================
+
+  private duelKey(duelId: string): string {
+    return `${this.keyPrefix}duel:${duelId}`;
+  }
+
+  private get duelIndexKey(): string {
+    return `${this.keyPrefix}duels:by-expiry`;
+  }
+
+  private get dustKey(): string {
+    return `${this.keyPrefix}dust`;
+  }
+
+  private get pendingRecoveryKey(): string {
+    return `${this.keyPrefix}recovery:pending`;
+  }
+
+  private get failedRecoveryKey(): string {
+    return `${this.keyPrefix}recovery:failed`;
+  }
+
+  private get autoRefundsKey(): string {
+    return `${this.keyPrefix}auto-refunds`;
+  }
+
+  private lockSignatureKey(txSignature: string): string {
+    return `${this.keyPrefix}lock-signature:${txSignature}`;
+  }
+
+  private lockKey(key: string): string {
+    return `${this.keyPrefix}lock:${key}`;
+  }
+
+  private authorizationKey(authorizationId: string): string {
+    return `${this.keyPrefix}authorization:${authorizationId}`;
+  }
+
+  private get authorizationIndexKey(): string {
+    return `${this.keyPrefix}authorizations:by-expiry`;
+  }
+
+  private jobKey(jobId: string): string {
+    return `${this.keyPrefix}job:${jobId}`;
+  }
+
+  private get jobIndexKey(): string {
+    return `${this.keyPrefix}jobs:by-expiry`;
+  }
+
+  /** Duel ID -> its queued or running job ID */
+  private activeJobKey(duelId: string): string {
+    return `${this.keyPrefix}job-active:${duelId}`;
+  }
+
+  private webhookKey(deliveryId: string): string {
+    return `${this.keyPrefix}webhook:${deliveryId}`;
+  }
+
+  private get webhookIndexKey(): string {
+    return `${this.keyPrefix}webhooks:by-expiry`;
+  }
+
+  private vaultKey(duelId: string): string {
+    return `${this.keyPrefix}vault:${duelId}`;
+  }
+
+  private nonceKey(nonce: string): string {
+    return `${this.keyPrefix}nonce:${nonce}`;
+  }
+
+  private idempotencyKey(key: string): string {
+    return `${this.keyPrefix}idempotency:${key}`;
+  }
+
+  private get statsKey(): string {
+    return `${this.keyPrefix}stats`;
+  }
+
+  // ============================================================================
+  // Initialization
+  // ============================================================================
+
+  /**
+   * Connect (if needed) and start the index cleanup interval
+   */
+  async initialize(): Promise<void> {
+    if (this.cleanupInterval) return;
+
+    if (this.client.status === 'wait') {
+      await this.client.connect();
+    }
+
+    // Duel keys expire natively; this only prunes the expiry index
+    this.cleanupInterval = setInterval(() => {
+      this.cleanup().catch((error) => {
+        console.error('[RedisStore] Cleanup failed:', error);
+      });
+    }, 60_000);
+
+    console.log(`[RedisStore] Initialized (prefix: ${this.keyPrefix})`);
+  }
+
+  /**
+   * Stop the cleanup interval and close the connection (data is kept)
+   */
+  async shutdown(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+
+    await this.client.quit();
+    console.log('[RedisStore] Shutdown complete');
+  }
+
+  /**
+   * Prune expired duel, authorization, job and webhook IDs from their indexes and count expired duels
+   */
+  async cleanup(): Promise<void> {
+    await this.client.zremrangebyscore(this.authorizationIndexKey, '-inf', Date.now());
+    await this.client.zremrangebyscore(this.jobIndexKey, '-inf', Date.now());
+    await this.client.zremrangebyscore(this.webhookIndexKey, '-inf', Date.now());
+
+    const expired = await this.client.zrangebyscore(this.duelIndexKey, '-inf', Date.now());
+    if (expired.length === 0) return;
+
+    // ZREM returns how many this replica actually removed, so concurrent
+    // cleanups on other replicas don't double-count
+    const removed = await this.client.zrem(this.duelIndexKey, ...expired);
+
+    if (removed > 0) {
+      await this.client.hincrby(this.statsKey, 'duelsExpired', removed);
+      console.log(`[RedisStore] Cleaned up ${removed} expired duels`);
+    }
+  }
+
+  // ============================================================================
+  // Duel Operations
+  // ============================================================================
+
+  async setDuel(duelId: string, duel: DuelSession, ttlMs: number): Promise<void> {
+    const ttl = Math.max(Math.floor(ttlMs), 1);
+    const expiresAt = Date.now() + ttl;
+
+    await this.client
+      .multi()
+      .set(this.duelKey(duelId), serialize(duel), 'PX', ttl)
+      .zadd(this.duelIndexKey, expiresAt, duelId)
+      .hincrby(this.statsKey, 'duelsCreated', 1)
+      .exec();
+  }
+
+  async getDuel(duelId: string): Promise<DuelSession | null> {
+    const raw = await this.client.get(this.duelKey(duelId));
+    return raw === null ? null : deserialize<DuelSession>(raw);
+  }
+
+  async deleteDuel(duelId: string): Promise<boolean> {
+    const results = await this.client
+      .multi()
+      .del(this.duelKey(duelId))
+      .zrem(this.duelIndexKey, duelId)
+      .exec();
+
+    const deleted = results?.[0]?.[1];
+    return typeof deleted === 'number' && deleted > 0;
+  }
+
+  async hasDuel(duelId: string): Promise<boolean> {
+    return (await this.client.exists(this.duelKey(duelId))) === 1;
+  }
+
+  async getAllDuels(): Promise<DuelSession[]> {
+    const duelIds = await this.client.zrangebyscore(this.duelIndexKey, `(${Date.now()}`, '+inf');
+    if (duelIds.length === 0) return [];
+
+    const raws = await this.client.mget(duelIds.map(id => this.duelKey(id)));
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map(raw => deserialize<DuelSession>(raw));
+  }
+
+  // ============================================================================
+  // Dust Operations
+  // ============================================================================
+
+  async accumulateDust(token: string, amount: bigint): Promise<void> {
+    await this.client.hincrby(this.dustKey, token, amount.toString());
+  }
+
+  async getDust(token: string): Promise<bigint> {
+    const raw = await this.client.hget(this.dustKey, token);
+    return raw === null ? 0n : BigInt(raw);
+  }
+
+  async resetDust(token: string): Promise<void> {
+    await this.client.hset(this.dustKey, token, 0);
+  }
+
+  // ============================================================================
+  // Recovery Operations
+  // ============================================================================
+
+  async addPendingRecovery(duelId: string): Promise<void> {
+    await this.client.sadd(this.pendingRecoveryKey, duelId);
+  }
+
+  async removePendingRecovery(duelId: string): Promise<void> {
+    await this.client.srem(this.pendingRecoveryKey, duelId);
+  }
+
+  async getPendingRecovery(): Promise<string[]> {
+    return this.client.smembers(this.pendingRecoveryKey);
+  }
+
+  async addFailedRecovery(duelId: string): Promise<void> {
+    await this.client.sadd(this.failedRecoveryKey, duelId);
+  }
+
+  async removeFailedRecovery(duelId: string): Promise<void> {
+    await this.client.srem(this.failedRecoveryKey, duelId);
+  }
+
+  async getFailedRecovery(): Promise<string[]> {
+    return this.client.smembers(this.failedRecoveryKey);
+  }
+
+  // ============================================================================
+  // Auto Refund Records
+  // ============================================================================
+
+  async recordAutoRefund(record: AutoRefundRecord): Promise<void> {
+    await this.client.rpush(this.autoRefundsKey, serialize(record));
+  }
+
+  async getAutoRefunds(): Promise<AutoRefundRecord[]> {
+    const raws = await this.client.lrange(this.autoRefundsKey, 0, -1);
+    return raws.map(raw => deserialize<AutoRefundRecord>(raw));
+  }
+
+  // ============================================================================
+  // Lock Signatures
+  // ============================================================================
+
+  async bindLockSignature(binding: LockSignatureBinding, ttlMs: number): Promise<LockSignatureBinding | null> {
+    const key = this.lockSignatureKey(binding.txSignature);
+    const result = await this.client.set(key, serialize(binding), 'PX', Math.max(Math.floor(ttlMs), 1), 'NX');
+    if (result === 'OK') return null;
+
+    const raw = await this.client.get(key);
+    // Expired between SET and GET - bind again
+    if (raw === null) {
+      return this.bindLockSignature(binding, ttlMs);
+    }
+    return deserialize<LockSignatureBinding>(raw);
+  }
+
+  // ============================================================================
+  // Spending Authorizations
+  // ============================================================================
+
+  async setAuthorization(authorization: SpendingAuthorization, ttlMs: number): Promise<void> {
+    const ttl = Math.max(Math.floor(ttlMs), 1);
+
+    await this.client
+      .multi()
+      .set(this.authorizationKey(authorization.authorizationId), serialize(authorization), 'PX', ttl)
+      .zadd(this.authorizationIndexKey, Date.now() + ttl, authorization.authorizationId)
+      .exec();
+  }
+
+  async getAuthorization(authorizationId: string): Promise<SpendingAuthorization | null> {
+    const raw = await this.client.get(this.authorizationKey(authorizationId));
+    return raw === null ? null : deserialize<SpendingAuthorization>(raw);
+  }
+
+  async getAllAuthorizations(): Promise<SpendingAuthorization[]> {
+    const authorizationIds = await this.client.zrangebyscore(this.authorizationIndexKey, `(${Date.now()}`, '+inf');
+    if (authorizationIds.length === 0) return [];
+
+    const raws = await this.client.mget(authorizationIds.map(id => this.authorizationKey(id)));
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map(raw => deserialize<SpendingAuthorization>(raw));
+  }
+
+  // ============================================================================
+  // Settlement Jobs
+  // ============================================================================
+
+  async setJob(job: SettlementJob, ttlMs: number): Promise<void> {
+    const ttl = Math.max(Math.floor(ttlMs), 1);
+
+    const multi = this.client
+      .multi()
+      .set(this.jobKey(job.jobId), serialize(job), 'PX', ttl)
+      .zadd(this.jobIndexKey, Date.now() + ttl, job.jobId);
+
+    const active = ACTIVE_JOB_STATUSES.has(job.status);
+    if (active) {
+      multi.set(this.activeJobKey(job.duelId), job.jobId, 'PX', ttl);
+    }
+    await multi.exec();
+
+    // A finished job clears the index only if a newer job has not taken it
+    // (getActiveJob re-checks the status, so a failure here is harmless)
+    if (!active) {
+      await this.client.eval(DELETE_IF_EQUALS_SCRIPT, 1, this.activeJobKey(job.duelId), job.jobId);
+    }
+  }
+
+  async getJob(jobId: string): Promise<SettlementJob | null> {
+    const raw = await this.client.get(this.jobKey(jobId));
+    return raw === null ? null : deserialize<SettlementJob>(raw);
+  }
+
+  async getActiveJob(duelId: DuelId): Promise<SettlementJob | null> {
+    const jobId = await this.client.get(this.activeJobKey(duelId));
+    if (jobId === null) return null;
+
+    const job = await this.getJob(jobId);
+    return job && ACTIVE_JOB_STATUSES.has(job.status) ? job : null;
+  }
+
+  async getAllJobs(): Promise<SettlementJob[]> {
+    const jobIds = await this.client.zrangebyscore(this.jobIndexKey, `(${Date.now()}`, '+inf');
+    if (jobIds.length === 0) return [];
+
+    const raws = await this.client.mget(jobIds.map(id => this.jobKey(id)));
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map(raw => deserialize<SettlementJob>(raw));
+  }
+
+  // ============================================================================
+  // Webhook Deliveries
+  // ============================================================================
+
+  async setWebhookDelivery(delivery: WebhookDelivery, ttlMs: number): Promise<void> {
+    const ttl = Math.max(Math.floor(ttlMs), 1);
+
+    await this.client
+      .multi()
+      .set(this.webhookKey(delivery.deliveryId), serialize(delivery), 'PX', ttl)
+      .zadd(this.webhookIndexKey, Date.now() + ttl, delivery.deliveryId)
+      .exec();
+  }
+
+  async getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const raw = await this.client.get(this.webhookKey(deliveryId));
+    return raw === null ? null : deserialize<WebhookDelivery>(raw);
+  }
+
+  async getAllWebhookDeliveries(): Promise<WebhookDelivery[]> {
+    const deliveryIds = await this.client.zrangebyscore(this.webhookIndexKey, `(${Date.now()}`, '+inf');
+    if (deliveryIds.length === 0) return [];
+
+    const raws = await this.client.mget(deliveryIds.map(id => this.webhookKey(id)));
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map(raw => deserialize<WebhookDelivery>(raw));
+  }
+
+  // ============================================================================
+  // Wallet Vault
+  // ============================================================================
+
+  async setVaultEntry(entry: WalletVaultEntry, ttlMs: number): Promise<void> {
+    await this.client.set(this.vaultKey(entry.duelId), serialize(entry), 'PX', Math.max(Math.floor(ttlMs), 1));
+  }
+
+  async getVaultEntry(duelId: string): Promise<WalletVaultEntry | null> {
+    const raw = await this.client.get(this.vaultKey(duelId));
+    return raw === null ? null : deserialize<WalletVaultEntry>(raw);
+  }
+
+  async deleteVaultEntry(duelId: string): Promise<void> {
+    await this.client.del(this.vaultKey(duelId));
+  }
+
+  // ============================================================================
+  // Nonces
+  // ============================================================================
+
+  async claimNonce(nonce: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.set(this.nonceKey(nonce), '1', 'PX', Math.max(Math.floor(ttlMs), 1), 'NX');
+    return result === 'OK';
+  }
+
+  // ============================================================================
+  // Locks
+  // ============================================================================
+
+  async acquireLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.set(this.lockKey(key), owner, 'PX', Math.max(Math.floor(ttlMs), 1), 'NX');
+    return result === 'OK';
+  }
+
+  async releaseLock(key: string, owner: string): Promise<void> {
+    await this.client.eval(DELETE_IF_EQUALS_SCRIPT, 1, this.lockKey(key), owner);
+  }
+
+  // ============================================================================
+  // Idempotency Records
+  // ============================================================================
+
+  async claimIdempotencyKey(
+    key: string,
+    record: IdempotencyRecord,
+    ttlMs: number
+  ): Promise<IdempotencyRecord | null> {
+    const redisKey = this.idempotencyKey(key);
+    const claimed = await this.client.set(redisKey, serialize(record), 'PX', Math.max(Math.floor(ttlMs), 1), 'NX');
+    if (claimed === 'OK') return null;
+
+    const raw = await this.client.get(redisKey);
+    // Expired between SET and GET - treat as a fresh claim
+    if (raw === null) {
+      return this.claimIdempotencyKey(key, record, ttlMs);
+    }
+    return deserialize<IdempotencyRecord>(raw);
+  }
+
+  async setIdempotencyRecord(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    await this.client.set(this.idempotencyKey(key), serialize(record), 'PX', Math.max(Math.floor(ttlMs), 1));
+  }
+
+  async deleteIdempotencyKey(key: string): Promise<void> {
+    await this.client.del(this.idempotencyKey(key));
+  }
+
+  // ============================================================================
+  // Stats & Health
+  // ============================================================================
+
+  async getStats(): Promise<DuelStoreStats> {
+    await this.cleanup();
+
+    const [activeDuels, stats, dustTokens, pendingRecovery, failedRecovery] = await Promise.all([
+      this.client.zcount(this.duelIndexKey, `(${Date.now()}`, '+inf'),
+      this.client.hgetall(this.statsKey),
+      this.client.hlen(this.dustKey),
+      this.client.scard(this.pendingRecoveryKey),
+      this.client.scard(this.failedRecoveryKey),
+    ]);
+
+    return {
+      activeDuels,
+      duelsCreated: Number(stats.duelsCreated ?? 0),
+      duelsExpired: Number(stats.duelsExpired ?? 0),
+      dustTokens,
+      pendingRecovery,
+      failedRecovery,
+    };
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      return (await this.client.ping()) === 'PONG';
+    } catch {
+      return false;
+    }
+  }
+}
+
+// ============================================================================
+// Client Factory
+// ============================================================================
+
+/**
+ * Create an ioredis client for REDIS_URL (connects on initialize)
+ */
+export function createRedisClient(url: string): Redis {
+  const client = new Redis(url, {
+    lazyConnect: true,
+    maxRetriesPerRequest: 3,
+  });
+
+  client.on('error', (error) => {
+    console.error(`[RedisStore] Connection error: ${error.message}`);
+  });
+
+  return client;
+}
@@ -0,0 +1,104 @@
+/**
+ * Refund Claims - Player-Initiated Stake Recovery
+ *
+ * refundDuel finds each player's wallet through the stealth mapping, which
+ * only lives in memory. After a restart, locked stakes could otherwise only
+ * be returned by an operator (recovery/emergency-refund with raw wallets).
+ * Instead a player can claim their own stake:
+ *
+ * 1. The player signs the claim message (see buildRefundClaimMessage)
+ * 2. The wallet must hash to one participant's stealth ID (verifyStealthId)
+ * 3. Once the duel has FAILED, or is past expiry plus grace, that player's
+ *    stake is returned to the wallet
+ *
+ * The wallet is used for the transfer only and never stored, so claims are
+ * paid within the request rather than through the settlement queue. A
+ * failed payout can simply be claimed again.
+ */
+
+import type { DuelId, RefundClaimRequest, RefundClaimResponse, WalletAddress } from '../types/index.js';
+import { duelEscrowService } from './duel-escrow.js';
+import { settlementQueue } from './settlement-queue.js';
+import { verifyWalletSignature } from './wallet-signature.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RefundClaimFailure =
+  | 'bad_signature'
+  | 'not_found'
+  | 'not_participant'
+  | 'not_eligible'
+  | 'payout_failed';
+
+export interface RefundClaimResult extends RefundClaimResponse {
+  /** Why the claim was rejected (for the HTTP status) */
+  failure?: RefundClaimFailure;
+}
+
+// Signed claim messages older (or further in the future) than this are rejected
+const MESSAGE_MAX_AGE_MS = 5 * 60 * 1000; // 5 minutes
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Build the message a player signs to claim their stake back
+ */
+export function buildRefundClaimMessage(params: {
+  duelId: DuelId;
+  playerWallet: WalletAddress;
+  issuedAt: number;
+}): string {
+  return [
+    'Alerith refund claim',
+    `Duel: ${params.duelId}`,
+    `Wallet: ${params.playerWallet}`,
+    `Issued at: ${params.issuedAt}`,
+  ].join('\n');
+}
+
+// ============================================================================
+// Refund Claim Service
+// ============================================================================
+
+class RefundClaimService {
+  /**
+   * Verify a wallet-signed claim and return the player's stake.
+   * Repeating a successful claim returns the original transfer.
+   *
+   * @throws DuelBusyError if another operation holds the duel
+   */
+  async claim(request: RefundClaimRequest): Promise<RefundClaimResult> {
+    if (Math.abs(Date.now() - request.issuedAt) > MESSAGE_MAX_AGE_MS) {
+      return { success: false, failure: 'bad_signature', error: 'Claim message has expired, sign a new one' };
+    }
+
+    const message = buildRefundClaimMessage(request);
+    if (!verifyWalletSignature(request.playerWallet, message, request.signedMessage)) {
+      return { success: false, failure: 'bad_signature', error: 'Invalid wallet signature' };
+    }
+
+    // A queued settlement decides the outcome first. A queued refund does
+    // not: it skips stakes that were claimed in the meantime.
+    const job = await settlementQueue.findActiveJob(request.duelId);
+    if (job && job.request.kind !== 'refund') {
+      return {
+        success: false,
+        failure: 'not_eligible',
+        jobId: job.jobId,
+        error: 'Duel has a settlement in progress',
+      };
+    }
+
+    return duelEscrowService.claimRefund(request.duelId, request.playerWallet);
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const refundClaimService = new RefundClaimService();
@@ -0,0 +1,212 @@
+/**
+ * Server Signature Verifier - Game Server Authorization
+ *
+ * Settle and refund requests must be signed by the game server with an
+ * Ed25519 key listed in GAME_SERVER_PUBLIC_KEYS. The signature covers a
+ * canonical message (see buildServerSignatureMessage), so it cannot be
+ * reused for another duel or outcome:
+ *
+ *   alerith-duel-authorization:v1
+ *   <duelId>
+ *   <outcome>
+ *   <winner stealth ID, empty for draws and refunds>
+ *   <timestamp ms>
+ *   <nonce>
+ *
+ * Replay protection: timestamps outside SERVER_SIGNATURE_MAX_AGE_SECONDS
+ * are rejected, and each nonce is accepted once (tracked in the DuelStore
+ * for as long as its timestamp could still be valid).
+ */
+
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { getConfig } from '../config.js';
+import type { DuelId, StealthId } from '../types/index.js';
+import { getDuelStore } from './duel-store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What the game server is authorizing */
+export type SignedOutcome = 'winner' | 'draw' | 'refund_timeout' | 'refund_cancelled' | 'refund_error';
+
+export interface ServerAuthorizationClaim {
+  duelId: DuelId;
+  outcome: SignedOutcome;
+  /** Winner stealth ID (null for draws and refunds) */
+  winnerStealthId: StealthId | null;
+  /** When the game server signed (ms since epoch) */
+  timestamp: number;
+  /** Single-use value chosen by the game server */
+  nonce: string;
+}
+
+/** A claim that passed verification (or was accepted unsigned in development) */
+export interface ServerAuthorization extends ServerAuthorizationClaim {
+  /** Base58 Ed25519 signature */
+  signature: string;
+  /** Key that produced the signature, null if accepted unsigned */
+  signerPublicKey: string | null;
+  /** True only if the signature was checked against a configured key */
+  verified: boolean;
+}
+
+export type ServerSignatureFailure = 'bad_signature' | 'stale_timestamp' | 'invalid_nonce' | 'nonce_reused';
+
+const MESSAGE_DOMAIN = 'alerith-duel-authorization:v1';
+
+// Nonces may not contain the message separator
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown when a settle/refund request is not validly signed
+ */
+export class ServerSignatureError extends Error {
+  readonly code = 'INVALID_SERVER_SIGNATURE';
+
+  constructor(readonly reason: ServerSignatureFailure, message: string) {
+    super(message);
+    this.name = 'ServerSignatureError';
+  }
+}
+
+// ============================================================================
+// Message
+// ============================================================================
+
+/**
+ * Build the exact bytes the game server signs (UTF-8)
+ */
+export function buildServerSignatureMessage(claim: ServerAuthorizationClaim): string {
+  return [
+    MESSAGE_DOMAIN,
+    claim.duelId,
+    claim.outcome,
+    claim.winnerStealthId ?? '',
+    String(claim.timestamp),
+    claim.nonce,
+  ].join('\n');
+}
+
+/**
+ * Check that a nonce has an acceptable format
+ */
+export function isValidNonce(nonce: string): boolean {
+  return NONCE_PATTERN.test(nonce);
+}
+
+// ============================================================================
+// Verifier
+// ============================================================================
+
+class ServerSignatureVerifier {
+  private publicKeys: Uint8Array[] = [];
+  private initialized = false;
+
+  /**
+   * Decode the configured game server keys
+   */
+  initialize(): void {
+    if (this.initialized) return;
+
+    const config = getConfig();
+
+    this.publicKeys = config.GAME_SERVER_PUBLIC_KEYS.map((key) => {
+      let bytes: Uint8Array;
+      try {
+        bytes = bs58.decode(key);
+      } catch {
+        throw new Error(`Invalid GAME_SERVER_PUBLIC_KEYS entry: ${key.slice(0, 8)}...`);
+      }
+      if (bytes.length !== nacl.sign.publicKeyLength) {
+        throw new Error(`Invalid GAME_SERVER_PUBLIC_KEYS entry: ${key.slice(0, 8)}... is not an Ed25519 key`);
+      }
+      return bytes;
+    });
+
+    if (config.ALLOW_UNSIGNED_SETTLEMENTS) {
+      console.warn('[ServerSignature] ALLOW_UNSIGNED_SETTLEMENTS is on - unsigned settle/refund requests are accepted');
+    }
+
+    this.initialized = true;
+    console.log(`[ServerSignature] Initialized with ${this.publicKeys.length} game server key(s)`);
+  }
+
+  /**
+   * Verify a signed claim and consume its nonce.
+   *
+   * @throws ServerSignatureError if the signature, timestamp or nonce is rejected
+   */
+  async verify(claim: ServerAuthorizationClaim, signature: string): Promise<ServerAuthorization> {
+    this.initialize();
+    const config = getConfig();
+
+    const signerPublicKey = this.findSigner(claim, signature);
+
+    if (!signerPublicKey && !config.ALLOW_UNSIGNED_SETTLEMENTS) {
+      throw new ServerSignatureError('bad_signature', 'Invalid game server signature');
+    }
+
+    if (Math.abs(Date.now() - claim.timestamp) > config.serverSignatureMaxAgeMs) {
+      throw new ServerSignatureError('stale_timestamp', 'Signature timestamp is outside the allowed window');
+    }
+
+    if (!isValidNonce(claim.nonce)) {
+      throw new ServerSignatureError('invalid_nonce', 'Invalid signature nonce');
+    }
+
+    // Keep the nonce until its timestamp can no longer pass the window check
+    const claimed = await getDuelStore().claimNonce(claim.nonce, config.serverSignatureMaxAgeMs * 2);
+    if (!claimed) {
+      throw new ServerSignatureError('nonce_reused', 'Signature nonce has already been used');
+    }
+
+    if (!signerPublicKey) {
+      console.warn(`[ServerSignature] Accepting unsigned ${claim.outcome} for duel ${claim.duelId} (development)`);
+    }
+
+    return {
+      ...claim,
+      signature,
+      signerPublicKey,
+      verified: signerPublicKey !== null,
+    };
+  }
+
+  /**
+   * Return the configured key that signed the claim, if any
+   */
+  private findSigner(claim: ServerAuthorizationClaim, signature: string): string | null {
+    let signatureBytes: Uint8Array;
+    try {
+      signatureBytes = bs58.decode(signature);
+    } catch {
+      return null;
+    }
+
+    if (signatureBytes.length !== nacl.sign.signatureLength) {
+      return null;
+    }
+
+    const messageBytes = Buffer.from(buildServerSignatureMessage(claim), 'utf8');
+
+    for (const publicKey of this.publicKeys) {
+      if (nacl.sign.detached.verify(messageBytes, signatureBytes, publicKey)) {
+        return bs58.encode(publicKey);
+      }
+    }
+
+    return null;
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const serverSignatureVerifier = new ServerSignatureVerifier();
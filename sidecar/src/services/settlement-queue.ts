@@ -0,0 +1,538 @@
+/**
+ * Settlement Queue - Durable Settle/Refund Jobs
+ *
+ * Settle, draw and refund requests are accepted as jobs and paid out in the
+ * background, so the HTTP request returns immediately with a job ID:
+ *
+ *   queued ──▶ running ──▶ succeeded
+ *     ▲           │  ├───▶ rejected     (request can never succeed, e.g. duel already settled)
+ *     └───────────┘  └───▶ dead_letter  (payout kept failing; duel flagged for manual recovery)
+ *       (retry with exponential backoff)
+ *
+ * Jobs live in the DuelStore, so with the file or Redis backend they survive
+ * a restart and retries resume automatically. Each attempt makes a single
+ * payout attempt via DuelEscrowService; a duel left FAILED (or interrupted in
+ * PENDING_SETTLEMENT) is resumed by the next attempt.
+ *
+ * Jobs never hold wallet addresses - the winner is identified by stealth ID
+ * and resolved through the stealth mapping when the job runs.
+ *
+ * At most one job per duel is queued or running. The store indexes each
+ * duel's active job, and enqueue checks and writes it under the duel's
+ * settlement lock, so concurrent requests cannot both queue a payout.
+ */
+
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { getConfig } from '../config.js';
+import type {
+  CombatSummary,
+  DuelId,
+  DuelSession,
+  SettlementJobInfo,
+  SettlementJobResult,
+  SettlementJobStatus,
+  StealthId,
+} from '../types/index.js';
+import { DuelStatus } from '../types/index.js';
+import { ACTIVE_JOB_STATUSES, getDuelStore } from './duel-store.js';
+import { DuelBusyError, withJobLock, withSettlementLock } from './duel-lock.js';
+import { duelEscrowService } from './duel-escrow.js';
+import type { ServerAuthorization } from './server-signature.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RefundReason = 'timeout' | 'cancelled' | 'error';
+
+/** What to pay out (no wallet addresses) */
+export type SettlementJobRequest =
+  | { kind: 'settle'; winnerStealthId: StealthId; combatSummary?: CombatSummary }
+  | { kind: 'settle_draw'; combatSummary?: CombatSummary }
+  | { kind: 'refund'; reason: RefundReason };
+
+/** What an expired duel held when the expiry worker queued its refund */
+export interface AutoRefundContext {
+  previousStatus: DuelStatus;
+  expiresAt: number;
+  lockedStealthIds: StealthId[];
+}
+
+export interface SettlementJob {
+  jobId: string;
+  duelId: DuelId;
+  request: SettlementJobRequest;
+  /** Verified game server authorization the job was accepted with (none for expiry refunds) */
+  authorization?: ServerAuthorization;
+  /** Set on refunds queued by the expiry worker */
+  autoRefund?: AutoRefundContext;
+  status: SettlementJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time the next attempt may run */
+  nextAttemptAt: number;
+  lastError?: string;
+  result?: SettlementJobResult;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SettlementJobEvent {
+  job: SettlementJob;
+  /** Status before this change (null for a newly queued job) */
+  previousStatus: SettlementJobStatus | null;
+}
+
+type SettlementJobListener = (event: SettlementJobEvent) => void;
+
+interface AttemptOutcome {
+  result: SettlementJobResult;
+  /** True if a later attempt could still succeed */
+  retryable: boolean;
+}
+
+// Jobs are kept this long after their last update (long enough to outlive any backoff)
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// A running job not updated for this long was orphaned by a crashed process
+const STALE_RUNNING_MS = 10 * 60 * 1000; // 10 minutes
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Job in API form
+ */
+export function describeJob(job: SettlementJob): SettlementJobInfo {
+  return {
+    jobId: job.jobId,
+    kind: job.request.kind,
+    duelId: job.duelId,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    nextAttemptAt: job.status === 'queued' ? job.nextAttemptAt : undefined,
+    lastError: job.lastError,
+    result: job.result,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown when a duel already has a queued or running job
+ */
+export class SettlementInProgressError extends Error {
+  readonly code = 'SETTLEMENT_IN_PROGRESS';
+
+  constructor(readonly duelId: DuelId, readonly jobId: string) {
+    super(`Duel ${duelId} already has settlement job ${jobId} in progress`);
+    this.name = 'SettlementInProgressError';
+  }
+}
+
+// ============================================================================
+// Settlement Queue
+// ============================================================================
+
+class SettlementQueue {
+  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private processing = false;
+  private readonly events = new EventEmitter();
+
+  private get store() {
+    return getDuelStore();
+  }
+
+  /**
+   * Requeue jobs interrupted by a restart and start polling for due jobs
+   */
+  async initialize(): Promise<void> {
+    if (this.pollInterval) return;
+
+    const config = getConfig();
+
+    // Single-process backends: anything still running was cut off mid-attempt
+    let resumed = 0;
+    for (const job of await this.store.getAllJobs()) {
+      if (job.status === 'running' && this.store.backend !== 'redis') {
+        await this.update(job, { status: 'queued', nextAttemptAt: Date.now() });
+      }
+      if (ACTIVE_JOB_STATUSES.has(job.status)) resumed++;
+    }
+
+    this.pollInterval = setInterval(() => {
+      this.processDue().catch((error) => {
+        console.error('[SettlementQueue] Processing failed:', error);
+      });
+    }, config.settlementPollIntervalMs);
+
+    console.log(
+      `[SettlementQueue] Initialized (max ${config.SETTLEMENT_MAX_ATTEMPTS} attempts, ` +
+      `backoff ${config.SETTLEMENT_RETRY_BASE_SECONDS}s-${config.SETTLEMENT_RETRY_MAX_SECONDS}s, ${resumed} job(s) resumed)`
+    );
+  }
+
+  /**
+   * Stop polling (jobs stay in the store and resume on next start)
+   */
+  shutdown(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  // ==========================================================================
+  // Enqueue & Inspect
+  // ==========================================================================
+
+  /**
+   * Queue a payout for a duel and start it right away.
+   *
+   * @throws SettlementInProgressError if the duel already has an active job
+   * @throws DuelBusyError if another request is queueing a job for the duel
+   */
+  async enqueue(
+    duelId: DuelId,
+    request: SettlementJobRequest,
+    authorization: ServerAuthorization
+  ): Promise<SettlementJob> {
+    return this.add(duelId, request, { authorization });
+  }
+
+  /**
+   * Queue a timeout refund for a duel left past its expiry. There is no
+   * server authorization; the job records what the duel held so the expiry
+   * worker can audit the outcome.
+   *
+   * @throws SettlementInProgressError if the duel already has an active job
+   * @throws DuelBusyError if another request is queueing a job for the duel
+   */
+  async enqueueExpiryRefund(duel: DuelSession): Promise<SettlementJob> {
+    const autoRefund: AutoRefundContext = {
+      previousStatus: duel.status,
+      expiresAt: duel.expiresAt,
+      lockedStealthIds: [duel.player1, duel.player2]
+        .filter(player => player.stakeLocked)
+        .map(player => player.stealthId),
+    };
+
+    return this.add(duel.duelId, { kind: 'refund', reason: 'timeout' }, { autoRefund });
+  }
+
+  private async add(
+    duelId: DuelId,
+    request: SettlementJobRequest,
+    origin: Pick<SettlementJob, 'authorization' | 'autoRefund'>
+  ): Promise<SettlementJob> {
+    const job = await withSettlementLock(duelId, async () => {
+      const existing = await this.store.getActiveJob(duelId);
+      if (existing) {
+        throw new SettlementInProgressError(duelId, existing.jobId);
+      }
+
+      const now = Date.now();
+      const queued: SettlementJob = {
+        jobId: randomBytes(16).toString('hex'),
+        duelId,
+        request,
+        ...origin,
+        status: 'queued',
+        attempts: 0,
+        maxAttempts: getConfig().SETTLEMENT_MAX_ATTEMPTS,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.store.setJob(queued, JOB_RETENTION_MS);
+      return queued;
+    });
+
+    this.publish(job, null);
+
+    console.log(`[SettlementQueue] Queued ${request.kind} job ${job.jobId} for duel ${duelId}`);
+
+    // Run now rather than waiting for the next poll
+    setImmediate(() => {
+      this.processDue().catch((error) => {
+        console.error('[SettlementQueue] Processing failed:', error);
+      });
+    });
+
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<SettlementJob | null> {
+    return this.store.getJob(jobId);
+  }
+
+  /**
+   * Queued or running job for a duel, if any
+   */
+  async findActiveJob(duelId: DuelId): Promise<SettlementJob | null> {
+    return this.store.getActiveJob(duelId);
+  }
+
+  /**
+   * Jobs that exhausted their attempts (oldest first)
+   */
+  async getDeadLetters(): Promise<SettlementJob[]> {
+    const jobs = await this.store.getAllJobs();
+    return jobs
+      .filter(job => job.status === 'dead_letter')
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Give a dead-lettered job a fresh set of attempts
+   */
+  async retry(jobId: string): Promise<SettlementJob | null> {
+    const job = await withJobLock(jobId, async () => {
+      const current = await this.store.getJob(jobId);
+      if (!current || current.status !== 'dead_letter') return null;
+
+      await this.store.removeFailedRecovery(current.duelId);
+      return this.update(current, { status: 'queued', attempts: 0, nextAttemptAt: Date.now() });
+    });
+
+    if (job) {
+      console.log(`[SettlementQueue] Requeued dead-lettered job ${jobId}`);
+      setImmediate(() => {
+        this.processDue().catch((error) => {
+          console.error('[SettlementQueue] Processing failed:', error);
+        });
+      });
+    }
+
+    return job;
+  }
+
+  /**
+   * Listen for job status changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: SettlementJobListener): () => void {
+    this.events.on('job', listener);
+    return () => {
+      this.events.off('job', listener);
+    };
+  }
+
+  // ==========================================================================
+  // Processing
+  // ==========================================================================
+
+  /**
+   * Run every job whose next attempt is due, one at a time
+   */
+  async processDue(): Promise<void> {
+    // Skip if the previous pass is still running (payouts can be slow)
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const now = Date.now();
+      const jobs = await this.store.getAllJobs();
+
+      for (const job of jobs) {
+        if (job.status === 'running' && job.updatedAt + STALE_RUNNING_MS <= now) {
+          console.warn(`[SettlementQueue] Job ${job.jobId} was orphaned while running - requeueing`);
+          await this.update(job, { status: 'queued', nextAttemptAt: now });
+        }
+      }
+
+      const due = jobs
+        .filter(job => job.status === 'queued' && job.nextAttemptAt <= now)
+        .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+
+      for (const job of due) {
+        try {
+          await withJobLock(job.jobId, () => this.runJob(job.jobId));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.warn(`[SettlementQueue] Skipping job ${job.jobId} this pass: ${message}`);
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Make one attempt at a job (caller holds the job lock)
+   */
+  private async runJob(jobId: string): Promise<void> {
+    // Another replica may have run it since we listed it
+    const queued = await this.store.getJob(jobId);
+    if (!queued || queued.status !== 'queued' || queued.nextAttemptAt > Date.now()) return;
+
+    const job = await this.update(queued, { status: 'running', attempts: queued.attempts + 1 });
+
+    let outcome: AttemptOutcome;
+    try {
+      outcome = await this.attempt(job);
+    } catch (error) {
+      if (error instanceof DuelBusyError) {
+        // Not the payout's fault - try again shortly without using up an attempt
+        await this.update(job, {
+          status: 'queued',
+          attempts: job.attempts - 1,
+          nextAttemptAt: Date.now() + getConfig().settlementRetryBaseMs,
+        });
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[SettlementQueue] Job ${jobId} attempt ${job.attempts} threw:`, error);
+      outcome = { result: { success: false, error: message }, retryable: true };
+    }
+
+    if (outcome.result.success) {
+      await this.update(job, { status: 'succeeded', result: outcome.result, lastError: undefined });
+      console.log(`[SettlementQueue] Job ${jobId} succeeded on attempt ${job.attempts}`);
+      return;
+    }
+
+    const error = outcome.result.error ?? 'Unknown error';
+
+    if (!outcome.retryable) {
+      await this.update(job, { status: 'rejected', result: outcome.result, lastError: error });
+      console.warn(`[SettlementQueue] Job ${jobId} rejected: ${error}`);
+      return;
+    }
+
+    if (job.attempts >= job.maxAttempts) {
+      await this.update(job, { status: 'dead_letter', result: outcome.result, lastError: error });
+      await this.store.addFailedRecovery(job.duelId);
+      console.error(
+        `[SettlementQueue] CRITICAL: Job ${jobId} dead-lettered after ${job.attempts} attempts: ${error}. ` +
+        `Duel ${job.duelId} needs manual recovery.`
+      );
+      return;
+    }
+
+    const delayMs = this.backoff(job.attempts);
+    await this.update(job, { status: 'queued', lastError: error, nextAttemptAt: Date.now() + delayMs });
+    console.warn(
+      `[SettlementQueue] Job ${jobId} attempt ${job.attempts}/${job.maxAttempts} failed: ${error} - retrying in ${delayMs}ms`
+    );
+  }
+
+  /**
+   * Run the payout for a job once
+   */
+  private async attempt(job: SettlementJob): Promise<AttemptOutcome> {
+    const { request, duelId, authorization } = job;
+    let result: SettlementJobResult;
+
+    // Only refunds may run without the game server's say-so
+    if (request.kind !== 'refund' && !authorization) {
+      return {
+        result: { success: false, error: `A ${request.kind} job requires a server authorization` },
+        retryable: false,
+      };
+    }
+
+    switch (request.kind) {
+      case 'settle': {
+        const settled = await duelEscrowService.settleDuel(
+          duelId,
+          request.winnerStealthId,
+          request.combatSummary,
+          authorization!
+        );
+        result = {
+          success: settled.success,
+          winnerTxSignature: settled.winnerTxSignature,
+          treasuryTxSignature: settled.treasuryTxSignature,
+          winnerPayoutLamports: settled.winnerPayout?.toString(),
+          treasuryFeeLamports: settled.houseFee?.toString(),
+          commitmentHash: settled.commitmentHash,
+          commitmentTxSignature: settled.commitmentTxSignature,
+          termsUnchecked: settled.termsUnchecked,
+          error: settled.error,
+        };
+        break;
+      }
+      case 'settle_draw': {
+        const settled = await duelEscrowService.settleDraw(duelId, request.combatSummary, authorization!);
+        result = {
+          success: settled.success,
+          payoutTxSignatures: settled.payoutTxSignatures,
+          playerPayoutsLamports: settled.playerPayouts?.map(amount => amount.toString()),
+          drawFeeLamports: settled.drawFee?.toString(),
+          commitmentHash: settled.commitmentHash,
+          commitmentTxSignature: settled.commitmentTxSignature,
+          termsUnchecked: settled.termsUnchecked,
+          error: settled.error,
+        };
+        break;
+      }
+      case 'refund': {
+        const refunded = await duelEscrowService.refundDuel(duelId, request.reason);
+        result = {
+          success: refunded.success,
+          refundTxSignatures: refunded.refundTxSignatures,
+          error: refunded.error,
+        };
+        break;
+      }
+    }
+
+    if (result.success) {
+      return { result, retryable: false };
+    }
+
+    // Only a payout that failed mid-way leaves the duel FAILED; anything else
+    // (wrong status, bad authorization, unknown duel, a refund of a duel being
+    // settled as a win or draw) will fail the same way again
+    const duel = await duelEscrowService.getDuel(duelId);
+    const settlingOtherwise = request.kind === 'refund' && !!duel?.outcome && duel.outcome !== 'refund';
+    return { result, retryable: duel?.status === DuelStatus.FAILED && !settlingOtherwise };
+  }
+
+  /**
+   * Delay before the attempt after `attempts` failures: base * 2^(attempts-1), capped
+   */
+  private backoff(attempts: number): number {
+    const config = getConfig();
+    return Math.min(config.settlementRetryBaseMs * 2 ** (attempts - 1), config.settlementRetryMaxMs);
+  }
+
+  /**
+   * Persist changes to a job and announce the status change
+   */
+  private async update(job: SettlementJob, changes: Partial<SettlementJob>): Promise<SettlementJob> {
+    const previousStatus = job.status;
+    const updated: SettlementJob = { ...job, ...changes, updatedAt: Date.now() };
+
+    await this.store.setJob(updated, JOB_RETENTION_MS);
+    if (updated.status !== previousStatus) {
+      this.publish(updated, previousStatus);
+    }
+
+    return updated;
+  }
+
+  private publish(job: SettlementJob, previousStatus: SettlementJobStatus | null): void {
+    try {
+      this.events.emit('job', { job, previousStatus } satisfies SettlementJobEvent);
+    } catch (error) {
+      // A failing subscriber must not break settlement
+      console.error('[SettlementQueue] Job listener failed:', error);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const settlementQueue = new SettlementQueue();
@@ -1,5 +1,5 @@
 /**
- * ShadowWire Direct API Client
+ * ShadowWire Direct API Client - 'direct' TransferProvider
  *
  * Bypasses the @radr/shadowwire SDK's broken CommonJS/ESM interop.
  * Uses a data URL import trick to load the ESM WASM bindings properly.
@@ -10,37 +10,24 @@ import nacl from 'tweetnacl';
 import bs58 from 'bs58';
 import { getConfig } from '../config.js';
 import { randomUUID } from 'crypto';
+import type { WalletAddress } from '../types/index.js';
+import { Amount } from './amount.js';
+import { tokenRegistry } from './token-registry.js';
+import {
+  loadPoolKeypairs,
+  transferFeeInfo,
+  type BalanceResult,
+  type DepositResult,
+  type TransferFeeInfo,
+  type TransferProvider,
+  type TransferResult,
+  type WithdrawResult,
+} from './transfer-provider.js';
 
 // ShadowWire API
 const API_BASE_URL = 'https://shadow.radr.fun/shadowpay/api';
 
-// Token decimals for conversion
-const TOKEN_DECIMALS: Record<string, number> = {
-  SOL: 9,
-  USD1: 6,
-  RADR: 9,
-};
-
-// Minimum amounts per token (in smallest units) - from ShadowWire SDK
-const TOKEN_MINIMUMS: Record<string, number> = {
-  SOL: 100_000_000,           // 0.1 SOL
-  USD1: 5_000_000,            // 5 USD1
-  RADR: 10_000_000_000_000,   // 10,000 RADR
-};
-
 // Types
-export interface TransferResult {
-  success: boolean;
-  txSignature?: string;
-  error?: string;
-}
-
-export interface BalanceResult {
-  success: boolean;
-  balance?: number;
-  error?: string;
-}
-
 interface ZKProofResult {
   proof_bytes: Uint8Array;
   commitment_bytes: Uint8Array;
@@ -56,11 +43,12 @@ interface WasmLoaderModule {
 /**
  * Direct ShadowWire client that loads WASM via ESM loader module
  */
-class ShadowWireDirectClient {
+export class DirectTransferProvider implements TransferProvider {
+  readonly name = 'direct';
+
   private wasmLoader: WasmLoaderModule | null = null;
   private wasmInitialized = false;
   private escrowKeypair: Keypair | null = null;
-  private treasuryKeypair: Keypair | null = null;
   private escrowWallet: string = '';
   private treasuryWallet: string = '';
   private initialized = false;
@@ -68,30 +56,15 @@ class ShadowWireDirectClient {
   /**
    * Initialize keypairs from config
    */
-  initialize(): void {
+  async initialize(): Promise<void> {
     if (this.initialized) return;
 
-    const config = getConfig();
-
-    try {
-      const escrowSecret = bs58.decode(config.ESCROW_WALLET_SECRET);
-      this.escrowKeypair = Keypair.fromSecretKey(escrowSecret);
-      this.escrowWallet = this.escrowKeypair.publicKey.toBase58();
-      console.log(`[ShadowWire Direct] Escrow wallet: ${this.escrowWallet}`);
-    } catch (error) {
-      console.error('[ShadowWire Direct] Failed to load escrow keypair:', error);
-      throw new Error('Invalid ESCROW_WALLET_SECRET');
-    }
-
-    try {
-      const treasurySecret = bs58.decode(config.TREASURY_WALLET_SECRET);
-      this.treasuryKeypair = Keypair.fromSecretKey(treasurySecret);
-      this.treasuryWallet = this.treasuryKeypair.publicKey.toBase58();
-      console.log(`[ShadowWire Direct] Treasury wallet: ${this.treasuryWallet}`);
-    } catch (error) {
-      console.error('[ShadowWire Direct] Failed to load treasury keypair:', error);
-      throw new Error('Invalid TREASURY_WALLET_SECRET');
-    }
+    const { escrow, treasury } = loadPoolKeypairs(getConfig());
+    this.escrowKeypair = escrow;
+    this.escrowWallet = escrow.publicKey.toBase58();
+    this.treasuryWallet = treasury.publicKey.toBase58();
+    console.log(`[ShadowWire Direct] Escrow wallet: ${this.escrowWallet}`);
+    console.log(`[ShadowWire Direct] Treasury wallet: ${this.treasuryWallet}`);
 
     this.initialized = true;
     console.log('[ShadowWire Direct] Initialized');
@@ -126,7 +99,7 @@ class ShadowWireDirectClient {
   /**
    * Generate ZK range proof using the WASM module
    */
-  private async generateProof(amountLamports: number): Promise<{
+  private async generateProof(amount: Amount): Promise<{
     proofBytes: string;
     commitmentBytes: string;
     blindingFactorBytes: string;
@@ -134,7 +107,7 @@ class ShadowWireDirectClient {
     await this.loadWasm();
     if (!this.wasmLoader) throw new Error('WASM not loaded');
 
-    const result = await this.wasmLoader.generateRangeProof(amountLamports, 64);
+    const result = await this.wasmLoader.generateRangeProof(amount.toSafeNumber(), 64);
 
     return {
       proofBytes: this.uint8ArrayToHex(result.proof_bytes),
@@ -204,57 +177,50 @@ class ShadowWireDirectClient {
 
   // Public methods
 
-  getEscrowWallet(): string {
+  getEscrowWallet(): WalletAddress {
     return this.escrowWallet;
   }
 
-  getTreasuryWallet(): string {
+  getTreasuryWallet(): WalletAddress {
     return this.treasuryWallet;
   }
 
+  feeInfo(token: string): TransferFeeInfo {
+    return transferFeeInfo(token);
+  }
+
   /**
    * Get balance from ShadowWire pool
    */
-  async getBalance(wallet: string, token: string = 'SOL'): Promise<BalanceResult> {
+  async getBalance(wallet: WalletAddress, token: string = 'SOL'): Promise<BalanceResult> {
     try {
-      const result = await this.apiRequest<{ available?: number; balance?: number }>(
-        `/pool/balance/${wallet}`,
+      const mint = tokenRegistry.mint(token);
+      const result = await this.apiRequest<{ available?: number; balance?: number; pool_address?: string }>(
+        `/pool/balance/${wallet}${mint ? `?token_mint=${mint}` : ''}`,
         'GET'
       );
-      const balance = result.available ?? result.balance ?? 0;
-      return { success: true, balance };
+      // The API reports smallest units as a JSON number
+      const balance = Amount.fromUnits(token, BigInt(Math.floor(result.available ?? result.balance ?? 0)));
+      return { success: true, balance, poolAddress: result.pool_address };
     } catch (error) {
       const msg = error instanceof Error ? error.message : 'Unknown error';
       return { success: false, error: msg };
     }
   }
 
-  /**
-   * Check if wallet has enough balance
-   */
-  async hasEnoughBalance(wallet: string, amountLamports: number, token: string = 'SOL'): Promise<boolean> {
-    const result = await this.getBalance(wallet, token);
-    if (!result.success || result.balance === undefined) return false;
-    return result.balance >= amountLamports;
-  }
-
   /**
    * Transfer from escrow to recipient using ZK proof
    */
-  async transferFromEscrow(
-    recipientWallet: string,
-    amountLamports: number,
-    token: string = 'SOL'
-  ): Promise<TransferResult> {
+  async transferFromEscrow(recipientWallet: WalletAddress, amount: Amount): Promise<TransferResult> {
     if (!this.initialized || !this.escrowKeypair) {
       return { success: false, error: 'Service not initialized' };
     }
 
     try {
-      console.log(`[ShadowWire Direct] Transfer ${amountLamports} lamports to ${recipientWallet.slice(0, 8)}...`);
+      console.log(`[ShadowWire Direct] Transfer ${amount.toDisplay()} to ${recipientWallet.slice(0, 8)}...`);
 
       // Generate ZK proof
-      const proof = await this.generateProof(amountLamports);
+      const proof = await this.generateProof(amount);
       console.log('[ShadowWire Direct] Proof generated');
 
       // Generate signature
@@ -276,9 +242,10 @@ class ShadowWireDirectClient {
         {
           sender_wallet: this.escrowWallet,
           recipient_wallet: recipientWallet,
-          token: token,
+          // The API names SPL tokens by mint, as the SDK does
+          token: tokenRegistry.mint(amount.token) ?? amount.token,
           nonce: nonce,
-          amount: amountLamports,
+          amount: amount.toSafeNumber(),
           proof_bytes: proof.proofBytes,
           commitment: proof.commitmentBytes,
           sender_signature: signature,
@@ -307,21 +274,62 @@ class ShadowWireDirectClient {
   /**
    * Transfer from escrow to treasury (house fee)
    */
-  async transferToTreasury(amountLamports: number, token: string = 'SOL'): Promise<TransferResult> {
-    return this.transferFromEscrow(this.treasuryWallet, amountLamports, token);
+  async transferToTreasury(amount: Amount): Promise<TransferResult> {
+    return this.transferFromEscrow(this.treasuryWallet, amount);
   }
 
   /**
-   * Get fee info per token
+   * Unsigned deposit transaction for the player to sign
    */
-  getFeeInfo(token: string = 'SOL'): { feePercent: number; minimumAmount: number } {
-    const minimumAmount = TOKEN_MINIMUMS[token] || 100_000_000;
-    // Fee percentages from ShadowWire SDK: SOL 0.5%, USD1 1%, RADR 0.3%
-    const feePercents: Record<string, number> = { SOL: 0.5, USD1: 1, RADR: 0.3 };
-    const feePercent = feePercents[token] || 0.5;
-    return { feePercent, minimumAmount };
+  async createDeposit(wallet: WalletAddress, amount: Amount): Promise<DepositResult> {
+    try {
+      const result = await this.apiRequest<{
+        success: boolean;
+        unsigned_tx_base64?: string;
+        pool_address?: string;
+        error?: string;
+      }>('/pool/deposit', 'POST', this.poolRequest(wallet, amount));
+
+      if (!result.success) {
+        return { success: false, error: result.error || 'Deposit request returned unsuccessful' };
+      }
+      return { success: true, unsignedTxBase64: result.unsigned_tx_base64, poolAddress: result.pool_address };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[ShadowWire Direct] Deposit creation failed: ${msg}`);
+      return { success: false, error: msg };
+    }
   }
-}
 
-// Singleton export
-export const shadowWireDirect = new ShadowWireDirectClient();
+  /**
+   * Withdrawal out of the pool (unsigned if the player must sign it)
+   */
+  async createWithdrawal(wallet: WalletAddress, amount: Amount): Promise<WithdrawResult> {
+    try {
+      const result = await this.apiRequest<{
+        success: boolean;
+        unsigned_tx_base64?: string;
+        tx_signature?: string;
+        error?: string;
+      }>('/pool/withdraw', 'POST', this.poolRequest(wallet, amount));
+
+      if (!result.success) {
+        return { success: false, error: result.error || 'Withdrawal request returned unsuccessful' };
+      }
+      return { success: true, unsignedTxBase64: result.unsigned_tx_base64, txSignature: result.tx_signature };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[ShadowWire Direct] Withdrawal failed: ${msg}`);
+      return { success: false, error: msg };
+    }
+  }
+
+  /**
+   * Deposit/withdraw body: human units as a number (as the SDK sends),
+   * plus the mint for SPL tokens
+   */
+  private poolRequest(wallet: WalletAddress, amount: Amount): object {
+    const mint = tokenRegistry.mint(amount.token);
+    return { wallet, amount: Number(amount.toDecimal()), ...(mint ? { token_mint: mint } : {}) };
+  }
+}
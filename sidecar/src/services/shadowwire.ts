@@ -1,51 +1,42 @@
 /**
- * ShadowWire Service - ZK Transfer Layer
+ * ShadowWire Service - 'sdk' TransferProvider
  *
  * Wraps the @radr/shadowwire SDK for privacy-preserving transfers.
  * All transfers use INTERNAL mode to hide amounts on-chain.
+ *
+ * If the SDK's WASM prover cannot load, transfers fail with the error;
+ * there is no mock fallback (use TRANSFER_PROVIDER=mock explicitly).
  */
 
 import { Keypair } from '@solana/web3.js';
-import bs58 from 'bs58';
-import { getConfig, LAMPORTS_PER_SOL, type SupportedToken, TOKEN_DECIMALS } from '../config.js';
-import type { TxSignature, WalletAddress } from '../types/index.js';
+import type { TokenSymbol } from '@radr/shadowwire';
+import { getConfig } from '../config.js';
+import type { WalletAddress } from '../types/index.js';
+import { Amount, type DecimalInput } from './amount.js';
 import { maskWallet } from './stealth.js';
-
-// ============================================================================
-// Types
-// ============================================================================
-
-interface TransferResult {
-  success: boolean;
-  txSignature?: TxSignature;
-  error?: string;
-}
-
-interface BalanceResult {
-  success: boolean;
-  availableLamports?: bigint;
-  poolAddress?: string;
-  error?: string;
-}
-
-interface DepositResult {
-  success: boolean;
-  unsignedTxBase64?: string;
-  poolAddress?: string;
-  error?: string;
-}
+import { tokenRegistry } from './token-registry.js';
+import {
+  loadPoolKeypairs,
+  transferFeeInfo,
+  type BalanceResult,
+  type DepositResult,
+  type TransferFeeInfo,
+  type TransferProvider,
+  type TransferResult,
+  type WithdrawResult,
+} from './transfer-provider.js';
 
 // ============================================================================
 // ShadowWire Client Wrapper
 // ============================================================================
 
-class ShadowWireService {
+export class SdkTransferProvider implements TransferProvider {
+  readonly name = 'sdk';
+
   private escrowKeypair: Keypair | null = null;
   private treasuryKeypair: Keypair | null = null;
-  private serverKeypair: Keypair | null = null;
   private initialized = false;
   private wasmInitialized = false;
-  private forceMockMode = false; // Set to true when WASM fails on mainnet
 
   /**
    * Initialize the service with wallet keypairs.
@@ -59,10 +50,9 @@ class ShadowWireService {
     const config = getConfig();
 
     try {
-      // Load keypairs from base58 encoded secrets
-      this.escrowKeypair = Keypair.fromSecretKey(bs58.decode(config.ESCROW_WALLET_SECRET));
-      this.treasuryKeypair = Keypair.fromSecretKey(bs58.decode(config.TREASURY_WALLET_SECRET));
-      this.serverKeypair = Keypair.fromSecretKey(bs58.decode(config.SERVER_AUTHORITY_SECRET));
+      const { escrow, treasury } = loadPoolKeypairs(config);
+      this.escrowKeypair = escrow;
+      this.treasuryKeypair = treasury;
 
       console.log('[ShadowWire] Service initialized');
       console.log(`[ShadowWire] Escrow wallet: ${maskWallet(this.escrowKeypair.publicKey.toBase58())}`);
@@ -87,11 +77,12 @@ class ShadowWireService {
 
   /**
    * Initialize WASM for ZK proof generation.
-   * Must be called before transfer operations on mainnet.
+   *
+   * @throws Error if the WASM module cannot be loaded
    */
-  private async ensureWasmInitialized(): Promise<boolean> {
+  private async ensureWasmInitialized(): Promise<void> {
     if (this.wasmInitialized) {
-      return true;
+      return;
     }
 
     const config = getConfig();
@@ -103,14 +94,25 @@ class ShadowWireService {
       await initWASM(wasmUrl);
       this.wasmInitialized = true;
       console.log('[ShadowWire] WASM initialized successfully!');
-      return true;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       console.error(`[ShadowWire] WASM initialization failed: ${message}`);
-      return false;
+      throw new Error(`WASM initialization failed: ${message}`);
     }
   }
 
+  private async createClient() {
+    const config = getConfig();
+
+    // Dynamic import to handle ESM module
+    const { ShadowWireClient } = await import('@radr/shadowwire');
+
+    return new ShadowWireClient({
+      network: 'mainnet-beta',
+      debug: config.isDevelopment,
+    });
+  }
+
   /**
    * Get the escrow wallet address.
    */
@@ -127,32 +129,25 @@ class ShadowWireService {
     return this.treasuryKeypair!.publicKey.toBase58();
   }
 
+  feeInfo(token: string): TransferFeeInfo {
+    return transferFeeInfo(token);
+  }
+
   /**
    * Get balance from ShadowWire pool.
    */
-  async getBalance(wallet: WalletAddress, token: SupportedToken = 'SOL'): Promise<BalanceResult> {
+  async getBalance(wallet: WalletAddress, token: string = 'SOL'): Promise<BalanceResult> {
     this.ensureInitialized();
-    const config = getConfig();
-
-    // Use mock for devnet or when forced to mock mode (WASM failure)
-    if (config.SOLANA_NETWORK === 'devnet' || this.forceMockMode) {
-      return this.mockGetBalance(wallet, token);
-    }
 
     try {
-      // Dynamic import to handle ESM module
-      const { ShadowWireClient } = await import('@radr/shadowwire');
-
-      const client = new ShadowWireClient({
-        network: 'mainnet-beta',
-        debug: config.isDevelopment,
-      });
+      const client = await this.createClient();
 
-      const balance = await client.getBalance(wallet, token);
+      // Registry tokens are ShadowWire tokens (see token-registry.ts)
+      const balance = await client.getBalance(wallet, token as TokenSymbol);
 
       return {
         success: true,
-        availableLamports: BigInt(balance.available),
+        balance: Amount.fromUnits(token, BigInt(Math.floor(balance.available))),
         poolAddress: balance.pool_address,
       };
     } catch (error) {
@@ -174,47 +169,27 @@ class ShadowWireService {
   async transferInternal(
     senderWallet: WalletAddress,
     recipientWallet: WalletAddress,
-    amountLamports: bigint,
-    token: SupportedToken = 'SOL',
+    amount: Amount,
     signMessage: (msg: Uint8Array) => Promise<Uint8Array>
   ): Promise<TransferResult> {
     this.ensureInitialized();
-    const config = getConfig();
-
-    // Convert lamports to human units
-    const decimals = TOKEN_DECIMALS[token];
-    const humanAmount = Number(amountLamports) / Math.pow(10, decimals);
 
     console.log(
       `[ShadowWire] Internal transfer: ${maskWallet(senderWallet)} -> ${maskWallet(recipientWallet)} (amount hidden)`
     );
 
     try {
-      // ShadowWire only supports mainnet-beta - use mock for devnet
-      if (config.SOLANA_NETWORK === 'devnet') {
-        return this.mockTransfer(senderWallet, recipientWallet, amountLamports);
-      }
-
       // Initialize WASM before real transfers
-      const wasmReady = await this.ensureWasmInitialized();
-      if (!wasmReady) {
-        console.warn('[ShadowWire] WASM not ready, falling back to mock mode');
-        this.forceMockMode = true;
-        return this.mockTransfer(senderWallet, recipientWallet, amountLamports);
-      }
+      await this.ensureWasmInitialized();
 
-      const { ShadowWireClient } = await import('@radr/shadowwire');
-
-      const client = new ShadowWireClient({
-        network: 'mainnet-beta',
-        debug: config.isDevelopment,
-      });
+      const client = await this.createClient();
 
       const result = await client.transfer({
         sender: senderWallet,
         recipient: recipientWallet,
-        amount: humanAmount,
-        token,
+        // The SDK takes human units as a number
+        amount: Number(amount.toDecimal()),
+        token: amount.token as TokenSymbol,
         type: 'internal', // CRITICAL: Hidden amount
         wallet: { signMessage },
       });
@@ -233,17 +208,6 @@ class ShadowWireService {
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
-
-      // WASM loading issue in Node.js ESM environment - fallback to mock with warning
-      if (message.includes('WASM') || message.includes('require not available')) {
-        if (!this.forceMockMode) {
-          console.warn(`[ShadowWire] WASM loading failed, falling back to MOCK mode for mainnet`);
-          console.warn(`[ShadowWire] Real transfers will NOT occur - this is for testing only!`);
-          this.forceMockMode = true;
-        }
-        return this.mockTransfer(senderWallet, recipientWallet, amountLamports);
-      }
-
       console.error(`[ShadowWire] Transfer failed: ${message}`);
       return {
         success: false,
@@ -258,61 +222,45 @@ class ShadowWireService {
    */
   async transferFromEscrow(
     recipientWallet: WalletAddress,
-    amountLamports: bigint,
-    token: SupportedToken = 'SOL'
+    amount: Amount
   ): Promise<TransferResult> {
     this.ensureInitialized();
 
     const escrowWallet = this.getEscrowWallet();
     const signMessage = this.createSignFunction(this.escrowKeypair!);
 
-    return this.transferInternal(escrowWallet, recipientWallet, amountLamports, token, signMessage);
+    return this.transferInternal(escrowWallet, recipientWallet, amount, signMessage);
   }
 
   /**
    * Transfer from escrow to treasury (house fee).
    */
-  async collectHouseFee(amountLamports: bigint, token: SupportedToken = 'SOL'): Promise<TransferResult> {
+  async transferToTreasury(amount: Amount): Promise<TransferResult> {
     this.ensureInitialized();
 
     const treasuryWallet = this.getTreasuryWallet();
 
-    console.log(`[ShadowWire] Collecting house fee: ${amountLamports} lamports to treasury`);
+    console.log(`[ShadowWire] Collecting house fee: ${amount.toDisplay()} to treasury`);
 
-    return this.transferFromEscrow(treasuryWallet, amountLamports, token);
+    return this.transferFromEscrow(treasuryWallet, amount);
   }
 
   /**
    * Create a deposit transaction for a wallet.
    * Returns unsigned transaction that player must sign.
    */
-  async createDeposit(
-    wallet: WalletAddress,
-    amountLamports: bigint,
-    token: SupportedToken = 'SOL'
-  ): Promise<DepositResult> {
+  async createDeposit(wallet: WalletAddress, amount: Amount): Promise<DepositResult> {
     this.ensureInitialized();
-    const config = getConfig();
-
-    const decimals = TOKEN_DECIMALS[token];
-    const humanAmount = Number(amountLamports) / Math.pow(10, decimals);
 
     try {
-      // ShadowWire only supports mainnet-beta - use mock for devnet
-      if (config.SOLANA_NETWORK === 'devnet') {
-        return this.mockDeposit(wallet, amountLamports);
-      }
-
-      const { ShadowWireClient } = await import('@radr/shadowwire');
-
-      const client = new ShadowWireClient({
-        network: 'mainnet-beta',
-        debug: config.isDevelopment,
-      });
+      const client = await this.createClient();
 
+      const mint = tokenRegistry.mint(amount.token);
       const result = await client.deposit({
         wallet,
-        amount: humanAmount,
+        // The SDK takes human units as a number
+        amount: Number(amount.toDecimal()),
+        ...(mint ? { token_mint: mint } : {}),
       });
 
       if (result.success) {
@@ -338,180 +286,71 @@ class ShadowWireService {
   }
 
   /**
-   * Create a sign function for a keypair.
-   * Used for server-side signing (escrow/treasury).
-   */
-  private createSignFunction(keypair: Keypair): (msg: Uint8Array) => Promise<Uint8Array> {
-    return async (msg: Uint8Array): Promise<Uint8Array> => {
-      // Use tweetnacl for Ed25519 signing
-      const nacl = await import('tweetnacl');
-      return nacl.default.sign.detached(msg, keypair.secretKey);
-    };
-  }
-
-  /**
-   * Verify escrow has sufficient balance for settlement.
-   */
-  async verifyEscrowBalance(requiredLamports: bigint, token: SupportedToken = 'SOL'): Promise<boolean> {
-    const escrowWallet = this.getEscrowWallet();
-    const balance = await this.getBalance(escrowWallet, token);
-
-    if (!balance.success || balance.availableLamports === undefined) {
-      console.error('[ShadowWire] Failed to check escrow balance');
-      return false;
-    }
-
-    const hasEnough = balance.availableLamports >= requiredLamports;
-
-    if (!hasEnough) {
-      console.error(
-        `[ShadowWire] Insufficient escrow balance: ${balance.availableLamports} < ${requiredLamports}`
-      );
-    }
-
-    return hasEnough;
-  }
-
-  /**
-   * Calculate fee breakdown for a transfer.
+   * Create a withdrawal out of the pool for a wallet.
    */
-  calculateFees(
-    stakeAmountLamports: bigint,
-    houseFeePercent: number
-  ): { totalPot: bigint; houseFee: bigint; winnerPayout: bigint } {
-    const totalPot = stakeAmountLamports * 2n;
-    const houseFee = (totalPot * BigInt(Math.floor(houseFeePercent * 100))) / 10000n;
-    const winnerPayout = totalPot - houseFee;
-
-    return { totalPot, houseFee, winnerPayout };
-  }
-
-  // ============================================================================
-  // Mock Methods for Devnet Testing
-  // ============================================================================
-  // ShadowWire only supports mainnet-beta. These mocks allow testing the
-  // full duel flow on devnet without real ZK transfers.
+  async createWithdrawal(wallet: WalletAddress, amount: Amount): Promise<WithdrawResult> {
+    this.ensureInitialized();
 
-  /** In-memory mock balances for devnet testing */
-  private mockBalances = new Map<string, bigint>();
+    try {
+      const client = await this.createClient();
 
-  /**
-   * Mock balance check for devnet.
-   * Simulates ShadowWire pool balance.
-   */
-  private mockGetBalance(wallet: WalletAddress, _token: SupportedToken): BalanceResult {
-    const balance = this.mockBalances.get(wallet) ?? 0n;
-    console.log(`[ShadowWire:MOCK] Balance check for ${maskWallet(wallet)}: ${balance} lamports`);
-
-    return {
-      success: true,
-      availableLamports: balance,
-      poolAddress: `mock_pool_${wallet.slice(0, 8)}`,
-    };
-  }
+      const mint = tokenRegistry.mint(amount.token);
+      const result = await client.withdraw({
+        wallet,
+        // The SDK takes human units as a number
+        amount: Number(amount.toDecimal()),
+        ...(mint ? { token_mint: mint } : {}),
+      });
 
-  /**
-   * Mock transfer for devnet.
-   * Simulates internal transfer with fake TX signature.
-   */
-  private mockTransfer(
-    senderWallet: WalletAddress,
-    recipientWallet: WalletAddress,
-    amountLamports: bigint
-  ): TransferResult {
-    const senderBalance = this.mockBalances.get(senderWallet) ?? 0n;
-    if (senderBalance < amountLamports) {
-      console.log(`[ShadowWire:MOCK] Insufficient balance: ${senderBalance} < ${amountLamports}`);
+      if (result.success) {
+        return {
+          success: true,
+          unsignedTxBase64: result.unsigned_tx_base64,
+          txSignature: result.tx_signature,
+        };
+      } else {
+        return {
+          success: false,
+          error: result.error ?? 'Withdrawal request returned unsuccessful',
+        };
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[ShadowWire] Withdrawal failed: ${message}`);
       return {
         success: false,
-        error: 'Insufficient balance',
+        error: message,
       };
     }
-
-    // Simulate transfer
-    this.mockBalances.set(senderWallet, senderBalance - amountLamports);
-    const recipientBalance = this.mockBalances.get(recipientWallet) ?? 0n;
-    this.mockBalances.set(recipientWallet, recipientBalance + amountLamports);
-
-    // Generate fake TX signature
-    const fakeTxSig = `mock_tx_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
-
-    console.log(
-      `[ShadowWire:MOCK] Transfer: ${maskWallet(senderWallet)} -> ${maskWallet(recipientWallet)} = ${amountLamports} lamports`
-    );
-    console.log(`[ShadowWire:MOCK] TX: ${fakeTxSig}`);
-
-    return {
-      success: true,
-      txSignature: fakeTxSig,
-    };
   }
 
   /**
-   * Mock deposit for devnet.
-   * Simulates depositing to ShadowWire pool.
+   * Create a sign function for a keypair.
+   * Used for server-side signing (escrow/treasury).
    */
-  private mockDeposit(wallet: WalletAddress, amountLamports: bigint): DepositResult {
-    // Add to mock balance
-    const currentBalance = this.mockBalances.get(wallet) ?? 0n;
-    this.mockBalances.set(wallet, currentBalance + amountLamports);
-
-    console.log(
-      `[ShadowWire:MOCK] Deposit: ${maskWallet(wallet)} += ${amountLamports} lamports (total: ${currentBalance + amountLamports})`
-    );
-
-    return {
-      success: true,
-      unsignedTxBase64: 'mock_unsigned_tx_base64',
-      poolAddress: `mock_pool_${wallet.slice(0, 8)}`,
+  private createSignFunction(keypair: Keypair): (msg: Uint8Array) => Promise<Uint8Array> {
+    return async (msg: Uint8Array): Promise<Uint8Array> => {
+      // Use tweetnacl for Ed25519 signing
+      const nacl = await import('tweetnacl');
+      return nacl.default.sign.detached(msg, keypair.secretKey);
     };
   }
-
-  /**
-   * Seed mock balance for devnet testing.
-   * Call this to simulate wallets having ShadowWire pool balance.
-   */
-  seedMockBalance(wallet: WalletAddress, amountLamports: bigint): void {
-    this.mockBalances.set(wallet, amountLamports);
-    console.log(`[ShadowWire:MOCK] Seeded ${maskWallet(wallet)} with ${amountLamports} lamports`);
-  }
-
-  /**
-   * Get all mock balances (for debugging).
-   */
-  getMockBalances(): Map<string, bigint> {
-    return new Map(this.mockBalances);
-  }
-
-  /**
-   * Clear all mock balances.
-   */
-  clearMockBalances(): void {
-    this.mockBalances.clear();
-    console.log('[ShadowWire:MOCK] Cleared all mock balances');
-  }
 }
 
-// ============================================================================
-// Singleton Export
-// ============================================================================
-
-export const shadowWireService = new ShadowWireService();
-
 // ============================================================================
 // Utility Functions
 // ============================================================================
 
 /**
- * Convert SOL to lamports.
+ * Convert SOL to lamports (rounded down to a whole lamport).
  */
-export function solToLamports(sol: number): bigint {
-  return BigInt(Math.floor(sol * Number(LAMPORTS_PER_SOL)));
+export function solToLamports(sol: DecimalInput): bigint {
+  return Amount.parse('SOL', sol, 'floor').units;
 }
 
 /**
  * Convert lamports to SOL.
  */
 export function lamportsToSol(lamports: bigint): number {
-  return Number(lamports) / Number(LAMPORTS_PER_SOL);
+  return Number(Amount.fromUnits('SOL', lamports).toDecimal());
 }
@@ -0,0 +1,467 @@
+/**
+ * Spending Authorization Service - Pre-Authorized Stakes
+ *
+ * A player signs one message with their wallet allowing stakes up to a
+ * per-duel and per-day limit for a fixed period, then funds it with one
+ * verified transfer to the escrow wallet. While it is active, the client can
+ * lock stakes for repeated duels without a wallet popup each time: every
+ * lock that names the authorization is charged against its limits and drawn
+ * from its funded balance.
+ *
+ * - Limits are in the token's smallest units
+ * - The funded balance is what reached escrow (net of the deposit fee)
+ * - spentToday resets at 00:00 UTC
+ * - Refunded stakes go back to the wallet, not to spentToday or the balance
+ * - Revoking requires a second wallet signature, accepted once, and returns
+ *   the balance
+ *
+ * Authorizations live in the DuelStore; charges run under a store lock so
+ * concurrent locks cannot both pass the daily limit.
+ */
+
+import { randomBytes } from 'crypto';
+import type {
+  AuthorizeSpendingRequest,
+  AuthorizeSpendingResponse,
+  FundAuthorizationRequest,
+  FundAuthorizationResponse,
+  GetAuthorizationResponse,
+  RevokeAuthorizationRequest,
+  RevokeAuthorizationResponse,
+  SpendingAuthorization,
+  StealthId,
+  WalletAddress,
+} from '../types/index.js';
+import { Amount } from './amount.js';
+import { getDuelStore } from './duel-store.js';
+import { withAuthorizationLock, withEscrowBalanceLock } from './duel-lock.js';
+import { feeSchedule } from './fee-schedule.js';
+import { getLockVerifier, LOCK_SIGNATURE_RETENTION_MS, parseLockProof } from './lock-verifier.js';
+import { generateStealthId } from './stealth.js';
+import { getTransferProvider } from './transfer-provider.js';
+import { verifyWalletSignature } from './wallet-signature.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Longest validity a player can grant in one signature
+const MAX_VALID_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+// Signed authorize/revoke messages older (or further in the future) than this are rejected
+const MESSAGE_MAX_AGE_MS = 5 * 60 * 1000; // 5 minutes
+
+// Expired/revoked authorizations stay inspectable this long
+const AUTHORIZATION_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// A funded balance is the player's money; keep it until revoke returns it
+const FUNDED_RETENTION_MS = 365 * 24 * 60 * 60 * 1000; // 1 year
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ChargeResult {
+  success: boolean;
+  error?: string;
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Build the message a player signs to create an authorization
+ */
+export function buildAuthorizeMessage(params: {
+  playerWallet: WalletAddress;
+  token: string;
+  maxAmountPerTx: string;
+  maxDailySpend: string;
+  validForSeconds: number;
+  issuedAt: number;
+}): string {
+  return [
+    'Alerith spending authorization',
+    `Wallet: ${params.playerWallet}`,
+    `Token: ${params.token}`,
+    `Max per duel: ${params.maxAmountPerTx}`,
+    `Max per day: ${params.maxDailySpend}`,
+    `Valid for: ${params.validForSeconds} seconds`,
+    `Issued at: ${params.issuedAt}`,
+  ].join('\n');
+}
+
+/**
+ * Build the message a player signs to revoke an authorization
+ */
+export function buildRevokeMessage(params: {
+  authorizationId: string;
+  issuedAt: number;
+  nonce: string;
+}): string {
+  return [
+    'Revoke Alerith spending authorization',
+    `Authorization: ${params.authorizationId}`,
+    `Issued at: ${params.issuedAt}`,
+    `Nonce: ${params.nonce}`,
+  ].join('\n');
+}
+
+/**
+ * Current UTC day (YYYY-MM-DD)
+ */
+function utcDay(timestamp: number = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// Spending Authorization Service
+// ============================================================================
+
+class SpendingAuthorizationService {
+  private get store() {
+    return getDuelStore();
+  }
+
+  // ==========================================================================
+  // Create
+  // ==========================================================================
+
+  /**
+   * Create an authorization from a wallet-signed request
+   */
+  async authorize(request: AuthorizeSpendingRequest): Promise<AuthorizeSpendingResponse> {
+    const token = request.token ?? 'SOL';
+
+    let maxAmountPerTx: bigint;
+    let maxDailySpend: bigint;
+    try {
+      maxAmountPerTx = BigInt(request.maxAmountPerTx);
+      maxDailySpend = BigInt(request.maxDailySpend);
+    } catch {
+      return { success: false, error: 'Limits must be integer amounts' };
+    }
+
+    if (maxAmountPerTx <= 0n || maxDailySpend <= 0n) {
+      return { success: false, error: 'Limits must be positive' };
+    }
+    if (maxAmountPerTx > maxDailySpend) {
+      return { success: false, error: 'Per-duel limit cannot exceed daily limit' };
+    }
+    if (request.validForSeconds <= 0 || request.validForSeconds > MAX_VALID_SECONDS) {
+      return { success: false, error: `validForSeconds must be between 1 and ${MAX_VALID_SECONDS}` };
+    }
+
+    const now = Date.now();
+    if (Math.abs(now - request.issuedAt) > MESSAGE_MAX_AGE_MS) {
+      return { success: false, error: 'Authorization message has expired, sign a new one' };
+    }
+
+    // The signed message must state exactly the requested limits
+    const expectedMessage = buildAuthorizeMessage({ ...request, token });
+    if (request.message !== expectedMessage) {
+      return { success: false, error: 'Message does not match the requested authorization' };
+    }
+    if (!verifyWalletSignature(request.playerWallet, request.message, request.signedMessage)) {
+      return { success: false, error: 'Invalid wallet signature' };
+    }
+
+    // A signed message creates one authorization (no replay after revoke)
+    const fresh = await this.store.claimNonce(`spending-auth:${request.signedMessage}`, MESSAGE_MAX_AGE_MS * 2);
+    if (!fresh) {
+      return { success: false, error: 'Authorization message was already used' };
+    }
+
+    const authorization: SpendingAuthorization = {
+      authorizationId: randomBytes(16).toString('hex'),
+      playerStealthId: generateStealthId(request.playerWallet),
+      token,
+      maxAmountPerTx,
+      maxDailySpend,
+      spentToday: 0n,
+      spendingDay: utcDay(now),
+      fundedBalance: 0n,
+      createdAt: now,
+      expiresAt: now + request.validForSeconds * 1000,
+      isActive: true,
+    };
+
+    await this.save(authorization);
+
+    console.log(
+      `[SpendingAuth] Created ${authorization.authorizationId} for ${authorization.playerStealthId.slice(0, 8)}... ` +
+      `(${token}, valid ${request.validForSeconds}s)`
+    );
+
+    return {
+      success: true,
+      authorizationId: authorization.authorizationId,
+      expiresAt: authorization.expiresAt,
+    };
+  }
+
+  // ==========================================================================
+  // Inspect
+  // ==========================================================================
+
+  /**
+   * Get an authorization with spentToday rolled over to the current day
+   */
+  async get(authorizationId: string): Promise<SpendingAuthorization | null> {
+    const authorization = await this.store.getAuthorization(authorizationId);
+    if (!authorization) return null;
+
+    const today = utcDay();
+    if (authorization.spendingDay !== today) {
+      authorization.spentToday = 0n;
+      authorization.spendingDay = today;
+    }
+
+    if (authorization.isActive && Date.now() >= authorization.expiresAt) {
+      authorization.isActive = false;
+    }
+
+    return authorization;
+  }
+
+  /**
+   * Get an authorization in API form
+   */
+  async describe(authorizationId: string): Promise<GetAuthorizationResponse> {
+    const authorization = await this.get(authorizationId);
+    if (!authorization) {
+      return { success: false, error: 'Authorization not found' };
+    }
+
+    const remaining = authorization.maxDailySpend - authorization.spentToday;
+
+    return {
+      success: true,
+      authorization: {
+        authorizationId: authorization.authorizationId,
+        playerStealthId: authorization.playerStealthId,
+        token: authorization.token,
+        maxAmountPerTx: authorization.maxAmountPerTx.toString(),
+        maxDailySpend: authorization.maxDailySpend.toString(),
+        spentToday: authorization.spentToday.toString(),
+        remainingToday: (remaining > 0n ? remaining : 0n).toString(),
+        fundedBalance: authorization.fundedBalance.toString(),
+        createdAt: authorization.createdAt,
+        expiresAt: authorization.expiresAt,
+        isActive: authorization.isActive,
+      },
+    };
+  }
+
+  // ==========================================================================
+  // Fund
+  // ==========================================================================
+
+  /**
+   * Credit a verified transfer to escrow to an authorization's funded balance.
+   * The transfer is checked like a stake lock (see lock-verifier.ts) and its
+   * signature can fund once and never lock a stake.
+   */
+  async fund(request: FundAuthorizationRequest): Promise<FundAuthorizationResponse> {
+    const { authorizationId } = request;
+    const playerStealthId = generateStealthId(request.playerWallet);
+
+    const authorization = await this.get(authorizationId);
+    if (!authorization || authorization.playerStealthId !== playerStealthId) {
+      return { success: false, error: 'Authorization not found' };
+    }
+
+    const amount = Amount.fromUnits(authorization.token, BigInt(request.amount));
+    if (!amount.isPositive()) {
+      return { success: false, error: 'Amount must be positive' };
+    }
+
+    const proof = parseLockProof(request.paymentProof);
+
+    // Same lock order as a stake lock: escrow balance, then authorization
+    return withEscrowBalanceLock(amount.token, () =>
+      withAuthorizationLock(authorizationId, async () => {
+        const current = await this.get(authorizationId);
+        if (!current?.isActive) {
+          return { success: false, error: 'Authorization is revoked or expired' };
+        }
+
+        const verifier = getLockVerifier();
+        const verification = await verifier.verify({
+          resource: `Authorization:${authorizationId}`,
+          proof,
+          expectedAmount: amount,
+          escrowWallet: getTransferProvider().getEscrowWallet(),
+        });
+        if (!verification.verified) {
+          console.warn(`[SpendingAuth] Funding of ${authorizationId} rejected by ${verifier.name}: ${verification.error}`);
+          return { success: false, error: `Funding transfer not verified: ${verification.error}` };
+        }
+
+        const existingBinding = await this.store.bindLockSignature(
+          { txSignature: proof.txSignature, authorizationId, stealthId: playerStealthId, boundAt: Date.now() },
+          LOCK_SIGNATURE_RETENTION_MS
+        );
+        if (existingBinding) {
+          return {
+            success: false,
+            error: existingBinding.authorizationId === authorizationId
+              ? 'Transaction already credited to this authorization'
+              : 'Transaction already used to lock another stake',
+          };
+        }
+
+        const credited = feeSchedule.deposited(amount);
+        current.fundedBalance += credited.units;
+        await this.save(current);
+
+        console.log(
+          `[SpendingAuth] Funded ${authorizationId} with ${credited.toDisplay()} (balance ${current.fundedBalance})`
+        );
+
+        return {
+          success: true,
+          credited: credited.units.toString(),
+          fundedBalance: current.fundedBalance.toString(),
+        };
+      })
+    );
+  }
+
+  // ==========================================================================
+  // Revoke
+  // ==========================================================================
+
+  /**
+   * Deactivate an authorization and return its funded balance to the owning
+   * wallet (signed by that wallet). If the return transfer fails the balance
+   * is kept and revoking again, with a newly signed message, retries it.
+   */
+  async revoke(request: RevokeAuthorizationRequest): Promise<RevokeAuthorizationResponse> {
+    if (Math.abs(Date.now() - request.issuedAt) > MESSAGE_MAX_AGE_MS) {
+      return { success: false, error: 'Revoke message has expired, sign a new one' };
+    }
+    if (!verifyWalletSignature(request.playerWallet, buildRevokeMessage(request), request.signedMessage)) {
+      return { success: false, error: 'Invalid wallet signature' };
+    }
+
+    // A signed message revokes once (a captured signature cannot be replayed)
+    const fresh = await this.store.claimNonce(
+      `spending-revoke:${request.authorizationId}:${request.nonce}`,
+      MESSAGE_MAX_AGE_MS * 2
+    );
+    if (!fresh) {
+      return { success: false, error: 'Revoke message was already used' };
+    }
+
+    return withAuthorizationLock(request.authorizationId, async () => {
+      const authorization = await this.get(request.authorizationId);
+      if (!authorization || authorization.playerStealthId !== generateStealthId(request.playerWallet)) {
+        return { success: false, error: 'Authorization not found' };
+      }
+
+      if (authorization.isActive) {
+        authorization.isActive = false;
+        await this.save(authorization);
+        console.log(`[SpendingAuth] Revoked ${authorization.authorizationId}`);
+      }
+
+      if (authorization.fundedBalance === 0n) {
+        return { success: true };
+      }
+
+      const balance = Amount.fromUnits(authorization.token, authorization.fundedBalance);
+      const transfer = await getTransferProvider().transferFromEscrow(request.playerWallet, balance);
+      if (!transfer.success) {
+        console.error(`[SpendingAuth] Returning ${balance.toDisplay()} from ${authorization.authorizationId} failed: ${transfer.error}`);
+        return {
+          success: false,
+          error: `Authorization revoked, but returning its funded balance failed (revoke again to retry): ${transfer.error}`,
+        };
+      }
+
+      authorization.fundedBalance = 0n;
+      await this.save(authorization);
+      console.log(`[SpendingAuth] Returned ${balance.toDisplay()} from ${authorization.authorizationId}`);
+
+      return {
+        success: true,
+        returnedAmount: balance.units.toString(),
+        returnTxSignature: transfer.txSignature,
+      };
+    });
+  }
+
+  // ==========================================================================
+  // Charge
+  // ==========================================================================
+
+  /**
+   * Charge a stake against an authorization, enforcing its limits, and draw
+   * what the stake would have deposited into escrow from its funded balance
+   */
+  async charge(
+    authorizationId: string,
+    playerStealthId: StealthId,
+    stake: Amount
+  ): Promise<ChargeResult> {
+    const { token, units: amount } = stake;
+    try {
+      return await withAuthorizationLock(authorizationId, async () => {
+        const authorization = await this.get(authorizationId);
+
+        if (!authorization || authorization.playerStealthId !== playerStealthId) {
+          return { success: false, error: 'Authorization not found' };
+        }
+        if (!authorization.isActive) {
+          return { success: false, error: 'Authorization is revoked or expired' };
+        }
+        if (authorization.token !== token) {
+          return { success: false, error: `Authorization is for ${authorization.token}, duel stakes ${token}` };
+        }
+        if (amount > authorization.maxAmountPerTx) {
+          return { success: false, error: 'Stake exceeds per-duel authorization limit' };
+        }
+        if (authorization.spentToday + amount > authorization.maxDailySpend) {
+          return { success: false, error: 'Stake exceeds daily authorization limit' };
+        }
+
+        const deposit = feeSchedule.deposited(stake).units;
+        if (deposit > authorization.fundedBalance) {
+          return { success: false, error: 'Stake exceeds funded authorization balance' };
+        }
+
+        authorization.spentToday += amount;
+        authorization.fundedBalance -= deposit;
+        await this.save(authorization);
+
+        console.log(
+          `[SpendingAuth] Charged ${amount} to ${authorizationId} (${authorization.spentToday}/${authorization.maxDailySpend} today)`
+        );
+
+        return { success: true };
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, error: message };
+    }
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private async save(authorization: SpendingAuthorization): Promise<void> {
+    const ttlMs = authorization.fundedBalance > 0n
+      ? FUNDED_RETENTION_MS
+      : authorization.expiresAt + AUTHORIZATION_RETENTION_MS - Date.now();
+    await this.store.setAuthorization(authorization, ttlMs);
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const spendingAuthorizationService = new SpendingAuthorizationService();
@@ -149,7 +149,8 @@ export function generateStealthIds(wallets: WalletAddress[]): Map<WalletAddress,
  * Maps stealth IDs back to wallets for the duration of a duel.
  *
  * SECURITY: This map is NEVER persisted to disk or database.
- * It exists only in memory for active duel sessions.
+ * It exists only in memory for active duel sessions. The optional wallet
+ * vault (wallet-vault.ts) keeps an encrypted, per-duel copy for recovery.
  */
 class StealthMappingService {
   private readonly sessionMap = new Map<StealthId, WalletAddress>();
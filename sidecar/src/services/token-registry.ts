@@ -0,0 +1,118 @@
+/**
+ * Token Registry - Tokens Stakes Are Accepted In
+ *
+ * Read from the JSON file at TOKEN_REGISTRY_PATH and validated with the rest
+ * of the configuration (see config.ts). Each entry gives a ShadowWire token's
+ * mint, decimals, ShadowWire minimum, our safety margin above it, max stake,
+ * ShadowWire fee and whether it takes new duels, so a new SPL token that
+ * ShadowWire supports is added by editing the file:
+ *
+ *   { "symbol": "BONK", "mint": "<base58>", "decimals": 5,
+ *     "shadowWireMinimum": "1000000", "safetyMarginPercent": 10,
+ *     "maxStake": null, "feePercent": 0.5, "enabled": true }
+ *
+ * A disabled token takes no new duels, quotes or authorizations, but its
+ * existing duels still settle and refund. Remove a token from the file only
+ * once none are left.
+ */
+
+import { getConfig, type TokenConfig } from '../config.js';
+import type { TokenInfo } from '../types/index.js';
+import { Amount, AmountError } from './amount.js';
+
+// ============================================================================
+// Token Registry
+// ============================================================================
+
+class TokenRegistry {
+  /**
+   * Every registered token symbol, enabled or not
+   */
+  get symbols(): string[] {
+    return getConfig().tokens.map(token => token.symbol);
+  }
+
+  /**
+   * Symbols new duels may stake
+   */
+  get enabledSymbols(): string[] {
+    return getConfig().tokens.filter(token => token.enabled).map(token => token.symbol);
+  }
+
+  get(symbol: string): TokenConfig | undefined {
+    return getConfig().tokens.find(token => token.symbol === symbol);
+  }
+
+  isEnabled(symbol: string): boolean {
+    return this.get(symbol)?.enabled ?? false;
+  }
+
+  /**
+   * SPL mint address, or null for native SOL
+   */
+  mint(symbol: string): string | null {
+    return this.require(symbol).mint;
+  }
+
+  /**
+   * Smallest stake per player, and smallest transfer we send out of escrow:
+   * the ShadowWire minimum plus the token's safety margin, rounded up
+   */
+  minimum(symbol: string): Amount {
+    const { safetyMarginPercent } = this.require(symbol);
+    return this.shadowWireMinimum(symbol).percent(100 + safetyMarginPercent, 'ceil');
+  }
+
+  /**
+   * Smallest amount ShadowWire itself will transfer, without our margin
+   */
+  shadowWireMinimum(symbol: string): Amount {
+    return Amount.parse(symbol, this.require(symbol).shadowWireMinimum);
+  }
+
+  /**
+   * Largest stake per player, or null for no limit
+   */
+  maxStake(symbol: string): Amount | null {
+    const { maxStake } = this.require(symbol);
+    return maxStake === null ? null : Amount.parse(symbol, maxStake);
+  }
+
+  /**
+   * ShadowWire fee, taken on deposit and on every transfer out of escrow
+   */
+  feePercent(symbol: string): number {
+    return this.require(symbol).feePercent;
+  }
+
+  /**
+   * The registry as published by /duel/service-info
+   */
+  describe(): TokenInfo[] {
+    return getConfig().tokens.map((token): TokenInfo => ({
+      symbol: token.symbol,
+      mint: token.mint,
+      decimals: token.decimals,
+      minimum: this.minimum(token.symbol).toDecimal(),
+      maxStake: token.maxStake,
+      shadowWireMinimum: token.shadowWireMinimum,
+      safetyMarginPercent: token.safetyMarginPercent,
+      feePercent: token.feePercent,
+      enabled: token.enabled,
+    }));
+  }
+
+  /**
+   * @throws AmountError for a token that is not registered
+   */
+  private require(symbol: string): TokenConfig {
+    const token = this.get(symbol);
+    if (!token) {
+      throw new AmountError(`Unsupported token: ${symbol}`);
+    }
+    return token;
+  }
+}
+
+// Export singleton instance
+export const tokenRegistry = new TokenRegistry();
@@ -0,0 +1,188 @@
+/**
+ * Transfer Provider - Moving Funds Through the ShadowWire Pool
+ *
+ * Every pool balance read, transfer out of escrow, deposit and withdrawal
+ * goes through one TransferProvider, chosen by TRANSFER_PROVIDER:
+ * - direct: the ShadowWire API, with ZK proofs from our WASM loader
+ *   (shadowwire-direct.ts)
+ * - sdk:    the @radr/shadowwire SDK (shadowwire.ts)
+ * - mock:   in-memory balances and fake signatures (mock-transfer.ts).
+ *   Config refuses it on mainnet-beta and in production.
+ *
+ * A provider that cannot reach ShadowWire (e.g. the WASM prover fails to
+ * load) fails the operation. It never switches to mock on its own, so a
+ * mainnet payout either happens or is reported as failed.
+ *
+ * Amounts are Amount throughout; fees and minimums come from the token
+ * registry for every provider. Swappable via setTransferProvider(), e.g.
+ * a seeded MockTransferProvider in tests.
+ */
+
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { getConfig, type Config, type TransferProviderKind } from '../config.js';
+import type { TxSignature, WalletAddress } from '../types/index.js';
+import type { Amount } from './amount.js';
+import { tokenRegistry } from './token-registry.js';
+import { DirectTransferProvider } from './shadowwire-direct.js';
+import { SdkTransferProvider } from './shadowwire.js';
+import { MockTransferProvider } from './mock-transfer.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TransferResult {
+  success: boolean;
+  txSignature?: TxSignature;
+  error?: string;
+}
+
+export interface BalanceResult {
+  success: boolean;
+  /** Available pool balance */
+  balance?: Amount;
+  poolAddress?: string;
+  error?: string;
+}
+
+export interface DepositResult {
+  success: boolean;
+  /** Deposit transaction for the player to sign and send */
+  unsignedTxBase64?: string;
+  poolAddress?: string;
+  error?: string;
+}
+
+export interface WithdrawResult {
+  success: boolean;
+  /** Withdrawal transaction for the player to sign, if ShadowWire needs one */
+  unsignedTxBase64?: string;
+  txSignature?: TxSignature;
+  error?: string;
+}
+
+export interface TransferFeeInfo {
+  token: string;
+  /** ShadowWire fee, taken on deposit and on every transfer out */
+  feePercent: number;
+  /** Smallest amount ShadowWire will transfer */
+  shadowWireMinimum: Amount;
+  /** Smallest amount we send (ShadowWire minimum plus safety margin) */
+  minimum: Amount;
+}
+
+export interface TransferProvider {
+  readonly name: TransferProviderKind;
+
+  /**
+   * Load the escrow and treasury keys. Idempotent.
+   */
+  initialize(): Promise<void>;
+
+  getEscrowWallet(): WalletAddress;
+  getTreasuryWallet(): WalletAddress;
+
+  /**
+   * Available pool balance of a wallet in one token
+   */
+  getBalance(wallet: WalletAddress, token: string): Promise<BalanceResult>;
+
+  /**
+   * Private (amount-hidden) transfer from the escrow wallet
+   */
+  transferFromEscrow(recipientWallet: WalletAddress, amount: Amount): Promise<TransferResult>;
+
+  /**
+   * Private transfer from the escrow wallet to the treasury (house fees, dust)
+   */
+  transferToTreasury(amount: Amount): Promise<TransferResult>;
+
+  /**
+   * Deposit of a player's funds into the pool, for the player to sign
+   */
+  createDeposit(wallet: WalletAddress, amount: Amount): Promise<DepositResult>;
+
+  /**
+   * Withdrawal of a player's funds out of the pool
+   */
+  createWithdrawal(wallet: WalletAddress, amount: Amount): Promise<WithdrawResult>;
+
+  /**
+   * Fee and minimums for a token
+   */
+  feeInfo(token: string): TransferFeeInfo;
+}
+
+// ============================================================================
+// Shared Helpers
+// ============================================================================
+
+/**
+ * Fee and minimums for a token, from the token registry (the same for
+ * every provider)
+ */
+export function transferFeeInfo(token: string): TransferFeeInfo {
+  return {
+    token,
+    feePercent: tokenRegistry.feePercent(token),
+    shadowWireMinimum: tokenRegistry.shadowWireMinimum(token),
+    minimum: tokenRegistry.minimum(token),
+  };
+}
+
+/**
+ * Escrow and treasury keypairs from config
+ *
+ * @throws Error naming the secret that does not decode to a keypair
+ */
+export function loadPoolKeypairs(config: Config): { escrow: Keypair; treasury: Keypair } {
+  return {
+    escrow: decodeKeypair(config.ESCROW_WALLET_SECRET, 'ESCROW_WALLET_SECRET'),
+    treasury: decodeKeypair(config.TREASURY_WALLET_SECRET, 'TREASURY_WALLET_SECRET'),
+  };
+}
+
+function decodeKeypair(secret: string, name: string): Keypair {
+  try {
+    return Keypair.fromSecretKey(bs58.decode(secret));
+  } catch {
+    throw new Error(`Invalid ${name}`);
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create the provider for TRANSFER_PROVIDER
+ */
+export function createTransferProvider(config: Config): TransferProvider {
+  switch (config.TRANSFER_PROVIDER) {
+    case 'direct':
+      return new DirectTransferProvider();
+    case 'sdk':
+      return new SdkTransferProvider();
+    case 'mock':
+      return new MockTransferProvider();
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+let _provider: TransferProvider | null = null;
+
+export function getTransferProvider(): TransferProvider {
+  if (!_provider) {
+    _provider = createTransferProvider(getConfig());
+  }
+  return _provider;
+}
+
+// For testing - allows swapping the provider
+export function setTransferProvider(provider: TransferProvider | null): void {
+  _provider = provider;
+}
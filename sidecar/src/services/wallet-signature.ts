@@ -0,0 +1,34 @@
+/**
+ * Wallet Signatures - Player Message Verification
+ *
+ * Players prove control of a wallet by signing a message with it
+ * (Solana wallet `signMessage`). Signatures are base58-encoded Ed25519
+ * over the UTF-8 message; the wallet address is the public key.
+ */
+
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import type { WalletAddress } from '../types/index.js';
+
+/**
+ * Check that `signature` is `wallet`'s signature over `message`
+ */
+export function verifyWalletSignature(
+  wallet: WalletAddress,
+  message: string,
+  signature: string
+): boolean {
+  try {
+    const publicKey = bs58.decode(wallet);
+    const signatureBytes = bs58.decode(signature);
+
+    if (publicKey.length !== nacl.sign.publicKeyLength || signatureBytes.length !== nacl.sign.signatureLength) {
+      return false;
+    }
+
+    return nacl.sign.detached.verify(Buffer.from(message, 'utf8'), signatureBytes, publicKey);
+  } catch {
+    // Not base58
+    return false;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Wallet Vault - Encrypted Stealth Mapping at Rest
+ *
+ * StealthMappingService keeps stealth ID -> wallet in memory only, so a
+ * crash leaves locked stakes with nowhere to go. With WALLET_VAULT_KEY set,
+ * the two wallets of each duel are also written to the DuelStore, encrypted:
+ *
+ * - AES-256-GCM, one entry per duel
+ * - The key is derived per duel (HKDF-SHA256 of WALLET_VAULT_KEY, salted
+ *   with the duel ID), and the duel and stealth IDs are authenticated as
+ *   associated data, so a sealed wallet cannot be moved to another duel
+ * - WALLET_VAULT_KEY is never WALLET_PEPPER: the store plus the pepper
+ *   still reveal nothing
+ * - The entry is deleted once the duel is settled or refunded, and expires
+ *   with the duel otherwise
+ *
+ * DuelEscrowService falls back to the vault when a wallet is not in the
+ * in-memory map (e.g. after a restart).
+ */
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+import { getConfig } from '../config.js';
+import type { DuelId, StealthId, WalletAddress } from '../types/index.js';
+import { getDuelStore } from './duel-store.js';
+import { generateStealthId } from './stealth.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SealedWallet {
+  stealthId: StealthId;
+  /** base64 AES-GCM nonce */
+  iv: string;
+  /** base64 encrypted wallet address */
+  ciphertext: string;
+  /** base64 AES-GCM authentication tag */
+  tag: string;
+}
+
+export interface WalletVaultEntry {
+  duelId: DuelId;
+  wallets: SealedWallet[];
+  createdAt: number;
+}
+
+const CIPHER = 'aes-256-gcm';
+const KEY_INFO = 'alerith-wallet-vault:v1';
+const IV_BYTES = 12;
+
+// ============================================================================
+// Wallet Vault
+// ============================================================================
+
+class WalletVault {
+  private masterKey: Buffer | null = null;
+  private initialized = false;
+
+  /**
+   * Load WALLET_VAULT_KEY (the vault stays disabled without it)
+   */
+  initialize(): void {
+    if (this.initialized) return;
+
+    const config = getConfig();
+    this.initialized = true;
+
+    if (!config.WALLET_VAULT_KEY) {
+      console.log('[WalletVault] Disabled (no WALLET_VAULT_KEY) - wallets are kept in memory only');
+      return;
+    }
+
+    this.masterKey = Buffer.from(config.WALLET_VAULT_KEY, 'hex');
+
+    if (config.STORE_BACKEND === 'memory') {
+      console.warn('[WalletVault] STORE_BACKEND=memory - sealed wallets will not survive a restart');
+    }
+    console.log(`[WalletVault] Enabled (${config.STORE_BACKEND} storage)`);
+  }
+
+  get isEnabled(): boolean {
+    return this.masterKey !== null;
+  }
+
+  /**
+   * Store a duel's wallets encrypted. No-op when the vault is disabled.
+   */
+  async seal(duelId: DuelId, wallets: WalletAddress[], ttlMs: number): Promise<void> {
+    if (!this.masterKey) return;
+
+    const key = this.duelKey(duelId);
+    const entry: WalletVaultEntry = {
+      duelId,
+      wallets: wallets.map(wallet => {
+        const stealthId = generateStealthId(wallet);
+        const iv = randomBytes(IV_BYTES);
+        const cipher = createCipheriv(CIPHER, key, iv);
+        cipher.setAAD(associatedData(duelId, stealthId));
+        const ciphertext = Buffer.concat([cipher.update(wallet, 'utf8'), cipher.final()]);
+
+        return {
+          stealthId,
+          iv: iv.toString('base64'),
+          ciphertext: ciphertext.toString('base64'),
+          tag: cipher.getAuthTag().toString('base64'),
+        };
+      }),
+      createdAt: Date.now(),
+    };
+
+    await getDuelStore().setVaultEntry(entry, ttlMs);
+  }
+
+  /**
+   * Decrypt the wallet behind a stealth ID in a duel, if the vault has it.
+   * A wallet that fails to decrypt or does not match its stealth ID is
+   * treated as missing.
+   */
+  async open(duelId: DuelId, stealthId: StealthId): Promise<WalletAddress | undefined> {
+    if (!this.masterKey) return undefined;
+
+    const entry = await getDuelStore().getVaultEntry(duelId);
+    const sealed = entry?.wallets.find(item => item.stealthId === stealthId);
+    if (!sealed) return undefined;
+
+    try {
+      const decipher = createDecipheriv(CIPHER, this.duelKey(duelId), Buffer.from(sealed.iv, 'base64'));
+      decipher.setAAD(associatedData(duelId, stealthId));
+      decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+      const wallet = Buffer.concat([
+        decipher.update(Buffer.from(sealed.ciphertext, 'base64')),
+        decipher.final(),
+      ]).toString('utf8');
+
+      if (generateStealthId(wallet) !== stealthId) {
+        console.error(`[WalletVault] Sealed wallet for duel ${duelId} does not match its stealth ID`);
+        return undefined;
+      }
+      return wallet;
+    } catch {
+      // Wrong key or tampered entry
+      console.error(`[WalletVault] Failed to decrypt sealed wallet for duel ${duelId}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Delete a duel's sealed wallets (after settlement or refund)
+   */
+  async discard(duelId: DuelId): Promise<void> {
+    if (!this.masterKey) return;
+    await getDuelStore().deleteVaultEntry(duelId);
+  }
+
+  private duelKey(duelId: DuelId): Buffer {
+    return Buffer.from(hkdfSync('sha256', this.masterKey!, duelId, KEY_INFO, 32));
+  }
+}
+
+function associatedData(duelId: DuelId, stealthId: StealthId): Buffer {
+  return Buffer.from(`${duelId}:${stealthId}`, 'utf8');
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const walletVault = new WalletVault();
@@ -0,0 +1,460 @@
+/**
+ * Webhook Dispatcher - Signed Duel Lifecycle Notifications
+ *
+ * Pushes duel lifecycle events to the game server so it can drive Unity
+ * events (OnBothStakesLocked, OnCryptoSettlement, ...) without polling
+ * GET /duel/:duelId. Events come from `duelLifecycle`:
+ *
+ *   duel.created            new duel (PENDING_STAKES)
+ *   duel.stake_locked       one player's stake locked
+ *   duel.both_locked        both stakes locked (ACTIVE)
+ *   duel.settled            winner or draw paid (SETTLED)
+ *   duel.refunded           stakes returned (REFUNDED)
+ *   duel.payout_failed      a payout or refund transfer failed (FAILED)
+ *   duel.commitment_posted  settlement commitment posted on-chain
+ *
+ * Each event is POSTed to every WEBHOOK_URLS entry as a separate delivery
+ * with these headers:
+ *
+ *   X-Webhook-Id         delivery ID (same across retries - use it to dedupe)
+ *   X-Webhook-Event      event type
+ *   X-Webhook-Timestamp  ms since epoch when this attempt was sent
+ *   X-Webhook-Signature  v1=<hex HMAC-SHA256 of "<timestamp>.<body>" with WEBHOOK_SECRET>
+ *
+ * Any 2xx response counts as delivered. Everything else is retried with
+ * exponential backoff; after WEBHOOK_MAX_ATTEMPTS the delivery is marked
+ * failed and can be redelivered by hand. Deliveries live in the DuelStore
+ * (the delivery log), so pending retries survive a restart. Retries can
+ * reorder events - use occurredAt, or re-read the duel, when order matters.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getConfig, type WebhookEventType } from '../config.js';
+import type {
+  DuelId,
+  WebhookDeliveryInfo,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+} from '../types/index.js';
+import { DuelStatus } from '../types/index.js';
+import { getDuelStore } from './duel-store.js';
+import { withDeliveryLock } from './duel-lock.js';
+import {
+  duelLifecycle,
+  snapshotDuel,
+  type CommitmentPostedEvent,
+  type DuelTransitionEvent,
+  type StakeLockedEvent,
+} from './duel-state-machine.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  url: string;
+  type: WebhookEventType;
+  duelId: DuelId;
+  /** Exact JSON body sent on every attempt */
+  body: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time the next attempt may run */
+  nextAttemptAt: number;
+  lastStatusCode?: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+  deliveredAt?: number;
+}
+
+// Deliveries stay in the log this long after their last update
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// How often pending deliveries are checked
+const POLL_INTERVAL_MS = 1000;
+
+// Only this much of a failed response body is kept in the log
+const MAX_ERROR_BODY_LENGTH = 200;
+
+// Transitions that are delivered, by target status
+const TRANSITION_EVENTS: Partial<Record<DuelStatus, WebhookEventType>> = {
+  [DuelStatus.ACTIVE]: 'duel.both_locked',
+  [DuelStatus.SETTLED]: 'duel.settled',
+  [DuelStatus.REFUNDED]: 'duel.refunded',
+  [DuelStatus.FAILED]: 'duel.payout_failed',
+};
+
+// ============================================================================
+// Signatures
+// ============================================================================
+
+/**
+ * Signature header value for a body sent at `timestamp`
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `v1=${digest}`;
+}
+
+/**
+ * Check a received signature header (for receivers and tests)
+ */
+export function verifyWebhookSignature(
+  body: string,
+  timestamp: number,
+  signature: string,
+  secret: string
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(body, timestamp, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Delivery in API form
+ */
+export function describeDelivery(delivery: WebhookDelivery, includePayload: boolean = false): WebhookDeliveryInfo {
+  const payload = JSON.parse(delivery.body) as WebhookPayload;
+
+  return {
+    deliveryId: delivery.deliveryId,
+    eventId: payload.eventId,
+    type: delivery.type,
+    duelId: delivery.duelId,
+    url: delivery.url,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    maxAttempts: delivery.maxAttempts,
+    nextAttemptAt: delivery.status === 'pending' ? delivery.nextAttemptAt : undefined,
+    lastStatusCode: delivery.lastStatusCode,
+    lastError: delivery.lastError,
+    createdAt: delivery.createdAt,
+    updatedAt: delivery.updatedAt,
+    deliveredAt: delivery.deliveredAt,
+    payload: includePayload ? payload : undefined,
+  };
+}
+
+// ============================================================================
+// Webhook Dispatcher
+// ============================================================================
+
+class WebhookDispatcher {
+  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private processing = false;
+  private enabledEvents = new Set<WebhookEventType>();
+
+  private get store() {
+    return getDuelStore();
+  }
+
+  /**
+   * Subscribe to duel lifecycle events and start sending pending deliveries
+   */
+  initialize(): void {
+    if (this.pollInterval) return;
+
+    const config = getConfig();
+
+    if (config.WEBHOOK_URLS.length === 0) {
+      console.log('[Webhooks] No WEBHOOK_URLS configured - webhooks disabled');
+      return;
+    }
+
+    this.enabledEvents = new Set(config.WEBHOOK_EVENTS);
+
+    duelLifecycle.on('transition', this.onTransition);
+    duelLifecycle.on('stakeLocked', this.onStakeLocked);
+    duelLifecycle.on('commitmentPosted', this.onCommitmentPosted);
+
+    this.pollInterval = setInterval(() => {
+      this.processDue().catch((error) => {
+        console.error('[Webhooks] Processing failed:', error);
+      });
+    }, POLL_INTERVAL_MS);
+
+    console.log(
+      `[Webhooks] Initialized (${config.WEBHOOK_URLS.length} URL(s), ${this.enabledEvents.size} event type(s), ` +
+      `max ${config.WEBHOOK_MAX_ATTEMPTS} attempts)`
+    );
+  }
+
+  /**
+   * Unsubscribe and stop sending (pending deliveries resume on next start)
+   */
+  shutdown(): void {
+    if (!this.pollInterval) return;
+
+    clearInterval(this.pollInterval);
+    this.pollInterval = null;
+
+    duelLifecycle.off('transition', this.onTransition);
+    duelLifecycle.off('stakeLocked', this.onStakeLocked);
+    duelLifecycle.off('commitmentPosted', this.onCommitmentPosted);
+  }
+
+  // ==========================================================================
+  // Lifecycle Listeners
+  // ==========================================================================
+
+  private onTransition = (event: DuelTransitionEvent): void => {
+    const type = event.from === null ? 'duel.created' : TRANSITION_EVENTS[event.to];
+    if (!type) return;
+
+    this.emit(type, event.duelId, event.timestamp, { duel: snapshotDuel(event.duel), reason: event.reason });
+  };
+
+  private onStakeLocked = (event: StakeLockedEvent): void => {
+    this.emit('duel.stake_locked', event.duelId, event.timestamp, {
+      duel: snapshotDuel(event.duel),
+      playerNumber: event.playerNumber,
+    });
+  };
+
+  private onCommitmentPosted = (event: CommitmentPostedEvent): void => {
+    this.emit('duel.commitment_posted', event.duelId, event.timestamp, {
+      commitmentKind: event.kind,
+      commitmentHash: event.commitmentHash,
+      commitmentTxSignature: event.txSignature,
+      merkleRoot: event.merkleRoot,
+    });
+  };
+
+  /**
+   * Build the payload now (the duel object may change later) and queue it
+   */
+  private emit(type: WebhookEventType, duelId: DuelId, occurredAt: number, data: WebhookPayload['data']): void {
+    if (!this.enabledEvents.has(type)) return;
+
+    const payload: WebhookPayload = {
+      eventId: randomBytes(16).toString('hex'),
+      type,
+      occurredAt,
+      duelId,
+      data,
+    };
+
+    this.enqueue(payload).catch((error) => {
+      console.error(`[Webhooks] Failed to queue ${type} for duel ${duelId}:`, error);
+    });
+  }
+
+  // ==========================================================================
+  // Delivery Log
+  // ==========================================================================
+
+  /**
+   * Create one delivery per configured URL and send them right away
+   */
+  async enqueue(payload: WebhookPayload): Promise<WebhookDelivery[]> {
+    const config = getConfig();
+    const body = JSON.stringify(payload);
+    const now = Date.now();
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const url of config.WEBHOOK_URLS) {
+      const delivery: WebhookDelivery = {
+        deliveryId: randomBytes(16).toString('hex'),
+        url,
+        type: payload.type,
+        duelId: payload.duelId,
+        body,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: config.WEBHOOK_MAX_ATTEMPTS,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.store.setWebhookDelivery(delivery, DELIVERY_RETENTION_MS);
+      deliveries.push(delivery);
+    }
+
+    // Send now rather than waiting for the next poll
+    setImmediate(() => {
+      this.processDue().catch((error) => {
+        console.error('[Webhooks] Processing failed:', error);
+      });
+    });
+
+    return deliveries;
+  }
+
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    return this.store.getWebhookDelivery(deliveryId);
+  }
+
+  /**
+   * Deliveries matching the filters, newest first
+   */
+  async listDeliveries(filter: {
+    status?: WebhookDeliveryStatus;
+    duelId?: DuelId;
+    limit?: number;
+  } = {}): Promise<WebhookDelivery[]> {
+    const deliveries = await this.store.getAllWebhookDeliveries();
+
+    return deliveries
+      .filter(delivery => !filter.status || delivery.status === filter.status)
+      .filter(delivery => !filter.duelId || delivery.duelId === filter.duelId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, filter.limit ?? 100);
+  }
+
+  /**
+   * Send a failed delivery again with a fresh set of attempts
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery | null> {
+    const delivery = await withDeliveryLock(deliveryId, async () => {
+      const current = await this.store.getWebhookDelivery(deliveryId);
+      if (!current || current.status !== 'failed') return null;
+
+      return this.update(current, { status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+    });
+
+    if (delivery) {
+      console.log(`[Webhooks] Redelivering ${deliveryId}`);
+      setImmediate(() => {
+        this.processDue().catch((error) => {
+          console.error('[Webhooks] Processing failed:', error);
+        });
+      });
+    }
+
+    return delivery;
+  }
+
+  // ==========================================================================
+  // Sending
+  // ==========================================================================
+
+  /**
+   * Send every delivery whose next attempt is due, oldest event first
+   */
+  async processDue(): Promise<void> {
+    // Skip if the previous pass is still running (receivers can be slow)
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const now = Date.now();
+      const deliveries = await this.store.getAllWebhookDeliveries();
+
+      const due = deliveries
+        .filter(delivery => delivery.status === 'pending' && delivery.nextAttemptAt <= now)
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+      for (const delivery of due) {
+        try {
+          await withDeliveryLock(delivery.deliveryId, () => this.send(delivery.deliveryId));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.warn(`[Webhooks] Skipping delivery ${delivery.deliveryId} this pass: ${message}`);
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Make one attempt at a delivery (caller holds the delivery lock)
+   */
+  private async send(deliveryId: string): Promise<void> {
+    // Another replica may have sent it since we listed it
+    const pending = await this.store.getWebhookDelivery(deliveryId);
+    if (!pending || pending.status !== 'pending' || pending.nextAttemptAt > Date.now()) return;
+
+    const config = getConfig();
+    const attempts = pending.attempts + 1;
+    const timestamp = Date.now();
+
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await fetch(pending.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'alerith-shadowwire-sidecar',
+          'X-Webhook-Id': pending.deliveryId,
+          'X-Webhook-Event': pending.type,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(pending.body, timestamp, config.WEBHOOK_SECRET ?? ''),
+        },
+        body: pending.body,
+        signal: AbortSignal.timeout(config.webhookTimeoutMs),
+      });
+
+      statusCode = response.status;
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        error = `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_BODY_LENGTH)}` : ''}`;
+      }
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : 'Unknown error';
+    }
+
+    if (!error) {
+      await this.update(pending, {
+        status: 'delivered',
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: undefined,
+        deliveredAt: Date.now(),
+      });
+      return;
+    }
+
+    if (attempts >= pending.maxAttempts) {
+      await this.update(pending, { status: 'failed', attempts, lastStatusCode: statusCode, lastError: error });
+      console.error(
+        `[Webhooks] Delivery ${deliveryId} (${pending.type}, duel ${pending.duelId}) failed after ${attempts} attempts: ${error}`
+      );
+      return;
+    }
+
+    const delayMs = this.backoff(attempts);
+    await this.update(pending, {
+      attempts,
+      lastStatusCode: statusCode,
+      lastError: error,
+      nextAttemptAt: Date.now() + delayMs,
+    });
+    console.warn(
+      `[Webhooks] Delivery ${deliveryId} attempt ${attempts}/${pending.maxAttempts} failed: ${error} - retrying in ${delayMs}ms`
+    );
+  }
+
+  /**
+   * Delay before the attempt after `attempts` failures: base * 2^(attempts-1), capped
+   */
+  private backoff(attempts: number): number {
+    const config = getConfig();
+    return Math.min(config.webhookRetryBaseMs * 2 ** (attempts - 1), config.webhookRetryMaxMs);
+  }
+
+  /**
+   * Persist changes to a delivery
+   */
+  private async update(delivery: WebhookDelivery, changes: Partial<WebhookDelivery>): Promise<WebhookDelivery> {
+    const updated: WebhookDelivery = { ...delivery, ...changes, updatedAt: Date.now() };
+    await this.store.setWebhookDelivery(updated, DELIVERY_RETENTION_MS);
+    return updated;
+  }
+}
+
+// ============================================================================
+// Singleton Export
+// ============================================================================
+
+export const webhookDispatcher = new WebhookDispatcher();
@@ -3,6 +3,10 @@
  * All types for privacy-preserving duel escrow system
  */
 
+import type { WebhookEventType } from '../config.js';
+import type { CommitmentRecord } from '../services/accountability.js';
+import type { Amount } from '../services/amount.js';
+
 // ============================================================================
 // Stealth Identity Types
 // ============================================================================
@@ -37,10 +41,12 @@ export enum DuelStatus {
   SETTLED = 'SETTLED',
   /** Timeout or cancellation, refunds issued */
   REFUNDED = 'REFUNDED',
-  /** Something went wrong */
+  /** Payout failed, awaiting settlement retry or refund */
   FAILED = 'FAILED',
 }
 
+// Legal transitions between statuses live in services/duel-state-machine.ts
+
 export interface DuelParticipant {
   /** Stealth ID (hashed wallet) - safe to persist */
   stealthId: StealthId;
@@ -48,7 +54,7 @@ export interface DuelParticipant {
   characterId: CharacterId;
   /** Character name */
   characterName: string;
-  /** Stake amount in lamports */
+  /** Stake in the duel token's smallest units (see fee-schedule stakeOf) */
   stakeAmount: bigint;
   /** Whether stake is locked in escrow */
   stakeLocked: boolean;
@@ -56,8 +62,10 @@ export interface DuelParticipant {
   lockTxSignature?: TxSignature;
   /** Timestamp when stake was locked */
   lockTimestamp?: number;
-  /** ShadowPay authorization ID for this player */
-  authorizationId?: number;
+  /** Transfer that returned this player's stake (draw payout or refund), set once paid */
+  payoutTxSignature?: TxSignature;
+  /** Spending authorization charged for this stake (pre-auth lock) */
+  authorizationId?: string;
 }
 
 export interface DuelRules {
@@ -82,10 +90,13 @@ export interface CombatSummary {
   player1DamageDealt: number;
   /** Player 2 damage dealt */
   player2DamageDealt: number;
-  /** Reason for win */
-  winReason: 'death' | 'forfeit' | 'timeout';
+  /** How the duel ended ('draw' when neither player won) */
+  winReason: 'death' | 'forfeit' | 'timeout' | 'disconnect' | 'draw';
 }
 
+/** How a duel's stakes are being paid out */
+export type DuelOutcome = 'win' | 'draw' | 'refund';
+
 export interface DuelSession {
   /** Unique duel identifier */
   duelId: DuelId;
@@ -99,6 +110,8 @@ export interface DuelSession {
   token: string;
   /** House fee percentage (e.g., 2 for 2%) */
   houseFeePercent: number;
+  /** Fee taken from each player's stake on a draw (e.g., 1 for 1%) */
+  drawFeePercent: number;
   /** Duel rules */
   rules: DuelRules;
   /** Duel creation timestamp */
@@ -107,14 +120,66 @@ export interface DuelSession {
   updatedAt: number;
   /** Expiration timestamp (deadman's switch) */
   expiresAt: number;
+  /** Outcome being paid out (set when settlement or refund starts) */
+  outcome?: DuelOutcome;
   /** Winner stealth ID (after settlement) */
   winnerStealthId?: StealthId;
   /** Settlement transaction signatures */
   settlementTxSignatures?: TxSignature[];
   /** Combat summary (after settlement) */
   combatSummary?: CombatSummary;
+  /** Fee quote the duel was created from, if any */
+  feeQuote?: SignedFeeQuote;
+}
+
+/** Public view of a duel for webhooks and streams (no wallet addresses) */
+export interface DuelSnapshot {
+  duelId: DuelId;
+  status: DuelStatus;
+  token: string;
+  player1StealthId: StealthId;
+  player2StealthId: StealthId;
+  player1StakeLamports: string;
+  player2StakeLamports: string;
+  player1Locked: boolean;
+  player2Locked: boolean;
+  outcome?: DuelOutcome;
+  winnerStealthId?: StealthId;
+  expiresAt: number;
+  updatedAt: number;
 }
 
+/** Record of a refund issued by the expiry worker (deadman's switch) */
+export interface AutoRefundRecord {
+  /** Duel that expired */
+  duelId: DuelId;
+  /** Status the duel was in when it expired */
+  previousStatus: DuelStatus;
+  /** Duel expiration timestamp */
+  expiresAt: number;
+  /** When the automatic refund ran */
+  refundedAt: number;
+  /** Stealth IDs of players whose stakes were locked */
+  lockedStealthIds: StealthId[];
+  /** Refund transaction signatures */
+  refundTxSignatures: TxSignature[];
+  /** Whether every locked stake was returned */
+  success: boolean;
+  error?: string;
+}
+
+/** What a settlement job does (see services/settlement-queue.ts) */
+export type SettlementJobKind = 'settle' | 'settle_draw' | 'refund';
+
+/**
+ * Settlement job lifecycle:
+ * queued -> running -> succeeded | rejected | dead_letter (retries go back to queued)
+ */
+export type SettlementJobStatus = 'queued' | 'running' | 'succeeded' | 'rejected' | 'dead_letter';
+
+/** Outcome of a finished settlement job, in API form */
+export type SettlementJobResult = SettleDuelResponse | SettleDrawResponse | RefundDuelResponse;
+
 // ============================================================================
 // API Request/Response Types
 // ============================================================================
@@ -132,8 +197,12 @@ export interface CreateDuelRequest {
   player1Name: string;
   /** Player 2 character name */
   player2Name: string;
-  /** Stake amount in human units (e.g., 1.5 for 1.5 SOL) */
-  stakeAmount: number;
+  /** Stake amount for both players in human units (e.g., "1.5" or 1.5 for 1.5 SOL) */
+  stakeAmount?: number | string;
+  /** Player 1's stake in human units (overrides stakeAmount for unequal stakes) */
+  player1StakeAmount?: number | string;
+  /** Player 2's stake in human units (overrides stakeAmount for unequal stakes) */
+  player2StakeAmount?: number | string;
   /** Token to stake (default: SOL) */
   token?: string;
   /** Duel rules */
@@ -146,8 +215,13 @@ export interface CreateDuelResponse {
   /** Stealth IDs for both players (safe to store/log) */
   player1StealthId?: StealthId;
   player2StealthId?: StealthId;
-  /** Stake amount in lamports */
+  /** @deprecated Player 1's stake - use player1StakeLamports/player2StakeLamports */
   stakeAmountLamports?: string;
+  /** Each player's stake in lamports */
+  player1StakeLamports?: string;
+  player2StakeLamports?: string;
+  /** House fee this duel will pay on settlement (tiers and promotions applied) */
+  houseFeePercent?: number;
   /** Expiration timestamp */
   expiresAt?: number;
   error?: string;
@@ -162,6 +236,8 @@ export interface LockStakeRequest {
   signedMessage: string;
   /** Original message that was signed */
   message: string;
+  /** Spending authorization to charge for this stake (optional) */
+  authorizationId?: string;
 }
 
 export interface LockStakeResponse {
@@ -182,8 +258,12 @@ export interface SettleDuelRequest {
   winnerWallet: WalletAddress;
   /** Winner character ID */
   winnerCharacterId: CharacterId;
-  /** Server authority signature (proves game server is calling) */
+  /** Game server Ed25519 signature (base58) over the canonical authorization message */
   serverSignature: string;
+  /** When the game server signed (ms since epoch) */
+  timestamp: number;
+  /** Single-use nonce included in the signed message */
+  nonce: string;
   /** Combat summary for audit trail */
   combatSummary?: CombatSummary;
 }
@@ -202,6 +282,44 @@ export interface SettleDuelResponse {
   commitmentHash?: string;
   /** On-chain commitment transaction signature */
   commitmentTxSignature?: string;
+  /** Paid out without a terms commitment to check the duel against */
+  termsUnchecked?: boolean;
+  /** Settlement job to poll (payout fields are filled in on the job result) */
+  jobId?: string;
+  jobStatus?: SettlementJobStatus;
+  error?: string;
+}
+
+export interface SettleDrawRequest {
+  /** Duel ID */
+  duelId: DuelId;
+  /** Game server Ed25519 signature (base58) over the canonical authorization message */
+  serverSignature: string;
+  /** When the game server signed (ms since epoch) */
+  timestamp: number;
+  /** Single-use nonce included in the signed message */
+  nonce: string;
+  /** Combat summary for audit trail */
+  combatSummary?: CombatSummary;
+}
+
+export interface SettleDrawResponse {
+  success: boolean;
+  /** Payout transaction signatures (player 1, player 2) */
+  payoutTxSignatures?: TxSignature[];
+  /** Amount returned to each player in lamports (player 1, player 2) */
+  playerPayoutsLamports?: string[];
+  /** Total draw fee in lamports */
+  drawFeeLamports?: string;
+  /** Commitment hash (for accountability verification) */
+  commitmentHash?: string;
+  /** On-chain commitment transaction signature */
+  commitmentTxSignature?: string;
+  /** Paid out without a terms commitment to check the duel against */
+  termsUnchecked?: boolean;
+  /** Settlement job to poll (payout fields are filled in on the job result) */
+  jobId?: string;
+  jobStatus?: SettlementJobStatus;
   error?: string;
 }
 
@@ -210,14 +328,69 @@ export interface RefundDuelRequest {
   duelId: DuelId;
   /** Reason for refund */
   reason: 'timeout' | 'cancelled' | 'error';
-  /** Server authority signature */
+  /** Game server Ed25519 signature (base58) over the canonical authorization message */
   serverSignature: string;
+  /** When the game server signed (ms since epoch) */
+  timestamp: number;
+  /** Single-use nonce included in the signed message */
+  nonce: string;
 }
 
 export interface RefundDuelResponse {
   success: boolean;
   /** Refund transaction signatures */
   refundTxSignatures?: TxSignature[];
+  /** Settlement job to poll (refund fields are filled in on the job result) */
+  jobId?: string;
+  jobStatus?: SettlementJobStatus;
+  error?: string;
+}
+
+export interface RefundClaimRequest {
+  /** Duel ID */
+  duelId: DuelId;
+  /** Wallet that locked the stake (receives the refund) */
+  playerWallet: WalletAddress;
+  /** When the claim message was signed (ms since epoch) */
+  issuedAt: number;
+  /** Wallet signature (base58) over the refund claim message */
+  signedMessage: string;
+}
+
+export interface RefundClaimResponse {
+  success: boolean;
+  /** Refund transfer to the claiming wallet */
+  refundTxSignature?: TxSignature;
+  /** True if the stake had already been returned (by an earlier claim or refund) */
+  alreadyRefunded?: boolean;
+  /** Duel status after the claim */
+  duelStatus?: DuelStatus;
+  /** Settlement job that has to finish before a claim is possible */
+  jobId?: string;
+  error?: string;
+}
+
+export interface SettlementJobInfo {
+  jobId: string;
+  kind: SettlementJobKind;
+  duelId: DuelId;
+  status: SettlementJobStatus;
+  /** Attempts made so far */
+  attempts: number;
+  maxAttempts: number;
+  /** When the next attempt runs (queued jobs only) */
+  nextAttemptAt?: number;
+  /** Error from the most recent failed attempt */
+  lastError?: string;
+  /** Outcome once the job has finished */
+  result?: SettlementJobResult;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface GetSettlementJobResponse {
+  success: boolean;
+  job?: SettlementJobInfo;
   error?: string;
 }
 
@@ -236,10 +409,14 @@ export interface GetDuelStatusResponse {
     player2Name: string;
     player1Locked: boolean;
     player2Locked: boolean;
+    /** @deprecated Player 1's stake - use player1StakeLamports/player2StakeLamports */
     stakeAmountLamports: string;
+    player1StakeLamports: string;
+    player2StakeLamports: string;
     token: string;
     rules: DuelRules;
     expiresAt: number;
+    outcome?: DuelOutcome;
     winnerStealthId?: StealthId;
     combatSummary?: CombatSummary;
   };
@@ -255,12 +432,18 @@ export interface SpendingAuthorization {
   authorizationId: string;
   /** Player stealth ID */
   playerStealthId: StealthId;
+  /** Token the limits are denominated in (smallest units) */
+  token: string;
   /** Maximum amount per transaction */
   maxAmountPerTx: bigint;
   /** Maximum daily spend */
   maxDailySpend: bigint;
   /** Amount spent today */
   spentToday: bigint;
+  /** UTC day (YYYY-MM-DD) that spentToday applies to */
+  spendingDay: string;
+  /** Funds held in escrow for authorized locks (net of the deposit fee) */
+  fundedBalance: bigint;
   /** Created timestamp */
   createdAt: number;
   /** Expires timestamp */
@@ -272,13 +455,17 @@ export interface SpendingAuthorization {
 export interface AuthorizeSpendingRequest {
   /** Player wallet */
   playerWallet: WalletAddress;
+  /** Token the limits apply to (default: SOL) */
+  token?: string;
   /** Max amount per tx (lamports as string for JSON) */
   maxAmountPerTx: string;
   /** Max daily spend (lamports as string for JSON) */
   maxDailySpend: string;
   /** Valid for seconds */
   validForSeconds: number;
-  /** Signed message */
+  /** When the player signed the message (ms since epoch) */
+  issuedAt: number;
+  /** Signed message (base58 Ed25519 signature by playerWallet) */
   signedMessage: string;
   /** Original message */
   message: string;
@@ -291,14 +478,58 @@ export interface AuthorizeSpendingResponse {
   error?: string;
 }
 
+export interface GetAuthorizationResponse {
+  success: boolean;
+  authorization?: {
+    authorizationId: string;
+    playerStealthId: StealthId;
+    token: string;
+    /** Lamports as strings for JSON */
+    maxAmountPerTx: string;
+    maxDailySpend: string;
+    spentToday: string;
+    remainingToday: string;
+    fundedBalance: string;
+    createdAt: number;
+    expiresAt: number;
+    isActive: boolean;
+  };
+  error?: string;
+}
+
 export interface RevokeAuthorizationRequest {
   authorizationId: string;
   playerWallet: WalletAddress;
+  /** When the player signed the message (ms since epoch) */
+  issuedAt: number;
+  /** Unique per revoke message, accepted once */
+  nonce: string;
+  /** Base58 Ed25519 signature by playerWallet over the revoke message */
   signedMessage: string;
 }
 
 export interface RevokeAuthorizationResponse {
   success: boolean;
+  /** Funded balance returned to the wallet (smallest units) */
+  returnedAmount?: string;
+  returnTxSignature?: TxSignature;
+  error?: string;
+}
+
+export interface FundAuthorizationRequest {
+  authorizationId: string;
+  playerWallet: WalletAddress;
+  /** Amount the player transferred to escrow (smallest units) */
+  amount: string;
+  /** Proof of the transfer, as for /duel/lock-stake */
+  paymentProof: string;
+}
+
+export interface FundAuthorizationResponse {
+  success: boolean;
+  /** Amount credited (net of the deposit fee, smallest units) */
+  credited?: string;
+  fundedBalance?: string;
   error?: string;
 }
 
@@ -328,6 +559,315 @@ export interface AuthorizationResponse {
   error?: string;
 }
 
+// ============================================================================
+// Webhook Types
+// ============================================================================
+
+/** pending (queued or retrying) -> delivered | failed (attempts exhausted) */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/** JSON body POSTed to each webhook URL */
+export interface WebhookPayload {
+  /** Same for every URL the event is sent to */
+  eventId: string;
+  type: WebhookEventType;
+  /** When the event happened (ms since epoch) */
+  occurredAt: number;
+  duelId: DuelId;
+  data: {
+    /** Duel state after the event (absent for duel.commitment_posted) */
+    duel?: DuelSnapshot;
+    /** Transition reason (e.g. 'both_locked', 'payout_failed') */
+    reason?: string;
+    /** Player whose stake was locked (duel.stake_locked) */
+    playerNumber?: 1 | 2;
+    /** duel.commitment_posted */
+    commitmentKind?: CommitmentKind;
+    commitmentHash?: string;
+    commitmentTxSignature?: TxSignature;
+    /** Merkle root the commitment was anchored under (batch anchoring) */
+    merkleRoot?: string;
+  };
+}
+
+export interface WebhookDeliveryInfo {
+  deliveryId: string;
+  eventId: string;
+  type: WebhookEventType;
+  duelId: DuelId;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  /** When the next attempt runs (pending deliveries only) */
+  nextAttemptAt?: number;
+  /** HTTP status of the most recent attempt, if a response was received */
+  lastStatusCode?: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+  deliveredAt?: number;
+  /** Included when a single delivery is requested */
+  payload?: WebhookPayload;
+}
+
+export interface ListWebhookDeliveriesResponse {
+  success: boolean;
+  deliveries?: WebhookDeliveryInfo[];
+  count?: number;
+  error?: string;
+}
+
+export interface GetWebhookDeliveryResponse {
+  success: boolean;
+  delivery?: WebhookDeliveryInfo;
+  error?: string;
+}
+
+// ============================================================================
+// Duel Stream Types
+// ============================================================================
+
+/**
+ * Events on the duel status stream:
+ * - duel.snapshot:   current duel state (on subscribe, or when replay is impossible)
+ * - duel.status:     DuelStatus changed
+ * - duel.lock:       a player's stake was locked
+ * - duel.settlement: a settle/refund job finished (tx signatures in `job.result`),
+ *                    or a refund claim or emergency refund paid out (in `payout`)
+ * - stream.reset:    missed events could not be replayed - re-read duel state
+ */
+export type DuelStreamEventType = 'duel.snapshot' | 'duel.status' | 'duel.lock' | 'duel.settlement' | 'stream.reset';
+
+export interface DuelStreamEvent {
+  /** Pass back as Last-Event-ID (or ?lastEventId=) when reconnecting */
+  id: string;
+  type: DuelStreamEventType;
+  /** Absent for stream.reset on the all-duels stream */
+  duelId?: DuelId;
+  occurredAt: number;
+  data: {
+    duel?: DuelSnapshot;
+    /** duel.status */
+    from?: DuelStatus | null;
+    to?: DuelStatus;
+    reason?: string;
+    /** duel.lock */
+    playerNumber?: 1 | 2;
+    /** duel.settlement (queued payouts) */
+    job?: SettlementJobInfo;
+    /** duel.settlement (refund claims and emergency refunds) */
+    payout?: DuelPayoutInfo;
+  };
+}
+
+/** Payouts made within the request rather than by a settlement job */
+export type DuelPayoutSource = 'refund_claim' | 'emergency_refund';
+
+export interface DuelPayoutInfo {
+  source: DuelPayoutSource;
+  success: boolean;
+  /** Transfers made by this payout (none for payouts that were skipped) */
+  txSignatures: TxSignature[];
+  error?: string;
+}
+
+// ============================================================================
+// Audit Log Types
+// ============================================================================
+
+/** 'terms' is committed when both stakes lock, 'outcome' before payout */
+export type CommitmentKind = 'terms' | 'outcome';
+
+export interface AuditChainHead {
+  /** Number of records in the chain */
+  length: number;
+  /** recordHash of the newest record (all zeros for an empty chain) */
+  recordHash: string;
+}
+
+export interface GetAuditHeadResponse {
+  success: boolean;
+  head?: AuditChainHead;
+  error?: string;
+}
+
+export interface GetAuditProofResponse {
+  success: boolean;
+  /** The duel's commitment record as stored, with its chain fields */
+  record?: CommitmentRecord;
+  /** entryHash of every later record, oldest first */
+  laterEntryHashes?: string[];
+  /** Head the proof folds up to */
+  head?: AuditChainHead;
+  error?: string;
+}
+
+export interface CommitmentBacklogEntry {
+  duelId: DuelId;
+  kind: CommitmentKind;
+  sequence: number;
+  commitmentHash: string;
+  recordedAt: number;
+  /** How long the commitment has been waiting to land on-chain */
+  lagMs: number;
+  /** 'retrying' is re-posted by the reconciler; 'queued' waits for the next Merkle batch */
+  status: 'retrying' | 'queued';
+  /** Failed re-posts since the sidecar started */
+  attempts: number;
+  /** Next re-post (null while queued for a batch) */
+  nextAttemptAt: number | null;
+  lastError?: string;
+}
+
+export interface CommitmentBacklog {
+  count: number;
+  /** Lag of the oldest commitment still off-chain (0 when the backlog is empty) */
+  oldestLagMs: number;
+  entries: CommitmentBacklogEntry[];
+}
+
+export interface GetCommitmentBacklogResponse {
+  success: boolean;
+  backlog?: CommitmentBacklog;
+  error?: string;
+}
+
+// ============================================================================
+// Commitment Anchor Types
+// ============================================================================
+
+export interface MerkleProofStep {
+  /** Which side the sibling sits on when hashing up to the parent */
+  side: 'left' | 'right';
+  /** Sibling node hash (hex) */
+  hash: string;
+}
+
+/** Where a commitment hash sits in an anchored Merkle batch */
+export interface CommitmentAnchorProof {
+  /** Merkle root posted in the memo */
+  root: string;
+  /** Memo transaction carrying the root */
+  txSignature: TxSignature;
+  anchoredAt: number;
+  leafIndex: number;
+  leafCount: number;
+  /** Sibling hashes from the leaf up to the root */
+  path: MerkleProofStep[];
+}
+
+// ============================================================================
+// Fee Types
+// ============================================================================
+
+/** ShadowWire fees for one token */
+export interface TokenFeeRates {
+  /** Taken from a stake as it is deposited into escrow */
+  depositFeePercent: number;
+  /** Taken from every transfer out of escrow */
+  transferFeePercent: number;
+}
+
+/** A token in the registry, as published by /duel/service-info (human units) */
+export interface TokenInfo {
+  symbol: string;
+  /** SPL mint address; null for native SOL */
+  mint: string | null;
+  decimals: number;
+  /** Smallest stake per player and smallest transfer out (ShadowWire minimum plus our safety margin) */
+  minimum: string;
+  /** Largest stake per player; null for no limit */
+  maxStake: string | null;
+  shadowWireMinimum: string;
+  safetyMarginPercent: number;
+  feePercent: number;
+  /** Whether new duels may stake this token */
+  enabled: boolean;
+}
+
+/** The house fee a new duel gets, and why */
+export interface HouseFeeQuote {
+  percent: number;
+  source: 'base' | 'tier' | 'promo';
+  /** Threshold of the tier that applied (display units) */
+  minTotalStake?: number;
+  /** When the promotion that applied ends */
+  endsAt?: number;
+}
+
+export interface FeeScheduleInfo {
+  tokens: Record<string, TokenFeeRates>;
+  /** Base house fee (no tier or promotion) */
+  houseFeePercent: number;
+  drawFeePercent: number;
+  houseFeeTiers: Array<{ token: string; minTotalStake: number; percent: number }>;
+  /** Promotions running now (token null = every token) */
+  activePromos: Array<{ token: string | null; percent: number; startsAt: number; endsAt: number }>;
+}
+
+/** One player's lines of a fee quote (smallest units, decimal strings) */
+export interface FeeQuotePlayer {
+  stake: string;
+  depositFee: string;
+  /** What reaches escrow */
+  deposit: string;
+  /** Returned if the duel is cancelled or expires */
+  refund: string;
+  refundReceives: string;
+  /** Returned on a draw */
+  drawPayout: string;
+  drawReceives: string;
+}
+
+/**
+ * Everything a duel would pay out, signed before it is created. Amounts are
+ * decimal strings in smallest units and percentages decimal strings, so the
+ * quote has a canonical encoding (see fee-quote.ts).
+ */
+export interface FeeQuote {
+  version: 1;
+  quoteId: string;
+  token: string;
+  decimals: number;
+  rules: DuelRules;
+  /** Same digest as the duel's terms commitment (rules and fee percentages) */
+  rulesDigest: string;
+  depositFeePercent: string;
+  transferFeePercent: string;
+  houseFeePercent: string;
+  houseFeeSource: HouseFeeQuote['source'];
+  drawFeePercent: string;
+  player1: FeeQuotePlayer;
+  player2: FeeQuotePlayer;
+  /** Both deposits */
+  pot: string;
+  houseFee: string;
+  /** Below the ShadowWire minimum, so kept in escrow until swept */
+  houseFeeHeldAsDust: boolean;
+  /** Sent to the winner (the same whichever player wins) */
+  winnerPayout: string;
+  winnerTransferFee: string;
+  winnerReceives: string;
+  drawFee: string;
+  issuedAt: number;
+  /** A duel must be created from the quote by then */
+  expiresAt: number;
+}
+
+export interface SignedFeeQuote {
+  quote: FeeQuote;
+  /** Base58 Ed25519 signature over the quote message */
+  signature: string;
+  /** Server authority key (base58) */
+  signerPublicKey: string;
+}
+
+export interface FeeQuoteResponse extends Partial<SignedFeeQuote> {
+  success: boolean;
+  error?: string;
+}
+
 // ============================================================================
 // Health & Monitoring Types
 // ============================================================================
@@ -336,6 +876,8 @@ export interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy';
   version: string;
   uptime: number;
+  /** TRANSFER_PROVIDER in use ('mock' moves no funds) */
+  transferProvider: string;
   checks: {
     redis: boolean;
     shadowwire: boolean;
@@ -351,11 +893,36 @@ export interface HealthStatus {
 export interface ShadowWireTransferParams {
   senderWallet: WalletAddress;
   recipientWallet: WalletAddress;
-  amount: number; // Human units
-  token: string;
+  amount: Amount;
   signMessage: (msg: Uint8Array) => Promise<Uint8Array>;
 }
 
+/** Which duel and player a stake lock transaction was accepted for */
+export interface LockSignatureBinding {
+  /** Transfer tx signature (or proof ID) reported by the client */
+  txSignature: TxSignature;
+  /** Duel whose stake it locked (unset for an authorization funding) */
+  duelId?: DuelId;
+  /** Authorization it funded (unset for a stake lock) */
+  authorizationId?: string;
+  /** Stealth ID of the player who made the transfer */
+  stealthId: StealthId;
+  boundAt: number;
+}
+
+/** Stored outcome of a request made with an Idempotency-Key header */
+export interface IdempotencyRecord {
+  /** in_progress until the first response is sent */
+  state: 'in_progress' | 'completed';
+  /** SHA-256 of the request body (a reused key must carry the same body) */
+  requestHash: string;
+  /** HTTP status of the stored response */
+  statusCode?: number;
+  /** JSON body of the stored response */
+  body?: unknown;
+  createdAt: number;
+}
+
 export interface EscrowState {
   duelId: DuelId;
   totalLockedLamports: bigint;
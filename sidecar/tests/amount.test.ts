@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Amount, AmountError, type RoundingMode } from '../src/services/amount.js';
+
+describe('Amount.parse', () => {
+  it('reads decimals exactly, without float error', () => {
+    expect(Amount.parse('SOL', 0.1).units).toBe(100_000_000n);
+    expect(Amount.parse('SOL', '11000.123456789').units).toBe(11_000_123_456_789n);
+    expect(Amount.parse('SOL', 1e-9).units).toBe(1n);
+    expect(Amount.parse('USD1', '.5').units).toBe(500_000n);
+    expect(Amount.parse('SOL', 0.1).plus(Amount.parse('SOL', 0.2)).eq(Amount.parse('SOL', '0.3'))).toBe(true);
+  });
+
+  it.each<[RoundingMode, string, bigint]>([
+    ['floor', '0.0000000015', 1n],
+    ['ceil', '0.0000000011', 2n],
+    ['half-up', '0.0000000015', 2n],
+    ['half-even', '0.0000000015', 2n],
+    ['half-even', '0.0000000025', 2n],
+    ['floor', '-0.0000000015', -2n],
+  ])('rounds %s: %s SOL is %i lamports', (rounding, value, units) => {
+    expect(Amount.parse('SOL', value, rounding).units).toBe(units);
+  });
+
+  it('refuses digits beyond the token decimals unless asked to round', () => {
+    expect(() => Amount.parse('USD1', '1.0000001')).toThrow('1.0000001 USD1 has more than 6 decimal places');
+  });
+
+  it.each(['', 'abc', '1.2.3', '0x10', 'Infinity', NaN, '1e999999999'])('rejects %s', (value) => {
+    expect(() => Amount.parse('SOL', value)).toThrow(AmountError);
+  });
+
+  it('rejects a token that is not registered', () => {
+    expect(() => Amount.parse('DOGE', '1')).toThrow('Unsupported token: DOGE');
+  });
+});
+
+describe('Amount arithmetic', () => {
+  it('takes exact percentages and rounds as asked', () => {
+    const amount = Amount.fromUnits('SOL', 1_000n);
+
+    expect(amount.percent(0.5).units).toBe(5n);
+    expect(amount.percent('0.15').units).toBe(1n);
+    expect(amount.percent('0.15', 'ceil').units).toBe(2n);
+    expect(amount.percent(110, 'ceil').units).toBe(1_100n);
+  });
+
+  it('refuses to mix tokens', () => {
+    const sol = Amount.parse('SOL', '1');
+    const usd = Amount.parse('USD1', '1');
+
+    expect(() => sol.plus(usd)).toThrow('Cannot combine SOL and USD1 amounts');
+    expect(() => sol.lt(usd)).toThrow(AmountError);
+  });
+});
+
+describe('Amount output', () => {
+  it('formats human units and serializes smallest units as a string', () => {
+    const amount = Amount.parse('SOL', '1.5');
+
+    expect(amount.toDecimal()).toBe('1.5');
+    expect(Amount.parse('SOL', '11000').toDecimal()).toBe('11000');
+    expect(amount.toDisplay()).toBe('1.500000 SOL');
+    expect(Amount.fromUnits('SOL', 1_999_999_999n).toFixed(2)).toBe('2.00');
+    expect(JSON.stringify({ amount })).toBe('{"amount":"1500000000"}');
+  });
+
+  it('converts to a number only while it is exact', () => {
+    expect(Amount.fromUnits('SOL', Number.MAX_SAFE_INTEGER).toSafeNumber()).toBe(Number.MAX_SAFE_INTEGER);
+    expect(() => Amount.fromUnits('SOL', BigInt(Number.MAX_SAFE_INTEGER) + 1n).toSafeNumber()).toThrow(AmountError);
+    expect(() => Amount.fromUnits('SOL', 1.5)).toThrow('1.5 is not a whole number of units');
+  });
+});
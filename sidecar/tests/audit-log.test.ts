@@ -0,0 +1,140 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { DuelCommitment } from '../src/services/accountability.js';
+import { AuditLog, AuditLogIntegrityError, verifyAuditProof, type UnchainedRecord } from '../src/services/audit-log.js';
+import { hashCommitment } from '../src/services/commitment-encoding.js';
+
+const logs: AuditLog[] = [];
+
+function unchained(duelId: string): UnchainedRecord {
+  const commitment = { version: 2, duelId, timestamp: Date.now() } as unknown as DuelCommitment;
+  return {
+    commitment,
+    commitmentHash: hashCommitment(commitment),
+    onChainSuccess: false,
+    recordedAt: Date.now(),
+  };
+}
+
+async function openLog(filePath: string): Promise<AuditLog> {
+  const log = new AuditLog(filePath);
+  logs.push(log);
+  await log.initialize();
+  return log;
+}
+
+/**
+ * A closed log of `count` records, one duel each
+ */
+async function writeLog(count: number): Promise<string> {
+  const filePath = join(mkdtempSync(join(tmpdir(), 'audit-')), 'audit-log.jsonl');
+  const log = new AuditLog(filePath);
+  await log.initialize();
+  for (let index = 0; index < count; index++) {
+    await log.append(unchained(`duel-${index}`));
+  }
+  await log.shutdown();
+  return filePath;
+}
+
+function editLines(filePath: string, edit: (lines: string[]) => string[]): void {
+  const lines = readFileSync(filePath, 'utf8').split('\n').slice(0, -1);
+  writeFileSync(filePath, edit(lines).map(line => line + '\n').join(''));
+}
+
+function editRecord(line: string, edit: (record: Record<string, unknown>) => void): string {
+  const record = JSON.parse(line) as Record<string, unknown>;
+  edit(record);
+  return JSON.stringify(record);
+}
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await Promise.all(logs.splice(0).map(log => log.shutdown()));
+});
+
+describe('AuditLog', () => {
+  it('reloads a chain it wrote', async () => {
+    const filePath = await writeLog(3);
+
+    const log = await openLog(filePath);
+
+    expect(log.all().map(record => record.sequence)).toEqual([0, 1, 2]);
+    expect(log.head).toEqual({ length: 3, recordHash: log.all()[2]!.recordHash });
+    expect(log.forDuel('duel-1')).toHaveLength(1);
+  });
+
+  it.each<[string, (filePath: string) => void, RegExp]>([
+    [
+      'an edited record',
+      filePath => editLines(filePath, lines => lines.map((line, index) =>
+        index === 1 ? editRecord(line, record => { record.onChainSuccess = true; }) : line)),
+      /line 2 has been altered/,
+    ],
+    [
+      'an edited commitment',
+      filePath => editLines(filePath, lines => lines.map((line, index) =>
+        index === 1 ? editRecord(line, record => { (record.commitment as Record<string, unknown>).duelId = 'duel-x'; }) : line)),
+      /line 2 commitment does not match its hash/,
+    ],
+    [
+      'a removed record',
+      filePath => editLines(filePath, lines => lines.filter((_, index) => index !== 1)),
+      /line 2 has sequence 2, expected 1/,
+    ],
+    [
+      'reordered records',
+      filePath => editLines(filePath, ([first, second, ...rest]) => [second!, first!, ...rest]),
+      /line 1 has sequence 1, expected 0/,
+    ],
+    [
+      'records cut off the end',
+      filePath => editLines(filePath, lines => lines.slice(0, 1)),
+      /does not match its head: 1 record\(s\) on disk, head says 3/,
+    ],
+    [
+      'a deleted head file',
+      filePath => rmSync(`${filePath}.head`),
+      /head file .* is missing/,
+    ],
+  ])('refuses to start on %s', async (_, tamper, message) => {
+    const filePath = await writeLog(3);
+    tamper(filePath);
+
+    const error = await openLog(filePath).then(() => null, (error: unknown) => error);
+
+    expect(error).toBeInstanceOf(AuditLogIntegrityError);
+    expect((error as Error).message).toMatch(message);
+  });
+
+  it('drops a torn final line and moves up a head left one record behind', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const filePath = await writeLog(2);
+    const staleHead = readFileSync(`${filePath}.head`, 'utf8');
+    const log = await openLog(filePath);
+    const third = await log.append(unchained('duel-2'));
+    await log.shutdown();
+    writeFileSync(`${filePath}.head`, staleHead);
+    appendFileSync(filePath, '{"sequence":3,');
+
+    const reopened = await openLog(filePath);
+
+    expect(reopened.head).toEqual({ length: 3, recordHash: third.recordHash });
+    expect(readFileSync(filePath, 'utf8').endsWith('\n')).toBe(true);
+    expect(JSON.parse(readFileSync(`${filePath}.head`, 'utf8'))).toEqual(reopened.head);
+  });
+
+  it('proves a record against the head until a later record changes', async () => {
+    const log = await openLog(await writeLog(4));
+    const proof = log.prove(log.all()[1]!);
+
+    expect(verifyAuditProof(proof)).toBe(true);
+    expect(verifyAuditProof({ ...proof, record: { ...proof.record, onChainSuccess: true } })).toBe(false);
+    expect(verifyAuditProof({ ...proof, laterEntryHashes: proof.laterEntryHashes.slice(1) })).toBe(false);
+
+    const [altered, ...rest] = proof.laterEntryHashes;
+    expect(verifyAuditProof({ ...proof, laterEntryHashes: [altered!.replace(/^./, c => (c === '0' ? '1' : '0')), ...rest] })).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { resetConfig } from '../src/config.js';
+import { accountabilityService } from '../src/services/accountability.js';
+import {
+  AnchorBatcher,
+  buildMerkleTree,
+  merkleLeaf,
+  verifyMerkleProof,
+  type MemoPoster,
+} from '../src/services/commitment-anchor.js';
+import { LocalRpc } from './local-rpc.js';
+
+const WAIT = { timeout: 10_000, interval: 50 };
+
+function hashes(count: number): string[] {
+  return Array.from({ length: count }, () => randomBytes(32).toString('hex'));
+}
+
+describe('Merkle tree', () => {
+  it.each([1, 2, 3, 4, 5, 8, 13])('proves every one of %i leaves against the root', (count) => {
+    const leaves = hashes(count);
+    const { root, paths } = buildMerkleTree(leaves);
+
+    expect(paths).toHaveLength(count);
+    leaves.forEach((hash, index) => {
+      expect(verifyMerkleProof(hash, paths[index]!, root)).toBe(true);
+    });
+  });
+
+  it('uses the leaf hash as the root of a single-leaf tree', () => {
+    const [hash] = hashes(1);
+    const { root, paths } = buildMerkleTree([hash!]);
+
+    expect(root).toBe(merkleLeaf(hash!));
+    expect(paths[0]).toEqual([]);
+  });
+
+  it('rejects a proof for another hash, a tampered path or another root', () => {
+    const leaves = hashes(5);
+    const { root, paths } = buildMerkleTree(leaves);
+    const path = paths[2]!;
+
+    expect(verifyMerkleProof(leaves[3]!, path, root)).toBe(false);
+    expect(verifyMerkleProof(leaves[2]!, [{ ...path[0]!, hash: leaves[0]! }, ...path.slice(1)], root)).toBe(false);
+    expect(verifyMerkleProof(leaves[2]!, path, buildMerkleTree(hashes(5)).root)).toBe(false);
+  });
+
+  it('refuses to build a tree with no leaves', () => {
+    expect(() => buildMerkleTree([])).toThrow('no leaves');
+  });
+});
+
+describe('AnchorBatcher', () => {
+  const batchers: AnchorBatcher[] = [];
+
+  async function createBatcher(post: MemoPoster, filePath = join(mkdtempSync(join(tmpdir(), 'anchor-')), 'anchor.jsonl')) {
+    // The window never elapses during a test - batches are flushed by hand
+    const batcher = new AnchorBatcher({ filePath, windowMs: 60 * 60 * 1000, maxBatchSize: 3, post });
+    await batcher.initialize();
+    batchers.push(batcher);
+    return { batcher, filePath };
+  }
+
+  function recordingPoster() {
+    const roots: string[] = [];
+    const post: MemoPoster = async (root) => {
+      roots.push(root);
+      return { success: true, txSignature: `tx-${roots.length}` };
+    };
+    return { roots, post };
+  }
+
+  afterEach(async () => {
+    await Promise.all(batchers.splice(0).map(batcher => batcher.shutdown()));
+  });
+
+  it('anchors queued hashes in batches of at most the maximum size', async () => {
+    const { roots, post } = recordingPoster();
+    const { batcher } = await createBatcher(post);
+    const leaves = hashes(5);
+    for (const hash of leaves.slice(0, 2)) await batcher.add('duel-1', 'outcome', hash);
+    for (const hash of leaves.slice(2)) await batcher.add('duel-2', 'terms', hash);
+
+    // The third hash filled a batch and flushed it; the rest wait for the window
+    await vi.waitFor(() => expect(roots).toHaveLength(1), WAIT);
+    expect(batcher.queued).toBe(2);
+
+    const batches = await batcher.flush();
+
+    expect(batches).toHaveLength(1);
+    expect(roots).toHaveLength(2);
+    expect(batcher.queued).toBe(0);
+    for (const hash of leaves) {
+      const proof = batcher.find(hash)!;
+      expect(verifyMerkleProof(hash, proof.path, proof.root)).toBe(true);
+      expect(roots).toContain(proof.root);
+    }
+    expect(batcher.find(leaves[4]!)).toMatchObject({ txSignature: 'tx-2', leafIndex: 1, leafCount: 2 });
+  });
+
+  it('keeps a batch queued when its memo fails and anchors it on the next flush', async () => {
+    let fail = true;
+    const post: MemoPoster = async () => (fail ? { success: false, error: 'RPC unavailable' } : { success: true, txSignature: 'tx-retry' });
+    const { batcher } = await createBatcher(post);
+    const [hash] = hashes(1);
+    await batcher.add('duel-1', 'outcome', hash!);
+
+    expect(await batcher.flush()).toEqual([]);
+    expect(batcher.isQueued(hash!)).toBe(true);
+    expect(batcher.find(hash!)).toBeUndefined();
+
+    fail = false;
+    const [batch] = await batcher.flush();
+
+    expect(batch!.txSignature).toBe('tx-retry');
+    expect(batcher.isQueued(hash!)).toBe(false);
+    expect(batcher.find(hash!)?.root).toBe(batch!.root);
+  });
+
+  it('restores proofs and queued hashes after a restart, dropping a torn final line', async () => {
+    const { post } = recordingPoster();
+    const { batcher, filePath } = await createBatcher(post);
+    const [anchored, queued] = hashes(2);
+    await batcher.add('duel-1', 'outcome', anchored!);
+    await batcher.flush();
+    await batcher.add('duel-2', 'outcome', queued!);
+    const proof = batcher.find(anchored!);
+    await batcher.shutdown();
+    writeFileSync(filePath, readFileSync(filePath, 'utf8') + '{"type":"leaf","duel');
+
+    const { batcher: restarted } = await createBatcher(post, filePath);
+
+    expect(restarted.find(anchored!)).toEqual(proof);
+    expect(restarted.isQueued(queued!)).toBe(true);
+    expect(readFileSync(filePath, 'utf8').endsWith('\n')).toBe(true);
+  });
+});
+
+describe('batch anchoring through a local RPC', () => {
+  const rpc = new LocalRpc();
+
+  beforeAll(async () => {
+    await rpc.start();
+    Object.assign(process.env, {
+      SOLANA_RPC_URL: rpc.url,
+      COMMITMENT_ANCHOR_MODE: 'batch',
+      ANCHOR_BATCH_WINDOW_SECONDS: '0.2',
+    });
+    resetConfig();
+    await accountabilityService.initialize();
+  });
+
+  afterAll(async () => {
+    await accountabilityService.shutdown();
+    await rpc.stop();
+  });
+
+  async function anchoredOutcome() {
+    const duelId = `duel-${randomBytes(4).toString('hex')}`;
+    const { commitmentHash } = await accountabilityService.commitToSettlement({
+      duelId,
+      winnerStealthId: 'stealth-winner',
+      loserStealthId: 'stealth-loser',
+      winnerStake: 1_000_000n,
+      loserStake: 1_000_000n,
+      houseFee: 50_000n,
+      winnerPayout: 1_950_000n,
+      terms: {
+        token: 'SOL',
+        houseFeePercent: 5,
+        drawFeePercent: 1,
+        rules: { allowPotions: true, allowPrayer: true, allowMovement: true, noMagic: false, noMelee: false, noRanged: false },
+      },
+      gameServerSignature: 'game-server-signature',
+    });
+
+    await vi.waitFor(() => expect(accountabilityService.getAnchorProof(commitmentHash!)).toBeDefined(), WAIT);
+    return { duelId, commitmentHash: commitmentHash!, proof: accountabilityService.getAnchorProof(commitmentHash!)! };
+  }
+
+  it('posts the batch root as a memo and proves the commitment against it', async () => {
+    const { duelId, commitmentHash, proof } = await anchoredOutcome();
+
+    expect(rpc.sent).toContainEqual({ txSignature: proof.txSignature, memo: proof.root });
+    expect(verifyMerkleProof(commitmentHash, proof.path, proof.root)).toBe(true);
+    expect(accountabilityService.getOnChainStatus(accountabilityService.getCommitmentRecord(duelId)!)).toEqual({ posted: true, txSignature: proof.txSignature, via: 'batch' });
+  });
+
+  it('retries a batch whose memo transaction was rejected', async () => {
+    rpc.failNextSends(2);
+    const attemptsBefore = rpc.sendAttempts;
+
+    const { proof } = await anchoredOutcome();
+
+    expect(rpc.sendAttempts - attemptsBefore).toBe(3);
+    expect(rpc.sent.at(-1)).toEqual({ txSignature: proof.txSignature, memo: proof.root });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canonicalJson,
+  commitAmounts,
+  digestCombatSummary,
+  digestTerms,
+  hashCommitment,
+  serializeCommitment,
+  verifyAmountOpenings,
+  type CommitmentTerms,
+} from '../src/services/commitment-encoding.js';
+
+const TERMS: CommitmentTerms = {
+  token: 'SOL',
+  houseFeePercent: 2.5,
+  drawFeePercent: 0,
+  rules: {
+    allowPotions: false,
+    allowPrayer: false,
+    allowMovement: true,
+    noMagic: false,
+    noMelee: false,
+    noRanged: false,
+  },
+};
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and leaves out undefined properties', () => {
+    const encoded = canonicalJson({ b: 1, a: { d: [{ z: null, y: 'x' }], c: undefined } });
+
+    expect(encoded).toBe('{"a":{"d":[{"y":"x","z":null}]},"b":1}');
+    expect(canonicalJson({ a: { d: [{ y: 'x', z: null }] }, b: 1 })).toBe(encoded);
+  });
+
+  it.each([1.5, NaN, Number.MAX_SAFE_INTEGER + 1])('refuses to encode %s', (value) => {
+    expect(() => canonicalJson({ amount: value })).toThrow('Cannot canonically encode number');
+  });
+});
+
+describe('hashCommitment', () => {
+  it('hashes v2 commitments independently of key order and v1 exactly as stringified', () => {
+    const v2 = hashCommitment({ version: 2, duelId: 'duel-1', timestamp: 1 });
+    const reordered = hashCommitment({ timestamp: 1, duelId: 'duel-1', version: 2 });
+    const v1 = { version: 1, duelId: 'duel-1', timestamp: 1 };
+
+    expect(reordered).toBe(v2);
+    expect(serializeCommitment(v1)).toBe(JSON.stringify(v1));
+    expect(hashCommitment({ timestamp: 1, duelId: 'duel-1', version: 1 })).not.toBe(hashCommitment(v1));
+  });
+});
+
+describe('amount commitments', () => {
+  it('open with their own value and salt only', () => {
+    const { commitments, openings } = commitAmounts('duel-1', { winnerStake: 5n, houseFee: 1 });
+
+    expect(openings.winnerStake.value).toBe('5');
+    expect(JSON.stringify(commitments)).not.toContain(openings.winnerStake.salt);
+    expect(verifyAmountOpenings('duel-1', commitments, openings)).toBe(true);
+    expect(verifyAmountOpenings('duel-2', commitments, openings)).toBe(false);
+    expect(verifyAmountOpenings('duel-1', commitments, { ...openings, houseFee: { ...openings.houseFee, value: '2' } })).toBe(false);
+    expect(verifyAmountOpenings('duel-1', commitments, { ...openings, houseFee: openings.winnerStake })).toBe(false);
+    expect(verifyAmountOpenings('duel-1', commitments, { winnerStake: openings.winnerStake })).toBe(false);
+  });
+
+  it('hide equal amounts behind different salts', () => {
+    const first = commitAmounts('duel-1', { stake: 5n });
+    const second = commitAmounts('duel-1', { stake: 5n });
+
+    expect(first.commitments.stake).not.toBe(second.commitments.stake);
+  });
+});
+
+describe('digests', () => {
+  it('change with any term', () => {
+    const digest = digestTerms(TERMS);
+
+    expect(digestTerms({ ...TERMS })).toBe(digest);
+    expect(digestTerms({ ...TERMS, houseFeePercent: 2.4 })).not.toBe(digest);
+    expect(digestTerms({ ...TERMS, rules: { ...TERMS.rules, allowPrayer: true } })).not.toBe(digest);
+  });
+
+  it('cover every field of a combat summary and are null without one', () => {
+    const summary = { totalTicks: 40, player1DamageDealt: 12, player2DamageDealt: 9, winReason: 'death' } as const;
+
+    expect(digestCombatSummary(undefined)).toBeNull();
+    expect(digestCombatSummary(summary)).toMatch(/^[0-9a-f]{64}$/);
+    expect(digestCombatSummary({ ...summary, player2DamageDealt: 10 })).not.toBe(digestCombatSummary(summary));
+  });
+});
@@ -0,0 +1,92 @@
+import { randomBytes } from 'crypto';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getConfig, resetConfig } from '../src/config.js';
+import { accountabilityService } from '../src/services/accountability.js';
+import { commitmentReconciler } from '../src/services/commitment-reconciler.js';
+
+async function offChainOutcome() {
+  const duelId = `duel-${randomBytes(4).toString('hex')}`;
+  const { commitmentHash } = await accountabilityService.commitToSettlement({
+    duelId,
+    winnerStealthId: 'stealth-winner',
+    loserStealthId: 'stealth-loser',
+    winnerStake: 1_000_000n,
+    loserStake: 1_000_000n,
+    houseFee: 50_000n,
+    winnerPayout: 1_950_000n,
+    terms: {
+      token: 'SOL',
+      houseFeePercent: 5,
+      drawFeePercent: 1,
+      rules: { allowPotions: true, allowPrayer: true, allowMovement: true, noMagic: false, noMelee: false, noRanged: false },
+    },
+    gameServerSignature: 'game-server-signature',
+  }, false);
+  return { duelId, commitmentHash: commitmentHash! };
+}
+
+function backlogEntry(commitmentHash: string) {
+  return commitmentReconciler.getBacklog().entries.find(entry => entry.commitmentHash === commitmentHash);
+}
+
+async function untilDue(commitmentHash: string): Promise<void> {
+  const { nextAttemptAt } = backlogEntry(commitmentHash)!;
+  await new Promise(resolve => setTimeout(resolve, Math.max(nextAttemptAt! - Date.now(), 0) + 5));
+}
+
+beforeAll(async () => {
+  Object.assign(process.env, {
+    COMMITMENT_REPOST_BASE_SECONDS: '0.05',
+    COMMITMENT_REPOST_MAX_SECONDS: '0.08',
+  });
+  resetConfig();
+  await accountabilityService.initialize();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(async () => {
+  await accountabilityService.shutdown();
+});
+
+describe('commitmentReconciler', () => {
+  it('re-posts a commitment after one backoff step and records the repost', async () => {
+    const post = vi.spyOn(accountabilityService, 'postCommitmentOnChain').mockResolvedValue({ success: true, txSignature: 'repost-tx' });
+    const { duelId, commitmentHash } = await offChainOutcome();
+
+    expect(await commitmentReconciler.reconcile()).toBe(0);
+    expect(post).not.toHaveBeenCalled();
+    expect(backlogEntry(commitmentHash)).toMatchObject({ duelId, kind: 'outcome', status: 'retrying', attempts: 0 });
+
+    await untilDue(commitmentHash);
+    expect(await commitmentReconciler.reconcile()).toBe(1);
+
+    expect(post).toHaveBeenCalledWith(commitmentHash, { priorityFeeMicroLamports: undefined });
+    expect(backlogEntry(commitmentHash)).toBeUndefined();
+    expect(accountabilityService.getOnChainStatus(accountabilityService.getCommitmentRecord(duelId)!))
+      .toEqual({ posted: true, txSignature: 'repost-tx', via: 'repost' });
+  });
+
+  it('backs off after a failed re-post, up to the maximum', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const post = vi.spyOn(accountabilityService, 'postCommitmentOnChain').mockResolvedValue({ success: false, error: 'rpc down' });
+    const { commitmentHash } = await offChainOutcome();
+    const { commitmentRepostBaseMs, commitmentRepostMaxMs } = getConfig();
+
+    await untilDue(commitmentHash);
+    await commitmentReconciler.reconcile();
+    const failed = backlogEntry(commitmentHash)!;
+    expect(failed).toMatchObject({ attempts: 1, lastError: 'rpc down' });
+    expect(failed.nextAttemptAt! - Date.now()).toBeGreaterThan(commitmentRepostBaseMs / 2);
+
+    await commitmentReconciler.reconcile();
+    expect(post).toHaveBeenCalledTimes(1);
+
+    await untilDue(commitmentHash);
+    await commitmentReconciler.reconcile();
+    expect(backlogEntry(commitmentHash)!.attempts).toBe(2);
+    expect(backlogEntry(commitmentHash)!.nextAttemptAt! - Date.now()).toBeLessThanOrEqual(commitmentRepostMaxMs);
+  });
+});
@@ -0,0 +1,337 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { resetConfig } from '../src/config.js';
+import { accountabilityService, isTermsCommitment } from '../src/services/accountability.js';
+import { Amount } from '../src/services/amount.js';
+import { duelEscrowService } from '../src/services/duel-escrow.js';
+import { getDuelStore } from '../src/services/duel-store.js';
+import { feeSchedule, stakeOf } from '../src/services/fee-schedule.js';
+import { FakeLockVerifier, setLockVerifier } from '../src/services/lock-verifier.js';
+import { walletVault } from '../src/services/wallet-vault.js';
+import { DuelStatus, type DuelId, type SignedFeeQuote } from '../src/types/index.js';
+import { createActiveDuel, createTestDuel, fundEscrow, mockProvider, randomWallet, serverAuthorization } from './helpers.js';
+
+/**
+ * Accepts the lock proofs createActiveDuel reports
+ */
+class LockProofVerifier extends FakeLockVerifier {
+  override async verify(request: Parameters<FakeLockVerifier['verify']>[0]) {
+    this.accept(request.proof.txSignature);
+    return super.verify(request);
+  }
+}
+
+async function balanceOf(wallet: string): Promise<bigint> {
+  return (await mockProvider().getBalance(wallet, 'SOL')).balance!.units;
+}
+
+function setEscrowBalance(amount: Amount): void {
+  const provider = mockProvider();
+  provider.seedBalance(provider.getEscrowWallet(), amount);
+}
+
+function createFromQuote(feeQuote: SignedFeeQuote) {
+  return duelEscrowService.createDuel({
+    player1Wallet: randomWallet(),
+    player2Wallet: randomWallet(),
+    player1CharacterId: 'char-1',
+    player2CharacterId: 'char-2',
+    player1Name: 'Alpha',
+    player2Name: 'Bravo',
+    player1StakeAmount: '1',
+    player2StakeAmount: '1',
+    feeQuote,
+  });
+}
+
+function outcomeRecords(duelId: DuelId) {
+  return accountabilityService
+    .getAllRecords()
+    .filter(record => record.commitment.duelId === duelId && !isTermsCommitment(record.commitment));
+}
+
+beforeAll(async () => {
+  await duelEscrowService.initialize();
+  setLockVerifier(new LockProofVerifier());
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(async () => {
+  await getDuelStore().shutdown();
+});
+
+describe('resuming a failed payout', () => {
+  it('settles a win under the commitment of the first attempt', async () => {
+    const { duel } = await createActiveDuel({ stake: '1000' });
+    const winner = duel.player1.stealthId;
+    const authorization = serverAuthorization(duel.duelId, 'winner', winner);
+
+    const failed = await duelEscrowService.settleDuel(duel.duelId, winner, undefined, authorization);
+    expect(failed.success).toBe(false);
+    expect((await duelEscrowService.getDuel(duel.duelId))?.status).toBe(DuelStatus.FAILED);
+    const [committed] = outcomeRecords(duel.duelId);
+
+    await fundEscrow(Amount.parse('SOL', '2000'));
+    const resumed = await duelEscrowService.settleDuel(duel.duelId, winner, undefined, authorization);
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.commitmentHash).toBe(committed!.commitmentHash);
+    expect(outcomeRecords(duel.duelId)).toHaveLength(1);
+  });
+
+  it('settles a draw under the commitment of the first attempt', async () => {
+    const { duel } = await createActiveDuel({ stake: '5000' });
+    const authorization = serverAuthorization(duel.duelId, 'draw');
+
+    const failed = await duelEscrowService.settleDraw(duel.duelId, undefined, authorization);
+    expect(failed.success).toBe(false);
+    const [committed] = outcomeRecords(duel.duelId);
+
+    await fundEscrow(Amount.parse('SOL', '10000'));
+    const resumed = await duelEscrowService.settleDraw(duel.duelId, undefined, authorization);
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.commitmentHash).toBe(committed!.commitmentHash);
+    expect(outcomeRecords(duel.duelId)).toHaveLength(1);
+  });
+
+  it('does not pay the winner twice when resumed after a crash past the winner transfer', async () => {
+    const { duel, player1Wallet } = await createActiveDuel({ stake: '1000' });
+    const winner = duel.player1.stealthId;
+    const authorization = serverAuthorization(duel.duelId, 'winner', winner);
+    await fundEscrow(Amount.parse('SOL', '2000'));
+
+    const crash = vi.spyOn(mockProvider(), 'transferToTreasury').mockRejectedValueOnce(new Error('process crashed'));
+    await expect(duelEscrowService.settleDuel(duel.duelId, winner, undefined, authorization)).rejects.toThrow('process crashed');
+    crash.mockRestore();
+
+    const interrupted = (await duelEscrowService.getDuel(duel.duelId))!;
+    expect(interrupted.status).toBe(DuelStatus.PENDING_SETTLEMENT);
+    expect(interrupted.player1.payoutTxSignature).toBeDefined();
+    const paid = await balanceOf(player1Wallet);
+    expect(paid).toBeGreaterThan(0n);
+
+    const resumed = await duelEscrowService.settleDuel(duel.duelId, winner, undefined, authorization);
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.winnerTxSignature).toBe(interrupted.player1.payoutTxSignature);
+    expect(await balanceOf(player1Wallet)).toBe(paid);
+    expect((await duelEscrowService.getDuel(duel.duelId))?.status).toBe(DuelStatus.SETTLED);
+  });
+});
+
+describe('draw', () => {
+  it('returns each deposit less the draw fee and commits to the draw', async () => {
+    process.env.DRAW_FEE_PERCENT = '2';
+    resetConfig();
+    const { duel, player1Wallet, player2Wallet } = await createActiveDuel({ stake: '4' }).finally(() => {
+      delete process.env.DRAW_FEE_PERCENT;
+      resetConfig();
+    });
+    const { payouts, drawFee } = feeSchedule.draw(duel);
+    expect(drawFee.units).toBeGreaterThan(0n);
+    await fundEscrow(Amount.parse('SOL', '10'));
+
+    const result = await duelEscrowService.settleDraw(duel.duelId, undefined, serverAuthorization(duel.duelId, 'draw'));
+
+    expect(result.success).toBe(true);
+    expect(result.playerPayouts?.map(payout => payout.units)).toEqual(payouts.map(payout => payout.payout.units));
+    expect(result.drawFee?.units).toBe(drawFee.units);
+    expect(result.payoutTxSignatures).toHaveLength(2);
+    expect(await balanceOf(player1Wallet)).toBe(payouts[0].payout.units);
+    expect(await balanceOf(player2Wallet)).toBe(payouts[1].payout.units);
+    expect(await duelEscrowService.getDuel(duel.duelId)).toMatchObject({ status: DuelStatus.SETTLED, outcome: 'draw' });
+
+    const [record] = outcomeRecords(duel.duelId);
+    expect(record!.commitmentHash).toBe(result.commitmentHash);
+    expect(record!.commitment).toMatchObject({ outcome: 'draw', player1StealthId: duel.player1.stealthId });
+    expect(accountabilityService.verifyOpening(record!)).toEqual({ amountsMatch: true, rulesMatch: true, combatMatch: true });
+  });
+
+  it('refuses a draw before both stakes are locked', async () => {
+    const { duel } = await createTestDuel();
+
+    const result = await duelEscrowService.settleDraw(duel.duelId, undefined, serverAuthorization(duel.duelId, 'draw'));
+
+    expect(result.success).toBe(false);
+    expect(outcomeRecords(duel.duelId)).toHaveLength(0);
+    expect((await duelEscrowService.getDuel(duel.duelId))?.status).toBe(DuelStatus.PENDING_STAKES);
+  });
+});
+
+describe('unequal stakes', () => {
+  it('pays the winner the whole pot less the house fee and commits to both stakes', async () => {
+    const { duel, player1Wallet } = await createActiveDuel({ stake: '1', player2Stake: '3' });
+    const { winnerPayout } = feeSchedule.settlement(duel);
+    await fundEscrow(Amount.parse('SOL', '10'));
+    const winner = duel.player1.stealthId;
+
+    const result = await duelEscrowService.settleDuel(duel.duelId, winner, undefined, serverAuthorization(duel.duelId, 'winner', winner));
+
+    expect(result.success).toBe(true);
+    expect(await balanceOf(player1Wallet)).toBe(winnerPayout.units);
+    const [record] = outcomeRecords(duel.duelId);
+    expect(record!.opening?.amounts).toMatchObject({
+      winnerStake: { value: '1000000000' },
+      loserStake: { value: '3000000000' },
+    });
+  });
+
+  it('returns each player their own stake in a draw', async () => {
+    const { duel, player1Wallet, player2Wallet } = await createActiveDuel({ stake: '2', player2Stake: '0.5' });
+    const [p1Draw, p2Draw] = feeSchedule.draw(duel).payouts;
+    await fundEscrow(Amount.parse('SOL', '10'));
+
+    expect((await duelEscrowService.settleDraw(duel.duelId, undefined, serverAuthorization(duel.duelId, 'draw'))).success).toBe(true);
+
+    expect(p1Draw.deposit.gt(p2Draw.deposit)).toBe(true);
+    expect(await balanceOf(player1Wallet)).toBe(p1Draw.payout.units);
+    expect(await balanceOf(player2Wallet)).toBe(p2Draw.payout.units);
+  });
+
+  it('refunds each player their own stake', async () => {
+    const { duel, player1Wallet, player2Wallet } = await createActiveDuel({ stake: '0.25', player2Stake: '1.5' });
+    await fundEscrow(Amount.parse('SOL', '10'));
+
+    expect((await duelEscrowService.refundDuel(duel.duelId, 'cancelled')).success).toBe(true);
+
+    expect(await balanceOf(player1Wallet)).toBe(feeSchedule.refund(stakeOf(duel, duel.player1)).payout.units);
+    expect(await balanceOf(player2Wallet)).toBe(feeSchedule.refund(stakeOf(duel, duel.player2)).payout.units);
+  });
+});
+
+describe('refund', () => {
+  it('refuses to refund a duel whose winner payout failed', async () => {
+    const { duel } = await createActiveDuel({ stake: '1000' });
+    const winner = duel.player2.stealthId;
+    const authorization = serverAuthorization(duel.duelId, 'winner', winner);
+    expect((await duelEscrowService.settleDuel(duel.duelId, winner, undefined, authorization)).success).toBe(false);
+    await fundEscrow(Amount.parse('SOL', '2000'));
+
+    const refund = await duelEscrowService.refundDuel(duel.duelId, 'error');
+
+    expect(refund).toEqual({ success: false, error: 'Duel is being settled as a win' });
+    const failed = (await duelEscrowService.getDuel(duel.duelId))!;
+    expect(failed).toMatchObject({ status: DuelStatus.FAILED, outcome: 'win' });
+    expect(failed.player1.payoutTxSignature).toBeUndefined();
+    expect((await duelEscrowService.settleDuel(duel.duelId, winner, undefined, authorization)).success).toBe(true);
+  });
+});
+
+describe('emergency refund', () => {
+  it('skips a player a failed draw already paid', async () => {
+    const { duel, player1Wallet, player2Wallet } = await createActiveDuel({ stake: '3' });
+    const [p1Draw] = feeSchedule.draw(duel).payouts;
+    setEscrowBalance(p1Draw.payout);
+
+    const draw = await duelEscrowService.settleDraw(duel.duelId, undefined, serverAuthorization(duel.duelId, 'draw'));
+    expect(draw.success).toBe(false);
+    const paid = (await duelEscrowService.getDuel(duel.duelId))!.player1.payoutTxSignature;
+    expect(paid).toBeDefined();
+
+    const stake = stakeOf(duel, duel.player1);
+    await fundEscrow(Amount.parse('SOL', '10'));
+    const result = await duelEscrowService.emergencyRefund(duel.duelId, player1Wallet, player2Wallet, stake, stake);
+
+    expect(result.success).toBe(true);
+    expect(result.refunds[0]).toMatchObject({ player: 'player1', skipped: 'already_paid', txSignature: paid });
+    expect(result.refunds[1]).toMatchObject({ player: 'player2', success: true });
+    expect(await balanceOf(player1Wallet)).toBe(p1Draw.payout.units);
+    expect((await duelEscrowService.getDuel(duel.duelId))?.status).toBe(DuelStatus.REFUNDED);
+  });
+
+  it('does not pay a player twice when retried after a partial failure', async () => {
+    const { duel, player1Wallet, player2Wallet } = await createActiveDuel({ stake: '2' });
+    const stake = stakeOf(duel, duel.player1);
+    const refund = feeSchedule.refund(stake).payout;
+    setEscrowBalance(refund);
+
+    const partial = await duelEscrowService.emergencyRefund(duel.duelId, player1Wallet, player2Wallet, stake, stake);
+    expect(partial.success).toBe(false);
+    expect(partial.refunds.map(entry => entry.success)).toEqual([true, false]);
+
+    await fundEscrow(Amount.parse('SOL', '10'));
+    const retried = await duelEscrowService.emergencyRefund(duel.duelId, player1Wallet, player2Wallet, stake, stake);
+
+    expect(retried.success).toBe(true);
+    expect(retried.refunds[0]).toMatchObject({ skipped: 'already_paid' });
+    expect(await balanceOf(player1Wallet)).toBe(refund.units);
+    expect(await balanceOf(player2Wallet)).toBe(refund.units);
+  });
+});
+
+describe('terms check', () => {
+  it('reports a duel without a terms record as unchecked, not matching', () => {
+    const input = { duelId: 'no-such-duel' } as Parameters<typeof accountabilityService.checkTerms>[0];
+    const result = accountabilityService.checkTerms(input);
+
+    expect(result).toMatchObject({ matches: false, unchecked: true });
+    expect(result.error).toContain('No terms commitment');
+  });
+
+  it('settles a duel checked against its terms', async () => {
+    const { duel } = await createActiveDuel();
+    await fundEscrow(Amount.parse('SOL', '5'));
+    const winner = duel.player2.stealthId;
+
+    const result = await duelEscrowService.settleDuel(duel.duelId, winner, undefined, serverAuthorization(duel.duelId, 'winner', winner));
+
+    expect(result.success).toBe(true);
+    expect(result.termsUnchecked).toBeUndefined();
+  });
+
+  it('settles a duel without a terms record but flags it unchecked', async () => {
+    vi.spyOn(accountabilityService, 'commitToTerms').mockRejectedValue(new Error('audit log unavailable'));
+    const { duel } = await createActiveDuel();
+    vi.restoreAllMocks();
+    await fundEscrow(Amount.parse('SOL', '5'));
+    const winner = duel.player1.stealthId;
+
+    const result = await duelEscrowService.settleDuel(duel.duelId, winner, undefined, serverAuthorization(duel.duelId, 'winner', winner));
+
+    expect(result.success).toBe(true);
+    expect(result.termsUnchecked).toBe(true);
+    const [outcome] = outcomeRecords(duel.duelId);
+    expect(outcome!.commitment).toMatchObject({ termsCommitmentHash: undefined });
+  });
+
+  it('refuses to settle a duel whose stakes changed after its terms commitment', async () => {
+    const { duel } = await createActiveDuel();
+    await getDuelStore().setDuel(duel.duelId, { ...duel, player1: { ...duel.player1, stakeAmount: 1n } }, 60_000);
+
+    const result = await duelEscrowService.settleDraw(duel.duelId, undefined, serverAuthorization(duel.duelId, 'draw'));
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('terms commitment (stakes)') });
+  });
+});
+
+describe('fee quotes', () => {
+  it('creates one duel per quote', async () => {
+    const { quote } = duelEscrowService.quoteDuel({ player1StakeAmount: '1', player2StakeAmount: '1' });
+
+    const first = await createFromQuote(quote!);
+    const reused = await createFromQuote(quote!);
+
+    expect(first.success).toBe(true);
+    expect(first.duel?.feeQuote?.quote.quoteId).toBe(quote!.quote.quoteId);
+    expect(reused).toMatchObject({ success: false, error: expect.stringContaining('already been used') });
+  });
+
+  it('leaves a quote unused when the duel is refused', async () => {
+    const { quote } = duelEscrowService.quoteDuel({ player1StakeAmount: '1', player2StakeAmount: '1' });
+    const tampered = { ...quote!, quote: { ...quote!.quote, houseFeePercent: '0' } };
+
+    expect(await createFromQuote(tampered)).toMatchObject({ success: false, error: 'Fee quote signature is invalid' });
+    expect((await createFromQuote(quote!)).success).toBe(true);
+  });
+
+  it('leaves a quote unused when creating the duel fails before it is saved', async () => {
+    const { quote } = duelEscrowService.quoteDuel({ player1StakeAmount: '1', player2StakeAmount: '1' });
+    vi.spyOn(walletVault, 'seal').mockRejectedValueOnce(new Error('vault unavailable'));
+
+    await expect(createFromQuote(quote!)).rejects.toThrow('vault unavailable');
+    expect((await createFromQuote(quote!)).success).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Amount } from '../src/services/amount.js';
+import { duelEscrowService } from '../src/services/duel-escrow.js';
+import {
+  applyTransition,
+  canTransition,
+  duelLifecycle,
+  InvalidDuelTransitionError,
+  isTerminal,
+  type DuelTransitionEvent,
+} from '../src/services/duel-state-machine.js';
+import { getDuelStore } from '../src/services/duel-store.js';
+import { FakeLockVerifier, setLockVerifier } from '../src/services/lock-verifier.js';
+import { DuelStatus, type DuelSession } from '../src/types/index.js';
+import { createActiveDuel, fundEscrow, serverAuthorization } from './helpers.js';
+
+/**
+ * Accepts the lock proofs createActiveDuel reports
+ */
+class LockProofVerifier extends FakeLockVerifier {
+  override async verify(request: Parameters<FakeLockVerifier['verify']>[0]) {
+    this.accept(request.proof.txSignature);
+    return super.verify(request);
+  }
+}
+
+const listeners: Array<(event: DuelTransitionEvent) => void> = [];
+
+function onTransition(listener: (event: DuelTransitionEvent) => void): void {
+  listeners.push(listener);
+  duelLifecycle.on('transition', listener);
+}
+
+function duelIn(status: DuelStatus): DuelSession {
+  return { duelId: 'duel-1', status, updatedAt: 0 } as DuelSession;
+}
+
+beforeAll(async () => {
+  await duelEscrowService.initialize();
+  setLockVerifier(new LockProofVerifier());
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  for (const listener of listeners.splice(0)) {
+    duelLifecycle.off('transition', listener);
+  }
+});
+
+afterAll(async () => {
+  await getDuelStore().shutdown();
+});
+
+describe('transition table', () => {
+  it('only lets a failed payout be retried or refunded', () => {
+    expect(canTransition(DuelStatus.FAILED, DuelStatus.PENDING_SETTLEMENT)).toBe(true);
+    expect(canTransition(DuelStatus.FAILED, DuelStatus.REFUNDED)).toBe(true);
+    expect(canTransition(DuelStatus.FAILED, DuelStatus.SETTLED)).toBe(false);
+    expect(canTransition(DuelStatus.PENDING_STAKES, DuelStatus.SETTLED)).toBe(false);
+  });
+
+  it('allows nothing out of a settled or refunded duel', () => {
+    for (const status of Object.values(DuelStatus)) {
+      expect(canTransition(DuelStatus.SETTLED, status)).toBe(false);
+      expect(canTransition(DuelStatus.REFUNDED, status)).toBe(false);
+    }
+    expect(isTerminal(DuelStatus.SETTLED)).toBe(true);
+    expect(isTerminal(DuelStatus.FAILED)).toBe(false);
+  });
+});
+
+describe('applyTransition', () => {
+  it('moves the duel and returns the event to publish', () => {
+    const duel = duelIn(DuelStatus.ACTIVE);
+
+    const event = applyTransition(duel, DuelStatus.PENDING_SETTLEMENT, 'settling');
+
+    expect(duel.status).toBe(DuelStatus.PENDING_SETTLEMENT);
+    expect(duel.updatedAt).toBe(event.timestamp);
+    expect(event).toMatchObject({ from: DuelStatus.ACTIVE, to: DuelStatus.PENDING_SETTLEMENT, reason: 'settling' });
+  });
+
+  it('leaves the duel alone when the transition is not allowed', () => {
+    const active = duelIn(DuelStatus.ACTIVE);
+    const settled = duelIn(DuelStatus.SETTLED);
+
+    expect(() => applyTransition(active, DuelStatus.SETTLED, 'skip')).toThrow(InvalidDuelTransitionError);
+    expect(() => applyTransition(active, DuelStatus.SETTLED, 'skip')).toThrow(`Invalid duel status transition: ${DuelStatus.ACTIVE} -> ${DuelStatus.SETTLED}`);
+    expect(() => applyTransition(settled, DuelStatus.REFUNDED, 'again')).toThrow(`Duel already ${DuelStatus.SETTLED.toLowerCase()}`);
+    expect(active).toMatchObject({ status: DuelStatus.ACTIVE, updatedAt: 0 });
+  });
+});
+
+describe('duelLifecycle', () => {
+  it('announces every status a settled duel passes through, in order', async () => {
+    const events: DuelTransitionEvent[] = [];
+    onTransition(event => events.push(event));
+
+    const { duel } = await createActiveDuel();
+    await fundEscrow(Amount.parse('SOL', '5'));
+    const winner = duel.player1.stealthId;
+    await duelEscrowService.settleDuel(duel.duelId, winner, undefined, serverAuthorization(duel.duelId, 'winner', winner));
+
+    expect(events.filter(event => event.duelId === duel.duelId).map(event => [event.from, event.to])).toEqual([
+      [null, DuelStatus.PENDING_STAKES],
+      [DuelStatus.PENDING_STAKES, DuelStatus.ACTIVE],
+      [DuelStatus.ACTIVE, DuelStatus.PENDING_SETTLEMENT],
+      [DuelStatus.PENDING_SETTLEMENT, DuelStatus.SETTLED],
+    ]);
+  });
+
+  it('keeps notifying listeners after one throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const received = vi.fn();
+    onTransition(() => {
+      throw new Error('listener broke');
+    });
+    onTransition(received);
+    const duel = duelIn(DuelStatus.ACTIVE);
+
+    expect(() => duelLifecycle.publish(applyTransition(duel, DuelStatus.REFUNDED, 'cancelled'))).not.toThrow();
+    expect(received).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Amount } from '../src/services/amount.js';
+import { duelEscrowService } from '../src/services/duel-escrow.js';
+import { getDuelStore } from '../src/services/duel-store.js';
+import { duelStream } from '../src/services/duel-stream.js';
+import { stakeOf } from '../src/services/fee-schedule.js';
+import { FakeLockVerifier, setLockVerifier } from '../src/services/lock-verifier.js';
+import { getConfig } from '../src/config.js';
+import type { DuelSession, DuelStreamEvent } from '../src/types/index.js';
+import { createActiveDuel, fundEscrow } from './helpers.js';
+
+/**
+ * Accepts the lock proofs createActiveDuel reports
+ */
+class LockProofVerifier extends FakeLockVerifier {
+  override async verify(request: Parameters<FakeLockVerifier['verify']>[0]) {
+    this.accept(request.proof.txSignature);
+    return super.verify(request);
+  }
+}
+
+let events: DuelStreamEvent[] = [];
+let unsubscribe: () => void;
+
+async function expire(duel: DuelSession): Promise<void> {
+  const expiresAt = Date.now() - getConfig().expiryGraceMs - 1000;
+  await getDuelStore().setDuel(duel.duelId, { ...duel, expiresAt }, 60_000);
+}
+
+function settlementEvents(duel: DuelSession): DuelStreamEvent[] {
+  return events.filter(event => event.type === 'duel.settlement' && event.duelId === duel.duelId);
+}
+
+beforeAll(async () => {
+  await duelEscrowService.initialize();
+  setLockVerifier(new LockProofVerifier());
+  duelStream.initialize();
+  unsubscribe = await duelStream.subscribe({ duelId: null, send: event => events.push(event), close: () => {} });
+});
+
+beforeEach(() => {
+  events = [];
+});
+
+afterAll(async () => {
+  unsubscribe();
+  duelStream.shutdown();
+  await getDuelStore().shutdown();
+});
+
+describe('duel.settlement outside the queue', () => {
+  it('is published for a refund claim', async () => {
+    const { duel, player1Wallet } = await createActiveDuel({ stake: '0.5' });
+    await fundEscrow(Amount.parse('SOL', '1'));
+    await expire(duel);
+
+    const claim = await duelEscrowService.claimRefund(duel.duelId, player1Wallet);
+
+    expect(claim.success).toBe(true);
+    expect(settlementEvents(duel)).toEqual([
+      expect.objectContaining({
+        data: { payout: { source: 'refund_claim', success: true, txSignatures: [claim.refundTxSignature] } },
+      }),
+    ]);
+  });
+
+  it('is published for a refund claim whose payout failed', async () => {
+    const { duel, player1Wallet } = await createActiveDuel({ stake: '1000' });
+    await expire(duel);
+
+    const claim = await duelEscrowService.claimRefund(duel.duelId, player1Wallet);
+
+    expect(claim.success).toBe(false);
+    const [event] = settlementEvents(duel);
+    expect(event?.data.payout).toMatchObject({ source: 'refund_claim', success: false, txSignatures: [] });
+    expect(event?.data.payout?.error).toBeDefined();
+  });
+
+  it('is not published again for a claim already paid', async () => {
+    const { duel, player1Wallet } = await createActiveDuel({ stake: '0.5' });
+    await fundEscrow(Amount.parse('SOL', '1'));
+    await expire(duel);
+    await duelEscrowService.claimRefund(duel.duelId, player1Wallet);
+
+    const repeated = await duelEscrowService.claimRefund(duel.duelId, player1Wallet);
+
+    expect(repeated.alreadyRefunded).toBe(true);
+    expect(settlementEvents(duel)).toHaveLength(1);
+  });
+
+  it('is published for an emergency refund', async () => {
+    const { duel, player1Wallet, player2Wallet } = await createActiveDuel({ stake: '0.5' });
+    await fundEscrow(Amount.parse('SOL', '1'));
+    const stake = stakeOf(duel, duel.player1);
+
+    const result = await duelEscrowService.emergencyRefund(duel.duelId, player1Wallet, player2Wallet, stake, stake);
+
+    expect(result.success).toBe(true);
+    expect(settlementEvents(duel)).toEqual([
+      expect.objectContaining({
+        data: {
+          payout: {
+            source: 'emergency_refund',
+            success: true,
+            txSignatures: result.refunds.map(entry => entry.txSignature),
+          },
+        },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getConfig } from '../src/config.js';
+import { Amount } from '../src/services/amount.js';
+import { duelEscrowService } from '../src/services/duel-escrow.js';
+import { getDuelStore } from '../src/services/duel-store.js';
+import { expiryWorker } from '../src/services/expiry-worker.js';
+import { FakeLockVerifier, setLockVerifier } from '../src/services/lock-verifier.js';
+import { settlementQueue, type SettlementJob } from '../src/services/settlement-queue.js';
+import { DuelStatus, type AutoRefundRecord, type DuelSession } from '../src/types/index.js';
+import { createActiveDuel, createTestDuel, fundEscrow, serverAuthorization } from './helpers.js';
+
+const WAIT = { timeout: 10_000 };
+
+/**
+ * Accepts the lock proofs createActiveDuel reports
+ */
+class LockProofVerifier extends FakeLockVerifier {
+  override async verify(request: Parameters<FakeLockVerifier['verify']>[0]) {
+    this.accept(request.proof.txSignature);
+    return super.verify(request);
+  }
+}
+
+/**
+ * Move a duel's expiry into the past, beyond the grace period unless `withinGrace`
+ */
+async function expire(duel: DuelSession, withinGrace = false): Promise<DuelSession> {
+  const graceMs = getConfig().expiryGraceMs;
+  const expiresAt = withinGrace ? Date.now() - graceMs / 2 : Date.now() - graceMs - 1000;
+  const expired = { ...(await duelEscrowService.getDuel(duel.duelId))!, expiresAt };
+  await getDuelStore().setDuel(duel.duelId, expired, 60_000);
+  return expired;
+}
+
+async function finished(jobId: string): Promise<SettlementJob> {
+  let job: SettlementJob | null = null;
+  await vi.waitFor(async () => {
+    await settlementQueue.processDue();
+    job = await settlementQueue.getJob(jobId);
+    expect(['succeeded', 'rejected', 'dead_letter']).toContain(job?.status);
+  }, WAIT);
+  return job!;
+}
+
+async function autoRefundOf(duel: DuelSession): Promise<AutoRefundRecord | undefined> {
+  return (await getDuelStore().getAutoRefunds()).find(record => record.duelId === duel.duelId);
+}
+
+beforeAll(async () => {
+  await duelEscrowService.initialize();
+  setLockVerifier(new LockProofVerifier());
+  expiryWorker.initialize();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+
+  // Settle what a test left behind so later sweeps only see their own duels
+  const store = getDuelStore();
+  for (const job of await store.getAllJobs()) {
+    if (job.status === 'queued') await store.setJob({ ...job, status: 'rejected' }, 60_000);
+  }
+  for (const duel of await store.getAllDuels()) {
+    if (duel.status !== DuelStatus.SETTLED) await store.setDuel(duel.duelId, { ...duel, expiresAt: Date.now() + 60_000 }, 60_000);
+  }
+});
+
+afterAll(async () => {
+  expiryWorker.shutdown();
+  await getDuelStore().shutdown();
+});
+
+describe('sweep', () => {
+  it('queues a timeout refund for pending and active duels past expiry plus grace', async () => {
+    vi.spyOn(settlementQueue, 'processDue').mockResolvedValue();
+    const pending = await expire((await createTestDuel()).duel);
+    const active = await expire((await createActiveDuel()).duel);
+    const inGrace = await expire((await createActiveDuel()).duel, true);
+    await createActiveDuel();
+
+    const jobs = await expiryWorker.sweep();
+
+    expect(jobs.map(job => job.duelId).sort()).toEqual([pending.duelId, active.duelId].sort());
+    expect(jobs.find(job => job.duelId === pending.duelId)).toMatchObject({
+      request: { kind: 'refund', reason: 'timeout' },
+      autoRefund: { previousStatus: DuelStatus.PENDING_STAKES, lockedStealthIds: [] },
+    });
+    expect(jobs.find(job => job.duelId === active.duelId)?.autoRefund).toMatchObject({
+      previousStatus: DuelStatus.ACTIVE,
+      lockedStealthIds: [active.player1.stealthId, active.player2.stealthId],
+    });
+    expect(await settlementQueue.findActiveJob(inGrace.duelId)).toBeNull();
+  });
+
+  it('skips duels that were settled, including between the scan and queueing', async () => {
+    vi.spyOn(settlementQueue, 'processDue').mockResolvedValue();
+    const { duel: settledDuel } = await createActiveDuel({ stake: '0.5' });
+    await fundEscrow(Amount.parse('SOL', '1'));
+    const winner = settledDuel.player1.stealthId;
+    await duelEscrowService.settleDuel(settledDuel.duelId, winner, undefined, serverAuthorization(settledDuel.duelId, 'winner', winner));
+    await expire(settledDuel);
+
+    const racing = await expire((await createActiveDuel()).duel);
+    const getDuel = duelEscrowService.getDuel.bind(duelEscrowService);
+    vi.spyOn(duelEscrowService, 'getDuel').mockImplementation(async (duelId) => {
+      const duel = await getDuel(duelId);
+      return duel && duelId === racing.duelId ? { ...duel, status: DuelStatus.SETTLED } : duel;
+    });
+
+    expect(await expiryWorker.sweep()).toEqual([]);
+    expect((await getDuel(settledDuel.duelId))?.status).toBe(DuelStatus.SETTLED);
+  });
+});
+
+describe('recorded outcomes', () => {
+  it('records a dead-lettered refund as failed with its last error', async () => {
+    const duel = await expire((await createActiveDuel({ stake: '1000' })).duel);
+
+    const [job] = await expiryWorker.sweep();
+    await getDuelStore().setJob({ ...job!, maxAttempts: 1 }, 60_000);
+    expect((await finished(job!.jobId)).status).toBe('dead_letter');
+
+    await vi.waitFor(async () => {
+      const record = await autoRefundOf(duel);
+      expect(record).toMatchObject({ success: false, refundTxSignatures: [] });
+      expect(record!.error).toMatch(/Refund incomplete/);
+    }, WAIT);
+  });
+
+  it('does not record a refund rejected because the duel was settled meanwhile', async () => {
+    const duel = await expire((await createActiveDuel()).duel);
+
+    const [job] = await expiryWorker.sweep();
+    await getDuelStore().setDuel(duel.duelId, { ...duel, status: DuelStatus.SETTLED }, 60_000);
+    expect((await finished(job!.jobId)).status).toBe('rejected');
+
+    expect(await autoRefundOf(duel)).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { resetConfig } from '../src/config.js';
+import { Amount } from '../src/services/amount.js';
+import { feeSchedule } from '../src/services/fee-schedule.js';
+
+const CHRISTMAS = Date.parse('2026-12-25T12:00:00Z');
+const NEW_YEAR = Date.parse('2027-01-01T12:00:00Z');
+const ORDINARY_DAY = Date.parse('2026-11-10T12:00:00Z');
+
+function sol(value: string): Amount {
+  return Amount.parse('SOL', value);
+}
+
+function duel(player1Stake: string, player2Stake: string, houseFeePercent = 2, drawFeePercent = 0) {
+  return {
+    token: 'SOL',
+    houseFeePercent,
+    drawFeePercent,
+    player1: { stakeAmount: sol(player1Stake).units },
+    player2: { stakeAmount: sol(player2Stake).units },
+  };
+}
+
+beforeAll(() => {
+  Object.assign(process.env, {
+    HOUSE_FEE_PERCENT: '2',
+    HOUSE_FEE_TIERS: 'SOL:10=1.5,SOL:100=1,USD1:10=1.8',
+    HOUSE_FEE_PROMOS: [
+      '0.5@2026-12-24T00:00:00Z/2026-12-27T00:00:00Z',
+      'SOL:0.25@2026-12-25T00:00:00Z/2026-12-26T00:00:00Z',
+      'USD1:0@2026-12-31T00:00:00Z/2027-01-02T00:00:00Z',
+    ].join(','),
+  });
+  resetConfig();
+});
+
+describe('houseFee', () => {
+  it('charges the base fee below the first tier and the highest tier reached above it', () => {
+    expect(feeSchedule.houseFee(sol('9.999'), ORDINARY_DAY)).toEqual({ percent: 2, source: 'base' });
+    expect(feeSchedule.houseFee(sol('10'), ORDINARY_DAY)).toEqual({ percent: 1.5, source: 'tier', minTotalStake: 10 });
+    expect(feeSchedule.houseFee(sol('250'), ORDINARY_DAY)).toEqual({ percent: 1, source: 'tier', minTotalStake: 100 });
+    expect(feeSchedule.houseFee(Amount.parse('RADR', '250'), ORDINARY_DAY)).toEqual({ percent: 2, source: 'base' });
+  });
+
+  it('lets the lowest promotion for the token override the tiers while it runs', () => {
+    const endsAt = Date.parse('2026-12-26T00:00:00Z');
+
+    expect(feeSchedule.houseFee(sol('250'), CHRISTMAS)).toEqual({ percent: 0.25, source: 'promo', endsAt });
+    expect(feeSchedule.houseFee(Amount.parse('USD1', '1'), CHRISTMAS).percent).toBe(0.5);
+    expect(feeSchedule.houseFee(Amount.parse('USD1', '1'), NEW_YEAR).percent).toBe(0);
+    expect(feeSchedule.houseFee(sol('250'), NEW_YEAR)).toMatchObject({ percent: 1, source: 'tier' });
+  });
+
+  it('publishes only the promotions running at the time', () => {
+    expect(feeSchedule.describe(NEW_YEAR).activePromos).toEqual([
+      { token: 'USD1', percent: 0, startsAt: Date.parse('2026-12-31T00:00:00Z'), endsAt: Date.parse('2027-01-02T00:00:00Z') },
+    ]);
+    expect(feeSchedule.describe(ORDINARY_DAY).activePromos).toEqual([]);
+  });
+});
+
+describe('payouts', () => {
+  it('takes the deposit fee, the house fee on the pot, then the transfer-out fee', () => {
+    const amounts = feeSchedule.settlement(duel('1', '1'));
+
+    expect(amounts.deposits.map(deposit => deposit.toDecimal())).toEqual(['0.995', '0.995']);
+    expect(amounts.pot.toDecimal()).toBe('1.99');
+    expect(amounts.houseFee.toDecimal()).toBe('0.0398');
+    expect(amounts.winnerPayout.toDecimal()).toBe('1.9502');
+    expect(amounts.winnerReceives.toDecimal()).toBe('1.940449');
+  });
+
+  it('rounds every fee down to a whole smallest unit', () => {
+    const [payout] = feeSchedule.draw(duel('0.000000201', '0.000000201', 2, 1)).payouts;
+
+    expect(payout.deposit.units).toBe(200n);
+    expect(payout.fee.units).toBe(2n);
+    expect(payout.payout.units).toBe(198n);
+    expect(payout.receives.units).toBe(198n);
+  });
+
+  it('refunds everything that reached escrow', () => {
+    const refund = feeSchedule.refund(sol('2'));
+
+    expect(refund.fee.isZero()).toBe(true);
+    expect(refund.payout.toDecimal()).toBe('1.99');
+  });
+});
@@ -0,0 +1,35 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { FileStore } from '../src/services/file-store.js';
+import type { LockSignatureBinding } from '../src/types/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function storePath(): string {
+  return join(mkdtempSync(join(tmpdir(), 'file-store-test-')), 'duel-store.log');
+}
+
+function binding(overrides: Partial<LockSignatureBinding> = {}): LockSignatureBinding {
+  return { txSignature: 'sig-1', duelId: 'duel-1', stealthId: 'stealth-1', boundAt: 1, ...overrides };
+}
+
+describe('FileStore lock signatures', () => {
+  it('keeps live bindings across a restart and drops expired ones', async () => {
+    const path = storePath();
+    const first = new FileStore(path);
+    await first.initialize();
+    await first.bindLockSignature(binding(), HOUR_MS);
+    await first.bindLockSignature(binding({ txSignature: 'sig-2' }), 20);
+    await first.shutdown();
+
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    const second = new FileStore(path);
+    await second.initialize();
+    expect(await second.bindLockSignature(binding({ duelId: 'duel-2' }), HOUR_MS)).toEqual(binding());
+    expect(await second.bindLockSignature(binding({ txSignature: 'sig-2', duelId: 'duel-2' }), HOUR_MS)).toBeNull();
+    await second.shutdown();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Shared fixtures for service tests
+ */
+
+import { randomBytes } from 'crypto';
+import { Keypair } from '@solana/web3.js';
+import { Amount } from '../src/services/amount.js';
+import { duelEscrowService } from '../src/services/duel-escrow.js';
+import { MockTransferProvider } from '../src/services/mock-transfer.js';
+import type { ServerAuthorization } from '../src/services/server-signature.js';
+import { getTransferProvider } from '../src/services/transfer-provider.js';
+import type { DuelSession, StealthId, WalletAddress } from '../src/types/index.js';
+
+export function randomWallet(): WalletAddress {
+  return Keypair.generate().publicKey.toBase58();
+}
+
+export interface TestDuel {
+  duel: DuelSession;
+  player1Wallet: WalletAddress;
+  player2Wallet: WalletAddress;
+}
+
+export interface TestDuelOptions {
+  stake?: string;
+  /** Player 2's stake when it differs from `stake` */
+  player2Stake?: string;
+  token?: string;
+}
+
+/**
+ * Create a duel between two fresh wallets
+ */
+export async function createTestDuel(options: TestDuelOptions = {}): Promise<TestDuel> {
+  const player1Wallet = randomWallet();
+  const player2Wallet = randomWallet();
+  const stake = options.stake ?? '1';
+
+  const result = await duelEscrowService.createDuel({
+    player1Wallet,
+    player2Wallet,
+    player1CharacterId: 'char-1',
+    player2CharacterId: 'char-2',
+    player1Name: 'Alpha',
+    player2Name: 'Bravo',
+    player1StakeAmount: stake,
+    player2StakeAmount: options.player2Stake ?? stake,
+    token: options.token,
+  });
+  if (!result.success || !result.duel) {
+    throw new Error(`createDuel failed: ${result.error}`);
+  }
+
+  return { duel: result.duel, player1Wallet, player2Wallet };
+}
+
+/**
+ * Create a duel and lock both stakes (the verifier must accept `lock-<n>-<duelId>`)
+ */
+export async function createActiveDuel(options: TestDuelOptions = {}): Promise<TestDuel> {
+  const testDuel = await createTestDuel(options);
+  const { duel, player1Wallet, player2Wallet } = testDuel;
+
+  for (const [wallet, n] of [[player1Wallet, 1], [player2Wallet, 2]] as const) {
+    const locked = await duelEscrowService.lockStakeWithProof(duel.duelId, wallet, `lock-${n}-${duel.duelId}`);
+    if (!locked.success) {
+      throw new Error(`lockStake failed: ${locked.error}`);
+    }
+  }
+
+  return { ...testDuel, duel: (await duelEscrowService.getDuel(duel.duelId))! };
+}
+
+export function mockProvider(): MockTransferProvider {
+  const provider = getTransferProvider();
+  if (!(provider instanceof MockTransferProvider)) {
+    throw new Error('Tests expect TRANSFER_PROVIDER=mock');
+  }
+  return provider;
+}
+
+/**
+ * Add `amount` to the escrow wallet's mock balance
+ */
+export async function fundEscrow(amount: Amount): Promise<void> {
+  const provider = mockProvider();
+  const escrow = provider.getEscrowWallet();
+  const current = await provider.getBalance(escrow, amount.token);
+  provider.seedBalance(escrow, (current.balance ?? Amount.zero(amount.token)).plus(amount));
+}
+
+/**
+ * A game server authorization as routes pass it after verification
+ */
+export function serverAuthorization(
+  duelId: string,
+  outcome: ServerAuthorization['outcome'],
+  winnerStealthId: StealthId | null = null
+): ServerAuthorization {
+  return {
+    duelId,
+    outcome,
+    winnerStealthId,
+    timestamp: Date.now(),
+    nonce: randomBytes(12).toString('hex'),
+    signature: 'test-signature',
+    signerPublicKey: 'test-signer',
+    verified: true,
+  };
+}
@@ -0,0 +1,121 @@
+import express from 'express';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfig } from '../src/config.js';
+import { idempotency } from '../src/middleware/idempotency.js';
+import { setDuelStore } from '../src/services/duel-store.js';
+import { MemoryStore } from '../src/services/memory-store.js';
+
+let store: MemoryStore;
+let calls: number;
+let respond: (res: express.Response) => void;
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.post('/op', idempotency('op'), (req, res) => {
+    calls++;
+    respond(res);
+  });
+  return app;
+}
+
+function post(key: string, body: object = { duelId: 'duel-1' }) {
+  return request(createApp()).post('/op').set('Idempotency-Key', key).send(body);
+}
+
+beforeEach(async () => {
+  store = new MemoryStore();
+  await store.initialize();
+  setDuelStore(store);
+  calls = 0;
+  respond = (res) => {
+    res.status(201).json({ success: true, call: calls });
+  };
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  setDuelStore(null);
+  await store.shutdown();
+});
+
+describe('idempotency', () => {
+  it('replays the stored response for a retry with the same body', async () => {
+    const first = await post('key-1');
+    const retry = await post('key-1');
+
+    expect(calls).toBe(1);
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+  });
+
+  it('rejects the same key with a different body', async () => {
+    await post('key-1');
+    const other = await post('key-1', { duelId: 'duel-2' });
+
+    expect(other.status).toBe(422);
+    expect(calls).toBe(1);
+  });
+
+  it.each([500, 503, 409])('runs the request again after a %i response', async (status) => {
+    respond = (res) => {
+      res.status(status).json({ success: false });
+    };
+    expect((await post('key-1')).status).toBe(status);
+
+    respond = (res) => {
+      res.status(200).json({ success: true });
+    };
+    const retry = await post('key-1');
+
+    expect(calls).toBe(2);
+    expect(retry.status).toBe(200);
+    expect(retry.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('refuses a retry while the first request is in progress', async () => {
+    let finish!: () => void;
+    respond = (res) => {
+      finish = () => res.status(200).json({ success: true });
+    };
+    const app = createApp();
+    // then() sends the request without waiting for its response
+    const first = request(app).post('/op').set('Idempotency-Key', 'key-1').send({ duelId: 'duel-1' }).then(res => res);
+    await vi.waitFor(() => expect(calls).toBe(1));
+
+    const retry = await request(app).post('/op').set('Idempotency-Key', 'key-1').send({ duelId: 'duel-1' });
+    finish();
+
+    expect(retry.status).toBe(409);
+    expect(retry.headers['retry-after']).toBe('1');
+    expect((await first).status).toBe(200);
+  });
+
+  it('holds the key briefly while in progress and keeps the response for the full TTL', async () => {
+    const claim = vi.spyOn(store, 'claimIdempotencyKey');
+    const save = vi.spyOn(store, 'setIdempotencyRecord');
+
+    await post('key-1');
+
+    const claimTtl = claim.mock.calls[0]![2];
+    expect(claimTtl).toBeLessThanOrEqual(10 * 60 * 1000);
+    expect(claimTtl).toBeLessThan(getConfig().idempotencyTtlMs);
+    expect(save).toHaveBeenLastCalledWith('op:key-1', expect.objectContaining({ state: 'completed' }), getConfig().idempotencyTtlMs);
+  });
+
+  it('stores the response before sending it', async () => {
+    const save = store.setIdempotencyRecord.bind(store);
+    vi.spyOn(store, 'setIdempotencyRecord').mockImplementation(async (...args) => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return save(...args);
+    });
+
+    await post('key-1');
+
+    expect(await store.claimIdempotencyKey('op:key-1', { state: 'in_progress', requestHash: '', createdAt: 0 }, 1000))
+      .toMatchObject({ state: 'completed', statusCode: 201 });
+  });
+});
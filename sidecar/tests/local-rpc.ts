@@ -0,0 +1,154 @@
+/**
+ * Local Solana RPC stand-in: just enough JSON-RPC (HTTP) and signature
+ * subscriptions (WebSocket, on the next port as web3.js expects) to post and
+ * confirm memo transactions. Records every memo sent and can be told to fail
+ * the next sends.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import bs58 from 'bs58';
+import WebSocket from 'ws';
+import { Transaction } from '@solana/web3.js';
+
+export interface SentMemo {
+  txSignature: string;
+  memo: string;
+}
+
+interface RpcRequest {
+  id: number | string;
+  method: string;
+  params?: unknown[];
+}
+
+const BLOCKHASH = bs58.encode(Buffer.alloc(32, 7));
+const SLOT = 1000;
+
+export class LocalRpc {
+  readonly sent: SentMemo[] = [];
+  /** sendTransaction calls, including failed ones */
+  sendAttempts = 0;
+
+  private http: Server | null = null;
+  private ws: WebSocket.Server | null = null;
+  private failures = 0;
+  private nextSubscription = 1;
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.http!.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Reject the next `count` sendTransaction calls
+   */
+  failNextSends(count: number): void {
+    this.failures = count;
+  }
+
+  async start(): Promise<void> {
+    // web3.js subscribes on the HTTP port + 1, so find a free pair
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const ws = await listen(new WebSocket.Server({ port: 0, host: '127.0.0.1' }));
+      const wsPort = (ws.address() as AddressInfo).port;
+      const http = createServer((req, res) => this.handle(req, res));
+      try {
+        await new Promise<void>((resolve, reject) => {
+          http.once('error', reject);
+          http.listen(wsPort - 1, '127.0.0.1', () => resolve());
+        });
+      } catch {
+        ws.close();
+        continue;
+      }
+
+      ws.on('connection', socket => this.subscribe(socket));
+      this.http = http;
+      this.ws = ws;
+      return;
+    }
+    throw new Error('No free port pair for the local RPC');
+  }
+
+  async stop(): Promise<void> {
+    for (const client of this.ws?.clients ?? []) client.terminate();
+    await new Promise<void>(resolve => (this.ws ? this.ws.close(() => resolve()) : resolve()));
+    await new Promise<void>(resolve => (this.http ? this.http.close(() => resolve()) : resolve()));
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const parsed = JSON.parse(body) as RpcRequest | RpcRequest[];
+      const replies = (Array.isArray(parsed) ? parsed : [parsed]).map(request => this.reply(request));
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(Array.isArray(parsed) ? replies : replies[0]));
+    });
+  }
+
+  private reply({ id, method, params = [] }: RpcRequest): object {
+    const context = { slot: SLOT };
+    switch (method) {
+      case 'getLatestBlockhash':
+        return { jsonrpc: '2.0', id, result: { context, value: { blockhash: BLOCKHASH, lastValidBlockHeight: SLOT + 150 } } };
+      case 'getBlockHeight':
+        return { jsonrpc: '2.0', id, result: SLOT };
+      case 'getSignatureStatuses':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            context,
+            value: (params[0] as string[]).map(() => ({
+              slot: SLOT,
+              confirmations: null,
+              err: null,
+              confirmationStatus: 'confirmed',
+            })),
+          },
+        };
+      case 'sendTransaction': {
+        this.sendAttempts++;
+        if (this.failures > 0) {
+          this.failures--;
+          return { jsonrpc: '2.0', id, error: { code: -32002, message: 'Transaction simulation failed: Blockhash not found' } };
+        }
+        const transaction = Transaction.from(Buffer.from(params[0] as string, 'base64'));
+        const txSignature = bs58.encode(transaction.signature!);
+        const memo = transaction.instructions.at(-1)!.data.toString('utf8');
+        this.sent.push({ txSignature, memo });
+        return { jsonrpc: '2.0', id, result: txSignature };
+      }
+      default:
+        return { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } };
+    }
+  }
+
+  /**
+   * Confirm every signature subscription straight away
+   */
+  private subscribe(socket: WebSocket): void {
+    socket.on('message', (data) => {
+      const { id, method } = JSON.parse(data.toString()) as RpcRequest;
+      if (method === 'signatureSubscribe') {
+        const subscription = this.nextSubscription++;
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id, result: subscription }));
+        socket.send(JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'signatureNotification',
+          params: { subscription, result: { context: { slot: SLOT }, value: { err: null } } },
+        }));
+      } else {
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id, result: true }));
+      }
+    });
+  }
+}
+
+function listen(server: WebSocket.Server): Promise<WebSocket.Server> {
+  return new Promise((resolve, reject) => {
+    server.once('listening', () => resolve(server));
+    server.once('error', reject);
+  });
+}
@@ -0,0 +1,228 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfig, resetConfig } from '../src/config.js';
+import { Amount } from '../src/services/amount.js';
+import { duelEscrowService } from '../src/services/duel-escrow.js';
+import { getDuelStore } from '../src/services/duel-store.js';
+import { feeSchedule, stakeOf } from '../src/services/fee-schedule.js';
+import {
+  CompositeLockVerifier,
+  createLockVerifier,
+  EscrowBalanceLockVerifier,
+  FakeLockVerifier,
+  parseLockProof,
+  setLockVerifier,
+  TrustingLockVerifier,
+  ZkPaymentLockVerifier,
+  type LockVerificationRequest,
+} from '../src/services/lock-verifier.js';
+import { createTestDuel, fundEscrow, mockProvider } from './helpers.js';
+
+const ONE_SOL = Amount.parse('SOL', '1');
+
+function zkPaymentProof(overrides: Record<string, unknown> = {}, network = 'solana-devnet'): string {
+  return JSON.stringify({
+    x402Version: 1,
+    scheme: 'zkproof',
+    network,
+    payload: {
+      amount: 1_000_000_000,
+      sender: 'sender-commitment',
+      recipient: mockProvider().getEscrowWallet(),
+      resource: 'Duel:placeholder',
+      proof: 'zk-proof-bytes',
+      ...overrides,
+    },
+  });
+}
+
+async function request(paymentProof: string, options: { stake?: string } = {}): Promise<LockVerificationRequest> {
+  const { duel } = await createTestDuel(options);
+  return {
+    resource: `Duel:${duel.duelId}`,
+    proof: parseLockProof(paymentProof.replace('Duel:placeholder', `Duel:${duel.duelId}`)),
+    expectedAmount: stakeOf(duel, duel.player1),
+    escrowWallet: mockProvider().getEscrowWallet(),
+  };
+}
+
+beforeAll(async () => {
+  await duelEscrowService.initialize();
+});
+
+beforeEach(() => {
+  mockProvider().clearBalances();
+});
+
+afterAll(async () => {
+  await getDuelStore().shutdown();
+});
+
+describe('parseLockProof', () => {
+  it('accepts a raw signature or a JSON object naming one', () => {
+    expect(parseLockProof('5abc')).toEqual({ txSignature: '5abc' });
+    expect(parseLockProof('{"signature":"5def"}').txSignature).toBe('5def');
+  });
+
+  it('identifies a ZK payment without a signature by its proof', () => {
+    const proof = parseLockProof(zkPaymentProof());
+    expect(proof.payment?.scheme).toBe('zkproof');
+    expect(proof.txSignature).toMatch(/^zk:[0-9a-f]{64}$/);
+  });
+});
+
+describe('EscrowBalanceLockVerifier', () => {
+  const verifier = new EscrowBalanceLockVerifier();
+
+  it('accepts a stake covered net of the deposit fee', async () => {
+    await fundEscrow(feeSchedule.deposited(ONE_SOL));
+    expect(await verifier.verify(await request('tx'))).toEqual({ verified: true });
+  });
+
+  it('rejects when the escrow holds less than the deposit', async () => {
+    await fundEscrow(feeSchedule.deposited(ONE_SOL).minus(Amount.fromUnits('SOL', 1n)));
+    const result = await verifier.verify(await request('tx'));
+    expect(result.verified).toBe(false);
+    expect(result.error).toMatch(/does not cover/);
+  });
+
+  it('does not let funds owed to locked stakes or dust cover a new lock', async () => {
+    setLockVerifier(new TrustingLockVerifier());
+    const { duel, player1Wallet } = await createTestDuel();
+    await duelEscrowService.lockStakeWithProof(duel.duelId, player1Wallet, 'held-stake');
+    const dust = Amount.parse('SOL', '0.01');
+    await getDuelStore().accumulateDust('SOL', dust.units);
+
+    // Exactly what is already owed: a new lock is not covered
+    const owed = feeSchedule.deposited(ONE_SOL).plus(dust);
+    await fundEscrow(owed);
+    expect((await verifier.verify(await request('tx'))).verified).toBe(false);
+
+    await fundEscrow(feeSchedule.deposited(ONE_SOL));
+    expect((await verifier.verify(await request('tx'))).verified).toBe(true);
+
+    await getDuelStore().resetDust('SOL');
+  });
+
+  it('fails when the escrow balance cannot be read', async () => {
+    const provider = mockProvider();
+    const original = provider.getBalance;
+    provider.getBalance = async () => ({ success: false, error: 'pool unavailable' });
+    try {
+      const result = await verifier.verify(await request('tx'));
+      expect(result).toEqual({ verified: false, error: 'Could not read escrow balance: pool unavailable' });
+    } finally {
+      provider.getBalance = original;
+    }
+  });
+
+  it('admits only one of two concurrent locks the balance covers once', async () => {
+    // USD1, so no SOL stakes locked by earlier tests are owed
+    setLockVerifier(verifier);
+    const first = await createTestDuel({ stake: '10', token: 'USD1' });
+    const second = await createTestDuel({ stake: '10', token: 'USD1' });
+    await fundEscrow(feeSchedule.deposited(Amount.parse('USD1', '10')));
+
+    const results = await Promise.all([
+      duelEscrowService.lockStakeWithProof(first.duel.duelId, first.player1Wallet, 'concurrent-1'),
+      duelEscrowService.lockStakeWithProof(second.duel.duelId, second.player1Wallet, 'concurrent-2'),
+    ]);
+
+    expect(results.filter(result => result.success)).toHaveLength(1);
+    expect(results.find(result => !result.success)?.error).toMatch(/Stake transfer not verified/);
+  });
+});
+
+describe('ZkPaymentLockVerifier', () => {
+  const verifier = new ZkPaymentLockVerifier('solana-devnet');
+
+  it('accepts a payment for this duel, to escrow, for the stake', async () => {
+    expect(await verifier.verify(await request(zkPaymentProof()))).toEqual({ verified: true });
+  });
+
+  it.each([
+    ['not a ZK payment', () => 'raw-signature', /not a ZK payment/],
+    ['another network', () => zkPaymentProof({}, 'solana-mainnet'), /expected solana-devnet/],
+    ['another recipient', () => zkPaymentProof({ recipient: 'someone-else' }), /recipient/],
+    ['another duel', () => zkPaymentProof({ resource: 'Duel:other' }), /Payment is for Duel:other/],
+    ['less than the stake', () => zkPaymentProof({ amount: 999_999_999 }), /below 1000000000/],
+    ['an empty proof', () => zkPaymentProof({ proof: '' }), /empty/],
+  ])('rejects %s', async (_case, paymentProof, error) => {
+    const result = await verifier.verify(await request(paymentProof()));
+    expect(result.verified).toBe(false);
+    expect(result.error).toMatch(error);
+  });
+});
+
+describe('TrustingLockVerifier and CompositeLockVerifier', () => {
+  it('trust accepts any report', async () => {
+    expect(await new TrustingLockVerifier().verify()).toEqual({ verified: true });
+  });
+
+  it('composite requires every verifier and reports the first failure', async () => {
+    const fake = new FakeLockVerifier().accept('tx-ok').reject('tx-bad', 'scripted rejection');
+    const composite = new CompositeLockVerifier([new TrustingLockVerifier(), fake]);
+
+    expect(composite.name).toBe('trust+fake');
+    expect(await composite.verify(await request('tx-ok'))).toEqual({ verified: true });
+    expect(await composite.verify(await request('tx-bad'))).toEqual({ verified: false, error: 'scripted rejection' });
+    expect(fake.requests.map(request => request.proof.txSignature)).toEqual(['tx-ok', 'tx-bad']);
+  });
+
+  it('builds the chain from LOCK_VERIFIER', () => {
+    const config = getConfig();
+    expect(createLockVerifier({ ...config, LOCK_VERIFIER: ['escrow-balance'] }).name).toBe('escrow-balance');
+    expect(createLockVerifier({ ...config, LOCK_VERIFIER: ['escrow-balance', 'zk-payment'] }).name)
+      .toBe('escrow-balance+zk-payment');
+  });
+
+  it.each(['trust', 'zk-payment'])('refuses LOCK_VERIFIER=%s in production', (kind) => {
+    const env = { NODE_ENV: process.env.NODE_ENV, LOCK_VERIFIER: process.env.LOCK_VERIFIER };
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    Object.assign(process.env, { NODE_ENV: 'production', LOCK_VERIFIER: `escrow-balance,${kind}` });
+    resetConfig();
+
+    try {
+      expect(() => getConfig()).toThrow('Invalid configuration');
+      expect(errors.mock.calls.flat().join('\n')).toContain(`LOCK_VERIFIER=${kind} is not allowed in production`);
+    } finally {
+      for (const [key, value] of Object.entries(env)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+      resetConfig();
+      errors.mockRestore();
+    }
+  });
+});
+
+describe('stake locks through the verifier', () => {
+  it('rejects a transfer the verifier does not accept', async () => {
+    setLockVerifier(new FakeLockVerifier().reject('tx-unknown', 'Transfer not found'));
+    const { duel, player1Wallet } = await createTestDuel();
+
+    const result = await duelEscrowService.lockStakeWithProof(duel.duelId, player1Wallet, 'tx-unknown');
+
+    expect(result).toEqual({ success: false, error: 'Stake transfer not verified: Transfer not found' });
+    expect((await duelEscrowService.getDuel(duel.duelId))!.player1.stakeLocked).toBe(false);
+  });
+
+  it('binds each signature to one stake and rejects replay', async () => {
+    setLockVerifier(new FakeLockVerifier().accept('tx-once'));
+    const first = await createTestDuel();
+    const second = await createTestDuel();
+
+    expect((await duelEscrowService.lockStakeWithProof(first.duel.duelId, first.player1Wallet, 'tx-once')).success)
+      .toBe(true);
+
+    // Same signature for the other player, and wrapped in JSON for another duel
+    const otherPlayer = await duelEscrowService.lockStakeWithProof(first.duel.duelId, first.player2Wallet, 'tx-once');
+    const otherDuel = await duelEscrowService.lockStakeWithProof(
+      second.duel.duelId,
+      second.player1Wallet,
+      '{"txSignature":"tx-once"}'
+    );
+
+    expect(otherPlayer).toEqual({ success: false, error: 'Transaction already used to lock another stake' });
+    expect(otherDuel).toEqual({ success: false, error: 'Transaction already used to lock another stake' });
+  });
+});
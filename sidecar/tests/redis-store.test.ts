@@ -0,0 +1,193 @@
+import RedisMock from 'ioredis-mock';
+import type { Redis } from 'ioredis';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RedisStore } from '../src/services/redis-store.js';
+import type { SettlementJob } from '../src/services/settlement-queue.js';
+import type { DuelSession, LockSignatureBinding, SpendingAuthorization } from '../src/types/index.js';
+
+const PREFIX = 'test:';
+const HOUR_MS = 60 * 60 * 1000;
+
+let client: Redis;
+let store: RedisStore;
+
+function duel(duelId: string): DuelSession {
+  return { duelId } as DuelSession;
+}
+
+function binding(overrides: Partial<LockSignatureBinding> = {}): LockSignatureBinding {
+  return { txSignature: 'sig-1', duelId: 'duel-1', stealthId: 'stealth-1', boundAt: 1, ...overrides };
+}
+
+beforeEach(async () => {
+  client = new RedisMock() as unknown as Redis;
+  await client.flushall();
+  store = new RedisStore(client, PREFIX);
+});
+
+afterEach(async () => {
+  await client.flushall();
+});
+
+describe('RedisStore duels', () => {
+  it('expires duels natively and lists only live ones', async () => {
+    await store.setDuel('duel-1', duel('duel-1'), HOUR_MS);
+    await store.setDuel('duel-2', duel('duel-2'), 20);
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    expect(await store.getDuel('duel-1')).toEqual(duel('duel-1'));
+    expect(await store.getDuel('duel-2')).toBeNull();
+    expect(await store.getAllDuels()).toEqual([duel('duel-1')]);
+  });
+
+  it('deletes a duel together with its index entry', async () => {
+    await store.setDuel('duel-1', duel('duel-1'), HOUR_MS);
+
+    expect(await store.deleteDuel('duel-1')).toBe(true);
+    expect(await store.hasDuel('duel-1')).toBe(false);
+    expect(await store.deleteDuel('duel-1')).toBe(false);
+    expect(await client.zcard(`${PREFIX}duels:by-expiry`)).toBe(0);
+  });
+
+  it('counts an expired duel once however often cleanup runs', async () => {
+    await store.setDuel('duel-1', duel('duel-1'), 20);
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    await store.cleanup();
+    await store.cleanup();
+
+    expect(await store.getStats()).toMatchObject({ activeDuels: 0, duelsCreated: 1, duelsExpired: 1 });
+  });
+});
+
+describe('RedisStore dust', () => {
+  it('adds concurrent increments without losing any', async () => {
+    await Promise.all(Array.from({ length: 20 }, () => store.accumulateDust('SOL', 5n)));
+
+    expect(await store.getDust('SOL')).toBe(100n);
+    expect(await store.getDust('USDC')).toBe(0n);
+  });
+
+  it('resets one token only', async () => {
+    await store.accumulateDust('SOL', 7n);
+    await store.accumulateDust('USDC', 3n);
+    await store.resetDust('SOL');
+
+    expect(await store.getDust('SOL')).toBe(0n);
+    expect(await store.getDust('USDC')).toBe(3n);
+  });
+});
+
+describe('RedisStore recovery lists', () => {
+  it('keeps pending and failed duels in separate sets', async () => {
+    await store.addPendingRecovery('duel-1');
+    await store.addPendingRecovery('duel-1');
+    await store.addFailedRecovery('duel-2');
+    await store.removePendingRecovery('duel-3');
+
+    expect(await store.getPendingRecovery()).toEqual(['duel-1']);
+    expect(await store.getFailedRecovery()).toEqual(['duel-2']);
+
+    await store.removeFailedRecovery('duel-2');
+    expect(await store.getFailedRecovery()).toEqual([]);
+  });
+});
+
+describe('RedisStore lock signatures', () => {
+  it('binds a signature once and returns the existing binding after that', async () => {
+    expect(await store.bindLockSignature(binding(), HOUR_MS)).toBeNull();
+    expect(await store.bindLockSignature(binding({ duelId: 'duel-2' }), HOUR_MS)).toEqual(binding());
+  });
+
+  it('stores each binding under its own key with the retention TTL', async () => {
+    await store.bindLockSignature(binding(), HOUR_MS);
+
+    const ttl = await client.pttl(`${PREFIX}lock-signature:sig-1`);
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(HOUR_MS);
+  });
+
+  it('lets a signature bind again once its binding expired', async () => {
+    await store.bindLockSignature(binding(), 20);
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    expect(await store.bindLockSignature(binding({ duelId: 'duel-2' }), HOUR_MS)).toBeNull();
+  });
+});
+
+describe('RedisStore spending authorizations', () => {
+  const authorization: SpendingAuthorization = {
+    authorizationId: 'a'.repeat(32),
+    playerStealthId: 'stealth-1',
+    token: 'SOL',
+    maxAmountPerTx: 1_000_000_000n,
+    maxDailySpend: 2_000_000_000n,
+    spentToday: 0n,
+    spendingDay: '2026-01-01',
+    fundedBalance: 995_000_000n,
+    createdAt: 1,
+    expiresAt: 2,
+    isActive: true,
+  };
+
+  it('round-trips bigint fields and lists live authorizations', async () => {
+    await store.setAuthorization(authorization, HOUR_MS);
+    await store.setAuthorization({ ...authorization, authorizationId: 'b'.repeat(32) }, 20);
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    expect(await store.getAuthorization(authorization.authorizationId)).toEqual(authorization);
+    expect(await store.getAllAuthorizations()).toEqual([authorization]);
+  });
+});
+
+describe('RedisStore settlement jobs', () => {
+  function job(overrides: Partial<SettlementJob> = {}): SettlementJob {
+    return {
+      jobId: 'job-1',
+      duelId: 'duel-1',
+      request: { kind: 'refund', reason: 'timeout' },
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: 3,
+      nextAttemptAt: 1,
+      createdAt: 1,
+      updatedAt: 1,
+      ...overrides,
+    };
+  }
+
+  it('indexes the active job per duel until it finishes', async () => {
+    await store.setJob(job(), HOUR_MS);
+    expect((await store.getActiveJob('duel-1'))?.jobId).toBe('job-1');
+    expect(await store.getActiveJob('duel-2')).toBeNull();
+
+    await store.setJob(job({ status: 'succeeded' }), HOUR_MS);
+    expect(await store.getActiveJob('duel-1')).toBeNull();
+    expect(await client.exists(`${PREFIX}job-active:duel-1`)).toBe(0);
+  });
+
+  it('leaves a newer job indexed when an older one finishes', async () => {
+    await store.setJob(job({ jobId: 'job-2' }), HOUR_MS);
+    await store.setJob(job({ status: 'dead_letter' }), HOUR_MS);
+
+    expect((await store.getActiveJob('duel-1'))?.jobId).toBe('job-2');
+  });
+});
+
+describe('RedisStore locks and nonces', () => {
+  it('releases a lock only for its owner', async () => {
+    expect(await store.acquireLock('duel:1', 'owner-a', HOUR_MS)).toBe(true);
+    expect(await store.acquireLock('duel:1', 'owner-b', HOUR_MS)).toBe(false);
+
+    await store.releaseLock('duel:1', 'owner-b');
+    expect(await store.acquireLock('duel:1', 'owner-b', HOUR_MS)).toBe(false);
+
+    await store.releaseLock('duel:1', 'owner-a');
+    expect(await store.acquireLock('duel:1', 'owner-b', HOUR_MS)).toBe(true);
+  });
+
+  it('claims a nonce once while it is live', async () => {
+    expect(await store.claimNonce('nonce-1', HOUR_MS)).toBe(true);
+    expect(await store.claimNonce('nonce-1', HOUR_MS)).toBe(false);
+  });
+});
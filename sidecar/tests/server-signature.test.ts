@@ -0,0 +1,108 @@
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getConfig, resetConfig } from '../src/config.js';
+import { setDuelStore } from '../src/services/duel-store.js';
+import { MemoryStore } from '../src/services/memory-store.js';
+import {
+  buildServerSignatureMessage,
+  serverSignatureVerifier,
+  type ServerAuthorizationClaim,
+  type ServerSignatureFailure,
+} from '../src/services/server-signature.js';
+
+const gameServer = nacl.sign.keyPair();
+const store = new MemoryStore();
+
+let nonceCount = 0;
+
+function claim(overrides: Partial<ServerAuthorizationClaim> = {}): ServerAuthorizationClaim {
+  return {
+    duelId: 'duel-1',
+    outcome: 'winner',
+    winnerStealthId: 'stealth-1',
+    timestamp: Date.now(),
+    nonce: `nonce-${String(++nonceCount).padStart(12, '0')}`,
+    ...overrides,
+  };
+}
+
+function sign(signed: ServerAuthorizationClaim, secretKey = gameServer.secretKey): string {
+  const message = Buffer.from(buildServerSignatureMessage(signed), 'utf8');
+  return bs58.encode(nacl.sign.detached(message, secretKey));
+}
+
+async function rejection(signed: ServerAuthorizationClaim, signature: string): Promise<ServerSignatureFailure> {
+  const error = await serverSignatureVerifier.verify(signed, signature).then(() => null, (error: unknown) => error);
+  expect(error).toMatchObject({ name: 'ServerSignatureError', code: 'INVALID_SERVER_SIGNATURE' });
+  return (error as { reason: ServerSignatureFailure }).reason;
+}
+
+beforeAll(async () => {
+  process.env.GAME_SERVER_PUBLIC_KEYS = `${bs58.encode(nacl.sign.keyPair().publicKey)},${bs58.encode(gameServer.publicKey)}`;
+  resetConfig();
+  await store.initialize();
+  setDuelStore(store);
+  serverSignatureVerifier.initialize();
+});
+
+afterAll(async () => {
+  setDuelStore(null);
+  await store.shutdown();
+});
+
+describe('verify', () => {
+  it('accepts a claim signed by any configured game server key', async () => {
+    const signed = claim();
+    const signature = sign(signed);
+
+    const authorization = await serverSignatureVerifier.verify(signed, signature);
+
+    expect(authorization).toEqual({
+      ...signed,
+      signature,
+      signerPublicKey: bs58.encode(gameServer.publicKey),
+      verified: true,
+    });
+  });
+
+  it('rejects a signature from an unknown key or over another claim', async () => {
+    const signed = claim();
+
+    expect(await rejection(signed, sign(signed, nacl.sign.keyPair().secretKey))).toBe('bad_signature');
+    expect(await rejection({ ...signed, winnerStealthId: 'stealth-2' }, sign(signed))).toBe('bad_signature');
+    expect(await rejection({ ...signed, outcome: 'refund_error', winnerStealthId: null }, sign(signed))).toBe('bad_signature');
+    expect(await rejection(signed, 'not-a-signature')).toBe('bad_signature');
+  });
+
+  it('rejects a timestamp outside the allowed window in either direction', async () => {
+    const window = getConfig().serverSignatureMaxAgeMs;
+    const old = claim({ timestamp: Date.now() - window - 1000 });
+    const future = claim({ timestamp: Date.now() + window + 1000 });
+
+    expect(await rejection(old, sign(old))).toBe('stale_timestamp');
+    expect(await rejection(future, sign(future))).toBe('stale_timestamp');
+  });
+
+  it('rejects a nonce that could be confused with the message separator', async () => {
+    const signed = claim({ nonce: 'short\nnonce-0000000000' });
+
+    expect(await rejection(signed, sign(signed))).toBe('invalid_nonce');
+  });
+
+  it('accepts each nonce once, even for another duel', async () => {
+    const signed = claim();
+    await serverSignatureVerifier.verify(signed, sign(signed));
+    const otherDuel = { ...signed, duelId: 'duel-2' };
+
+    expect(await rejection(signed, sign(signed))).toBe('nonce_reused');
+    expect(await rejection(otherDuel, sign(otherDuel))).toBe('nonce_reused');
+  });
+
+  it('does not use up the nonce of a rejected claim', async () => {
+    const signed = claim();
+    expect(await rejection(signed, sign(signed, nacl.sign.keyPair().secretKey))).toBe('bad_signature');
+
+    expect((await serverSignatureVerifier.verify(signed, sign(signed))).verified).toBe(true);
+  });
+});
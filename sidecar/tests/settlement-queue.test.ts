@@ -0,0 +1,165 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Amount } from '../src/services/amount.js';
+import { duelEscrowService } from '../src/services/duel-escrow.js';
+import { getDuelStore } from '../src/services/duel-store.js';
+import { expiryWorker } from '../src/services/expiry-worker.js';
+import { FakeLockVerifier, setLockVerifier } from '../src/services/lock-verifier.js';
+import { SettlementInProgressError, settlementQueue, type SettlementJob } from '../src/services/settlement-queue.js';
+import { getConfig } from '../src/config.js';
+import { DuelStatus, type DuelSession } from '../src/types/index.js';
+import { createActiveDuel, fundEscrow, serverAuthorization } from './helpers.js';
+
+const WAIT = { timeout: 10_000 };
+
+/**
+ * Accepts the lock proofs createActiveDuel reports
+ */
+class LockProofVerifier extends FakeLockVerifier {
+  override async verify(request: Parameters<FakeLockVerifier['verify']>[0]) {
+    this.accept(request.proof.txSignature);
+    return super.verify(request);
+  }
+}
+
+async function expire(duel: DuelSession): Promise<void> {
+  const expiresAt = Date.now() - getConfig().expiryGraceMs - 1000;
+  await getDuelStore().setDuel(duel.duelId, { ...duel, expiresAt }, 60_000);
+}
+
+async function settled(jobId: string): Promise<SettlementJob> {
+  let job: SettlementJob | null = null;
+  await vi.waitFor(async () => {
+    await settlementQueue.processDue();
+    job = await settlementQueue.getJob(jobId);
+    expect(['succeeded', 'rejected', 'dead_letter']).toContain(job?.status);
+  }, WAIT);
+  return job!;
+}
+
+beforeAll(async () => {
+  await duelEscrowService.initialize();
+  setLockVerifier(new LockProofVerifier());
+  expiryWorker.initialize();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+
+  // Drop jobs a test left queued so later tests only run their own
+  const store = getDuelStore();
+  for (const job of await store.getAllJobs()) {
+    if (job.status === 'queued') await store.setJob({ ...job, status: 'rejected' }, 60_000);
+  }
+});
+
+afterAll(async () => {
+  expiryWorker.shutdown();
+  await getDuelStore().shutdown();
+});
+
+describe('enqueue', () => {
+  beforeEach(() => {
+    // Keep jobs queued so the active-job checks are deterministic
+    vi.spyOn(settlementQueue, 'processDue').mockResolvedValue();
+  });
+
+  it('queues only one of two concurrent payouts for a duel', async () => {
+    const { duel } = await createActiveDuel();
+    const winner = duel.player1.stealthId;
+
+    const results = await Promise.allSettled([
+      settlementQueue.enqueue(duel.duelId, { kind: 'settle', winnerStealthId: winner }, serverAuthorization(duel.duelId, 'winner', winner)),
+      settlementQueue.enqueue(duel.duelId, { kind: 'settle_draw' }, serverAuthorization(duel.duelId, 'draw')),
+    ]);
+
+    const queued = results.filter(result => result.status === 'fulfilled');
+    const refused = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(queued).toHaveLength(1);
+    expect(refused).toHaveLength(1);
+    expect(refused[0]!.reason).toBeInstanceOf(SettlementInProgressError);
+  });
+
+  it('finds the active job through the index, not a scan', async () => {
+    const { duel } = await createActiveDuel();
+    const job = await settlementQueue.enqueue(duel.duelId, { kind: 'settle_draw' }, serverAuthorization(duel.duelId, 'draw'));
+    const scan = vi.spyOn(getDuelStore(), 'getAllJobs');
+
+    expect((await settlementQueue.findActiveJob(duel.duelId))?.jobId).toBe(job.jobId);
+    expect(scan).not.toHaveBeenCalled();
+  });
+
+  it('clears the index once the job finishes', async () => {
+    const { duel } = await createActiveDuel();
+    const job = await settlementQueue.enqueue(duel.duelId, { kind: 'settle_draw' }, serverAuthorization(duel.duelId, 'draw'));
+
+    await getDuelStore().setJob({ ...job, status: 'succeeded' }, 60_000);
+
+    expect(await settlementQueue.findActiveJob(duel.duelId)).toBeNull();
+  });
+});
+
+describe('expiry refunds', () => {
+  it('refunds an expired duel through the queue and records the outcome', async () => {
+    const { duel } = await createActiveDuel({ stake: '0.5' });
+    await fundEscrow(Amount.parse('SOL', '1'));
+    await expire(duel);
+
+    const [job] = await expiryWorker.sweep();
+    expect(job).toMatchObject({ duelId: duel.duelId, request: { kind: 'refund', reason: 'timeout' } });
+    expect(job!.authorization).toBeUndefined();
+
+    const finished = await settled(job!.jobId);
+    expect(finished.status).toBe('succeeded');
+    expect((await duelEscrowService.getDuel(duel.duelId))?.status).toBe(DuelStatus.REFUNDED);
+
+    await vi.waitFor(async () => {
+      const record = (await getDuelStore().getAutoRefunds()).find(entry => entry.duelId === duel.duelId);
+      expect(record).toMatchObject({
+        previousStatus: DuelStatus.ACTIVE,
+        lockedStealthIds: [duel.player1.stealthId, duel.player2.stealthId],
+        success: true,
+      });
+      expect(record!.refundTxSignatures).toHaveLength(2);
+    }, WAIT);
+  });
+
+  it('leaves a duel with a settlement in progress to that job', async () => {
+    vi.spyOn(settlementQueue, 'processDue').mockResolvedValue();
+    const { duel } = await createActiveDuel();
+    const job = await settlementQueue.enqueue(duel.duelId, { kind: 'settle_draw' }, serverAuthorization(duel.duelId, 'draw'));
+    await expire(duel);
+
+    const queued = await expiryWorker.sweep();
+
+    expect(queued.map(entry => entry.duelId)).not.toContain(duel.duelId);
+    expect((await settlementQueue.findActiveJob(duel.duelId))?.jobId).toBe(job.jobId);
+  });
+
+  it('retries a failed refund instead of recording it', async () => {
+    const { duel } = await createActiveDuel({ stake: '1000' });
+    await expire(duel);
+
+    const [job] = await expiryWorker.sweep();
+    await vi.waitFor(async () => {
+      await settlementQueue.processDue();
+      const current = await settlementQueue.getJob(job!.jobId);
+      expect(current).toMatchObject({ status: 'queued', attempts: 1 });
+    }, WAIT);
+
+    expect((await duelEscrowService.getDuel(duel.duelId))?.status).toBe(DuelStatus.FAILED);
+    expect((await getDuelStore().getAutoRefunds()).map(entry => entry.duelId)).not.toContain(duel.duelId);
+    expect(await getDuelStore().getFailedRecovery()).not.toContain(duel.duelId);
+  });
+
+  it('does not retry a refund of a duel being settled as a win', async () => {
+    const { duel } = await createActiveDuel({ stake: '1000' });
+    const winner = duel.player1.stealthId;
+    await duelEscrowService.settleDuel(duel.duelId, winner, undefined, serverAuthorization(duel.duelId, 'winner', winner));
+
+    const job = await settlementQueue.enqueue(duel.duelId, { kind: 'refund', reason: 'error' }, serverAuthorization(duel.duelId, 'refund_error'));
+    const finished = await settled(job.jobId);
+
+    expect(finished).toMatchObject({ status: 'rejected', attempts: 1, lastError: 'Duel is being settled as a win' });
+    expect((await duelEscrowService.getDuel(duel.duelId))?.outcome).toBe('win');
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Test environment: fresh pool keypairs, mock transfers, in-memory store
+ * and audit/anchor logs in a temporary directory. Runs before each test
+ * file is imported, so config picks these up on first use.
+ */
+
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+const secret = () => bs58.encode(Keypair.generate().secretKey);
+const dataDir = mkdtempSync(join(tmpdir(), 'alerith-sidecar-test-'));
+
+Object.assign(process.env, {
+  NODE_ENV: 'test',
+  SOLANA_NETWORK: 'devnet',
+  // Nothing listens here; tests that anchor commitments run their own RPC
+  SOLANA_RPC_URL: 'http://127.0.0.1:9',
+  ESCROW_WALLET_SECRET: secret(),
+  TREASURY_WALLET_SECRET: secret(),
+  SERVER_AUTHORITY_SECRET: secret(),
+  WALLET_PEPPER: 'p'.repeat(40),
+  INTERNAL_API_KEY: 'i'.repeat(40),
+  TRANSFER_PROVIDER: 'mock',
+  STORE_BACKEND: 'memory',
+  STORE_FILE_PATH: join(dataDir, 'duel-store.log'),
+  AUDIT_LOG_PATH: join(dataDir, 'audit-log.jsonl'),
+  ANCHOR_LOG_PATH: join(dataDir, 'anchor-log.jsonl'),
+});
@@ -0,0 +1,279 @@
+import { randomBytes } from 'crypto';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import request from 'supertest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Amount } from '../src/services/amount.js';
+import { duelEscrowService } from '../src/services/duel-escrow.js';
+import { getDuelStore } from '../src/services/duel-store.js';
+import { feeSchedule } from '../src/services/fee-schedule.js';
+import { EscrowBalanceLockVerifier, FakeLockVerifier, setLockVerifier } from '../src/services/lock-verifier.js';
+import {
+  buildAuthorizeMessage,
+  buildRevokeMessage,
+  spendingAuthorizationService,
+} from '../src/services/spending-authorization.js';
+import { createServer } from '../src/server.js';
+import { fundEscrow, mockProvider, randomWallet } from './helpers.js';
+
+const ONE_SOL = Amount.parse('SOL', '1');
+const INTERNAL_SECRET = 'i'.repeat(40);
+
+function sign(keypair: Keypair, message: string): string {
+  return bs58.encode(nacl.sign.detached(Buffer.from(message), keypair.secretKey));
+}
+
+async function authorize(
+  keypair: Keypair,
+  limits = { token: 'SOL', maxAmountPerTx: '2000000000', maxDailySpend: '3000000000' }
+) {
+  const params = {
+    playerWallet: keypair.publicKey.toBase58(),
+    ...limits,
+    validForSeconds: 3600,
+    issuedAt: Date.now(),
+  };
+  const message = buildAuthorizeMessage(params);
+  const result = await spendingAuthorizationService.authorize({ ...params, message, signedMessage: sign(keypair, message) });
+  if (!result.success) throw new Error(`authorize failed: ${result.error}`);
+  return result.authorizationId!;
+}
+
+function revokeRequest(keypair: Keypair, authorizationId: string, issuedAt = Date.now()) {
+  const params = { authorizationId, issuedAt, nonce: randomBytes(16).toString('hex') };
+  return {
+    ...params,
+    playerWallet: keypair.publicKey.toBase58(),
+    signedMessage: sign(keypair, buildRevokeMessage(params)),
+  };
+}
+
+async function createDuelFor(player1Wallet: string, stake = '1', token = 'SOL') {
+  const result = await duelEscrowService.createDuel({
+    player1Wallet,
+    player2Wallet: randomWallet(),
+    player1CharacterId: 'char-1',
+    player2CharacterId: 'char-2',
+    player1Name: 'Alpha',
+    player2Name: 'Bravo',
+    player1StakeAmount: stake,
+    player2StakeAmount: stake,
+    token,
+  });
+  return result.duel!;
+}
+
+let verifier: FakeLockVerifier;
+
+beforeAll(async () => {
+  await duelEscrowService.initialize();
+});
+
+beforeEach(() => {
+  verifier = new FakeLockVerifier();
+  setLockVerifier(verifier);
+});
+
+afterAll(async () => {
+  await getDuelStore().shutdown();
+});
+
+describe('funding', () => {
+  it('credits a verified transfer net of the deposit fee', async () => {
+    const player = Keypair.generate();
+    const authorizationId = await authorize(player);
+    verifier.accept('fund-tx');
+
+    const result = await spendingAuthorizationService.fund({
+      authorizationId,
+      playerWallet: player.publicKey.toBase58(),
+      amount: ONE_SOL.units.toString(),
+      paymentProof: 'fund-tx',
+    });
+
+    const credited = feeSchedule.deposited(ONE_SOL).units.toString();
+    expect(result).toEqual({ success: true, credited, fundedBalance: credited });
+    expect(verifier.requests[0]!.resource).toBe(`Authorization:${authorizationId}`);
+    expect((await spendingAuthorizationService.describe(authorizationId)).authorization!.fundedBalance).toBe(credited);
+  });
+
+  it('rejects unverified transfers and signatures used before', async () => {
+    const player = Keypair.generate();
+    const playerWallet = player.publicKey.toBase58();
+    const authorizationId = await authorize(player);
+    verifier.accept('fund-once').reject('fund-missing');
+    const fund = (paymentProof: string) =>
+      spendingAuthorizationService.fund({ authorizationId, playerWallet, amount: '1000000000', paymentProof });
+
+    expect((await fund('fund-missing')).error).toBe('Funding transfer not verified: Transfer not found');
+    expect((await fund('fund-once')).success).toBe(true);
+    expect((await fund('fund-once')).error).toBe('Transaction already credited to this authorization');
+
+    // A funding transfer can never also lock a stake
+    const duel = await createDuelFor(playerWallet);
+    expect((await duelEscrowService.lockStakeWithProof(duel.duelId, playerWallet, 'fund-once')).error)
+      .toBe('Transaction already used to lock another stake');
+  });
+
+  it('only credits the owner\'s authorization', async () => {
+    const authorizationId = await authorize(Keypair.generate());
+    verifier.accept('fund-other');
+
+    const result = await spendingAuthorizationService.fund({
+      authorizationId,
+      playerWallet: randomWallet(),
+      amount: '1000000000',
+      paymentProof: 'fund-other',
+    });
+
+    expect(result).toEqual({ success: false, error: 'Authorization not found' });
+  });
+
+  it('counts funded balances as held by escrow', async () => {
+    // USD1, so the SOL balances funded by other tests are not owed
+    const tenUsd = Amount.parse('USD1', '10');
+    setLockVerifier(new EscrowBalanceLockVerifier());
+    mockProvider().clearBalances();
+    const player = Keypair.generate();
+    const playerWallet = player.publicKey.toBase58();
+    const authorizationId = await authorize(player, { token: 'USD1', maxAmountPerTx: '10000000', maxDailySpend: '10000000' });
+    await fundEscrow(feeSchedule.deposited(tenUsd));
+
+    const funded = await spendingAuthorizationService.fund({
+      authorizationId,
+      playerWallet,
+      amount: tenUsd.units.toString(),
+      paymentProof: 'fund-balance',
+    });
+    expect(funded.success).toBe(true);
+
+    // The same escrow funds cannot also back a stake lock
+    const duel = await createDuelFor(playerWallet, '10', 'USD1');
+    const lock = await duelEscrowService.lockStakeWithProof(duel.duelId, playerWallet, 'lock-on-funded');
+    expect(lock.success).toBe(false);
+    expect(lock.error).toMatch(/does not cover/);
+  });
+});
+
+describe('authorized locks', () => {
+  async function fundedAuthorization(amount: Amount = ONE_SOL) {
+    const player = Keypair.generate();
+    const playerWallet = player.publicKey.toBase58();
+    const authorizationId = await authorize(player);
+    const paymentProof = `fund-${authorizationId}`;
+    verifier.accept(paymentProof);
+    await spendingAuthorizationService.fund({
+      authorizationId,
+      playerWallet,
+      amount: amount.units.toString(),
+      paymentProof,
+    });
+    return { player, playerWallet, authorizationId };
+  }
+
+  it('lock without a transfer, drawing the deposit from the funded balance', async () => {
+    const { playerWallet, authorizationId } = await fundedAuthorization(Amount.parse('SOL', '3'));
+    const duel = await createDuelFor(playerWallet);
+
+    const result = await duelEscrowService.lockStakeWithAuthorization(duel.duelId, playerWallet, authorizationId);
+
+    expect(result).toEqual({ success: true, txSignature: `authorization:${authorizationId}`, bothLocked: false });
+    expect(verifier.requests.map(request => request.resource)).toEqual([`Authorization:${authorizationId}`]);
+
+    const locked = (await duelEscrowService.getDuel(duel.duelId))!.player1;
+    expect(locked.stakeLocked).toBe(true);
+    expect(locked.authorizationId).toBe(authorizationId);
+
+    const { authorization } = await spendingAuthorizationService.describe(authorizationId);
+    const remaining = feeSchedule.deposited(Amount.parse('SOL', '3')).minus(feeSchedule.deposited(ONE_SOL));
+    expect(authorization!.fundedBalance).toBe(remaining.units.toString());
+    expect(authorization!.spentToday).toBe(ONE_SOL.units.toString());
+  });
+
+  it('refuses a lock the funded balance does not cover and leaves a proof lock possible', async () => {
+    const { playerWallet, authorizationId } = await fundedAuthorization(Amount.parse('SOL', '0.5'));
+    const duel = await createDuelFor(playerWallet);
+
+    const refused = await duelEscrowService.lockStakeWithAuthorization(duel.duelId, playerWallet, authorizationId);
+    expect(refused).toEqual({ success: false, error: 'Stake exceeds funded authorization balance' });
+
+    const { authorization } = await spendingAuthorizationService.describe(authorizationId);
+    expect(authorization!.spentToday).toBe('0');
+
+    verifier.accept('direct-transfer');
+    expect((await duelEscrowService.lockStakeWithProof(duel.duelId, playerWallet, 'direct-transfer')).success).toBe(true);
+  });
+
+  it('enforces the per-duel limit without touching the balance', async () => {
+    const { playerWallet, authorizationId } = await fundedAuthorization(Amount.parse('SOL', '3'));
+    const duel = await createDuelFor(playerWallet, '2.5');
+
+    const refused = await duelEscrowService.lockStakeWithAuthorization(duel.duelId, playerWallet, authorizationId);
+
+    expect(refused).toEqual({ success: false, error: 'Stake exceeds per-duel authorization limit' });
+    const { authorization } = await spendingAuthorizationService.describe(authorizationId);
+    expect(authorization!.fundedBalance).toBe(feeSchedule.deposited(Amount.parse('SOL', '3')).units.toString());
+  });
+
+  it('revoking returns the funded balance to the wallet', async () => {
+    const { player, playerWallet, authorizationId } = await fundedAuthorization();
+    await fundEscrow(feeSchedule.deposited(ONE_SOL));
+
+    const result = await spendingAuthorizationService.revoke(revokeRequest(player, authorizationId));
+
+    const returned = feeSchedule.deposited(ONE_SOL);
+    expect(result.success).toBe(true);
+    expect(result.returnedAmount).toBe(returned.units.toString());
+    expect((await mockProvider().getBalance(playerWallet, 'SOL')).balance!.eq(returned)).toBe(true);
+
+    const duel = await createDuelFor(playerWallet);
+    expect((await duelEscrowService.lockStakeWithAuthorization(duel.duelId, playerWallet, authorizationId)).error)
+      .toBe('Authorization is revoked or expired');
+  });
+
+  it('keeps the balance when returning it fails, so revoke can be retried', async () => {
+    const { player, authorizationId } = await fundedAuthorization();
+    mockProvider().clearBalances();
+    const revoke = () => spendingAuthorizationService.revoke(revokeRequest(player, authorizationId));
+
+    const failed = await revoke();
+    expect(failed.success).toBe(false);
+    expect(failed.error).toMatch(/revoke again to retry/);
+
+    await fundEscrow(feeSchedule.deposited(ONE_SOL));
+    expect((await revoke()).returnedAmount).toBe(feeSchedule.deposited(ONE_SOL).units.toString());
+  });
+
+  it('accepts a signed revoke once and only while it is fresh', async () => {
+    const { player, authorizationId } = await fundedAuthorization();
+    const stale = revokeRequest(player, authorizationId, Date.now() - 10 * 60 * 1000);
+    const signed = revokeRequest(player, authorizationId);
+    await fundEscrow(feeSchedule.deposited(ONE_SOL));
+
+    expect(await spendingAuthorizationService.revoke(stale))
+      .toEqual({ success: false, error: 'Revoke message has expired, sign a new one' });
+    expect((await spendingAuthorizationService.revoke(signed)).success).toBe(true);
+    expect(await spendingAuthorizationService.revoke(signed))
+      .toEqual({ success: false, error: 'Revoke message was already used' });
+  });
+});
+
+describe('POST /api/v1/duel/lock-stake', () => {
+  it('takes exactly one of paymentProof and authorizationId', async () => {
+    const app = createServer();
+    const playerWallet = randomWallet();
+    const duel = await createDuelFor(playerWallet);
+    const post = (body: object) => request(app)
+      .post('/api/v1/duel/lock-stake')
+      .set('X-Internal-Secret', INTERNAL_SECRET)
+      .send({ duelId: duel.duelId, playerWallet, ...body });
+
+    expect((await post({})).status).toBe(400);
+    expect((await post({ paymentProof: 'tx', authorizationId: 'a'.repeat(32) })).status).toBe(400);
+
+    const authorized = await post({ authorizationId: 'a'.repeat(32) });
+    expect(authorized.status).toBe(200);
+    expect(authorized.body.error).toBe('Authorization not found');
+  });
+});
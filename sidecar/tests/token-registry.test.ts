@@ -0,0 +1,87 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getConfig, resetConfig, type TokenConfig } from '../src/config.js';
+import { Amount } from '../src/services/amount.js';
+import { tokenRegistry } from '../src/services/token-registry.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'tokens-'));
+
+function token(overrides: Partial<TokenConfig> = {}): TokenConfig {
+  return {
+    symbol: 'BONK',
+    mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+    decimals: 5,
+    shadowWireMinimum: '1000000',
+    safetyMarginPercent: 10,
+    maxStake: '50000000',
+    feePercent: 0.5,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+/**
+ * Point config at a registry file holding `tokens`
+ */
+function useRegistry(tokens: unknown[], extraEnv: Record<string, string> = {}): void {
+  const path = join(dir, `tokens-${Math.random().toString(36).slice(2)}.json`);
+  writeFileSync(path, JSON.stringify({ tokens }));
+  Object.assign(process.env, { TOKEN_REGISTRY_PATH: path, ...extraEnv });
+  resetConfig();
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete process.env.TOKEN_REGISTRY_PATH;
+  delete process.env.HOUSE_FEE_TIERS;
+  resetConfig();
+});
+
+describe('tokenRegistry', () => {
+  it('derives minimums from the ShadowWire minimum plus the safety margin, rounded up', () => {
+    useRegistry([token(), token({ symbol: 'SOL', mint: null, decimals: 9, shadowWireMinimum: '0.1', maxStake: null })]);
+
+    expect(tokenRegistry.minimum('BONK').toDecimal()).toBe('1100000');
+    expect(tokenRegistry.minimum('SOL').toDecimal()).toBe('0.11');
+    expect(tokenRegistry.maxStake('BONK')?.units).toBe(5_000_000_000_000n);
+    expect(tokenRegistry.maxStake('SOL')).toBeNull();
+    expect(tokenRegistry.mint('SOL')).toBeNull();
+    expect(Amount.parse('BONK', '1.5').units).toBe(150_000n);
+  });
+
+  it('keeps a disabled token for existing duels but not for new ones', () => {
+    useRegistry([token(), token({ symbol: 'OLD', enabled: false })]);
+
+    expect(tokenRegistry.enabledSymbols).toEqual(['BONK']);
+    expect(tokenRegistry.symbols).toEqual(['BONK', 'OLD']);
+    expect(tokenRegistry.isEnabled('OLD')).toBe(false);
+    expect(tokenRegistry.feePercent('OLD')).toBe(0.5);
+    expect(tokenRegistry.isEnabled('NOPE')).toBe(false);
+    expect(() => tokenRegistry.feePercent('NOPE')).toThrow('Unsupported token: NOPE');
+  });
+
+  it.each<[string, unknown[], Record<string, string>, string]>([
+    ['duplicate symbols', [token(), token()], {}, 'Token symbols must be unique'],
+    ['no enabled token', [token({ enabled: false })], {}, 'At least one token must be enabled'],
+    ['a minimum finer than the token', [token({ decimals: 2, shadowWireMinimum: '0.001' })], {}, 'shadowWireMinimum has more decimal places'],
+    ['a float amount', [{ ...token(), maxStake: 5 }], {}, 'maxStake'],
+    ['a malformed mint', [token({ mint: 'not-a-mint' })], {}, 'Mint must be a base58 address'],
+    ['a fee tier for an unknown token', [token()], { HOUSE_FEE_TIERS: 'SOL:10=1' }, 'HOUSE_FEE_TIERS: SOL is not in the token registry'],
+  ])('refuses a registry with %s', (_, tokens, extraEnv, reason) => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    useRegistry(tokens, extraEnv);
+
+    expect(() => getConfig()).toThrow('Invalid configuration. Check the token registry.');
+    expect(logged.mock.calls.flat().join('\n')).toContain(reason);
+  });
+
+  it('refuses a registry file that cannot be read', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    process.env.TOKEN_REGISTRY_PATH = join(dir, 'missing.json');
+    resetConfig();
+
+    expect(() => getConfig()).toThrow('Invalid configuration. Check the token registry.');
+  });
+});
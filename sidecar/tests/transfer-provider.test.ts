@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getConfig, resetConfig } from '../src/config.js';
+import { Amount } from '../src/services/amount.js';
+import { MockTransferProvider } from '../src/services/mock-transfer.js';
+import { DirectTransferProvider } from '../src/services/shadowwire-direct.js';
+import { createTransferProvider, transferFeeInfo } from '../src/services/transfer-provider.js';
+import { randomWallet } from './helpers.js';
+
+// The prover never loads, as when the WASM files are missing
+vi.mock('../src/wasm/settler-wasm-loader.mjs', () => ({
+  getWasmModule: vi.fn().mockRejectedValue(new Error('settler_wasm_bg.wasm not found')),
+  generateRangeProof: vi.fn(),
+}));
+
+const env = { ...process.env };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  for (const key of ['NODE_ENV', 'SOLANA_NETWORK', 'TRANSFER_PROVIDER'] as const) {
+    process.env[key] = env[key];
+  }
+  resetConfig();
+});
+
+describe('createTransferProvider', () => {
+  it.each(['direct', 'sdk', 'mock'] as const)('creates the %s provider', (kind) => {
+    expect(createTransferProvider({ ...getConfig(), TRANSFER_PROVIDER: kind }).name).toBe(kind);
+  });
+
+  it.each([
+    ['on mainnet-beta', { SOLANA_NETWORK: 'mainnet-beta' }],
+    ['in production', { NODE_ENV: 'production' }],
+  ])('refuses the mock provider %s', (_, overrides) => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    Object.assign(process.env, { TRANSFER_PROVIDER: 'mock', ...overrides });
+    resetConfig();
+
+    expect(() => getConfig()).toThrow();
+    expect(logged.mock.calls.flat().join('\n')).toContain('TRANSFER_PROVIDER=mock is only allowed on devnet outside production');
+  });
+
+  it('takes fees and minimums from the token registry', () => {
+    expect(transferFeeInfo('USD1')).toMatchObject({ token: 'USD1', feePercent: 1 });
+    expect(transferFeeInfo('USD1').minimum.toDecimal()).toBe('5.5');
+  });
+});
+
+describe('DirectTransferProvider', () => {
+  it('reports a failed payout when the prover cannot load instead of falling back to mock', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fetch = vi.spyOn(globalThis, 'fetch');
+    const provider = new DirectTransferProvider();
+    await provider.initialize();
+
+    const result = await provider.transferFromEscrow(randomWallet(), Amount.parse('SOL', '1'));
+
+    expect(result).toEqual({ success: false, error: 'WASM initialization failed: settler_wasm_bg.wasm not found' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('MockTransferProvider', () => {
+  it('moves exact amounts out of escrow and refuses to overdraw it', async () => {
+    const provider = new MockTransferProvider();
+    await provider.initialize();
+    const recipient = randomWallet();
+    provider.seedBalance(provider.getEscrowWallet(), Amount.parse('SOL', '1'));
+
+    expect((await provider.transferFromEscrow(recipient, Amount.parse('SOL', '0.3'))).success).toBe(true);
+    expect(await provider.transferFromEscrow(recipient, Amount.parse('SOL', '0.700000001'))).toEqual({ success: false, error: 'Insufficient balance' });
+
+    expect((await provider.getBalance(recipient, 'SOL')).balance?.toDecimal()).toBe('0.3');
+    expect((await provider.getBalance(provider.getEscrowWallet(), 'SOL')).balance?.toDecimal()).toBe('0.7');
+    expect((await provider.getBalance(recipient, 'USD1')).balance?.isZero()).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import { randomBytes } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfig } from '../src/config.js';
+import { createDuelStore, type DuelStore } from '../src/services/duel-store.js';
+import { generateStealthId } from '../src/services/stealth.js';
+import { randomWallet } from './helpers.js';
+
+const VAULT_KEY = randomBytes(32).toString('hex');
+const HOUR_MS = 60 * 60 * 1000;
+
+let store: DuelStore;
+
+/**
+ * A fresh vault (the singleton reads WALLET_VAULT_KEY once) over the test store
+ */
+async function loadVault(key: string | null = VAULT_KEY) {
+  vi.resetModules();
+  if (key === null) {
+    delete process.env.WALLET_VAULT_KEY;
+  } else {
+    process.env.WALLET_VAULT_KEY = key;
+  }
+  const { setDuelStore } = await import('../src/services/duel-store.js');
+  setDuelStore(store);
+  const { walletVault } = await import('../src/services/wallet-vault.js');
+  walletVault.initialize();
+  return walletVault;
+}
+
+beforeEach(async () => {
+  store = createDuelStore(getConfig());
+  await store.initialize();
+});
+
+afterEach(async () => {
+  delete process.env.WALLET_VAULT_KEY;
+  await store.shutdown();
+});
+
+describe('walletVault', () => {
+  it('opens the wallets it sealed and stores none of them in the clear', async () => {
+    const vault = await loadVault();
+    const wallets = [randomWallet(), randomWallet()];
+
+    await vault.seal('duel-1', wallets, HOUR_MS);
+
+    expect(await vault.open('duel-1', generateStealthId(wallets[0]!))).toBe(wallets[0]);
+    expect(await vault.open('duel-1', generateStealthId(wallets[1]!))).toBe(wallets[1]);
+    expect(await vault.open('duel-1', generateStealthId(randomWallet()))).toBeUndefined();
+    expect(await vault.open('duel-2', generateStealthId(wallets[0]!))).toBeUndefined();
+
+    const stored = JSON.stringify(await store.getVaultEntry('duel-1'));
+    expect(stored).not.toContain(wallets[0]);
+    expect(stored).not.toContain(wallets[1]);
+  });
+
+  it('does not open wallets sealed under another key', async () => {
+    const wallet = randomWallet();
+    await (await loadVault()).seal('duel-1', [wallet], HOUR_MS);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const otherVault = await loadVault(randomBytes(32).toString('hex'));
+
+    expect(await otherVault.open('duel-1', generateStealthId(wallet))).toBeUndefined();
+  });
+
+  it('does not open a sealed wallet moved to another duel', async () => {
+    const vault = await loadVault();
+    const wallet = randomWallet();
+    await vault.seal('duel-1', [wallet], HOUR_MS);
+    await vault.seal('duel-2', [randomWallet()], HOUR_MS);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const moved = (await store.getVaultEntry('duel-1'))!.wallets;
+    await store.setVaultEntry({ ...(await store.getVaultEntry('duel-2'))!, wallets: moved }, HOUR_MS);
+
+    expect(await vault.open('duel-2', generateStealthId(wallet))).toBeUndefined();
+  });
+
+  it('does not open a sealed wallet moved to another stealth ID', async () => {
+    const vault = await loadVault();
+    const wallets = [randomWallet(), randomWallet()];
+    await vault.seal('duel-1', wallets, HOUR_MS);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const entry = (await store.getVaultEntry('duel-1'))!;
+    const [first, second] = entry.wallets;
+    const swapped = [
+      { ...first!, stealthId: second!.stealthId },
+      { ...second!, stealthId: first!.stealthId },
+    ];
+    await store.setVaultEntry({ ...entry, wallets: swapped }, HOUR_MS);
+
+    expect(await vault.open('duel-1', generateStealthId(wallets[0]!))).toBeUndefined();
+    expect(await vault.open('duel-1', generateStealthId(wallets[1]!))).toBeUndefined();
+  });
+
+  it('forgets discarded wallets', async () => {
+    const vault = await loadVault();
+    const wallet = randomWallet();
+    await vault.seal('duel-1', [wallet], HOUR_MS);
+
+    await vault.discard('duel-1');
+
+    expect(await vault.open('duel-1', generateStealthId(wallet))).toBeUndefined();
+    expect(await store.getVaultEntry('duel-1')).toBeNull();
+  });
+
+  it('stores nothing without WALLET_VAULT_KEY', async () => {
+    const vault = await loadVault(null);
+    const wallet = randomWallet();
+
+    await vault.seal('duel-1', [wallet], HOUR_MS);
+
+    expect(vault.isEnabled).toBe(false);
+    expect(await store.getVaultEntry('duel-1')).toBeNull();
+    expect(await vault.open('duel-1', generateStealthId(wallet))).toBeUndefined();
+  });
+});
@@ -0,0 +1,146 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetConfig } from '../src/config.js';
+import { duelLifecycle } from '../src/services/duel-state-machine.js';
+import { setDuelStore } from '../src/services/duel-store.js';
+import { MemoryStore } from '../src/services/memory-store.js';
+import { verifyWebhookSignature, webhookDispatcher } from '../src/services/webhooks.js';
+import { DuelStatus, type DuelSession, type WebhookPayload } from '../src/types/index.js';
+
+const SECRET = 'w'.repeat(40);
+const WAIT = { timeout: 5_000, interval: 20 };
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+let server: Server;
+let received: Received[];
+let statuses: number[];
+let store: MemoryStore;
+
+function payload(overrides: Partial<WebhookPayload> = {}): WebhookPayload {
+  return {
+    eventId: 'event-1',
+    type: 'duel.settled',
+    occurredAt: Date.now(),
+    duelId: 'duel-1',
+    data: {},
+    ...overrides,
+  } as WebhookPayload;
+}
+
+function activeDuel(): DuelSession {
+  const player = (stealthId: string) => ({ stealthId, characterId: 'char', characterName: 'Name', stakeAmount: 1n, stakeLocked: true });
+  return {
+    duelId: 'duel-1',
+    status: DuelStatus.ACTIVE,
+    token: 'SOL',
+    player1: player('stealth-1'),
+    player2: player('stealth-2'),
+    expiresAt: Date.now() + 60_000,
+    updatedAt: Date.now(),
+  } as DuelSession;
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end(res.statusCode < 300 ? '' : 'receiver down');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  Object.assign(process.env, {
+    WEBHOOK_URLS: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`,
+    WEBHOOK_SECRET: SECRET,
+    WEBHOOK_MAX_ATTEMPTS: '2',
+    WEBHOOK_RETRY_BASE_SECONDS: '0.01',
+  });
+  resetConfig();
+});
+
+beforeEach(async () => {
+  received = [];
+  statuses = [];
+  store = new MemoryStore();
+  await store.initialize();
+  setDuelStore(store);
+  webhookDispatcher.initialize();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  webhookDispatcher.shutdown();
+  setDuelStore(null);
+  await store.shutdown();
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('webhookDispatcher', () => {
+  it('sends the payload signed over its timestamp and body', async () => {
+    const [delivery] = await webhookDispatcher.enqueue(payload());
+
+    await vi.waitFor(async () => {
+      expect((await webhookDispatcher.getDelivery(delivery!.deliveryId))?.status).toBe('delivered');
+    }, WAIT);
+
+    const [{ headers, body }] = received as [Received];
+    const timestamp = Number(headers['x-webhook-timestamp']);
+    const signature = headers['x-webhook-signature'] as string;
+    expect(JSON.parse(body)).toEqual(payload({ occurredAt: JSON.parse(body).occurredAt }));
+    expect(headers).toMatchObject({ 'x-webhook-id': delivery!.deliveryId, 'x-webhook-event': 'duel.settled' });
+    expect(verifyWebhookSignature(body, timestamp, signature, SECRET)).toBe(true);
+    expect(verifyWebhookSignature(body, timestamp + 1, signature, SECRET)).toBe(false);
+    expect(verifyWebhookSignature(body.replace('duel-1', 'duel-2'), timestamp, signature, SECRET)).toBe(false);
+  });
+
+  it('retries a failed delivery, gives up after the last attempt and can send it again', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    statuses = [503, 500];
+    const [delivery] = await webhookDispatcher.enqueue(payload());
+
+    await vi.waitFor(async () => {
+      await webhookDispatcher.processDue();
+      expect(await webhookDispatcher.getDelivery(delivery!.deliveryId)).toMatchObject({
+        status: 'failed',
+        attempts: 2,
+        lastStatusCode: 500,
+        lastError: 'HTTP 500: receiver down',
+      });
+    }, WAIT);
+    expect(new Set(received.map(request => request.headers['x-webhook-id']))).toEqual(new Set([delivery!.deliveryId]));
+
+    expect(await webhookDispatcher.redeliver(delivery!.deliveryId)).toMatchObject({ status: 'pending', attempts: 0 });
+    await vi.waitFor(async () => {
+      expect((await webhookDispatcher.getDelivery(delivery!.deliveryId))?.status).toBe('delivered');
+    }, WAIT);
+    expect(received).toHaveLength(3);
+  });
+
+  it('announces lifecycle transitions with stealth IDs only', async () => {
+    const duel = activeDuel();
+    duelLifecycle.publish({ duelId: duel.duelId, from: DuelStatus.PENDING_STAKES, to: DuelStatus.ACTIVE, reason: 'both_locked', duel, timestamp: Date.now() });
+    duelLifecycle.publish({ duelId: duel.duelId, from: DuelStatus.ACTIVE, to: DuelStatus.PENDING_SETTLEMENT, reason: 'settling', duel, timestamp: Date.now() });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1), WAIT);
+
+    const sent = JSON.parse(received[0]!.body) as WebhookPayload;
+    expect(sent).toMatchObject({
+      type: 'duel.both_locked',
+      duelId: duel.duelId,
+      data: { reason: 'both_locked', duel: { player1StealthId: 'stealth-1', player2StealthId: 'stealth-2', player1StakeLamports: '1' } },
+    });
+    expect(await webhookDispatcher.listDeliveries({ duelId: duel.duelId })).toHaveLength(1);
+  });
+});